@@ -1,58 +1,195 @@
 import React, { useState, useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { Heart, MessageCircle, BarChart3, Plus, Menu, X } from 'lucide-react';
+import { BrowserRouter as Router, Routes, Route, Link, useLocation, useSearchParams } from 'react-router-dom';
+import { Heart, MessageCircle, BarChart3, Plus, Upload, Menu, X, Pencil, Trash2, Check, LogOut, Bell, Flag, FlagOff, User as UserIcon } from 'lucide-react';
+import AuthForm from './components/AuthForm';
 import ChatBot from './components/ChatBot';
 import HealthMetricsForm from './components/HealthMetricsForm';
 import HealthDashboard from './components/HealthDashboard';
-import { healthAPI, checkServerHealth } from './services/api';
-import { HealthMetric } from './types';
+import UnitPreferences from './components/UnitPreferences';
+import ProfilePreferences from './components/ProfilePreferences';
+import ClassificationBadge from './components/ClassificationBadge';
+import CsvImport from './components/CsvImport';
+import AppleHealthImport from './components/AppleHealthImport';
+import DataExport from './components/DataExport';
+import MetricDefinitionManager from './components/MetricDefinitionManager';
+import AlertRuleManager from './components/AlertRuleManager';
+import GoalTracker from './components/GoalTracker';
+import NotificationCenter from './components/NotificationCenter';
+import ReminderScheduleManager from './components/ReminderScheduleManager';
+import { format, subDays } from 'date-fns';
+import { healthAPI, authAPI, metricDefinitionsAPI, alertsAPI, goalsAPI, remindersAPI, checkServerHealth, getAuthToken, setUnauthorizedHandler } from './services/api';
+import { HealthMetric, HealthDataQuery, User, DisplayUnits, MetricDefinition, HealthAlert, Goal, Reminder } from './types';
+import { formatMetric, getMetricDisplayName, parseBloodPressure, saveConfirmingAnomalies } from './utils/helpers';
+import { getDisplayUnit, getValueInUnit, roundForUnit } from './utils/units';
+import { BUILT_IN_METRIC_DEFINITIONS, getMetricDefinition } from './utils/metricDefinitions';
+
+// The home and dashboard views only show recent history, so only that window is loaded
+const HISTORY_WINDOW_DAYS = 90;
+const HISTORY_LIMIT = 500;
+// Reminders fall due at set times, so they are fetched again every minute
+const REMINDER_POLL_MS = 60 * 1000;
+
+const getHistoryQuery = (): HealthDataQuery => ({
+  from: subDays(new Date(), HISTORY_WINDOW_DAYS),
+  order: 'desc',
+  limit: HISTORY_LIMIT,
+});
 
 function App() {
+  const [user, setUser] = useState<User | null>(null);
   const [healthData, setHealthData] = useState<HealthMetric[]>([]);
+  const [metricDefinitions, setMetricDefinitions] = useState<MetricDefinition[]>(BUILT_IN_METRIC_DEFINITIONS);
+  const [alerts, setAlerts] = useState<HealthAlert[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
   const [loading, setLoading] = useState(true);
   const [serverStatus, setServerStatus] = useState<'online' | 'offline' | 'checking'>('checking');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const userId = 'default'; // In a real app, this would come from authentication
   const sessionId = 'main-session';
 
+  useEffect(() => {
+    // A rejected token sends the user back to the login screen
+    setUnauthorizedHandler(() => setUser(null));
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
   useEffect(() => {
     const initializeApp = async () => {
       try {
         // Check server health
         await checkServerHealth();
         setServerStatus('online');
-        
-        // Load health data
-        const data = await healthAPI.getHealthData(userId);
-        setHealthData(data.map(item => ({
-          ...item,
-          timestamp: new Date(item.timestamp)
-        })));
       } catch (error) {
         console.error('Failed to initialize app:', error);
         setServerStatus('offline');
-      } finally {
         setLoading(false);
+        return;
       }
+
+      // Restore the previous session from the stored token
+      if (getAuthToken()) {
+        try {
+          setUser(await authAPI.getCurrentUser());
+        } catch (error) {
+          console.error('Failed to restore session:', error);
+        }
+      }
+      setLoading(false);
     };
 
     initializeApp();
-  }, [userId]);
+  }, []);
 
-  const handleMetricAdded = async () => {
-    console.log('handleMetricAdded called - refreshing health data');
+  const loadHealthData = async () => {
     try {
-      const data = await healthAPI.getHealthData(userId);
+      const { data } = await healthAPI.getHealthData(getHistoryQuery());
       console.log('New health data received:', data);
       setHealthData(data.map(item => ({
         ...item,
         timestamp: new Date(item.timestamp)
       })));
     } catch (error) {
-      console.error('Failed to refresh health data:', error);
+      console.error('Failed to load health data:', error);
     }
   };
 
+  // Built-in metrics stay usable if the user's own cannot be loaded
+  const loadMetricDefinitions = async () => {
+    try {
+      setMetricDefinitions(await metricDefinitionsAPI.getMetricDefinitions());
+    } catch (error) {
+      console.error('Failed to load metric definitions:', error);
+    }
+  };
+
+  const loadAlerts = async () => {
+    try {
+      setAlerts((await alertsAPI.getAlerts()).alerts);
+    } catch (error) {
+      console.error('Failed to load alerts:', error);
+    }
+  };
+
+  const loadGoals = async () => {
+    try {
+      setGoals(await goalsAPI.getGoals());
+    } catch (error) {
+      console.error('Failed to load goals:', error);
+    }
+  };
+
+  const loadReminders = async () => {
+    try {
+      setReminders(await remindersAPI.getReminders());
+    } catch (error) {
+      console.error('Failed to load reminders:', error);
+    }
+  };
+
+  const handleSnoozeReminder = async (id: string) => {
+    try {
+      await remindersAPI.snoozeReminder(id);
+      await loadReminders();
+    } catch (error) {
+      console.error('Failed to snooze reminder:', error);
+    }
+  };
+
+  const handleDismissReminder = async (id: string) => {
+    try {
+      await remindersAPI.dismissReminder(id);
+      await loadReminders();
+    } catch (error) {
+      console.error('Failed to dismiss reminder:', error);
+    }
+  };
+
+  const handleAcknowledgeAlert = async (id: string) => {
+    try {
+      await alertsAPI.acknowledgeAlert(id);
+      await loadAlerts();
+    } catch (error) {
+      console.error('Failed to acknowledge alert:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      loadHealthData();
+      loadMetricDefinitions();
+      loadAlerts();
+      loadGoals();
+    } else {
+      setHealthData([]);
+      setMetricDefinitions(BUILT_IN_METRIC_DEFINITIONS);
+      setAlerts([]);
+      setGoals([]);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setReminders([]);
+      return;
+    }
+
+    loadReminders();
+    const timer = setInterval(loadReminders, REMINDER_POLL_MS);
+    return () => clearInterval(timer);
+  }, [user]);
+
+  const handleMetricAdded = async () => {
+    console.log('handleMetricAdded called - refreshing health data');
+    // New readings are checked against the alert rules as they are saved, count towards goals
+    // and clear the reminders to log them
+    await Promise.all([loadHealthData(), loadAlerts(), loadGoals(), loadReminders()]);
+  };
+
+  const handleLogout = () => {
+    authAPI.logout();
+    setUser(null);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -86,6 +223,10 @@ function App() {
     );
   }
 
+  if (!user) {
+    return <AuthForm onAuthenticated={setUser} />;
+  }
+
   return (
     <Router>
       <div className="min-h-screen bg-gray-50">
@@ -93,26 +234,52 @@ function App() {
           mobileMenuOpen={mobileMenuOpen}
           setMobileMenuOpen={setMobileMenuOpen}
           serverStatus={serverStatus}
+          user={user}
+          unacknowledgedAlerts={alerts.filter(alert => !alert.acknowledgedAt).length}
+          reminders={reminders}
+          onSnoozeReminder={handleSnoozeReminder}
+          onDismissReminder={handleDismissReminder}
+          onLogout={handleLogout}
         />
         
         <main className="container mx-auto px-4 py-8">
           <Routes>
             <Route path="/" element={
               <HomePage 
-                userId={userId}
                 sessionId={sessionId}
                 healthData={healthData}
+                displayUnits={user.preferences.displayUnits}
+                definitions={metricDefinitions}
+                goals={goals}
                 onMetricAdded={handleMetricAdded}
+                onGoalsChanged={loadGoals}
               />
             } />
             <Route path="/chat" element={
-              <ChatPage userId={userId} sessionId={sessionId} />
+              <ChatPage sessionId={sessionId} onMetricAdded={handleMetricAdded} />
             } />
             <Route path="/dashboard" element={
-              <DashboardPage userId={userId} healthData={healthData} />
+              <DashboardPage healthData={healthData} user={user} definitions={metricDefinitions} goals={goals} onUserUpdated={setUser} />
             } />
             <Route path="/add-metric" element={
-              <AddMetricPage userId={userId} onMetricAdded={handleMetricAdded} />
+              <AddMetricPage
+                displayUnits={user.preferences.displayUnits}
+                definitions={metricDefinitions}
+                onMetricAdded={handleMetricAdded}
+                onDefinitionsChanged={loadMetricDefinitions}
+              />
+            } />
+            <Route path="/import" element={
+              <ImportPage definitions={metricDefinitions} onImported={handleMetricAdded} />
+            } />
+            <Route path="/alerts" element={
+              <AlertsPage
+                alerts={alerts}
+                displayUnits={user.preferences.displayUnits}
+                definitions={metricDefinitions}
+                onAcknowledge={handleAcknowledgeAlert}
+                onRulesChanged={loadAlerts}
+              />
             } />
           </Routes>
         </main>
@@ -125,9 +292,25 @@ interface NavigationProps {
   mobileMenuOpen: boolean;
   setMobileMenuOpen: (open: boolean) => void;
   serverStatus: string;
+  user: User;
+  unacknowledgedAlerts: number;
+  reminders: Reminder[];
+  onSnoozeReminder: (id: string) => void;
+  onDismissReminder: (id: string) => void;
+  onLogout: () => void;
 }
 
-const Navigation: React.FC<NavigationProps> = ({ mobileMenuOpen, setMobileMenuOpen, serverStatus }) => {
+const Navigation: React.FC<NavigationProps> = ({
+  mobileMenuOpen,
+  setMobileMenuOpen,
+  serverStatus,
+  user,
+  unacknowledgedAlerts,
+  reminders,
+  onSnoozeReminder,
+  onDismissReminder,
+  onLogout,
+}) => {
   const location = useLocation();
 
   const navItems = [
@@ -135,8 +318,19 @@ const Navigation: React.FC<NavigationProps> = ({ mobileMenuOpen, setMobileMenuOp
     { path: '/chat', label: 'Chat', icon: MessageCircle },
     { path: '/dashboard', label: 'Dashboard', icon: BarChart3 },
     { path: '/add-metric', label: 'Add Metric', icon: Plus },
+    { path: '/import', label: 'Import', icon: Upload },
+    { path: '/alerts', label: 'Alerts', icon: Bell },
   ];
 
+  const alertBadge = (path: string) => path === '/alerts' && unacknowledgedAlerts > 0 && (
+    <span
+      aria-label={`${unacknowledgedAlerts} unacknowledged alerts`}
+      className="ml-1 min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs font-semibold text-center"
+    >
+      {unacknowledgedAlerts}
+    </span>
+  );
+
   return (
     <nav className="bg-white shadow-sm border-b">
       <div className="container mx-auto px-4">
@@ -163,6 +357,7 @@ const Navigation: React.FC<NavigationProps> = ({ mobileMenuOpen, setMobileMenuOp
               >
                 <Icon className="h-4 w-4" />
                 <span>{label}</span>
+                {alertBadge(path)}
               </Link>
             ))}
           </div>
@@ -177,6 +372,19 @@ const Navigation: React.FC<NavigationProps> = ({ mobileMenuOpen, setMobileMenuOp
                 {serverStatus === 'online' ? 'Online' : 'Offline'}
               </span>
             </div>
+
+            <div className="hidden sm:flex items-center space-x-2 text-sm text-gray-700">
+              <UserIcon className="h-4 w-4" />
+              <span>{user.name}</span>
+            </div>
+            <NotificationCenter reminders={reminders} onSnooze={onSnoozeReminder} onDismiss={onDismissReminder} />
+            <button
+              onClick={onLogout}
+              title="Log out"
+              className="p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+            >
+              <LogOut className="h-5 w-5" />
+            </button>
             
             <button
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
@@ -204,6 +412,7 @@ const Navigation: React.FC<NavigationProps> = ({ mobileMenuOpen, setMobileMenuOp
                 >
                   <Icon className="h-4 w-4" />
                   <span>{label}</span>
+                  {alertBadge(path)}
                 </Link>
               ))}
             </div>
@@ -216,13 +425,16 @@ const Navigation: React.FC<NavigationProps> = ({ mobileMenuOpen, setMobileMenuOp
 
 // Page Components
 interface HomePageProps {
-  userId: string;
   sessionId: string;
   healthData: HealthMetric[];
+  displayUnits: DisplayUnits;
+  definitions: MetricDefinition[];
+  goals: Goal[];
   onMetricAdded: () => void;
+  onGoalsChanged: () => void;
 }
 
-const HomePage: React.FC<HomePageProps> = ({ userId, sessionId, healthData, onMetricAdded }) => {
+const HomePage: React.FC<HomePageProps> = ({ sessionId, healthData, displayUnits, definitions, goals, onMetricAdded, onGoalsChanged }) => {
   return (
     <div className="space-y-8">
       {/* Hero Section */}
@@ -255,13 +467,15 @@ const HomePage: React.FC<HomePageProps> = ({ userId, sessionId, healthData, onMe
             </div>
           </div>
 
-          <HealthMetricsForm userId={userId} onMetricAdded={onMetricAdded} />
+          <GoalTracker goals={goals} displayUnits={displayUnits} definitions={definitions} onGoalsChanged={onGoalsChanged} />
+
+          <HealthMetricsForm displayUnits={displayUnits} definitions={definitions} onMetricAdded={onMetricAdded} />
         </div>
 
         {/* Chat Interface */}
         <div>
           <h2 className="text-xl font-semibold text-gray-800 mb-4">Chat with Your Health Assistant</h2>
-          <ChatBot userId={userId} sessionId={sessionId} />
+          <ChatBot sessionId={sessionId} onMetricRecorded={onMetricAdded} />
         </div>
       </div>
 
@@ -277,6 +491,7 @@ const HomePage: React.FC<HomePageProps> = ({ userId, sessionId, healthData, onMe
                   <th className="text-left p-2">Value</th>
                   <th className="text-left p-2">Date</th>
                   <th className="text-left p-2">Notes</th>
+                  <th className="text-right p-2">Actions</th>
                 </tr>
               </thead>
               <tbody>
@@ -284,20 +499,13 @@ const HomePage: React.FC<HomePageProps> = ({ userId, sessionId, healthData, onMe
                   .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
                   .slice(0, 5)
                   .map((metric) => (
-                    <tr key={metric.id} className="border-b hover:bg-gray-50">
-                      <td className="p-2 font-medium capitalize">
-                        {metric.type.replace('_', ' ')}
-                      </td>
-                      {/* <td className="p-2">
-                        ({String(metric.value)}) ({String(metric.unit)})
-                      </td> */}
-                      <td className="p-2 text-gray-600">
-                        {new Date(metric.timestamp).toLocaleDateString()}
-                      </td>
-                      <td className="p-2 text-gray-600">
-                        {metric.notes || '-'}
-                      </td>
-                    </tr>
+                    <HealthRecordRow
+                      key={metric.id}
+                      metric={metric}
+                      displayUnits={displayUnits}
+                      definitions={definitions}
+                      onChanged={onMetricAdded}
+                    />
                   ))}
               </tbody>
             </table>
@@ -308,7 +516,224 @@ const HomePage: React.FC<HomePageProps> = ({ userId, sessionId, healthData, onMe
   );
 };
 
-const ChatPage: React.FC<{ userId: string; sessionId: string }> = ({ userId, sessionId }) => {
+interface HealthRecordRowProps {
+  metric: HealthMetric;
+  displayUnits: DisplayUnits;
+  definitions: MetricDefinition[];
+  onChanged: () => void;
+}
+
+// Blood pressure is edited as "systolic/diastolic" or "systolic/diastolic/pulse" text and
+// other pairs as "first/second"; numbers are edited in the user's display unit
+const toEditableValue = (metric: HealthMetric, unit: string): string => {
+  const bloodPressure = metric.type === 'blood_pressure' ? parseBloodPressure(metric.value) : null;
+  if (bloodPressure) {
+    const pressure = `${bloodPressure.systolic}/${bloodPressure.diastolic}`;
+    return bloodPressure.pulse !== undefined ? `${pressure}/${bloodPressure.pulse}` : pressure;
+  }
+  if (metric.value && typeof metric.value === 'object') {
+    return Object.values(metric.value).join('/');
+  }
+
+  const value = getValueInUnit(metric, unit);
+  return value === null ? String(metric.value) : String(roundForUnit(value, unit));
+};
+
+const HealthRecordRow: React.FC<HealthRecordRowProps> = ({ metric, displayUnits, definitions, onChanged }) => {
+  const definition = getMetricDefinition(metric.type, definitions);
+  const displayUnit = getDisplayUnit(metric.type, displayUnits) || metric.unit;
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [value, setValue] = useState(toEditableValue(metric, displayUnit));
+  const [notes, setNotes] = useState(metric.notes || '');
+
+  const startEditing = () => {
+    setValue(toEditableValue(metric, displayUnit));
+    setNotes(metric.notes || '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!value.trim()) return;
+
+    let processedValue: HealthMetric['value'] = value.trim();
+    if (metric.type === 'blood_pressure') {
+      const bloodPressure = parseBloodPressure(processedValue);
+      if (!bloodPressure) {
+        alert('Blood pressure must be in format "systolic/diastolic" (e.g., 120/80).');
+        return;
+      }
+      processedValue = bloodPressure;
+    } else if (definition?.valueKind === 'pair' && definition.parts) {
+      const numbers = processedValue.split('/').map(part => Number(part.trim()));
+      if (numbers.length !== 2 || numbers.some(isNaN)) {
+        alert(`${definition.label} must be in format "${definition.parts.map(part => part.label.toLowerCase()).join('/')}".`);
+        return;
+      }
+      processedValue = Object.fromEntries(definition.parts.map((part, index) => [part.key, numbers[index]]));
+    } else if (definition?.valueKind !== 'enum' && definition?.valueKind !== 'text' && !isNaN(Number(processedValue))) {
+      processedValue = Number(processedValue);
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveConfirmingAnomalies(confirmed => healthAPI.updateHealthMetric(metric.id, {
+        type: metric.type,
+        value: processedValue,
+        unit: metric.type === 'blood_pressure' ? metric.unit : displayUnit,
+        notes: notes || undefined,
+        mealContext: metric.mealContext,
+        ...(confirmed ? { confirmed } : {})
+      }));
+      if (!saved) return;
+
+      setIsEditing(false);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to update health metric:', error);
+      alert('Failed to update health metric. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Erroneous readings stay in the history but are left out of insights
+  const handleReview = async () => {
+    try {
+      await healthAPI.reviewHealthMetric(metric.id, !metric.erroneous);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to review health metric:', error);
+      alert('Failed to update health metric. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this health record?')) return;
+
+    try {
+      await healthAPI.deleteHealthMetric(metric.id);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to delete health metric:', error);
+      alert('Failed to delete health metric. Please try again.');
+    }
+  };
+
+  return (
+    <tr className={`border-b hover:bg-gray-50 ${metric.erroneous ? 'text-gray-400' : ''}`}>
+      <td className="p-2 font-medium">
+        {getMetricDisplayName(metric.type, definitions)}
+        {metric.source && (
+          <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-gray-100 text-gray-600">
+            Imported
+          </span>
+        )}
+        {metric.erroneous ? (
+          <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-red-100 text-red-700">
+            Erroneous
+          </span>
+        ) : metric.anomaly && (
+          <span
+            className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-yellow-100 text-yellow-800"
+            title={metric.anomaly.reasons.join('\n')}
+          >
+            Unusual
+          </span>
+        )}
+      </td>
+      <td className="p-2">
+        {isEditing ? (
+          <div className="flex items-center space-x-2">
+            <input
+              type={!definition || definition.valueKind === 'number' ? 'number' : 'text'}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              aria-label="Value"
+              className="metric-input w-28"
+            />
+            <span className="text-gray-500">{displayUnit}</span>
+          </div>
+        ) : (
+          <>
+            <span className={metric.erroneous ? 'line-through' : undefined}>{formatMetric(metric, displayUnits)}</span>
+            <ClassificationBadge classification={metric.classification} />
+          </>
+        )}
+      </td>
+      <td className="p-2 text-gray-600">
+        {new Date(metric.timestamp).toLocaleDateString()}
+      </td>
+      <td className="p-2 text-gray-600">
+        {isEditing ? (
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            aria-label="Notes"
+            className="metric-input"
+          />
+        ) : (
+          metric.notes || '-'
+        )}
+      </td>
+      <td className="p-2">
+        <div className="flex justify-end space-x-1">
+          {isEditing ? (
+            <>
+              <button
+                onClick={handleSave}
+                disabled={!value.trim() || isSaving}
+                title="Save"
+                className="p-1.5 rounded-md text-health-600 hover:bg-health-50 disabled:opacity-50"
+              >
+                <Check className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setIsEditing(false)}
+                title="Cancel"
+                className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={startEditing}
+                title="Edit"
+                className="p-1.5 rounded-md text-gray-500 hover:text-primary-600 hover:bg-primary-50"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                onClick={handleReview}
+                title={metric.erroneous ? 'Mark as correct' : 'Mark as erroneous'}
+                className="p-1.5 rounded-md text-gray-500 hover:text-yellow-700 hover:bg-yellow-50"
+              >
+                {metric.erroneous ? <FlagOff className="h-4 w-4" /> : <Flag className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={handleDelete}
+                title="Delete"
+                className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+interface ChatPageProps {
+  sessionId: string;
+  onMetricAdded: () => void;
+}
+
+const ChatPage: React.FC<ChatPageProps> = ({ sessionId, onMetricAdded }) => {
   return (
     <div className="max-w-4xl mx-auto">
       <div className="text-center mb-8">
@@ -317,12 +742,20 @@ const ChatPage: React.FC<{ userId: string; sessionId: string }> = ({ userId, ses
           Ask questions about your health metrics, get advice, and receive personalized recommendations.
         </p>
       </div>
-      <ChatBot userId={userId} sessionId={sessionId} />
+      <ChatBot sessionId={sessionId} onMetricRecorded={onMetricAdded} />
     </div>
   );
 };
 
-const DashboardPage: React.FC<{ userId: string; healthData: HealthMetric[] }> = ({ userId, healthData }) => {
+interface DashboardPageProps {
+  healthData: HealthMetric[];
+  user: User;
+  definitions: MetricDefinition[];
+  goals: Goal[];
+  onUserUpdated: (user: User) => void;
+}
+
+const DashboardPage: React.FC<DashboardPageProps> = ({ healthData, user, definitions, goals, onUserUpdated }) => {
   return (
     <div>
       <div className="text-center mb-8">
@@ -331,12 +764,28 @@ const DashboardPage: React.FC<{ userId: string; healthData: HealthMetric[] }> =
           View your health trends, insights, and progress over time.
         </p>
       </div>
-      <HealthDashboard userId={userId} healthData={healthData} />
+      <div className="space-y-8">
+        <UnitPreferences user={user} onUserUpdated={onUserUpdated} />
+        <ProfilePreferences user={user} onUserUpdated={onUserUpdated} />
+        <HealthDashboard healthData={healthData} displayUnits={user.preferences.displayUnits} definitions={definitions} goals={goals} />
+        {healthData.length > 0 && <DataExport definitions={definitions} />}
+      </div>
     </div>
   );
 };
 
-const AddMetricPage: React.FC<{ userId: string; onMetricAdded: () => void }> = ({ userId, onMetricAdded }) => {
+interface AddMetricPageProps {
+  displayUnits: DisplayUnits;
+  definitions: MetricDefinition[];
+  onMetricAdded: () => void;
+  onDefinitionsChanged: () => void;
+}
+
+const AddMetricPage: React.FC<AddMetricPageProps> = ({ displayUnits, definitions, onMetricAdded, onDefinitionsChanged }) => {
+  // A reminder's "Log now" links here with the metric to log
+  const [searchParams] = useSearchParams();
+  const initialType = searchParams.get('type') || '';
+
   return (
     <div className="max-w-2xl mx-auto">
       <div className="text-center mb-8">
@@ -345,7 +794,86 @@ const AddMetricPage: React.FC<{ userId: string; onMetricAdded: () => void }> = (
           Track your health by adding new measurements and observations.
         </p>
       </div>
-      <HealthMetricsForm userId={userId} onMetricAdded={onMetricAdded} />
+      <div className="space-y-6">
+        <HealthMetricsForm
+          key={initialType}
+          initialType={initialType}
+          displayUnits={displayUnits}
+          definitions={definitions}
+          onMetricAdded={onMetricAdded}
+        />
+        <ReminderScheduleManager definitions={definitions} />
+        <MetricDefinitionManager definitions={definitions} onDefinitionsChanged={onDefinitionsChanged} />
+      </div>
+    </div>
+  );
+};
+
+const ImportPage: React.FC<{ definitions: MetricDefinition[]; onImported: () => void }> = ({ definitions, onImported }) => {
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Import Health Data</h1>
+        <p className="text-gray-600">
+          Bring in past readings from a spreadsheet or an Apple Health export.
+        </p>
+      </div>
+      <div className="space-y-6">
+        <CsvImport definitions={definitions} onImported={onImported} />
+        <AppleHealthImport onImported={onImported} />
+      </div>
+    </div>
+  );
+};
+
+interface AlertsPageProps {
+  alerts: HealthAlert[];
+  displayUnits: DisplayUnits;
+  definitions: MetricDefinition[];
+  onAcknowledge: (id: string) => void;
+  onRulesChanged: () => void;
+}
+
+const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, displayUnits, definitions, onAcknowledge, onRulesChanged }) => {
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Alerts</h1>
+        <p className="text-gray-600">
+          Get alerted when a reading crosses a limit you set or when you stop logging a metric.
+        </p>
+      </div>
+      <div className="space-y-6">
+        <div className="health-card">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Triggered Alerts</h3>
+          {alerts.length > 0 ? (
+            <ul className="divide-y border rounded-lg">
+              {alerts.map(alert => (
+                <li key={alert.id} className={`flex items-center justify-between p-3 ${alert.acknowledgedAt ? '' : 'bg-red-50'}`}>
+                  <div>
+                    <div className={`text-sm ${alert.acknowledgedAt ? 'text-gray-600' : 'font-medium text-gray-900'}`}>{alert.message}</div>
+                    <div className="text-xs text-gray-500">{format(new Date(alert.triggeredAt), 'MMM d, yyyy h:mm a')}</div>
+                  </div>
+                  {alert.acknowledgedAt ? (
+                    <span className="text-xs text-gray-500">Acknowledged</span>
+                  ) : (
+                    <button
+                      onClick={() => onAcknowledge(alert.id)}
+                      className="flex items-center space-x-1 px-2 py-1 rounded-md text-sm text-gray-700 hover:bg-white"
+                    >
+                      <Check className="h-4 w-4" />
+                      <span>Acknowledge</span>
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No alerts have been triggered.</p>
+          )}
+        </div>
+        <AlertRuleManager displayUnits={displayUnits} definitions={definitions} onRulesChanged={onRulesChanged} />
+      </div>
     </div>
   );
 };
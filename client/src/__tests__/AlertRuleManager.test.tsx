@@ -0,0 +1,145 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import AlertRuleManager from '../components/AlertRuleManager';
+import { alertsAPI } from '../services/api';
+import { AlertRule } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  alertsAPI: {
+    getAlertRules: jest.fn(),
+    createAlertRule: jest.fn(),
+    deleteAlertRule: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockAlertsAPI = alertsAPI as jest.Mocked<typeof alertsAPI>;
+
+const heartRule: AlertRule = {
+  id: 'rule-1',
+  kind: 'threshold',
+  type: 'heart_rate',
+  operator: '>',
+  value: 120,
+  unit: 'bpm',
+  count: 2,
+  windowHours: 24,
+  description: 'Heart Rate above 120 bpm 2 times within 24 hours',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('AlertRuleManager Component', () => {
+  const mockOnRulesChanged = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAlertsAPI.getAlertRules.mockResolvedValue([]);
+  });
+
+  it('should list the existing rules', async () => {
+    mockAlertsAPI.getAlertRules.mockResolvedValue([heartRule]);
+
+    render(<AlertRuleManager onRulesChanged={mockOnRulesChanged} />);
+
+    expect(await screen.findByText('Heart Rate above 120 bpm 2 times within 24 hours')).toBeInTheDocument();
+  });
+
+  it('should create a threshold rule in the preferred unit', async () => {
+    mockAlertsAPI.createAlertRule.mockResolvedValue(heartRule);
+
+    render(<AlertRuleManager displayUnits={{ temperature: '°F' }} onRulesChanged={mockOnRulesChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'temperature' } });
+    expect(screen.getByLabelText('Unit')).toHaveValue('°F');
+    fireEvent.change(screen.getByLabelText('Is'), { target: { value: '>=' } });
+    fireEvent.change(screen.getByLabelText('Limit'), { target: { value: '100.4' } });
+    fireEvent.click(screen.getByRole('button', { name: /create rule/i }));
+
+    await waitFor(() => {
+      expect(mockAlertsAPI.createAlertRule).toHaveBeenCalledWith({
+        kind: 'threshold',
+        type: 'temperature',
+        operator: '>=',
+        value: 100.4,
+        unit: '°F',
+        count: 1,
+        windowHours: 24,
+      });
+    });
+    await waitFor(() => {
+      expect(mockOnRulesChanged).toHaveBeenCalled();
+    });
+  });
+
+  it('should watch one number of a blood pressure reading', async () => {
+    mockAlertsAPI.createAlertRule.mockResolvedValue(heartRule);
+
+    render(<AlertRuleManager onRulesChanged={mockOnRulesChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'blood_pressure' } });
+    fireEvent.change(screen.getByLabelText('Number'), { target: { value: 'diastolic' } });
+    fireEvent.change(screen.getByLabelText('Limit'), { target: { value: '90' } });
+    fireEvent.click(screen.getByRole('button', { name: /create rule/i }));
+
+    await waitFor(() => {
+      expect(mockAlertsAPI.createAlertRule).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'blood_pressure',
+        part: 'diastolic',
+        value: 90,
+      }));
+    });
+  });
+
+  it('should create a missing-reading rule', async () => {
+    mockAlertsAPI.createAlertRule.mockResolvedValue(heartRule);
+
+    render(<AlertRuleManager onRulesChanged={mockOnRulesChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Alert When'), { target: { value: 'missing' } });
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'blood_sugar' } });
+    fireEvent.change(screen.getByLabelText('Name (Optional)'), { target: { value: 'Check glucose' } });
+    fireEvent.click(screen.getByRole('button', { name: /create rule/i }));
+
+    await waitFor(() => {
+      expect(mockAlertsAPI.createAlertRule).toHaveBeenCalledWith({
+        kind: 'missing',
+        type: 'blood_sugar',
+        name: 'Check glucose',
+        hours: 48,
+      });
+    });
+  });
+
+  it('should show the server error when a rule is rejected', async () => {
+    mockAlertsAPI.createAlertRule.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: { error: 'You can have up to 50 alert rules' } },
+    });
+
+    render(<AlertRuleManager onRulesChanged={mockOnRulesChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'heart_rate' } });
+    fireEvent.change(screen.getByLabelText('Limit'), { target: { value: '120' } });
+    fireEvent.click(screen.getByRole('button', { name: /create rule/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('up to 50 alert rules');
+    expect(mockOnRulesChanged).not.toHaveBeenCalled();
+  });
+
+  it('should delete a rule after confirmation', async () => {
+    mockAlertsAPI.getAlertRules.mockResolvedValue([heartRule]);
+    mockAlertsAPI.deleteAlertRule.mockResolvedValue({});
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+    render(<AlertRuleManager onRulesChanged={mockOnRulesChanged} />);
+
+    fireEvent.click(await screen.findByTitle('Delete Heart Rate above 120 bpm 2 times within 24 hours'));
+
+    await waitFor(() => {
+      expect(mockAlertsAPI.deleteAlertRule).toHaveBeenCalledWith('rule-1');
+    });
+  });
+});
@@ -1,27 +1,72 @@
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import App from '../App';
-import { healthAPI } from '../services/api';
+import { healthAPI, authAPI, metricDefinitionsAPI, alertsAPI, goalsAPI, remindersAPI, checkServerHealth, getAuthToken } from '../services/api';
+import { BUILT_IN_METRIC_DEFINITIONS } from '../utils/metricDefinitions';
 
 // Mock the API services
 jest.mock('../services/api', () => ({
   healthAPI: {
     getHealthData: jest.fn(),
     addHealthMetric: jest.fn(),
+    updateHealthMetric: jest.fn(),
+    deleteHealthMetric: jest.fn(),
+    reviewHealthMetric: jest.fn(),
     getHealthInsights: jest.fn(),
   },
   chatAPI: {
     sendMessage: jest.fn(),
     getConversationHistory: jest.fn(),
   },
+  authAPI: {
+    login: jest.fn(),
+    register: jest.fn(),
+    getCurrentUser: jest.fn(),
+    logout: jest.fn(),
+  },
+  metricDefinitionsAPI: {
+    getMetricDefinitions: jest.fn(),
+    createMetricDefinition: jest.fn(),
+    deleteMetricDefinition: jest.fn(),
+  },
+  alertsAPI: {
+    getAlerts: jest.fn(),
+    acknowledgeAlert: jest.fn(),
+    getAlertRules: jest.fn(),
+    createAlertRule: jest.fn(),
+    deleteAlertRule: jest.fn(),
+  },
+  goalsAPI: {
+    getGoals: jest.fn(),
+    createGoal: jest.fn(),
+    deleteGoal: jest.fn(),
+  },
+  remindersAPI: {
+    getReminders: jest.fn(),
+    snoozeReminder: jest.fn(),
+    dismissReminder: jest.fn(),
+    getReminderSchedules: jest.fn(),
+    createReminderSchedule: jest.fn(),
+    deleteReminderSchedule: jest.fn(),
+  },
   checkServerHealth: jest.fn(),
+  getAuthToken: jest.fn(),
+  setUnauthorizedHandler: jest.fn(),
+  // As axios.isAxiosError narrows it
+  getApiErrorResponse: (error: { isAxiosError?: boolean; response?: unknown }) =>
+    (error.isAxiosError ? error.response : undefined),
 }));
 
 // Mock the components to isolate App testing
 jest.mock('../components/ChatBot', () => {
-  return function MockChatBot() {
-    return <div data-testid="chatbot">ChatBot Component</div>;
+  return function MockChatBot({ onMetricRecorded }: { onMetricRecorded?: () => void }) {
+    return (
+      <div data-testid="chatbot">
+        ChatBot Component
+        <button onClick={onMetricRecorded}>Log From Chat</button>
+      </div>
+    );
   };
 });
 
@@ -42,10 +87,39 @@ jest.mock('../components/HealthDashboard', () => {
 });
 
 const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
+const mockAuthAPI = authAPI as jest.Mocked<typeof authAPI>;
+const mockMetricDefinitionsAPI = metricDefinitionsAPI as jest.Mocked<typeof metricDefinitionsAPI>;
+const mockAlertsAPI = alertsAPI as jest.Mocked<typeof alertsAPI>;
+const mockGoalsAPI = goalsAPI as jest.Mocked<typeof goalsAPI>;
+const mockRemindersAPI = remindersAPI as jest.Mocked<typeof remindersAPI>;
+const mockCheckServerHealth = checkServerHealth as jest.MockedFunction<typeof checkServerHealth>;
+const mockGetAuthToken = getAuthToken as jest.MockedFunction<typeof getAuthToken>;
+
+const testUser = {
+  id: 'user-1',
+  name: 'Test User',
+  email: 'test@example.com',
+  preferences: { displayUnits: {} },
+  createdAt: new Date()
+};
+
+const paginated = <T,>(data: T[]) => ({
+  data,
+  pagination: { limit: 500, total: data.length, hasMore: false, nextCursor: null }
+});
 
 describe('App Component', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockCheckServerHealth.mockResolvedValue({});
+    mockGetAuthToken.mockReturnValue('test-token');
+    mockAuthAPI.getCurrentUser.mockResolvedValue(testUser);
+    mockMetricDefinitionsAPI.getMetricDefinitions.mockResolvedValue(BUILT_IN_METRIC_DEFINITIONS);
+    mockAlertsAPI.getAlerts.mockResolvedValue({ alerts: [], unacknowledged: 0 });
+    mockAlertsAPI.getAlertRules.mockResolvedValue([]);
+    mockGoalsAPI.getGoals.mockResolvedValue([]);
+    mockRemindersAPI.getReminders.mockResolvedValue([]);
+    mockRemindersAPI.getReminderSchedules.mockResolvedValue([]);
   });
 
   const renderApp = () => {
@@ -58,7 +132,7 @@ describe('App Component', () => {
 
   describe('Initialization', () => {
     it('should render the app with navigation', async () => {
-      mockHealthAPI.getHealthData.mockResolvedValue([]);
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
       
       renderApp();
       
@@ -82,17 +156,20 @@ describe('App Component', () => {
         }
       ];
       
-      mockHealthAPI.getHealthData.mockResolvedValue(mockHealthData);
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated(mockHealthData));
       
       renderApp();
       
       await waitFor(() => {
-        expect(mockHealthAPI.getHealthData).toHaveBeenCalledWith('default');
+        expect(mockHealthAPI.getHealthData).toHaveBeenCalledWith(expect.objectContaining({
+          order: 'desc',
+          limit: 500
+        }));
       });
     });
 
     it('should handle server offline status', async () => {
-      mockHealthAPI.getHealthData.mockRejectedValue(new Error('Server error'));
+      mockCheckServerHealth.mockRejectedValue(new Error('Server is not responding'));
       
       renderApp();
       
@@ -104,7 +181,7 @@ describe('App Component', () => {
 
   describe('Navigation', () => {
     it('should navigate to different pages', async () => {
-      mockHealthAPI.getHealthData.mockResolvedValue([]);
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
       
       renderApp();
       
@@ -158,13 +235,16 @@ describe('App Component', () => {
       ];
       
       mockHealthAPI.getHealthData
-        .mockResolvedValueOnce(initialData)
-        .mockResolvedValueOnce(updatedData);
+        .mockResolvedValueOnce(paginated(initialData))
+        .mockResolvedValueOnce(paginated(updatedData));
       
       renderApp();
       
       await waitFor(() => {
-        expect(mockHealthAPI.getHealthData).toHaveBeenCalledWith('default');
+        expect(mockHealthAPI.getHealthData).toHaveBeenCalledWith(expect.objectContaining({
+          order: 'desc',
+          limit: 500
+        }));
       });
       
       // Simulate adding a metric
@@ -177,9 +257,237 @@ describe('App Component', () => {
     });
   });
 
+  describe('Logging From Chat', () => {
+    it('should refresh health data when a chat message logs a metric', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+
+      // App provides its own Router
+      render(<App />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Log From Chat' }));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.getHealthData).toHaveBeenCalledTimes(2);
+      });
+      expect(mockGoalsAPI.getGoals).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should show the login screen when there is no stored token', async () => {
+      mockGetAuthToken.mockReturnValue(null);
+
+      render(<App />);
+
+      expect(await screen.findByRole('button', { name: /log in/i })).toBeInTheDocument();
+      expect(mockAuthAPI.getCurrentUser).not.toHaveBeenCalled();
+      expect(mockHealthAPI.getHealthData).not.toHaveBeenCalled();
+    });
+
+    it('should load health data after logging in', async () => {
+      mockGetAuthToken.mockReturnValue(null);
+      mockAuthAPI.login.mockResolvedValue({ token: 'new-token', user: testUser });
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+
+      render(<App />);
+
+      fireEvent.change(await screen.findByLabelText('Email'), { target: { value: 'test@example.com' } });
+      fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'password123' } });
+      fireEvent.click(screen.getByRole('button', { name: /log in/i }));
+
+      expect(await screen.findByText('Test User')).toBeInTheDocument();
+      await waitFor(() => {
+        expect(mockHealthAPI.getHealthData).toHaveBeenCalled();
+      });
+    });
+
+    it('should return to the login screen on logout', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+
+      render(<App />);
+
+      fireEvent.click(await screen.findByTitle('Log out'));
+
+      expect(mockAuthAPI.logout).toHaveBeenCalled();
+      expect(await screen.findByRole('button', { name: /log in/i })).toBeInTheDocument();
+    });
+  });
+
+  describe('Recent Health Records', () => {
+    const record = {
+      id: '1',
+      type: 'weight' as const,
+      value: 70,
+      unit: 'kg',
+      timestamp: new Date(),
+      notes: 'Morning weight'
+    };
+
+    it('should update a record from the table', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([record]));
+      mockHealthAPI.updateHealthMetric.mockResolvedValue({ data: { ...record, value: 71 } });
+
+      // App provides its own Router
+      render(<App />);
+
+      fireEvent.click(await screen.findByTitle('Edit'));
+      fireEvent.change(screen.getByLabelText('Value'), { target: { value: '71' } });
+      fireEvent.click(screen.getByTitle('Save'));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.updateHealthMetric).toHaveBeenCalledWith('1', {
+          type: 'weight',
+          value: 71,
+          unit: 'kg',
+          notes: 'Morning weight'
+        });
+      });
+    });
+
+    it('should ask before saving an edit the server finds unusual', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([record]));
+      mockHealthAPI.updateHealthMetric
+        .mockRejectedValueOnce({
+          isAxiosError: true,
+          response: { status: 409, data: { anomaly: { reasons: ['Weight of 700 kg is outside the plausible range of 25 kg to 300 kg'], robustZScore: null } } }
+        })
+        .mockResolvedValueOnce({ data: { ...record, value: 700 } });
+      const confirm = jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+      // App provides its own Router
+      render(<App />);
+
+      fireEvent.click(await screen.findByTitle('Edit'));
+      fireEvent.change(screen.getByLabelText('Value'), { target: { value: '700' } });
+      fireEvent.click(screen.getByTitle('Save'));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.updateHealthMetric).toHaveBeenLastCalledWith('1', expect.objectContaining({ value: 700, confirmed: true }));
+      });
+      expect(confirm).toHaveBeenCalledWith(expect.stringContaining('Weight of 700 kg is outside the plausible range'));
+    });
+
+    it('should mark an unusual record as erroneous', async () => {
+      const unusual = { ...record, value: 700, anomaly: { reasons: ['Weight of 700 kg is outside the plausible range of 25 kg to 300 kg'], robustZScore: null } };
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([unusual]));
+      mockHealthAPI.reviewHealthMetric.mockResolvedValue({ ...unusual, erroneous: true });
+
+      // App provides its own Router
+      render(<App />);
+
+      expect(await screen.findByText('Unusual')).toBeInTheDocument();
+      fireEvent.click(screen.getByTitle('Mark as erroneous'));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.reviewHealthMetric).toHaveBeenCalledWith('1', true);
+      });
+    });
+
+    it('should delete a record after confirmation', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([record]));
+      mockHealthAPI.deleteHealthMetric.mockResolvedValue({});
+      jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+      // App provides its own Router
+      render(<App />);
+
+      fireEvent.click(await screen.findByTitle('Delete'));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.deleteHealthMetric).toHaveBeenCalledWith('1');
+      });
+    });
+  });
+
+  describe('Alerts', () => {
+    const alert = {
+      id: 'alert-1',
+      ruleId: 'rule-1',
+      message: 'Heart Rate above 120 bpm 2 times within 24 hours',
+      recordIds: ['hr1', 'hr2'],
+      triggeredAt: '2024-01-02T08:00:00.000Z',
+      acknowledgedAt: null
+    };
+
+    it('should show the number of unacknowledged alerts in the navigation', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+      mockAlertsAPI.getAlerts.mockResolvedValue({ alerts: [alert], unacknowledged: 1 });
+
+      render(<App />);
+
+      expect(await screen.findByLabelText('1 unacknowledged alerts')).toHaveTextContent('1');
+    });
+
+    it('should acknowledge an alert and clear the badge', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+      mockAlertsAPI.getAlerts
+        .mockResolvedValueOnce({ alerts: [alert], unacknowledged: 1 })
+        .mockResolvedValue({ alerts: [{ ...alert, acknowledgedAt: '2024-01-02T09:00:00.000Z' }], unacknowledged: 0 });
+      mockAlertsAPI.acknowledgeAlert.mockResolvedValue({ ...alert, acknowledgedAt: '2024-01-02T09:00:00.000Z' });
+
+      render(<App />);
+
+      fireEvent.click(await screen.findByText('Alerts'));
+      fireEvent.click(await screen.findByRole('button', { name: 'Acknowledge' }));
+
+      await waitFor(() => {
+        expect(mockAlertsAPI.acknowledgeAlert).toHaveBeenCalledWith('alert-1');
+      });
+      expect(await screen.findByText('Acknowledged')).toBeInTheDocument();
+      expect(screen.queryByLabelText(/unacknowledged alerts/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Reminders', () => {
+    const reminder = {
+      id: 'reminder-1',
+      scheduleId: 'schedule-1',
+      type: 'blood_pressure',
+      message: 'Time to log your blood pressure',
+      dueAt: '2024-01-02T08:00:00.000Z',
+      snoozedUntil: null,
+      dismissedAt: null
+    };
+
+    it('should list due reminders in the notification centre and snooze them', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+      mockRemindersAPI.getReminders
+        .mockResolvedValueOnce([reminder])
+        .mockResolvedValue([]);
+      mockRemindersAPI.snoozeReminder.mockResolvedValue({ ...reminder, snoozedUntil: '2024-01-02T08:30:00.000Z' });
+
+      render(<App />);
+
+      expect(await screen.findByLabelText('1 reminders')).toHaveTextContent('1');
+      fireEvent.click(screen.getByTitle('Reminders'));
+      expect(screen.getByRole('region', { name: 'Notifications' })).toHaveTextContent('Time to log your blood pressure');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Snooze' }));
+
+      await waitFor(() => {
+        expect(mockRemindersAPI.snoozeReminder).toHaveBeenCalledWith('reminder-1');
+      });
+      expect(await screen.findByText("You're all caught up.")).toBeInTheDocument();
+    });
+
+    it('should open the Add Metric page from a reminder', async () => {
+      mockHealthAPI.getHealthData.mockResolvedValue(paginated([]));
+      mockRemindersAPI.getReminders.mockResolvedValue([reminder]);
+
+      render(<App />);
+
+      await screen.findByLabelText('1 reminders');
+      fireEvent.click(screen.getByTitle('Reminders'));
+      fireEvent.click(screen.getByRole('link', { name: 'Log now' }));
+
+      expect(await screen.findByText('Add Health Metric')).toBeInTheDocument();
+      expect(screen.queryByRole('region', { name: 'Notifications' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle API errors gracefully', async () => {
-      mockHealthAPI.getHealthData.mockRejectedValue(new Error('Network error'));
+      mockCheckServerHealth.mockRejectedValue(new Error('Network error'));
       
       renderApp();
       
@@ -0,0 +1,156 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import AppleHealthImport from '../components/AppleHealthImport';
+import { healthAPI } from '../services/api';
+import { AppleHealthImportJob } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  healthAPI: {
+    createAppleHealthImport: jest.fn(),
+    uploadAppleHealthExport: jest.fn(),
+    getAppleHealthImport: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
+
+const buildJob = (overrides: Partial<AppleHealthImportJob> = {}): AppleHealthImportJob => ({
+  id: 'job-1',
+  status: 'waiting',
+  bytesRead: 0,
+  totalBytes: null,
+  records: 0,
+  imported: 0,
+  updated: 0,
+  duplicates: 0,
+  unsupported: 0,
+  invalid: 0,
+  flagged: 0,
+  error: null,
+  createdAt: '2024-03-05T09:00:00.000Z',
+  finishedAt: null,
+  ...overrides,
+});
+
+const exportFile = new File(['<HealthData locale="en_US"></HealthData>'], 'export.xml', { type: 'text/xml' });
+
+const chooseFile = () => {
+  fireEvent.change(screen.getByLabelText('Apple Health Export'), { target: { files: [exportFile] } });
+};
+
+describe('AppleHealthImport Component', () => {
+  const mockOnImported = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only allow importing once a file is chosen', () => {
+    render(<AppleHealthImport onImported={mockOnImported} />);
+
+    expect(screen.getByRole('button', { name: 'Import' })).toBeDisabled();
+    chooseFile();
+    expect(screen.getByText('export.xml (0.0 MB)')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import' })).toBeEnabled();
+  });
+
+  it('should show progress while the export uploads', async () => {
+    jest.useFakeTimers();
+    let finishUpload: (job: AppleHealthImportJob) => void = () => {};
+    mockHealthAPI.createAppleHealthImport.mockResolvedValue(buildJob());
+    mockHealthAPI.uploadAppleHealthExport.mockReturnValue(new Promise(resolve => { finishUpload = resolve; }));
+    mockHealthAPI.getAppleHealthImport.mockResolvedValue(
+      buildJob({ status: 'reading', bytesRead: 50, totalBytes: 200, records: 1234 })
+    );
+
+    render(<AppleHealthImport onImported={mockOnImported} />);
+    chooseFile();
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => {
+      expect(mockHealthAPI.uploadAppleHealthExport).toHaveBeenCalledWith('job-1', exportFile);
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(await screen.findByText(/25% · 1,234 records/)).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Import progress' })).toHaveAttribute('aria-valuenow', '25');
+
+    await act(async () => {
+      finishUpload(buildJob({
+        status: 'completed',
+        bytesRead: 200,
+        totalBytes: 200,
+        records: 2000,
+        imported: 40,
+        duplicates: 3,
+        unsupported: 10,
+        finishedAt: '2024-03-05T09:01:00.000Z',
+      }));
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent('Imported 40 readings from 2,000 records.');
+    expect(screen.getByRole('status')).toHaveTextContent('Skipped 3 already saved, 10 of unsupported types and 0 unreadable.');
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    expect(mockOnImported).toHaveBeenCalled();
+  });
+
+  it('should not refresh data when every reading was already saved', async () => {
+    mockHealthAPI.createAppleHealthImport.mockResolvedValue(buildJob());
+    mockHealthAPI.uploadAppleHealthExport.mockResolvedValue(buildJob({
+      status: 'completed',
+      records: 20,
+      duplicates: 5,
+      finishedAt: '2024-03-05T09:01:00.000Z',
+    }));
+
+    render(<AppleHealthImport onImported={mockOnImported} />);
+    chooseFile();
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(await screen.findByText(/Imported 0 readings/)).toBeInTheDocument();
+    expect(mockOnImported).not.toHaveBeenCalled();
+  });
+
+  it('should refresh data when an import updated daily readings', async () => {
+    mockHealthAPI.createAppleHealthImport.mockResolvedValue(buildJob());
+    mockHealthAPI.uploadAppleHealthExport.mockResolvedValue(buildJob({
+      status: 'completed',
+      records: 20,
+      updated: 2,
+      duplicates: 5,
+      finishedAt: '2024-03-05T09:01:00.000Z',
+    }));
+
+    render(<AppleHealthImport onImported={mockOnImported} />);
+    chooseFile();
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(await screen.findByText('Updated 2 daily readings with the rest of their day.')).toBeInTheDocument();
+    expect(mockOnImported).toHaveBeenCalled();
+  });
+
+  it('should show the server error when the file cannot be read', async () => {
+    mockHealthAPI.createAppleHealthImport.mockResolvedValue(buildJob());
+    mockHealthAPI.uploadAppleHealthExport.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: buildJob({ status: 'failed', error: 'This does not look like an Apple Health export.xml file' }) },
+    });
+
+    render(<AppleHealthImport onImported={mockOnImported} />);
+    chooseFile();
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('This does not look like an Apple Health export.xml file');
+    expect(mockOnImported).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import AuthForm from '../components/AuthForm';
+import { authAPI } from '../services/api';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  authAPI: {
+    login: jest.fn(),
+    register: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockAuthAPI = authAPI as jest.Mocked<typeof authAPI>;
+
+describe('AuthForm Component', () => {
+  const mockOnAuthenticated = jest.fn();
+  const testUser = {
+    id: 'user-1',
+    name: 'Test User',
+    email: 'test@example.com',
+    preferences: { displayUnits: {} },
+    createdAt: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Login', () => {
+    it('should render the login form by default', () => {
+      render(<AuthForm onAuthenticated={mockOnAuthenticated} />);
+
+      expect(screen.getByLabelText('Email')).toBeInTheDocument();
+      expect(screen.getByLabelText('Password')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Name')).not.toBeInTheDocument();
+    });
+
+    it('should log in and report the authenticated user', async () => {
+      mockAuthAPI.login.mockResolvedValue({ token: 'jwt-token', user: testUser });
+
+      render(<AuthForm onAuthenticated={mockOnAuthenticated} />);
+
+      fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'test@example.com' } });
+      fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'password123' } });
+      fireEvent.click(screen.getByRole('button', { name: /log in/i }));
+
+      await waitFor(() => {
+        expect(mockOnAuthenticated).toHaveBeenCalledWith(testUser);
+      });
+      expect(mockAuthAPI.login).toHaveBeenCalledWith('test@example.com', 'password123');
+    });
+
+    it('should show the server error when login fails', async () => {
+      mockAuthAPI.login.mockRejectedValue({
+        isAxiosError: true,
+        response: { status: 401, data: { error: 'Invalid email or password' } }
+      });
+
+      render(<AuthForm onAuthenticated={mockOnAuthenticated} />);
+
+      fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'test@example.com' } });
+      fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'wrong-password' } });
+      fireEvent.click(screen.getByRole('button', { name: /log in/i }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Invalid email or password');
+      expect(mockOnAuthenticated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Registration', () => {
+    it('should register a new account', async () => {
+      mockAuthAPI.register.mockResolvedValue({ token: 'jwt-token', user: testUser });
+
+      render(<AuthForm onAuthenticated={mockOnAuthenticated} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /register/i }));
+      fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Test User' } });
+      fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'test@example.com' } });
+      fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'password123' } });
+      fireEvent.click(screen.getByRole('button', { name: /create account/i }));
+
+      await waitFor(() => {
+        expect(mockOnAuthenticated).toHaveBeenCalledWith(testUser);
+      });
+      expect(mockAuthAPI.register).toHaveBeenCalledWith('Test User', 'test@example.com', 'password123');
+    });
+  });
+});
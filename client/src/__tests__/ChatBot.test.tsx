@@ -9,6 +9,7 @@ jest.mock('../services/api', () => ({
   chatAPI: {
     sendMessage: jest.fn(),
     getConversationHistory: jest.fn(),
+    getConversationState: jest.fn(),
   },
 }));
 
@@ -16,7 +17,6 @@ const mockChatAPI = chatAPI as jest.Mocked<typeof chatAPI>;
 
 describe('ChatBot Component', () => {
   const defaultProps = {
-    userId: 'test-user',
     sessionId: 'test-session',
   };
 
@@ -55,6 +55,11 @@ describe('ChatBot Component', () => {
       const mockResponse = {
         response: 'Hello! How can I help you today?',
         sessionId: 'test-session',
+        intent: 'greeting' as const,
+        confidence: 0.95,
+        entities: {},
+        recordedMetric: null,
+        pending: null,
         conversation: [
           { type: 'user', message: 'Hello', timestamp: new Date() },
           { type: 'bot', message: 'Hello! How can I help you today?', timestamp: new Date() },
@@ -74,8 +79,7 @@ describe('ChatBot Component', () => {
       await waitFor(() => {
         expect(mockChatAPI.sendMessage).toHaveBeenCalledWith(
           'Hello',
-          'test-session',
-          'test-user'
+          'test-session'
         );
       });
     });
@@ -85,6 +89,11 @@ describe('ChatBot Component', () => {
       const mockResponse = {
         response: 'Hello! How can I help you today?',
         sessionId: 'test-session',
+        intent: 'greeting' as const,
+        confidence: 0.95,
+        entities: {},
+        recordedMetric: null,
+        pending: null,
         conversation: [
           { type: 'user', message: 'Hello', timestamp: new Date() },
           { type: 'bot', message: 'Hello! How can I help you today?', timestamp: new Date() },
@@ -102,8 +111,7 @@ describe('ChatBot Component', () => {
       await waitFor(() => {
         expect(mockChatAPI.sendMessage).toHaveBeenCalledWith(
           'Hello',
-          'test-session',
-          'test-user'
+          'test-session'
         );
       });
     });
@@ -126,6 +134,11 @@ describe('ChatBot Component', () => {
       const mockResponse = {
         response: 'Hello! How can I help you today?',
         sessionId: 'test-session',
+        intent: 'greeting' as const,
+        confidence: 0.95,
+        entities: {},
+        recordedMetric: null,
+        pending: null,
         conversation: [],
       };
       
@@ -151,6 +164,11 @@ describe('ChatBot Component', () => {
       const mockResponse = {
         response: 'Hello! How can I help you today?',
         sessionId: 'test-session',
+        intent: 'greeting' as const,
+        confidence: 0.95,
+        entities: {},
+        recordedMetric: null,
+        pending: null,
         conversation: [
           { type: 'user', message: 'Hello', timestamp: new Date() },
           { type: 'bot', message: 'Hello! How can I help you today?', timestamp: new Date() },
@@ -258,6 +276,73 @@ describe('ChatBot Component', () => {
     });
   });
 
+  describe('Pending Questions', () => {
+    const pending = {
+      intent: 'log_metric' as const,
+      slots: { metric: 'blood_pressure' },
+      awaiting: 'reading' as const,
+      prompt: 'What was the reading? Give the systolic and diastolic, such as "120/80".',
+      expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+    };
+
+    beforeEach(() => {
+      // jsdom does not implement scrolling
+      Element.prototype.scrollIntoView = jest.fn();
+    });
+
+    it('should show what the assistant is waiting for after it asks a question', async () => {
+      mockChatAPI.getConversationHistory.mockResolvedValue([]);
+      mockChatAPI.getConversationState.mockResolvedValue(null);
+      mockChatAPI.sendMessage.mockResolvedValue({
+        response: pending.prompt,
+        sessionId: 'test-session',
+        intent: 'log_metric',
+        confidence: 0.85,
+        entities: { metric: 'blood_pressure' },
+        recordedMetric: null,
+        pending,
+        conversation: [],
+      });
+
+      render(<ChatBot {...defaultProps} />);
+
+      const input = await screen.findByPlaceholderText(/ask about your health metrics/i);
+      fireEvent.change(input, { target: { value: 'log my blood pressure' } });
+      fireEvent.submit(input);
+
+      const status = await screen.findByRole('status');
+      expect(status).toHaveTextContent(/waiting for your answer/i);
+      expect(status).toHaveTextContent(/systolic and diastolic/i);
+      expect(screen.getByPlaceholderText(/type the reading/i)).toBeInTheDocument();
+    });
+
+    it('should cancel the question from the status bar', async () => {
+      mockChatAPI.getConversationHistory.mockResolvedValue([]);
+      mockChatAPI.getConversationState.mockResolvedValue(pending);
+      mockChatAPI.sendMessage.mockResolvedValue({
+        response: "OK, I won't log your blood pressure.",
+        sessionId: 'test-session',
+        intent: 'unknown',
+        confidence: 0,
+        entities: {},
+        recordedMetric: null,
+        pending: null,
+        conversation: [],
+      });
+
+      render(<ChatBot {...defaultProps} />);
+
+      fireEvent.click(await screen.findByRole('button', { name: /cancel/i }));
+
+      await waitFor(() => {
+        expect(mockChatAPI.sendMessage).toHaveBeenCalledWith('cancel', 'test-session');
+      });
+      await waitFor(() => {
+        expect(screen.queryByRole('status')).not.toBeInTheDocument();
+      });
+    });
+  });
+
   describe('Input Validation', () => {
     it('should not send messages with only whitespace', async () => {
       const user = userEvent.setup();
@@ -278,6 +363,11 @@ describe('ChatBot Component', () => {
       const mockResponse = {
         response: 'Hello! How can I help you today?',
         sessionId: 'test-session',
+        intent: 'greeting' as const,
+        confidence: 0.95,
+        entities: {},
+        recordedMetric: null,
+        pending: null,
         conversation: [],
       };
       
@@ -294,8 +384,7 @@ describe('ChatBot Component', () => {
       await waitFor(() => {
         expect(mockChatAPI.sendMessage).toHaveBeenCalledWith(
           'Hello',
-          'test-session',
-          'test-user'
+          'test-session'
         );
       });
     });
@@ -0,0 +1,137 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import CsvImport from '../components/CsvImport';
+import { healthAPI } from '../services/api';
+import { CsvImportPreview } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  healthAPI: {
+    previewCsvImport: jest.fn(),
+    importCsv: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+  getApiErrorResponse: (error: { isAxiosError?: boolean; response?: unknown }) =>
+    (error.isAxiosError ? error.response : undefined),
+}));
+
+const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
+
+const csv = 'Date,Metric,Value,Unit\n2024-01-01,weight,70,kg\n2024-01-02,weight,abc,kg\n';
+
+const buildPreview = (overrides: Partial<CsvImportPreview> = {}): CsvImportPreview => ({
+  columns: ['Date', 'Metric', 'Value', 'Unit'],
+  mapping: { timestamp: 'Date', type: 'Metric', value: 'Value', unit: 'Unit' },
+  defaults: {},
+  mappingErrors: [],
+  rows: [
+    { line: 2, metric: { type: 'weight', value: 70, unit: 'kg', timestamp: '2024-01-01T00:00:00.000Z' }, errors: [] },
+  ],
+  summary: { total: 1, valid: 1, invalid: 0 },
+  ...overrides,
+});
+
+const chooseFile = () => {
+  const file = new File([csv], 'weights.csv', { type: 'text/csv' });
+  fireEvent.change(screen.getByLabelText('CSV File'), { target: { files: [file] } });
+};
+
+describe('CsvImport Component', () => {
+  const mockOnImported = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should preview the chosen file with the suggested mapping', async () => {
+    mockHealthAPI.previewCsvImport.mockResolvedValue(buildPreview());
+
+    render(<CsvImport onImported={mockOnImported} />);
+    chooseFile();
+
+    await waitFor(() => {
+      expect(mockHealthAPI.previewCsvImport).toHaveBeenCalledWith(csv, { mapping: undefined, defaults: {} });
+    });
+    expect(await screen.findByText('1 rows · 1 valid · 0 with errors')).toBeInTheDocument();
+    expect(screen.getByLabelText('Value *')).toHaveValue('Value');
+    expect(screen.getByRole('button', { name: /import 1 records/i })).toBeEnabled();
+  });
+
+  it('should show row errors and block the import', async () => {
+    mockHealthAPI.previewCsvImport.mockResolvedValue(buildPreview({
+      rows: [
+        { line: 2, metric: { type: 'weight', value: 70, unit: 'kg', timestamp: '2024-01-01T00:00:00.000Z' }, errors: [] },
+        { line: 3, metric: { type: 'weight', value: 'abc', unit: 'kg', timestamp: '2024-01-02T00:00:00.000Z' }, errors: ['"value" must be a number'] },
+      ],
+      summary: { total: 2, valid: 1, invalid: 1 },
+    }));
+
+    render(<CsvImport onImported={mockOnImported} />);
+    chooseFile();
+
+    expect(await screen.findByText('"value" must be a number')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /import 1 records/i })).toBeDisabled();
+  });
+
+  it('should re-validate when the mapping changes', async () => {
+    mockHealthAPI.previewCsvImport.mockResolvedValue(buildPreview());
+
+    render(<CsvImport onImported={mockOnImported} />);
+    chooseFile();
+    await screen.findByLabelText('Notes');
+
+    fireEvent.change(screen.getByLabelText('Unit'), { target: { value: '' } });
+
+    await waitFor(() => {
+      expect(mockHealthAPI.previewCsvImport).toHaveBeenLastCalledWith(csv, {
+        mapping: { timestamp: 'Date', type: 'Metric', value: 'Value' },
+        defaults: {},
+      });
+    });
+  });
+
+  it('should import all rows and notify the parent', async () => {
+    mockHealthAPI.previewCsvImport.mockResolvedValue(buildPreview());
+    mockHealthAPI.importCsv.mockResolvedValue({ message: 'Imported 1 health metrics', importId: 'import-1', count: 1, flagged: [] });
+
+    render(<CsvImport onImported={mockOnImported} />);
+    chooseFile();
+    fireEvent.click(await screen.findByRole('button', { name: /import 1 records/i }));
+
+    expect(await screen.findByText('Imported 1 health metrics')).toBeInTheDocument();
+    expect(mockHealthAPI.importCsv).toHaveBeenCalledWith(csv, {
+      mapping: { timestamp: 'Date', type: 'Metric', value: 'Value', unit: 'Unit' },
+      defaults: {},
+    });
+    expect(mockOnImported).toHaveBeenCalled();
+  });
+
+  it('should show the rows the server rejected the import for', async () => {
+    mockHealthAPI.previewCsvImport.mockResolvedValue(buildPreview());
+    mockHealthAPI.importCsv.mockRejectedValue({
+      isAxiosError: true,
+      response: {
+        status: 400,
+        data: {
+          error: 'Fix the errors in the preview before importing',
+          preview: buildPreview({
+            rows: [
+              { line: 2, metric: { type: 'weight', value: 700, unit: 'kg', timestamp: '2024-01-01T00:00:00.000Z' }, errors: ['"type" must be one of [weight]'] },
+            ],
+            summary: { total: 1, valid: 0, invalid: 1 },
+          }),
+        },
+      },
+    });
+
+    render(<CsvImport onImported={mockOnImported} />);
+    chooseFile();
+    fireEvent.click(await screen.findByRole('button', { name: /import 1 records/i }));
+
+    expect(await screen.findByText('Fix the errors in the preview before importing')).toBeInTheDocument();
+    expect(screen.getByText('"type" must be one of [weight]')).toBeInTheDocument();
+    expect(mockOnImported).not.toHaveBeenCalled();
+  });
+});
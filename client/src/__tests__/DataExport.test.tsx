@@ -0,0 +1,87 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import DataExport from '../components/DataExport';
+import { healthAPI } from '../services/api';
+import { saveFile } from '../utils/helpers';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  healthAPI: {
+    exportHealthData: jest.fn(),
+    getHealthReport: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/helpers', () => ({
+  saveFile: jest.fn(),
+}));
+
+const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
+const mockSaveFile = saveFile as jest.MockedFunction<typeof saveFile>;
+
+describe('DataExport Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should download all data as CSV by default', async () => {
+    const blob = new Blob(['timestamp,type'], { type: 'text/csv' });
+    mockHealthAPI.exportHealthData.mockResolvedValue(blob);
+
+    render(<DataExport />);
+    fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+    await waitFor(() => {
+      expect(mockSaveFile).toHaveBeenCalledWith(blob, expect.stringMatching(/^health-data-\d{4}-\d{2}-\d{2}\.csv$/));
+    });
+    expect(mockHealthAPI.exportHealthData).toHaveBeenCalledWith('csv', { type: undefined, from: undefined, to: undefined });
+  });
+
+  it('should pass the chosen format and filters', async () => {
+    mockHealthAPI.exportHealthData.mockResolvedValue(new Blob(['{}']));
+
+    render(<DataExport />);
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'json' } });
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'weight' } });
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2024-01-01' } });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2024-01-31' } });
+    fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+    await waitFor(() => {
+      expect(mockHealthAPI.exportHealthData).toHaveBeenCalledWith('json', {
+        type: 'weight',
+        from: new Date(2024, 0, 1, 0, 0, 0),
+        to: new Date(2024, 0, 31, 23, 59, 59, 999),
+      });
+    });
+  });
+
+  it('should show an error when the export fails', async () => {
+    mockHealthAPI.exportHealthData.mockRejectedValue(new Error('Network error'));
+
+    render(<DataExport />);
+    fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to export your health data');
+    expect(mockSaveFile).not.toHaveBeenCalled();
+  });
+
+  it('should open the printable report in a new window', async () => {
+    const reportWindow = { location: { href: '' }, close: jest.fn() };
+    const openSpy = jest.spyOn(window, 'open').mockReturnValue(reportWindow as unknown as Window);
+    const originalCreateObjectURL = URL.createObjectURL;
+    URL.createObjectURL = jest.fn(() => 'blob:report');
+    mockHealthAPI.getHealthReport.mockResolvedValue('<html></html>');
+
+    render(<DataExport />);
+    fireEvent.click(screen.getByRole('button', { name: /printable report/i }));
+
+    await waitFor(() => {
+      expect(reportWindow.location.href).toBe('blob:report');
+    });
+    expect(openSpy).toHaveBeenCalledWith('', '_blank');
+
+    openSpy.mockRestore();
+    URL.createObjectURL = originalCreateObjectURL;
+  });
+});
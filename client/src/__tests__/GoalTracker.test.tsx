@@ -0,0 +1,137 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import GoalTracker from '../components/GoalTracker';
+import { goalsAPI } from '../services/api';
+import { Goal } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  goalsAPI: {
+    createGoal: jest.fn(),
+    deleteGoal: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockGoalsAPI = goalsAPI as jest.Mocked<typeof goalsAPI>;
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const stepGoal: Goal = {
+  id: 'goal-1',
+  type: 'steps',
+  period: 'daily',
+  target: 10000,
+  unit: 'steps',
+  description: 'Steps: 10000 steps a day',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  progress: {
+    measure: 'total',
+    current: 7500,
+    percent: 75,
+    achieved: false,
+    remaining: 2500,
+    readings: 2,
+    periodStart: '2024-01-02T00:00:00.000Z',
+    periodEnd: '2024-01-03T00:00:00.000Z',
+  },
+};
+
+describe('GoalTracker Component', () => {
+  const mockOnGoalsChanged = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show a progress ring for each goal', () => {
+    render(<GoalTracker goals={[stepGoal]} onGoalsChanged={mockOnGoalsChanged} />);
+
+    const ring = screen.getByRole('progressbar', { name: 'Steps: 10000 steps a day' });
+    expect(ring).toHaveAttribute('aria-valuenow', '75');
+    expect(ring).toHaveTextContent('75%');
+    expect(screen.getByText('7,500 steps today, 2,500 steps to go')).toBeInTheDocument();
+  });
+
+  it('should create a daily goal in the preferred unit', async () => {
+    mockGoalsAPI.createGoal.mockResolvedValue(stepGoal);
+
+    render(<GoalTracker goals={[]} displayUnits={{ water_intake: 'mL' }} onGoalsChanged={mockOnGoalsChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'water_intake' } });
+    expect(screen.getByLabelText('Unit')).toHaveValue('mL');
+    fireEvent.change(screen.getByLabelText('Target'), { target: { value: '2000' } });
+    fireEvent.click(screen.getByRole('button', { name: /add goal/i }));
+
+    await waitFor(() => {
+      expect(mockGoalsAPI.createGoal).toHaveBeenCalledWith({
+        type: 'water_intake',
+        period: 'daily',
+        target: 2000,
+        unit: 'mL',
+        timeZone,
+      });
+    });
+    await waitFor(() => {
+      expect(mockOnGoalsChanged).toHaveBeenCalled();
+    });
+  });
+
+  it('should ask for a date for a by-date goal', async () => {
+    mockGoalsAPI.createGoal.mockResolvedValue(stepGoal);
+
+    render(<GoalTracker goals={[]} onGoalsChanged={mockOnGoalsChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'weight' } });
+    fireEvent.change(screen.getByLabelText('Goal'), { target: { value: 'by_date' } });
+    fireEvent.change(screen.getByLabelText('Target'), { target: { value: '70' } });
+    expect(screen.getByRole('button', { name: /add goal/i })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Target Date'), { target: { value: '2030-06-01' } });
+    fireEvent.click(screen.getByRole('button', { name: /add goal/i }));
+
+    await waitFor(() => {
+      expect(mockGoalsAPI.createGoal).toHaveBeenCalledWith({
+        type: 'weight',
+        period: 'by_date',
+        target: 70,
+        unit: 'kg',
+        targetDate: '2030-06-01T00:00:00.000Z',
+        timeZone,
+      });
+    });
+  });
+
+  it('should show the server error when a goal is rejected', async () => {
+    mockGoalsAPI.createGoal.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: { error: 'There is already a daily goal for steps' } },
+    });
+
+    render(<GoalTracker goals={[stepGoal]} onGoalsChanged={mockOnGoalsChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'steps' } });
+    fireEvent.change(screen.getByLabelText('Target'), { target: { value: '12000' } });
+    fireEvent.click(screen.getByRole('button', { name: /add goal/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('already a daily goal for steps');
+    expect(mockOnGoalsChanged).not.toHaveBeenCalled();
+  });
+
+  it('should delete a goal after confirmation', async () => {
+    mockGoalsAPI.deleteGoal.mockResolvedValue({});
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+    render(<GoalTracker goals={[stepGoal]} onGoalsChanged={mockOnGoalsChanged} />);
+
+    fireEvent.click(screen.getByTitle('Delete Steps: 10000 steps a day'));
+
+    await waitFor(() => {
+      expect(mockGoalsAPI.deleteGoal).toHaveBeenCalledWith('goal-1');
+    });
+    await waitFor(() => {
+      expect(mockOnGoalsChanged).toHaveBeenCalled();
+    });
+  });
+});
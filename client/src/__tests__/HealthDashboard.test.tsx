@@ -1,12 +1,16 @@
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import HealthDashboard from '../components/HealthDashboard';
 import { healthAPI } from '../services/api';
+import { Goal } from '../types';
 
 // Mock the API service
 jest.mock('../services/api', () => ({
   healthAPI: {
     getHealthInsights: jest.fn(),
+    getHealthAggregates: jest.fn(),
+    getCorrelations: jest.fn(),
+    getCorrelationScatter: jest.fn(),
   },
 }));
 
@@ -54,13 +58,15 @@ describe('HealthDashboard Component', () => {
         change: -0.5,
         percentChange: -0.7,
         direction: 'decrease',
-        recordCount: 2
+        recordCount: 2,
+        movingAverages: []
       },
       heart_rate: {
         change: -3,
         percentChange: -4.0,
         direction: 'decrease',
-        recordCount: 2
+        recordCount: 2,
+        movingAverages: []
       }
     },
     recommendations: [
@@ -77,7 +83,7 @@ describe('HealthDashboard Component', () => {
     it('should render the dashboard with health data', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       expect(screen.getByText(/health insights/i)).toBeInTheDocument();
       expect(screen.getByText(/trends & analysis/i)).toBeInTheDocument();
@@ -88,13 +94,13 @@ describe('HealthDashboard Component', () => {
         () => new Promise(resolve => setTimeout(resolve, 100))
       );
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       expect(screen.getByText(/loading insights/i)).toBeInTheDocument();
     });
 
     it('should handle empty health data', () => {
-      render(<HealthDashboard userId="test-user" healthData={[]} />);
+      render(<HealthDashboard healthData={[]} />);
       
       expect(screen.getByText(/no health data available/i)).toBeInTheDocument();
     });
@@ -104,7 +110,7 @@ describe('HealthDashboard Component', () => {
     it('should display health insights when data is available', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText('4')).toBeInTheDocument(); // Total records
@@ -115,7 +121,7 @@ describe('HealthDashboard Component', () => {
     it('should display trend information', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/weight/i)).toBeInTheDocument();
@@ -128,7 +134,7 @@ describe('HealthDashboard Component', () => {
     it('should display recommendations', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/great job tracking your health/i)).toBeInTheDocument();
@@ -138,10 +144,133 @@ describe('HealthDashboard Component', () => {
   });
 
   describe('Metric Selection', () => {
+    it('should show the ranges of the charted readings', async () => {
+      mockHealthAPI.getHealthInsights.mockResolvedValue({
+        totalRecords: 2,
+        metricsTracked: ['blood_pressure'],
+        trends: {},
+        recommendations: []
+      });
+      const bloodPressureData = [
+        { id: 'bp1', type: 'blood_pressure', value: { systolic: 115, diastolic: 75 }, unit: 'mmHg', timestamp: new Date('2024-01-01'), classification: { category: 'normal', label: 'Normal', severity: 'normal' as const } },
+        { id: 'bp2', type: 'blood_pressure', value: { systolic: 165, diastolic: 105 }, unit: 'mmHg', timestamp: new Date('2024-01-02'), classification: { category: 'hypertension_stage_2', label: 'Stage 2 hypertension', severity: 'high' as const } },
+      ];
+
+      render(<HealthDashboard healthData={bloodPressureData} />);
+
+      const legend = await screen.findByLabelText('Reading ranges');
+      expect(legend).toHaveTextContent('Normal');
+      expect(legend).toHaveTextContent('High');
+      expect(legend).not.toHaveTextContent('Critical');
+    });
+
+    it('should offer derived metrics alongside logged ones', async () => {
+      mockHealthAPI.getHealthInsights.mockResolvedValue({
+        ...mockInsights,
+        trends: {
+          bmi: {
+            change: -0.2,
+            percentChange: '-0.9',
+            unit: 'kg/m²',
+            direction: 'decrease',
+            recordCount: 2,
+            min: 22.7,
+            max: 22.9,
+            mean: 22.8,
+            median: 22.8,
+            standardDeviation: 0.14,
+            slopePerWeek: -1.4,
+            movingAverage7Day: 22.8,
+            movingAverage30Day: 22.8,
+            movingAverages: [
+              { timestamp: '2024-01-01T00:00:00.000Z', average7Day: 22.9, average30Day: 22.9 },
+              { timestamp: '2024-01-02T00:00:00.000Z', average7Day: 22.8, average30Day: 22.8 }
+            ],
+            significant: false
+          }
+        },
+        derivedMetrics: {
+          bmi: {
+            label: 'BMI',
+            unit: 'kg/m²',
+            points: [
+              { timestamp: '2024-01-01T00:00:00.000Z', value: 22.9 },
+              { timestamp: '2024-01-02T00:00:00.000Z', value: 22.7 }
+            ]
+          }
+        }
+      });
+
+      render(<HealthDashboard healthData={mockHealthData} />);
+
+      expect(await screen.findByRole('option', { name: 'BMI' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'BMI' })).toBeInTheDocument();
+    });
+
+    it('should show progress towards goals of the charted metric', async () => {
+      mockHealthAPI.getHealthInsights.mockResolvedValue({ ...mockInsights, trends: {} });
+      const weightGoal: Goal = {
+        id: 'goal-1',
+        type: 'weight',
+        period: 'by_date',
+        target: 68,
+        unit: 'kg',
+        targetDate: '2024-06-01T00:00:00.000Z',
+        description: 'Weight: 68 kg by 2024-06-01',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        progress: { measure: 'latest', current: 69.5, startValue: 70, percent: 25, achieved: false, remaining: 1.5, readings: 2, periodEnd: '2024-06-01T00:00:00.000Z' }
+      };
+
+      render(<HealthDashboard healthData={mockHealthData} goals={[weightGoal]} />);
+
+      const goals = await screen.findByLabelText('Goal progress');
+      expect(goals).toHaveTextContent('Weight: 68 kg by 2024-06-01');
+      expect(goals).toHaveTextContent('Now 69.5 kg, 1.5 kg to go');
+      expect(screen.getByRole('progressbar', { name: 'Weight: 68 kg by 2024-06-01' })).toHaveAttribute('aria-valuenow', '25');
+    });
+
+    it('should chart daily totals of cumulative metrics and switch granularity', async () => {
+      mockHealthAPI.getHealthInsights.mockResolvedValue({
+        totalRecords: 3,
+        metricsTracked: ['water_intake'],
+        trends: {},
+        recommendations: []
+      });
+      mockHealthAPI.getHealthAggregates.mockImplementation(async ({ granularity }) => ({
+        type: 'water_intake',
+        granularity,
+        timeZone: 'UTC',
+        aggregation: 'sum',
+        unit: 'L',
+        buckets: [{ period: '2024-01-01', start: '2024-01-01T00:00:00.000Z', end: '2024-01-02T00:00:00.000Z', value: 1.5, count: 3 }]
+      }));
+      const waterData = ['0.5', '0.25', '0.75'].map((value, index) => ({
+        id: `w${index}`,
+        type: 'water_intake',
+        value: Number(value),
+        unit: 'L',
+        timestamp: new Date(`2024-01-01T0${index + 8}:00:00Z`)
+      }));
+
+      render(<HealthDashboard healthData={waterData} />);
+
+      expect(await screen.findByRole('button', { name: 'Daily', pressed: true })).toBeInTheDocument();
+      await waitFor(() => {
+        expect(mockHealthAPI.getHealthAggregates).toHaveBeenCalledWith(expect.objectContaining({ type: 'water_intake', granularity: 'day' }));
+      });
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Weekly' }));
+
+      expect(await screen.findByRole('button', { name: 'Weekly', pressed: true })).toBeInTheDocument();
+      await waitFor(() => {
+        expect(mockHealthAPI.getHealthAggregates).toHaveBeenCalledWith(expect.objectContaining({ type: 'water_intake', granularity: 'week' }));
+      });
+    });
+
     it('should allow selecting different metrics for detailed view', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/weight/i)).toBeInTheDocument();
@@ -152,7 +281,7 @@ describe('HealthDashboard Component', () => {
     it('should show metric details when selected', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         const weightButton = screen.getByText(/weight/i);
@@ -169,7 +298,7 @@ describe('HealthDashboard Component', () => {
     it('should display trend direction correctly', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         // Should show decreasing trends
@@ -180,20 +309,67 @@ describe('HealthDashboard Component', () => {
     it('should display percentage changes', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/-0.7%/i)).toBeInTheDocument();
         expect(screen.getByText(/-4.0%/i)).toBeInTheDocument();
       });
     });
+
+    it('should show the statistics and significance of each trend', async () => {
+      mockHealthAPI.getHealthInsights.mockResolvedValue({
+        totalRecords: 3,
+        metricsTracked: ['steps'],
+        trends: {
+          steps: {
+            change: 4000,
+            percentChange: null,
+            unit: 'steps',
+            direction: 'increase',
+            recordCount: 3,
+            min: 0,
+            max: 4000,
+            mean: 2000,
+            median: 2000,
+            standardDeviation: 2000,
+            slopePerWeek: 14000,
+            movingAverage7Day: 2000,
+            movingAverage30Day: 1500,
+            movingAverages: [
+              { timestamp: '2024-01-01T20:00:00.000Z', average7Day: 0, average30Day: 0 },
+              { timestamp: '2024-01-02T20:00:00.000Z', average7Day: 1000, average30Day: 1000 },
+              { timestamp: '2024-01-03T20:00:00.000Z', average7Day: 2000, average30Day: 1500 }
+            ],
+            significant: true
+          }
+        },
+        recommendations: []
+      });
+      const stepsData = [0, 2000, 4000].map((value, index) => ({
+        id: `s${index}`,
+        type: 'steps',
+        value,
+        unit: 'steps',
+        timestamp: new Date(`2024-01-0${index + 1}T20:00:00Z`)
+      }));
+
+      render(<HealthDashboard healthData={stepsData} />);
+
+      expect(await screen.findByText('Significant')).toBeInTheDocument();
+      expect(screen.getByText('+14000 steps per week')).toBeInTheDocument();
+      expect(screen.getByText('(over 3 records)')).toBeInTheDocument();
+      expect(screen.getByText('2000 ± 2000')).toBeInTheDocument();
+      expect(screen.getByText('0 – 4000')).toBeInTheDocument();
+      expect(screen.getByText('1500')).toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
     it('should handle API errors gracefully', async () => {
       mockHealthAPI.getHealthInsights.mockRejectedValue(new Error('API Error'));
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/failed to load insights/i)).toBeInTheDocument();
@@ -203,7 +379,7 @@ describe('HealthDashboard Component', () => {
     it('should still render with health data even if insights fail', async () => {
       mockHealthAPI.getHealthInsights.mockRejectedValue(new Error('API Error'));
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       // Should still show the basic dashboard structure
       expect(screen.getByText(/health insights/i)).toBeInTheDocument();
@@ -214,7 +390,7 @@ describe('HealthDashboard Component', () => {
     it('should render charts when data is available', async () => {
       mockHealthAPI.getHealthInsights.mockResolvedValue(mockInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         // Should render chart containers
@@ -250,7 +426,7 @@ describe('HealthDashboard Component', () => {
       
       mockHealthAPI.getHealthInsights.mockResolvedValue(mixedInsights);
       
-      render(<HealthDashboard userId="test-user" healthData={mixedData} />);
+      render(<HealthDashboard healthData={mixedData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/blood pressure/i)).toBeInTheDocument();
@@ -269,7 +445,7 @@ describe('HealthDashboard Component', () => {
         value: 375,
       });
       
-      render(<HealthDashboard userId="test-user" healthData={mockHealthData} />);
+      render(<HealthDashboard healthData={mockHealthData} />);
       
       await waitFor(() => {
         expect(screen.getByText(/health insights/i)).toBeInTheDocument();
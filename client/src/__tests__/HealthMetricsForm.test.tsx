@@ -9,6 +9,9 @@ jest.mock('../services/api', () => ({
   healthAPI: {
     addHealthMetric: jest.fn(),
   },
+  // As axios.isAxiosError narrows it
+  getApiErrorResponse: (error: { isAxiosError?: boolean; response?: unknown }) =>
+    (error.isAxiosError ? error.response : undefined),
 }));
 
 const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
@@ -16,7 +19,6 @@ const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
 describe('HealthMetricsForm Component', () => {
   const mockOnMetricAdded = jest.fn();
   const defaultProps = {
-    userId: 'test-user',
     onMetricAdded: mockOnMetricAdded,
   };
 
@@ -84,6 +86,13 @@ describe('HealthMetricsForm Component', () => {
       expect(unitInput).toBeInTheDocument();
     });
 
+    it('should open with the metric chosen when one is given', () => {
+      render(<HealthMetricsForm {...defaultProps} initialType="water_intake" displayUnits={{ water_intake: 'mL' }} />);
+
+      expect(screen.getByLabelText(/metric type/i)).toBeInTheDocument();
+      expect(screen.getByDisplayValue('mL')).toBeInTheDocument();
+    });
+
     it('should handle blood pressure as text input', async () => {
       const user = userEvent.setup();
       render(<HealthMetricsForm {...defaultProps} />);
@@ -133,18 +142,82 @@ describe('HealthMetricsForm Component', () => {
       await user.click(submitButton);
       
       await waitFor(() => {
-        expect(mockHealthAPI.addHealthMetric).toHaveBeenCalledWith(
-          {
-            type: 'weight',
-            value: 70,
-            unit: 'kg',
-            notes: undefined,
-          },
-          'test-user'
-        );
+        expect(mockHealthAPI.addHealthMetric).toHaveBeenCalledWith({
+          type: 'weight',
+          value: 70,
+          unit: 'kg',
+          notes: undefined,
+          timestamp: expect.any(Date),
+        });
+      });
+    });
+
+    it('should submit blood pressure as a structured reading', async () => {
+      const user = userEvent.setup();
+      mockHealthAPI.addHealthMetric.mockResolvedValue({ message: 'Health metric recorded successfully' });
+
+      render(<HealthMetricsForm {...defaultProps} />);
+
+      await user.click(screen.getByRole('button', { name: /add health metric/i }));
+      await user.click(screen.getByText('Blood Pressure'));
+      await user.type(screen.getByLabelText(/systolic/i), '120');
+      await user.type(screen.getByLabelText(/diastolic/i), '80');
+      await user.type(screen.getByLabelText(/pulse/i), '72');
+
+      await user.click(screen.getByRole('button', { name: /add metric/i }));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.addHealthMetric).toHaveBeenCalledWith({
+          type: 'blood_pressure',
+          value: { systolic: 120, diastolic: 80, pulse: 72 },
+          unit: 'mmHg',
+          notes: undefined,
+          timestamp: expect.any(Date),
+        });
       });
     });
 
+    it('should submit the chosen measurement time', async () => {
+      const user = userEvent.setup();
+      mockHealthAPI.addHealthMetric.mockResolvedValue({ message: 'Health metric recorded successfully' });
+
+      render(<HealthMetricsForm {...defaultProps} />);
+
+      await user.click(screen.getByRole('button', { name: /add health metric/i }));
+      await user.click(screen.getByText('Sleep Hours'));
+      await user.type(screen.getByLabelText(/value/i), '7.5');
+
+      const timestampInput = screen.getByLabelText(/measured at/i);
+      fireEvent.change(timestampInput, { target: { value: '2024-01-01T22:30' } });
+
+      await user.click(screen.getByRole('button', { name: /add metric/i }));
+
+      await waitFor(() => {
+        expect(mockHealthAPI.addHealthMetric).toHaveBeenCalledWith(expect.objectContaining({
+          type: 'sleep_hours',
+          timestamp: new Date('2024-01-01T22:30'),
+        }));
+      });
+    });
+
+    it('should not submit a measurement time in the future', async () => {
+      const user = userEvent.setup();
+      const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
+
+      render(<HealthMetricsForm {...defaultProps} />);
+
+      await user.click(screen.getByRole('button', { name: /add health metric/i }));
+      await user.click(screen.getByText('Weight'));
+      await user.type(screen.getByLabelText(/value/i), '70');
+      fireEvent.change(screen.getByLabelText(/measured at/i), { target: { value: '2999-01-01T08:00' } });
+
+      await user.click(screen.getByRole('button', { name: /add metric/i }));
+
+      expect(alertSpy).toHaveBeenCalled();
+      expect(mockHealthAPI.addHealthMetric).not.toHaveBeenCalled();
+      alertSpy.mockRestore();
+    });
+
     it('should call onMetricAdded callback after successful submission', async () => {
       const user = userEvent.setup();
       mockHealthAPI.addHealthMetric.mockResolvedValue({
@@ -241,6 +314,29 @@ describe('HealthMetricsForm Component', () => {
         expect(screen.getByText(/failed to add health metric/i)).toBeInTheDocument();
       });
     });
+
+    it('should save an unusual reading only after the user confirms it', async () => {
+      const user = userEvent.setup();
+      const unusual = {
+        isAxiosError: true,
+        response: { status: 409, data: { anomaly: { reasons: ['Weight of 700 kg is outside the plausible range of 25 kg to 300 kg'], robustZScore: null } } }
+      };
+      mockHealthAPI.addHealthMetric.mockRejectedValueOnce(unusual).mockResolvedValueOnce({ data: {} });
+      const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(true);
+
+      render(<HealthMetricsForm {...defaultProps} />);
+
+      await user.click(screen.getByRole('button', { name: /add health metric/i }));
+      await user.click(screen.getByText('Weight'));
+      await user.type(screen.getByLabelText(/weight value/i), '700');
+      await user.click(screen.getByRole('button', { name: 'Add Metric' }));
+
+      await waitFor(() => {
+        expect(mockOnMetricAdded).toHaveBeenCalled();
+      });
+      expect(confirm).toHaveBeenCalledWith(expect.stringContaining('Weight of 700 kg is outside the plausible range'));
+      expect(mockHealthAPI.addHealthMetric).toHaveBeenLastCalledWith(expect.objectContaining({ value: 700, confirmed: true }));
+    });
   });
 
   describe('Form Validation', () => {
@@ -0,0 +1,91 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import MetricComparison from '../components/MetricComparison';
+import { healthAPI } from '../services/api';
+import { CorrelationScatter, HealthCorrelations } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  healthAPI: {
+    getCorrelations: jest.fn(),
+    getCorrelationScatter: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockHealthAPI = healthAPI as jest.Mocked<typeof healthAPI>;
+
+const correlations: HealthCorrelations = {
+  timeZone: 'UTC',
+  minSamples: 10,
+  maxLag: 2,
+  series: [
+    { key: 'heart_rate', label: 'Heart Rate', unit: 'bpm' },
+    { key: 'sleep_hours', label: 'Sleep Hours', unit: 'hours' },
+    { key: 'steps', label: 'Steps', unit: 'steps' },
+  ],
+  correlations: [
+    { first: 'sleep_hours', second: 'heart_rate', lag: 1, r: -0.82, sampleSize: 14, significant: true },
+  ],
+};
+
+const scatterOf = (x: string, y: string, lag: number, r: number | null, sampleSize: number): CorrelationScatter => ({
+  x: correlations.series.find(series => series.key === x)!,
+  y: correlations.series.find(series => series.key === y)!,
+  lag,
+  timeZone: 'UTC',
+  r,
+  sampleSize,
+  significant: r !== null && Math.abs(r) > 0.5,
+  points: [{ date: '2024-03-01', x: 7.5, y: 70 }],
+});
+
+describe('MetricComparison Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should start on the strongest correlation', async () => {
+    mockHealthAPI.getCorrelations.mockResolvedValue(correlations);
+    mockHealthAPI.getCorrelationScatter.mockResolvedValue(scatterOf('sleep_hours', 'heart_rate', 1, -0.82, 14));
+
+    render(<MetricComparison healthData={[]} />);
+
+    expect(await screen.findByText('Strong negative correlation (r = -0.82 over 14 days), unlikely to be chance.')).toBeInTheDocument();
+    expect(screen.getByLabelText('Compare')).toHaveValue('sleep_hours');
+    expect(screen.getByLabelText('With')).toHaveValue('heart_rate');
+    expect(screen.getByLabelText('Measured')).toHaveValue('1');
+    expect(mockHealthAPI.getCorrelationScatter).toHaveBeenCalledWith(expect.objectContaining({ x: 'sleep_hours', y: 'heart_rate', lag: 1 }));
+  });
+
+  it('should compare any two metrics the user picks', async () => {
+    mockHealthAPI.getCorrelations.mockResolvedValue(correlations);
+    mockHealthAPI.getCorrelationScatter.mockImplementation(async ({ x, y, lag = 0 }) =>
+      y === 'steps' ? scatterOf(x, y, lag, null, 4) : scatterOf(x, y, lag, -0.82, 14));
+
+    render(<MetricComparison healthData={[]} />);
+
+    await screen.findByText(/r = -0.82/);
+    fireEvent.change(screen.getByLabelText('With'), { target: { value: 'steps' } });
+    fireEvent.change(screen.getByLabelText('Measured'), { target: { value: '0' } });
+
+    expect(await screen.findByText('Not enough days to compare yet: 4 of the 10 needed.')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(mockHealthAPI.getCorrelationScatter).toHaveBeenLastCalledWith(expect.objectContaining({ x: 'sleep_hours', y: 'steps', lag: 0 }));
+    });
+  });
+
+  it('should show nothing until two metrics have been logged', async () => {
+    mockHealthAPI.getCorrelations.mockResolvedValue({ ...correlations, series: correlations.series.slice(0, 1), correlations: [] });
+
+    const { container } = render(<MetricComparison healthData={[]} />);
+
+    await waitFor(() => {
+      expect(mockHealthAPI.getCorrelations).toHaveBeenCalled();
+    });
+    expect(container).toBeEmptyDOMElement();
+    expect(mockHealthAPI.getCorrelationScatter).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import MetricDefinitionManager from '../components/MetricDefinitionManager';
+import { metricDefinitionsAPI } from '../services/api';
+import { MetricDefinition } from '../types';
+import { BUILT_IN_METRIC_DEFINITIONS } from '../utils/metricDefinitions';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  metricDefinitionsAPI: {
+    createMetricDefinition: jest.fn(),
+    deleteMetricDefinition: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockMetricDefinitionsAPI = metricDefinitionsAPI as jest.Mocked<typeof metricDefinitionsAPI>;
+
+const painLevel: MetricDefinition = {
+  key: 'pain_level',
+  label: 'Pain level',
+  unit: '',
+  valueKind: 'enum',
+  options: ['none', 'mild', 'severe'],
+  aggregation: 'last',
+  icon: 'Zap',
+  color: 'red',
+  builtIn: false,
+};
+
+describe('MetricDefinitionManager Component', () => {
+  const mockOnDefinitionsChanged = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list only the user\'s own metrics', () => {
+    render(
+      <MetricDefinitionManager
+        definitions={[...BUILT_IN_METRIC_DEFINITIONS, painLevel]}
+        onDefinitionsChanged={mockOnDefinitionsChanged}
+      />
+    );
+
+    expect(screen.getByText('Pain level')).toBeInTheDocument();
+    expect(screen.getByText('One of a list · none, mild, severe')).toBeInTheDocument();
+    expect(screen.queryByText('Weight')).not.toBeInTheDocument();
+  });
+
+  it('should create a pair metric with its part names and limits', async () => {
+    mockMetricDefinitionsAPI.createMetricDefinition.mockResolvedValue({ ...painLevel, key: 'grip_strength' });
+
+    render(<MetricDefinitionManager definitions={BUILT_IN_METRIC_DEFINITIONS} onDefinitionsChanged={mockOnDefinitionsChanged} />);
+
+    expect(screen.getByText('You have not defined any metrics yet.')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Grip strength' } });
+    fireEvent.change(screen.getByLabelText('Value'), { target: { value: 'pair' } });
+    fireEvent.change(screen.getByLabelText('Unit (Optional)'), { target: { value: 'kg' } });
+    fireEvent.change(screen.getByLabelText('First Number'), { target: { value: 'Left' } });
+    fireEvent.change(screen.getByLabelText('Second Number'), { target: { value: 'Right' } });
+    fireEvent.change(screen.getByLabelText('Minimum (Optional)'), { target: { value: '0' } });
+    fireEvent.change(screen.getByLabelText('Icon'), { target: { value: 'Dumbbell' } });
+    fireEvent.click(screen.getByRole('button', { name: /create metric/i }));
+
+    await waitFor(() => {
+      expect(mockMetricDefinitionsAPI.createMetricDefinition).toHaveBeenCalledWith({
+        label: 'Grip strength',
+        unit: 'kg',
+        valueKind: 'pair',
+        min: 0,
+        aggregation: 'average',
+        parts: ['Left', 'Right'],
+        icon: 'Dumbbell',
+        color: 'gray',
+      });
+    });
+    await waitFor(() => {
+      expect(mockOnDefinitionsChanged).toHaveBeenCalled();
+    });
+  });
+
+  it('should say how a day\'s readings of a number metric combine', async () => {
+    mockMetricDefinitionsAPI.createMetricDefinition.mockResolvedValue({ ...painLevel, key: 'coffee' });
+
+    render(<MetricDefinitionManager definitions={BUILT_IN_METRIC_DEFINITIONS} onDefinitionsChanged={mockOnDefinitionsChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Coffee' } });
+    fireEvent.change(screen.getByLabelText('Unit (Optional)'), { target: { value: 'cups' } });
+    fireEvent.change(screen.getByLabelText('Readings in a Day'), { target: { value: 'sum' } });
+    fireEvent.click(screen.getByRole('button', { name: /create metric/i }));
+
+    await waitFor(() => {
+      expect(mockMetricDefinitionsAPI.createMetricDefinition).toHaveBeenCalledWith(expect.objectContaining({
+        label: 'Coffee',
+        valueKind: 'number',
+        aggregation: 'sum',
+      }));
+    });
+  });
+
+  it('should split enum options on commas', async () => {
+    mockMetricDefinitionsAPI.createMetricDefinition.mockResolvedValue(painLevel);
+
+    render(<MetricDefinitionManager definitions={BUILT_IN_METRIC_DEFINITIONS} onDefinitionsChanged={mockOnDefinitionsChanged} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Pain level' } });
+    fireEvent.change(screen.getByLabelText('Value'), { target: { value: 'enum' } });
+    fireEvent.change(screen.getByLabelText('Options'), { target: { value: 'none, mild,, severe ' } });
+    fireEvent.click(screen.getByRole('button', { name: /create metric/i }));
+
+    await waitFor(() => {
+      expect(mockMetricDefinitionsAPI.createMetricDefinition).toHaveBeenCalledWith(expect.objectContaining({
+        valueKind: 'enum',
+        options: ['none', 'mild', 'severe'],
+      }));
+    });
+    expect(screen.queryByLabelText('Minimum (Optional)')).not.toBeInTheDocument();
+  });
+
+  it('should show the server error when a metric cannot be deleted', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    mockMetricDefinitionsAPI.deleteMetricDefinition.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: { error: 'Delete the 2 reading(s) of this metric first' } },
+    });
+
+    render(<MetricDefinitionManager definitions={[painLevel]} onDefinitionsChanged={mockOnDefinitionsChanged} />);
+
+    fireEvent.click(screen.getByTitle('Delete Pain level'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Delete the 2 reading(s) of this metric first');
+    expect(mockMetricDefinitionsAPI.deleteMetricDefinition).toHaveBeenCalledWith('pain_level');
+    expect(mockOnDefinitionsChanged).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import ProfilePreferences from '../components/ProfilePreferences';
+import { authAPI } from '../services/api';
+import { User } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  authAPI: {
+    updatePreferences: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockAuthAPI = authAPI as jest.Mocked<typeof authAPI>;
+
+const user: User = {
+  id: 'user-1',
+  name: 'Test User',
+  email: 'test@example.com',
+  preferences: { displayUnits: { weight: 'lb' } },
+  createdAt: new Date('2024-01-01'),
+};
+
+describe('ProfilePreferences Component', () => {
+  const mockOnUserUpdated = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should save the birth year alongside the other preferences', async () => {
+    const updatedUser = { ...user, preferences: { ...user.preferences, profile: { birthYear: 1958 } } };
+    mockAuthAPI.updatePreferences.mockResolvedValue(updatedUser);
+
+    render(<ProfilePreferences user={user} onUserUpdated={mockOnUserUpdated} />);
+
+    expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Birth Year (Optional)'), { target: { value: '1958' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mockAuthAPI.updatePreferences).toHaveBeenCalledWith({
+        displayUnits: { weight: 'lb' },
+        profile: { birthYear: 1958 },
+      });
+    });
+    await waitFor(() => {
+      expect(mockOnUserUpdated).toHaveBeenCalledWith(updatedUser);
+    });
+  });
+
+  it('should clear the birth year when the field is emptied', async () => {
+    const profiledUser = { ...user, preferences: { ...user.preferences, profile: { birthYear: 1958 } } };
+    mockAuthAPI.updatePreferences.mockResolvedValue(user);
+
+    render(<ProfilePreferences user={profiledUser} onUserUpdated={mockOnUserUpdated} />);
+
+    expect(screen.getByLabelText('Birth Year (Optional)')).toHaveValue(1958);
+    fireEvent.change(screen.getByLabelText('Birth Year (Optional)'), { target: { value: '' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mockAuthAPI.updatePreferences).toHaveBeenCalledWith({
+        displayUnits: { weight: 'lb' },
+        profile: {},
+      });
+    });
+  });
+
+  it('should show the server error when the birth year is rejected', async () => {
+    mockAuthAPI.updatePreferences.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: { error: '"profile.birthYear" must be greater than or equal to 1900' } },
+    });
+
+    render(<ProfilePreferences user={user} onUserUpdated={mockOnUserUpdated} />);
+
+    fireEvent.change(screen.getByLabelText('Birth Year (Optional)'), { target: { value: '1850' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('must be greater than or equal to 1900');
+    expect(mockOnUserUpdated).not.toHaveBeenCalled();
+  });
+});
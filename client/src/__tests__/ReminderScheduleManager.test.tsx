@@ -0,0 +1,109 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import ReminderScheduleManager from '../components/ReminderScheduleManager';
+import { remindersAPI } from '../services/api';
+import { ReminderSchedule } from '../types';
+
+// Mock the API service
+jest.mock('../services/api', () => ({
+  remindersAPI: {
+    getReminderSchedules: jest.fn(),
+    createReminderSchedule: jest.fn(),
+    deleteReminderSchedule: jest.fn(),
+  },
+  // As axios.isAxiosError narrows it
+  getApiErrorMessage: (error: { isAxiosError?: boolean; response?: { data?: { error?: string } } }) =>
+    (error.isAxiosError ? error.response?.data?.error : undefined),
+}));
+
+const mockRemindersAPI = remindersAPI as jest.Mocked<typeof remindersAPI>;
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const bloodPressureSchedule: ReminderSchedule = {
+  id: 'schedule-1',
+  type: 'blood_pressure',
+  times: ['08:00', '20:00'],
+  timeZone,
+  description: 'Blood Pressure at 08:00 and 20:00 every day',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('ReminderScheduleManager Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRemindersAPI.getReminderSchedules.mockResolvedValue([]);
+  });
+
+  it('should list the existing reminder schedules', async () => {
+    mockRemindersAPI.getReminderSchedules.mockResolvedValue([bloodPressureSchedule]);
+
+    render(<ReminderScheduleManager />);
+
+    expect(await screen.findByText('Blood Pressure at 08:00 and 20:00 every day')).toBeInTheDocument();
+  });
+
+  it('should create a schedule in the local time zone', async () => {
+    mockRemindersAPI.createReminderSchedule.mockResolvedValue(bloodPressureSchedule);
+
+    render(<ReminderScheduleManager />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'blood_pressure' } });
+    fireEvent.change(screen.getByLabelText('Times'), { target: { value: '8:00, 20:00' } });
+    fireEvent.click(screen.getByRole('button', { name: /add reminder/i }));
+
+    await waitFor(() => {
+      expect(mockRemindersAPI.createReminderSchedule).toHaveBeenCalledWith({
+        type: 'blood_pressure',
+        times: ['08:00', '20:00'],
+        timeZone,
+      });
+    });
+    await waitFor(() => {
+      expect(mockRemindersAPI.getReminderSchedules).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should only send the chosen days when not every day is chosen', async () => {
+    mockRemindersAPI.createReminderSchedule.mockResolvedValue(bloodPressureSchedule);
+
+    render(<ReminderScheduleManager />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'weight' } });
+    fireEvent.change(screen.getByLabelText('Times'), { target: { value: '07:30' } });
+    fireEvent.click(screen.getByLabelText('Sat'));
+    fireEvent.click(screen.getByLabelText('Sun'));
+    fireEvent.click(screen.getByRole('button', { name: /add reminder/i }));
+
+    await waitFor(() => {
+      expect(mockRemindersAPI.createReminderSchedule).toHaveBeenCalledWith({
+        type: 'weight',
+        times: ['07:30'],
+        days: [1, 2, 3, 4, 5],
+        timeZone,
+      });
+    });
+  });
+
+  it('should not submit times that are not times of day', () => {
+    render(<ReminderScheduleManager />);
+
+    fireEvent.change(screen.getByLabelText('Metric'), { target: { value: 'weight' } });
+    fireEvent.change(screen.getByLabelText('Times'), { target: { value: '25:00' } });
+
+    expect(screen.getByRole('button', { name: /add reminder/i })).toBeDisabled();
+  });
+
+  it('should delete a schedule after confirmation', async () => {
+    mockRemindersAPI.getReminderSchedules.mockResolvedValue([bloodPressureSchedule]);
+    mockRemindersAPI.deleteReminderSchedule.mockResolvedValue({});
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+    render(<ReminderScheduleManager />);
+
+    fireEvent.click(await screen.findByTitle('Delete Blood Pressure at 08:00 and 20:00 every day'));
+
+    await waitFor(() => {
+      expect(mockRemindersAPI.deleteReminderSchedule).toHaveBeenCalledWith('schedule-1');
+    });
+  });
+});
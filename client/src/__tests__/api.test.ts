@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { healthAPI, chatAPI, checkServerHealth } from '../services/api';
+import { healthAPI, chatAPI, authAPI, metricDefinitionsAPI, checkServerHealth, getAuthToken } from '../services/api';
 
 // Mock axios
 jest.mock('axios');
@@ -13,39 +13,59 @@ describe('API Services', () => {
   describe('healthAPI', () => {
     describe('getHealthData', () => {
       it('should fetch health data successfully', async () => {
-        const mockData = [
-          {
-            id: '1',
-            type: 'weight',
-            value: 70,
-            unit: 'kg',
-            timestamp: new Date(),
-            notes: 'Morning weight'
-          }
-        ];
+        const mockData = {
+          data: [
+            {
+              id: '1',
+              type: 'weight',
+              value: 70,
+              unit: 'kg',
+              timestamp: new Date(),
+              notes: 'Morning weight'
+            }
+          ],
+          pagination: { limit: 100, total: 1, hasMore: false, nextCursor: null }
+        };
 
         mockedAxios.get.mockResolvedValue({ data: mockData });
 
-        const result = await healthAPI.getHealthData('test-user');
+        const result = await healthAPI.getHealthData();
 
-        expect(mockedAxios.get).toHaveBeenCalledWith('/health/data/test-user');
+        expect(mockedAxios.get).toHaveBeenCalledWith('/health/data', {
+          params: { from: undefined, to: undefined }
+        });
         expect(result).toEqual(mockData);
       });
 
-      it('should use default userId when not provided', async () => {
-        const mockData = [];
-        mockedAxios.get.mockResolvedValue({ data: mockData });
+      it('should pass filter and pagination options as query parameters', async () => {
+        mockedAxios.get.mockResolvedValue({ data: { data: [], pagination: {} } });
 
-        await healthAPI.getHealthData();
+        await healthAPI.getHealthData({
+          type: 'weight',
+          from: new Date('2024-01-01T00:00:00.000Z'),
+          to: new Date('2024-01-31T00:00:00.000Z'),
+          order: 'desc',
+          limit: 20,
+          cursor: 'abc'
+        });
 
-        expect(mockedAxios.get).toHaveBeenCalledWith('/health/data/default');
+        expect(mockedAxios.get).toHaveBeenCalledWith('/health/data', {
+          params: {
+            type: 'weight',
+            from: '2024-01-01T00:00:00.000Z',
+            to: '2024-01-31T00:00:00.000Z',
+            order: 'desc',
+            limit: 20,
+            cursor: 'abc'
+          }
+        });
       });
 
       it('should handle API errors', async () => {
         const error = new Error('Network error');
         mockedAxios.get.mockRejectedValue(error);
 
-        await expect(healthAPI.getHealthData('test-user')).rejects.toThrow('Network error');
+        await expect(healthAPI.getHealthData()).rejects.toThrow('Network error');
       });
     });
 
@@ -69,43 +89,73 @@ describe('API Services', () => {
 
         mockedAxios.post.mockResolvedValue({ data: mockResponse });
 
-        const result = await healthAPI.addHealthMetric(metric, 'test-user');
+        const result = await healthAPI.addHealthMetric(metric);
 
-        expect(mockedAxios.post).toHaveBeenCalledWith('/health/data', {
-          ...metric,
-          userId: 'test-user'
-        });
+        expect(mockedAxios.post).toHaveBeenCalledWith('/health/data', metric);
         expect(result).toEqual(mockResponse);
       });
 
-      it('should use default userId when not provided', async () => {
+      it('should handle API errors', async () => {
         const metric = {
           type: 'weight' as const,
           value: 70,
           unit: 'kg'
         };
 
-        mockedAxios.post.mockResolvedValue({ data: { message: 'Success' } });
-
-        await healthAPI.addHealthMetric(metric);
+        const error = new Error('Validation error');
+        mockedAxios.post.mockRejectedValue(error);
 
-        expect(mockedAxios.post).toHaveBeenCalledWith('/health/data', {
-          ...metric,
-          userId: 'default'
-        });
+        await expect(healthAPI.addHealthMetric(metric)).rejects.toThrow('Validation error');
       });
+    });
 
-      it('should handle API errors', async () => {
+    describe('updateHealthMetric', () => {
+      it('should update health metric successfully', async () => {
         const metric = {
           type: 'weight' as const,
+          value: 71,
+          unit: 'kg',
+          notes: 'Corrected entry'
+        };
+
+        const mockResponse = {
+          message: 'Health metric updated successfully',
+          data: {
+            id: '1',
+            ...metric,
+            timestamp: new Date()
+          }
+        };
+
+        mockedAxios.put.mockResolvedValue({ data: mockResponse });
+
+        const result = await healthAPI.updateHealthMetric('1', metric);
+
+        expect(mockedAxios.put).toHaveBeenCalledWith('/health/data/1', metric);
+        expect(result).toEqual(mockResponse);
+      });
+
+      it('should handle API errors', async () => {
+        const error = new Error('Health metric not found');
+        mockedAxios.put.mockRejectedValue(error);
+
+        await expect(healthAPI.updateHealthMetric('missing', {
+          type: 'weight',
           value: 70,
           unit: 'kg'
-        };
+        })).rejects.toThrow('Health metric not found');
+      });
+    });
 
-        const error = new Error('Validation error');
-        mockedAxios.post.mockRejectedValue(error);
+    describe('deleteHealthMetric', () => {
+      it('should delete health metric successfully', async () => {
+        const mockResponse = { message: 'Health metric deleted successfully' };
+        mockedAxios.delete.mockResolvedValue({ data: mockResponse });
 
-        await expect(healthAPI.addHealthMetric(metric, 'test-user')).rejects.toThrow('Validation error');
+        const result = await healthAPI.deleteHealthMetric('1');
+
+        expect(mockedAxios.delete).toHaveBeenCalledWith('/health/data/1');
+        expect(result).toEqual(mockResponse);
       });
     });
 
@@ -127,26 +177,202 @@ describe('API Services', () => {
 
         mockedAxios.get.mockResolvedValue({ data: mockInsights });
 
-        const result = await healthAPI.getHealthInsights('test-user');
+        const result = await healthAPI.getHealthInsights();
 
-        expect(mockedAxios.get).toHaveBeenCalledWith('/health/insights/test-user');
+        expect(mockedAxios.get).toHaveBeenCalledWith('/health/insights');
         expect(result).toEqual(mockInsights);
       });
 
-      it('should use default userId when not provided', async () => {
-        mockedAxios.get.mockResolvedValue({ data: {} });
+      it('should handle API errors', async () => {
+        const error = new Error('Server error');
+        mockedAxios.get.mockRejectedValue(error);
+
+        await expect(healthAPI.getHealthInsights()).rejects.toThrow('Server error');
+      });
+    });
+  });
+
+  describe('export', () => {
+    it('should download the export as a blob with filters', async () => {
+      const blob = new Blob(['timestamp,type']);
+      mockedAxios.get.mockResolvedValue({ data: blob });
+      const from = new Date('2024-01-01T00:00:00.000Z');
 
-        await healthAPI.getHealthInsights();
+      const result = await healthAPI.exportHealthData('csv', { type: 'weight', from });
 
-        expect(mockedAxios.get).toHaveBeenCalledWith('/health/insights/default');
+      expect(mockedAxios.get).toHaveBeenCalledWith('/health/export', {
+        params: { format: 'csv', type: 'weight', from: '2024-01-01T00:00:00.000Z', to: undefined },
+        responseType: 'blob'
       });
+      expect(result).toBe(blob);
+    });
 
-      it('should handle API errors', async () => {
-        const error = new Error('Server error');
-        mockedAxios.get.mockRejectedValue(error);
+    it('should fetch the printable report as HTML text', async () => {
+      mockedAxios.get.mockResolvedValue({ data: '<html></html>' });
+
+      const result = await healthAPI.getHealthReport();
 
-        await expect(healthAPI.getHealthInsights('test-user')).rejects.toThrow('Server error');
+      expect(mockedAxios.get).toHaveBeenCalledWith('/health/export/report', {
+        params: { from: undefined, to: undefined },
+        responseType: 'text'
       });
+      expect(result).toBe('<html></html>');
+    });
+  });
+
+  describe('CSV import', () => {
+    const options = { mapping: { timestamp: 'Date', value: 'Weight' }, defaults: { type: 'weight' as const } };
+
+    it('should request a preview with the mapping', async () => {
+      const preview = { columns: ['Date', 'Weight'], rows: [], summary: { total: 0, valid: 0, invalid: 0 } };
+      mockedAxios.post.mockResolvedValue({ data: preview });
+
+      const result = await healthAPI.previewCsvImport('Date,Weight', options);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/health/import/csv/preview', { csv: 'Date,Weight', ...options });
+      expect(result).toEqual(preview);
+    });
+
+    it('should commit the import', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { message: 'Imported 2 health metrics', importId: 'import-1', count: 2 } });
+
+      const result = await healthAPI.importCsv('Date,Weight\n2024-01-01,70\n2024-01-02,69', options);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/health/import/csv', {
+        csv: 'Date,Weight\n2024-01-01,70\n2024-01-02,69',
+        ...options
+      });
+      expect(result.count).toBe(2);
+    });
+  });
+
+  describe('Apple Health import', () => {
+    it('should create a job and upload the export to it as XML', async () => {
+      const job = { id: 'job-1', status: 'waiting' };
+      const file = new File(['<HealthData/>'], 'export.xml', { type: 'text/xml' });
+      mockedAxios.post.mockResolvedValue({ data: job });
+      mockedAxios.put.mockResolvedValue({ data: { ...job, status: 'completed', imported: 3 } });
+
+      const created = await healthAPI.createAppleHealthImport();
+      const finished = await healthAPI.uploadAppleHealthExport(created.id, file);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/health/import/apple-health');
+      expect(mockedAxios.put).toHaveBeenCalledWith('/health/import/apple-health/job-1', file, {
+        headers: { 'Content-Type': 'application/xml' }
+      });
+      expect(finished.imported).toBe(3);
+    });
+
+    it('should fetch job progress', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 'job-1', status: 'reading', bytesRead: 10 } });
+
+      const result = await healthAPI.getAppleHealthImport('job-1');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('/health/import/apple-health/job-1');
+      expect(result.bytesRead).toBe(10);
+    });
+  });
+
+  describe('metricDefinitionsAPI', () => {
+    it('should list definitions and create new ones', async () => {
+      const definition = { key: 'pain_level', label: 'Pain level', valueKind: 'enum', options: ['none', 'mild'] };
+      mockedAxios.get.mockResolvedValue({ data: { definitions: [definition] } });
+      mockedAxios.post.mockResolvedValue({ data: { message: 'Metric definition created successfully', definition } });
+
+      const definitions = await metricDefinitionsAPI.getMetricDefinitions();
+      const created = await metricDefinitionsAPI.createMetricDefinition({
+        label: 'Pain level',
+        valueKind: 'enum',
+        options: ['none', 'mild']
+      });
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('/metric-definitions');
+      expect(definitions).toEqual([definition]);
+      expect(mockedAxios.post).toHaveBeenCalledWith('/metric-definitions', {
+        label: 'Pain level',
+        valueKind: 'enum',
+        options: ['none', 'mild']
+      });
+      expect(created).toEqual(definition);
+    });
+
+    it('should delete a definition by key', async () => {
+      mockedAxios.delete.mockResolvedValue({ data: { message: 'Metric definition deleted successfully' } });
+
+      await metricDefinitionsAPI.deleteMetricDefinition('pain_level');
+
+      expect(mockedAxios.delete).toHaveBeenCalledWith('/metric-definitions/pain_level');
+    });
+  });
+
+  describe('authAPI', () => {
+    const authResponse = {
+      token: 'jwt-token',
+      user: { id: 'user-1', name: 'Test User', email: 'test@example.com', preferences: { displayUnits: {} }, createdAt: new Date() }
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should register and store the token', async () => {
+      mockedAxios.post.mockResolvedValue({ data: authResponse });
+
+      const result = await authAPI.register('Test User', 'test@example.com', 'password123');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/auth/register', {
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123'
+      });
+      expect(result).toEqual(authResponse);
+      expect(getAuthToken()).toBe('jwt-token');
+    });
+
+    it('should log in and store the token', async () => {
+      mockedAxios.post.mockResolvedValue({ data: authResponse });
+
+      await authAPI.login('test@example.com', 'password123');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/auth/login', {
+        email: 'test@example.com',
+        password: 'password123'
+      });
+      expect(getAuthToken()).toBe('jwt-token');
+    });
+
+    it('should not store a token when login fails', async () => {
+      mockedAxios.post.mockRejectedValue({ response: { status: 401, data: { error: 'Invalid email or password' } } });
+
+      await expect(authAPI.login('test@example.com', 'wrong')).rejects.toBeDefined();
+      expect(getAuthToken()).toBeNull();
+    });
+
+    it('should fetch the current user', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { user: authResponse.user } });
+
+      const result = await authAPI.getCurrentUser();
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('/auth/me');
+      expect(result).toEqual(authResponse.user);
+    });
+
+    it('should save preferences and return the updated user', async () => {
+      const preferences = { displayUnits: { weight: 'lb' } };
+      mockedAxios.put.mockResolvedValue({ data: { user: { ...authResponse.user, preferences } } });
+
+      const result = await authAPI.updatePreferences(preferences);
+
+      expect(mockedAxios.put).toHaveBeenCalledWith('/auth/me/preferences', preferences);
+      expect(result.preferences).toEqual(preferences);
+    });
+
+    it('should clear the token on logout', () => {
+      localStorage.setItem('healthbot_token', 'jwt-token');
+
+      authAPI.logout();
+
+      expect(getAuthToken()).toBeNull();
     });
   });
 
@@ -164,12 +390,11 @@ describe('API Services', () => {
 
         mockedAxios.post.mockResolvedValue({ data: mockResponse });
 
-        const result = await chatAPI.sendMessage('Hello', 'test-session', 'test-user');
+        const result = await chatAPI.sendMessage('Hello', 'test-session');
 
         expect(mockedAxios.post).toHaveBeenCalledWith('/chat', {
           message: 'Hello',
-          sessionId: 'test-session',
-          userId: 'test-user'
+          sessionId: 'test-session'
         });
         expect(result).toEqual(mockResponse);
       });
@@ -187,8 +412,7 @@ describe('API Services', () => {
 
         expect(mockedAxios.post).toHaveBeenCalledWith('/chat', {
           message: 'Hello',
-          sessionId: 'default',
-          userId: 'default'
+          sessionId: 'default'
         });
       });
 
@@ -256,7 +480,7 @@ describe('API Services', () => {
       const networkError = new Error('Network Error');
       mockedAxios.get.mockRejectedValue(networkError);
 
-      await expect(healthAPI.getHealthData('test-user')).rejects.toThrow('Network Error');
+      await expect(healthAPI.getHealthData()).rejects.toThrow('Network Error');
     });
 
     it('should handle HTTP error responses', async () => {
@@ -279,7 +503,7 @@ describe('API Services', () => {
       const timeoutError = new Error('timeout of 5000ms exceeded');
       mockedAxios.get.mockRejectedValue(timeoutError);
 
-      await expect(healthAPI.getHealthData('test-user')).rejects.toThrow('timeout of 5000ms exceeded');
+      await expect(healthAPI.getHealthData()).rejects.toThrow('timeout of 5000ms exceeded');
     });
   });
 
@@ -296,9 +520,11 @@ describe('API Services', () => {
     it('should send requests with correct headers', async () => {
       mockedAxios.get.mockResolvedValue({ data: [] });
 
-      await healthAPI.getHealthData('test-user');
+      await healthAPI.getHealthData();
 
-      expect(mockedAxios.get).toHaveBeenCalledWith('/health/data/test-user');
+      expect(mockedAxios.get).toHaveBeenCalledWith('/health/data', {
+        params: { from: undefined, to: undefined }
+      });
     });
   });
 }); 
\ No newline at end of file
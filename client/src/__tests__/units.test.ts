@@ -0,0 +1,66 @@
+import { UNIT_DEFINITIONS, convertUnit, getDisplayUnit, getUnitOptions, getValueInUnit, roundForUnit } from '../utils/units';
+import { UNIT_DEFINITIONS as SERVER_UNIT_DEFINITIONS } from '../../../server/units';
+
+describe('Unit Conversion', () => {
+  it('should use the same units, factors and aliases as the server', () => {
+    expect(UNIT_DEFINITIONS).toEqual(SERVER_UNIT_DEFINITIONS);
+  });
+
+  describe('convertUnit', () => {
+    it('should convert between units of the same metric', () => {
+      expect(convertUnit(1, 'lb', 'kg')).toBeCloseTo(0.4536, 4);
+      expect(convertUnit(100, '°C', '°F')).toBeCloseTo(212, 5);
+      expect(convertUnit(98.6, '°F', '°C')).toBeCloseTo(37, 5);
+      expect(convertUnit(5.5, 'mmol/L', 'mg/dL')).toBeCloseTo(99, 5);
+      expect(convertUnit(500, 'mL', 'L')).toBeCloseTo(0.5, 5);
+    });
+
+    it('should accept the unit names the server accepts', () => {
+      expect(convertUnit(10, 'lbs', 'kg')).toBeCloseTo(4.5359, 4);
+      expect(convertUnit(212, 'F', '°C')).toBeCloseTo(100, 5);
+      expect(convertUnit(1, 'litres', 'ml')).toBeCloseTo(1000, 5);
+      expect(roundForUnit(70.26, 'Pounds')).toBe(70.3);
+    });
+
+    it('should return null for unknown or incompatible units', () => {
+      expect(convertUnit(70, 'kg', 'cm')).toBeNull();
+      expect(convertUnit(70, 'stone', 'kg')).toBeNull();
+    });
+  });
+
+  describe('getDisplayUnit', () => {
+    it('should use the preferred unit when it is valid for the metric', () => {
+      expect(getDisplayUnit('weight', { weight: 'lb' })).toBe('lb');
+    });
+
+    it('should fall back to the canonical unit', () => {
+      expect(getDisplayUnit('weight', {})).toBe('kg');
+      expect(getDisplayUnit('weight', { weight: '°F' })).toBe('kg');
+      expect(getDisplayUnit('heart_rate')).toBe('bpm');
+    });
+  });
+
+  describe('getValueInUnit', () => {
+    it('should convert stored values to the requested unit', () => {
+      expect(getValueInUnit({ value: 37, unit: '°C' }, '°F')).toBeCloseTo(98.6, 5);
+    });
+
+    it('should prefer the entered value when it matches the requested unit', () => {
+      expect(getValueInUnit({ value: 68.0389, unit: 'kg', enteredValue: 150, enteredUnit: 'lb' }, 'lb')).toBe(150);
+    });
+
+    it('should return null for non-numeric values', () => {
+      expect(getValueInUnit({ value: { systolic: 120, diastolic: 80 }, unit: 'mmHg' }, 'mmHg')).toBeNull();
+    });
+  });
+
+  it('should list the units available for a metric', () => {
+    expect(getUnitOptions('temperature')).toEqual(['°C', '°F']);
+    expect(getUnitOptions('unknown')).toEqual([]);
+  });
+
+  it('should round to the precision of the unit', () => {
+    expect(roundForUnit(220.46226, 'lb')).toBe(220.5);
+    expect(roundForUnit(99.4, 'mg/dL')).toBe(99);
+  });
+});
@@ -1,4 +1,9 @@
-import { formatMetricValue, getMetricColor, getMetricIcon, validateHealthData } from '../utils/helpers';
+import { formatMetricValue, formatMetric, getMetricColor, getMetricIcon, validateHealthData, toDateTimeInputValue, parseBloodPressure, calculateTrend } from '../utils/helpers';
+
+// helpers reads failed requests through the API service, which loads axios
+jest.mock('../services/api', () => ({
+  getApiErrorResponse: () => undefined,
+}));
 
 describe('Utility Functions', () => {
   describe('formatMetricValue', () => {
@@ -13,9 +18,19 @@ describe('Utility Functions', () => {
       expect(formatMetricValue('Normal', 'status')).toBe('Normal status');
     });
 
-    it('should handle object values', () => {
-      const bloodPressure = { systolic: 120, diastolic: 80 };
-      expect(formatMetricValue(bloodPressure, 'mmHg')).toBe('[object Object] mmHg');
+    it('should format blood pressure readings', () => {
+      expect(formatMetricValue({ systolic: 120, diastolic: 80 }, 'mmHg')).toBe('120/80 mmHg');
+      expect(formatMetricValue({ systolic: 120, diastolic: 80, pulse: 72 }, 'mmHg')).toBe('120/80 mmHg, pulse 72 bpm');
+    });
+
+    it('should convert to the display unit when one is given', () => {
+      expect(formatMetricValue(100, 'kg', 'lb')).toBe('220.5 lb');
+      expect(formatMetricValue(37, '°C', '°F')).toBe('98.6 °F');
+      expect(formatMetricValue(70, 'kg', 'kg')).toBe('70 kg');
+    });
+
+    it('should leave values alone when the display unit does not apply', () => {
+      expect(formatMetricValue(70, 'kg', '°F')).toBe('70 kg');
     });
 
     it('should handle undefined and null values', () => {
@@ -24,6 +39,24 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('formatMetric', () => {
+    it('should render records in the preferred unit', () => {
+      const record = { type: 'weight' as const, value: 68.0389, unit: 'kg' };
+      expect(formatMetric(record, { weight: 'lb' })).toBe('150 lb');
+      expect(formatMetric(record)).toBe('68 kg');
+    });
+
+    it('should show the entered value when it was logged in the preferred unit', () => {
+      const record = { type: 'weight' as const, value: 68.0389, unit: 'kg', enteredValue: 150.2, enteredUnit: 'lb' };
+      expect(formatMetric(record, { weight: 'lb' })).toBe('150.2 lb');
+    });
+
+    it('should format blood pressure readings', () => {
+      const record = { type: 'blood_pressure' as const, value: { systolic: 120, diastolic: 80 }, unit: 'mmHg' };
+      expect(formatMetric(record, {})).toBe('120/80 mmHg');
+    });
+  });
+
   describe('getMetricColor', () => {
     it('should return correct colors for different metric types', () => {
       expect(getMetricColor('weight')).toBe('text-blue-600');
@@ -170,5 +203,62 @@ describe('Utility Functions', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('Blood pressure must be in format "systolic/diastolic"');
     });
+
+    it('should allow structured blood pressure readings', () => {
+      const result = validateHealthData({
+        type: 'blood_pressure',
+        value: { systolic: 120, diastolic: 80, pulse: 72 },
+        unit: 'mmHg'
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject diastolic values that are not below systolic', () => {
+      const result = validateHealthData({
+        type: 'blood_pressure',
+        value: { systolic: 80, diastolic: 120 },
+        unit: 'mmHg'
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Diastolic pressure must be lower than systolic pressure');
+    });
+  });
+
+  describe('parseBloodPressure', () => {
+    it('should parse legacy "systolic/diastolic" strings', () => {
+      expect(parseBloodPressure('120/80')).toEqual({ systolic: 120, diastolic: 80 });
+      expect(parseBloodPressure('120/80/72')).toEqual({ systolic: 120, diastolic: 80, pulse: 72 });
+    });
+
+    it('should pass through structured readings', () => {
+      expect(parseBloodPressure({ systolic: 118, diastolic: 76, pulse: 64 })).toEqual({ systolic: 118, diastolic: 76, pulse: 64 });
+    });
+
+    it('should return null for values that are not blood pressure', () => {
+      expect(parseBloodPressure('high')).toBeNull();
+      expect(parseBloodPressure(120)).toBeNull();
+      expect(parseBloodPressure({ systolic: 120 })).toBeNull();
+    });
+  });
+
+  describe('calculateTrend', () => {
+    it('should follow the line through all values rather than the first and last', () => {
+      expect(calculateTrend([80, 79.5, 79, 78.5, 78, 77.5, 81])).toEqual({ direction: 'decrease', change: -0.43, percentChange: -0.54 });
+    });
+
+    it('should have no percentage change for a trend that starts at zero', () => {
+      expect(calculateTrend([0, 10, 20])).toEqual({ direction: 'increase', change: 20, percentChange: null });
+    });
+
+    it('should be stable with fewer than two values', () => {
+      expect(calculateTrend([70])).toEqual({ direction: 'stable', change: 0, percentChange: 0 });
+    });
+  });
+
+  describe('toDateTimeInputValue', () => {
+    it('should format dates for datetime-local inputs in local time', () => {
+      expect(toDateTimeInputValue(new Date(2024, 0, 5, 8, 3))).toBe('2024-01-05T08:03');
+      expect(toDateTimeInputValue(new Date(2024, 11, 31, 23, 59, 59))).toBe('2024-12-31T23:59');
+    });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { alertsAPI, getApiErrorMessage } from '../services/api';
+import { AlertOperator, AlertRule, AlertRuleInput, AlertRuleKind, DisplayUnits, MetricDefinition } from '../types';
+import { BUILT_IN_METRIC_DEFINITIONS, getMetricDefinition } from '../utils/metricDefinitions';
+import { getDisplayUnit, getUnitOptions } from '../utils/units';
+
+interface AlertRuleManagerProps {
+  displayUnits?: DisplayUnits;
+  definitions?: MetricDefinition[];
+  // Creating a rule checks it straight away, which may raise alerts
+  onRulesChanged: () => void;
+}
+
+const KIND_OPTIONS: { value: AlertRuleKind; label: string }[] = [
+  { value: 'threshold', label: 'A reading crosses a limit' },
+  { value: 'missing', label: 'Nothing is logged for a while' },
+];
+
+const OPERATOR_OPTIONS: { value: AlertOperator; label: string }[] = [
+  { value: '>', label: 'above' },
+  { value: '>=', label: 'at or above' },
+  { value: '<', label: 'below' },
+  { value: '<=', label: 'at or below' },
+];
+
+const EMPTY_FORM = {
+  name: '',
+  kind: 'threshold' as AlertRuleKind,
+  type: '',
+  part: '',
+  operator: '>' as AlertOperator,
+  value: '',
+  unit: '',
+  count: '1',
+  windowHours: '24',
+  hours: '48',
+};
+
+// Only the fields of the chosen kind are sent; the server rejects the others
+const toAlertRuleInput = (form: typeof EMPTY_FORM, definition: MetricDefinition | undefined): AlertRuleInput => {
+  const input: AlertRuleInput = { kind: form.kind, type: form.type };
+  if (form.name.trim()) input.name = form.name.trim();
+
+  if (form.kind === 'missing') {
+    input.hours = Number(form.hours);
+    return input;
+  }
+
+  input.operator = form.operator;
+  input.value = Number(form.value);
+  input.count = Number(form.count);
+  input.windowHours = Number(form.windowHours);
+  if (definition?.valueKind === 'pair') {
+    input.part = form.part;
+  } else if (form.unit) {
+    input.unit = form.unit;
+  }
+  return input;
+};
+
+const AlertRuleManager: React.FC<AlertRuleManagerProps> = ({
+  displayUnits = {},
+  definitions = BUILT_IN_METRIC_DEFINITIONS,
+  onRulesChanged,
+}) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = async () => {
+    try {
+      setRules(await alertsAPI.getAlertRules());
+    } catch (err) {
+      console.error('Failed to load alert rules:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const definition = getMetricDefinition(form.type, definitions);
+  const unitOptions = getUnitOptions(form.type);
+  // Threshold rules need numbers to compare; any metric can be missing
+  const metricOptions = form.kind === 'threshold'
+    ? definitions.filter(d => d.valueKind === 'number' || d.valueKind === 'pair')
+    : definitions;
+  const canSubmit = Boolean(form.type) && (form.kind === 'missing' || form.value !== '');
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleTypeChange = (type: string) => {
+    const selected = getMetricDefinition(type, definitions);
+    setForm(prev => ({
+      ...prev,
+      type,
+      part: selected?.parts?.[0].key || '',
+      unit: getDisplayUnit(type, displayUnits) || selected?.unit || '',
+    }));
+  };
+
+  const handleKindChange = (kind: AlertRuleKind) => {
+    setForm(prev => ({ ...prev, kind, type: '', part: '', unit: '' }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await alertsAPI.createAlertRule(toAlertRuleInput(form, definition));
+      setForm(EMPTY_FORM);
+      await loadRules();
+      onRulesChanged();
+    } catch (err: unknown) {
+      console.error('Failed to create alert rule:', err);
+      setError(getApiErrorMessage(err) || 'Failed to create the alert rule. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete the alert rule "${rule.name || rule.description}"?`)) return;
+
+    setError(null);
+    try {
+      await alertsAPI.deleteAlertRule(rule.id);
+      await loadRules();
+    } catch (err: unknown) {
+      console.error('Failed to delete alert rule:', err);
+      setError(getApiErrorMessage(err) || 'Failed to delete the alert rule. Please try again.');
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Alert Rules</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Rules are checked whenever a reading is added and every few minutes.
+      </p>
+
+      {rules.length > 0 ? (
+        <ul className="divide-y border rounded-lg mb-4">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between p-3">
+              <div>
+                {rule.name && <div className="font-medium text-sm text-gray-800">{rule.name}</div>}
+                <div className={rule.name ? 'text-xs text-gray-500' : 'text-sm text-gray-800'}>{rule.description}</div>
+              </div>
+              <button
+                onClick={() => handleDelete(rule)}
+                title={`Delete ${rule.name || rule.description}`}
+                className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">You have no alert rules yet.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="rule-kind" className="block text-sm font-medium text-gray-700 mb-1">Alert When</label>
+            <select
+              id="rule-kind"
+              value={form.kind}
+              onChange={(e) => handleKindChange(e.target.value as AlertRuleKind)}
+              className="metric-input"
+            >
+              {KIND_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="rule-type" className="block text-sm font-medium text-gray-700 mb-1">Metric</label>
+            <select
+              id="rule-type"
+              value={form.type}
+              onChange={(e) => handleTypeChange(e.target.value)}
+              className="metric-input"
+              required
+            >
+              <option value="">Choose a metric</option>
+              {metricOptions.map(option => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="rule-name" className="block text-sm font-medium text-gray-700 mb-1">Name (Optional)</label>
+            <input
+              id="rule-name"
+              type="text"
+              value={form.name}
+              onChange={(e) => updateForm('name', e.target.value)}
+              maxLength={60}
+              placeholder="Racing heart"
+              className="metric-input"
+            />
+          </div>
+        </div>
+
+        {form.kind === 'threshold' && (
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {definition?.parts && (
+              <div>
+                <label htmlFor="rule-part" className="block text-sm font-medium text-gray-700 mb-1">Number</label>
+                <select
+                  id="rule-part"
+                  value={form.part}
+                  onChange={(e) => updateForm('part', e.target.value)}
+                  className="metric-input"
+                >
+                  {definition.parts.map(part => (
+                    <option key={part.key} value={part.key}>{part.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label htmlFor="rule-operator" className="block text-sm font-medium text-gray-700 mb-1">Is</label>
+              <select
+                id="rule-operator"
+                value={form.operator}
+                onChange={(e) => updateForm('operator', e.target.value)}
+                className="metric-input"
+              >
+                {OPERATOR_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rule-value" className="block text-sm font-medium text-gray-700 mb-1">Limit</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  id="rule-value"
+                  type="number"
+                  value={form.value}
+                  onChange={(e) => updateForm('value', e.target.value)}
+                  step="any"
+                  className="metric-input"
+                  required
+                />
+                {unitOptions.length > 1 && !definition?.parts ? (
+                  <select
+                    value={form.unit}
+                    onChange={(e) => updateForm('unit', e.target.value)}
+                    aria-label="Unit"
+                    className="metric-input w-auto"
+                  >
+                    {unitOptions.map(unit => (
+                      <option key={unit} value={unit}>{unit}</option>
+                    ))}
+                  </select>
+                ) : form.unit && (
+                  <span className="text-sm text-gray-500">{form.unit}</span>
+                )}
+              </div>
+            </div>
+            <div>
+              <label htmlFor="rule-count" className="block text-sm font-medium text-gray-700 mb-1">Times</label>
+              <input
+                id="rule-count"
+                type="number"
+                value={form.count}
+                onChange={(e) => updateForm('count', e.target.value)}
+                min={1}
+                max={50}
+                className="metric-input"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="rule-window" className="block text-sm font-medium text-gray-700 mb-1">Within Hours</label>
+              <input
+                id="rule-window"
+                type="number"
+                value={form.windowHours}
+                onChange={(e) => updateForm('windowHours', e.target.value)}
+                min={1}
+                max={720}
+                className="metric-input"
+                required
+              />
+            </div>
+          </div>
+        )}
+
+        {form.kind === 'missing' && (
+          <div className="w-40">
+            <label htmlFor="rule-hours" className="block text-sm font-medium text-gray-700 mb-1">For Hours</label>
+            <input
+              id="rule-hours"
+              type="number"
+              value={form.hours}
+              onChange={(e) => updateForm('hours', e.target.value)}
+              min={1}
+              max={720}
+              className="metric-input"
+              required
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600" role="alert">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!canSubmit || isSaving}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{isSaving ? 'Saving...' : 'Create Rule'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AlertRuleManager;
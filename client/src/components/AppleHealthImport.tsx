@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { healthAPI, getApiErrorMessage } from '../services/api';
+import { AppleHealthImportJob } from '../types';
+
+interface AppleHealthImportProps {
+  onImported: () => void;
+}
+
+// How often the import job is checked while the file uploads
+const PROGRESS_POLL_MS = 1000;
+
+const formatCount = (count: number) => count.toLocaleString();
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const AppleHealthImport: React.FC<AppleHealthImportProps> = ({ onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [job, setJob] = useState<AppleHealthImportJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopPolling = () => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current);
+      pollRef.current = null;
+    }
+  };
+
+  useEffect(() => stopPolling, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setJob(null);
+    setError(null);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const created = await healthAPI.createAppleHealthImport();
+      setJob(created);
+
+      // The server reads the file as it arrives, so its progress tracks the upload
+      pollRef.current = setInterval(async () => {
+        try {
+          const latest = await healthAPI.getAppleHealthImport(created.id);
+          setJob(current => (current && current.finishedAt ? current : latest));
+        } catch (err) {
+          console.error('Failed to check import progress:', err);
+        }
+      }, PROGRESS_POLL_MS);
+
+      const finished = await healthAPI.uploadAppleHealthExport(created.id, file);
+      stopPolling();
+      setJob(finished);
+      setFile(null);
+      if (finished.imported > 0 || finished.updated > 0) {
+        onImported();
+      }
+    } catch (err: unknown) {
+      console.error('Failed to import Apple Health export:', err);
+      stopPolling();
+      setJob(null);
+      setError(getApiErrorMessage(err) || 'Failed to import your Apple Health export. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const totalBytes = job?.totalBytes || file?.size || 0;
+  const percent = job && totalBytes > 0 ? Math.min(100, Math.round((job.bytesRead / totalBytes) * 100)) : 0;
+  const isFinished = job?.status === 'completed';
+
+  return (
+    <div className="health-card">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Apple Health</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        In the Health app, tap your profile, choose Export All Health Data, unzip the export and pick
+        {' '}<span className="font-medium">export.xml</span>. Steps, exercise, water and heart rate are
+        imported as daily totals or averages; readings you already have are skipped.
+      </p>
+
+      <label htmlFor="apple-health-file" className="block text-sm font-medium text-gray-700 mb-2">
+        Apple Health Export
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="btn-secondary flex items-center space-x-2 cursor-pointer">
+          <Upload className="h-4 w-4" />
+          <span>Choose File</span>
+          <input
+            id="apple-health-file"
+            type="file"
+            accept=".xml,text/xml,application/xml"
+            onChange={handleFileChange}
+            disabled={isImporting}
+            className="sr-only"
+          />
+        </label>
+        <span className="text-sm text-gray-600">
+          {file ? `${file.name} (${formatMegabytes(file.size)})` : 'No file chosen'}
+        </span>
+        <button
+          onClick={handleImport}
+          disabled={!file || isImporting}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+
+      {job && !isFinished && (
+        <div className="mt-4">
+          <div
+            role="progressbar"
+            aria-label="Import progress"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            className="h-2 w-full bg-gray-200 rounded-full overflow-hidden"
+          >
+            <div className="h-full bg-primary-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            {job.status === 'saving'
+              ? 'Saving readings...'
+              : `Reading export... ${percent}% · ${formatCount(job.records)} records`}
+          </p>
+        </div>
+      )}
+
+      {job && isFinished && (
+        <div className="flex items-start space-x-2 mt-4 text-sm text-health-700" role="status">
+          <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p>
+              Imported {formatCount(job.imported)} readings from {formatCount(job.records)} records.
+            </p>
+            {job.updated > 0 && (
+              <p>Updated {formatCount(job.updated)} daily readings with the rest of their day.</p>
+            )}
+            {job.flagged > 0 && (
+              <p className="text-yellow-800">
+                {formatCount(job.flagged)} look unusual and are flagged for review.
+              </p>
+            )}
+            {(job.duplicates > 0 || job.unsupported > 0 || job.invalid > 0) && (
+              <p className="text-gray-600">
+                Skipped {formatCount(job.duplicates)} already saved, {formatCount(job.unsupported)} of
+                unsupported types and {formatCount(job.invalid)} unreadable.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 mt-4 text-sm text-red-600" role="alert">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppleHealthImport;
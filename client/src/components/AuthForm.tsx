@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Heart, LogIn, UserPlus } from 'lucide-react';
+import { authAPI, getApiErrorMessage } from '../services/api';
+import { User } from '../types';
+
+interface AuthFormProps {
+  onAuthenticated: (user: User) => void;
+}
+
+type AuthMode = 'login' | 'register';
+
+const AuthForm: React.FC<AuthFormProps> = ({ onAuthenticated }) => {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const switchMode = (nextMode: AuthMode) => {
+    setMode(nextMode);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const { user } = mode === 'login'
+        ? await authAPI.login(email, password)
+        : await authAPI.register(name, email, password);
+      onAuthenticated(user);
+    } catch (err: unknown) {
+      console.error(`Failed to ${mode}:`, err);
+      setError(getApiErrorMessage(err) || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="bg-primary-500 p-3 rounded-lg inline-flex mb-4">
+            <Heart className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {mode === 'login' ? 'Welcome back to HealthBot' : 'Create your HealthBot account'}
+          </h1>
+          <p className="text-gray-600 mt-1">
+            {mode === 'login'
+              ? 'Log in to see your health metrics and insights.'
+              : 'Your health data stays private to your account.'}
+          </p>
+        </div>
+
+        <div className="health-card">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'register' && (
+              <div>
+                <label htmlFor="auth-name" className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </label>
+                <input
+                  id="auth-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="metric-input"
+                  autoComplete="name"
+                  required
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="auth-email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                id="auth-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="metric-input"
+                autoComplete="email"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="auth-password" className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                id="auth-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="metric-input"
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                minLength={mode === 'register' ? 8 : undefined}
+                required
+              />
+              {mode === 'register' && (
+                <p className="text-xs text-gray-500 mt-1">At least 8 characters</p>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {mode === 'login' ? <LogIn className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+              <span>
+                {isSubmitting
+                  ? (mode === 'login' ? 'Logging in...' : 'Creating account...')
+                  : (mode === 'login' ? 'Log In' : 'Create Account')}
+              </span>
+            </button>
+          </form>
+
+          <p className="text-sm text-gray-600 text-center mt-4">
+            {mode === 'login' ? "Don't have an account? " : 'Already have an account? '}
+            <button
+              type="button"
+              onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+              className="text-primary-600 hover:text-primary-700 font-medium"
+            >
+              {mode === 'login' ? 'Register' : 'Log in'}
+            </button>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuthForm;
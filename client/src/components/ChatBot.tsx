@@ -1,18 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Bot, User, Loader2 } from 'lucide-react';
+import { Send, Bot, User, Loader2, HelpCircle, X } from 'lucide-react';
 import { chatAPI } from '../services/api';
-import { ChatMessage } from '../types';
+import { ChatMessage, ChatPendingState } from '../types';
 
 interface ChatBotProps {
   sessionId: string;
-  userId: string;
+  // Called when a message logs a reading, such as "weight 72.4 kg"
+  onMetricRecorded?: () => void;
 }
 
-const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
+const ChatBot: React.FC<ChatBotProps> = ({ sessionId, onMetricRecorded }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  // The question the assistant is waiting on an answer to, such as the reading after "log my weight"
+  const [pending, setPending] = useState<ChatPendingState | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -46,7 +49,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
     const sendInitialGreeting = async () => {
       if (messages.length === 0) {
         try {
-          await chatAPI.sendMessage('Hello', sessionId, userId);
+          await chatAPI.sendMessage('Hello', sessionId);
           const history = await chatAPI.getConversationHistory(sessionId);
           setMessages(history.map((msg: any) => ({
             ...msg,
@@ -61,14 +64,22 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
     if (messages.length === 0) {
       sendInitialGreeting();
     }
-  }, [sessionId, userId]);
+  }, [sessionId]);
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputMessage.trim() || isTyping) return;
+  useEffect(() => {
+    // Pick up a question left unanswered, e.g. before switching pages
+    const loadPending = async () => {
+      try {
+        setPending(await chatAPI.getConversationState(sessionId));
+      } catch (error) {
+        console.error('Failed to load conversation state:', error);
+      }
+    };
 
-    const userMessage = inputMessage.trim();
-    setInputMessage('');
+    loadPending();
+  }, [sessionId]);
+
+  const sendMessage = async (userMessage: string) => {
     setIsTyping(true);
 
     // Add user message immediately
@@ -80,7 +91,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
     setMessages(prev => [...prev, tempUserMessage]);
 
     try {
-      const response = await chatAPI.sendMessage(userMessage, sessionId, userId);
+      const response = await chatAPI.sendMessage(userMessage, sessionId);
       
       // Add bot response
       const botMessage: ChatMessage = {
@@ -90,6 +101,11 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
       };
       
       setMessages(prev => [...prev.slice(0, -1), tempUserMessage, botMessage]);
+      setPending(response.pending);
+
+      if (response.recordedMetric) {
+        onMetricRecorded?.();
+      }
     } catch (error) {
       console.error('Failed to send message:', error);
       const errorMessage: ChatMessage = {
@@ -103,6 +119,15 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
     }
   };
 
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputMessage.trim() || isTyping) return;
+
+    const userMessage = inputMessage.trim();
+    setInputMessage('');
+    await sendMessage(userMessage);
+  };
+
   const formatMessage = (message: string) => {
     // Simple markdown-like formatting
     return message
@@ -199,6 +224,25 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
         <div ref={messagesEndRef} />
       </div>
 
+      {/* What the assistant is waiting for */}
+      {pending && (
+        <div role="status" className="flex items-center justify-between px-4 py-2 border-t bg-primary-50 text-sm text-primary-800">
+          <div className="flex items-center space-x-2">
+            <HelpCircle className="h-4 w-4 flex-shrink-0" />
+            <span>Waiting for your answer: {pending.prompt}</span>
+          </div>
+          <button
+            type="button"
+            onClick={() => sendMessage('cancel')}
+            disabled={isTyping}
+            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            <X className="h-4 w-4" />
+            <span>Cancel</span>
+          </button>
+        </div>
+      )}
+
       {/* Message Input */}
       <form onSubmit={handleSendMessage} className="p-4 border-t bg-gray-50 rounded-b-lg">
         <div className="flex space-x-2">
@@ -206,7 +250,7 @@ const ChatBot: React.FC<ChatBotProps> = ({ sessionId, userId }) => {
             type="text"
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
-            placeholder="Ask about your health metrics..."
+            placeholder={pending ? (pending.awaiting === 'metric' ? 'Name the metric to log...' : 'Type the reading...') : 'Ask about your health metrics...'}
             className="flex-1 metric-input"
             disabled={isTyping}
           />
@@ -0,0 +1,23 @@
+import React from 'react';
+import { ReadingClassification } from '../types';
+import { getSeverityBadgeClass } from '../utils/referenceRanges';
+
+interface ClassificationBadgeProps {
+  classification?: ReadingClassification | null;
+}
+
+// Where a reading falls in its reference range, coloured by severity
+const ClassificationBadge: React.FC<ClassificationBadgeProps> = ({ classification }) => {
+  if (!classification) return null;
+
+  return (
+    <span
+      className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium whitespace-nowrap ${getSeverityBadgeClass(classification.severity)}`}
+      data-severity={classification.severity}
+    >
+      {classification.label}
+    </span>
+  );
+};
+
+export default ClassificationBadge;
@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { healthAPI, getApiErrorMessage, getApiErrorResponse } from '../services/api';
+import { CsvColumnMapping, CsvImportFlaggedRow, CsvImportPreview, ImportField, MetricDefinition } from '../types';
+import { formatMetricValue } from '../utils/helpers';
+import { BUILT_IN_METRIC_DEFINITIONS } from '../utils/metricDefinitions';
+
+interface CsvImportProps {
+  onImported: () => void;
+  // Metrics rows may be imported as, including the user's own
+  definitions?: MetricDefinition[];
+}
+
+const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'timestamp', label: 'Date / Time', required: true },
+  { field: 'type', label: 'Metric Type', required: false },
+  { field: 'value', label: 'Value', required: true },
+  { field: 'unit', label: 'Unit', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+];
+
+// Only the first rows are rendered; large files are summarised instead
+const PREVIEW_ROW_LIMIT = 50;
+
+const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+const CsvImport: React.FC<CsvImportProps> = ({ onImported, definitions = BUILT_IN_METRIC_DEFINITIONS }) => {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [defaultType, setDefaultType] = useState<string>('');
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [flaggedRows, setFlaggedRows] = useState<CsvImportFlaggedRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const requestPreview = async (text: string, nextMapping?: CsvColumnMapping, nextDefaultType = defaultType) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await healthAPI.previewCsvImport(text, {
+        mapping: nextMapping,
+        defaults: nextDefaultType ? { type: nextDefaultType } : {},
+      });
+      setPreview(result);
+      setMapping(result.mapping);
+    } catch (err: unknown) {
+      console.error('Failed to preview CSV import:', err);
+      setPreview(null);
+      setError(getApiErrorMessage(err) || 'Could not read this CSV file.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setSuccessMessage(null);
+    setFileName(file.name);
+    const text = await readFileAsText(file);
+    setCsv(text);
+    // Let the server suggest a mapping from the header row
+    await requestPreview(text);
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    const nextMapping = { ...mapping };
+    if (column) {
+      nextMapping[field] = column;
+    } else {
+      delete nextMapping[field];
+    }
+    requestPreview(csv, nextMapping);
+  };
+
+  const handleDefaultTypeChange = (type: string) => {
+    setDefaultType(type);
+    requestPreview(csv, mapping, type);
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await healthAPI.importCsv(csv, {
+        mapping,
+        defaults: defaultType ? { type: defaultType } : {},
+      });
+      setSuccessMessage(result.message);
+      setFlaggedRows(result.flagged);
+      setCsv('');
+      setFileName('');
+      setPreview(null);
+      setMapping({});
+      onImported();
+    } catch (err: unknown) {
+      console.error('Failed to import CSV:', err);
+      setError(getApiErrorMessage(err) || 'Failed to import health metrics. Please try again.');
+      // A rejected import comes back with its preview, so the rows to fix can be shown
+      const rejectedPreview = getApiErrorResponse<{ preview?: CsvImportPreview }>(err)?.data?.preview;
+      if (rejectedPreview) {
+        setPreview(rejectedPreview);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const canImport = Boolean(
+    preview && preview.mappingErrors.length === 0 && preview.summary.total > 0 && preview.summary.invalid === 0
+  );
+  const invalidRows = preview ? preview.rows.filter(row => row.errors.length > 0) : [];
+  // When rows have errors, show those so they can be fixed in the spreadsheet
+  const rowsToShow = (invalidRows.length > 0 ? invalidRows : preview?.rows || []).slice(0, PREVIEW_ROW_LIMIT);
+
+  return (
+    <div className="space-y-6">
+      <div className="health-card">
+        <label htmlFor="csv-file" className="block text-sm font-medium text-gray-700 mb-2">
+          CSV File
+        </label>
+        <div className="flex items-center space-x-3">
+          <label className="btn-secondary flex items-center space-x-2 cursor-pointer">
+            <Upload className="h-4 w-4" />
+            <span>Choose File</span>
+            <input
+              id="csv-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="sr-only"
+            />
+          </label>
+          <span className="text-sm text-gray-600">{fileName || 'No file selected'}</span>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          The first row must contain column headers. Each row needs a date and a value.
+        </p>
+      </div>
+
+      {successMessage && (
+        <div className="health-card flex items-center space-x-2 text-health-700" role="status">
+          <CheckCircle className="h-5 w-5" />
+          <span>{successMessage}</span>
+        </div>
+      )}
+
+      {successMessage && flaggedRows.length > 0 && (
+        <div className="health-card text-sm text-yellow-800">
+          <p className="font-medium mb-2">Check these readings, and mark any that are wrong as erroneous:</p>
+          <ul className="space-y-1">
+            {flaggedRows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+              <li key={row.id}>Line {row.line}: {row.reasons.join('; ')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div className="health-card flex items-center space-x-2 text-red-600" role="alert">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {preview && (
+        <div className="health-card">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Column Mapping</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label htmlFor={`mapping-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {label}{required ? ' *' : ''}
+                </label>
+                <select
+                  id={`mapping-${field}`}
+                  value={mapping[field] || ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  disabled={isLoading}
+                  className="metric-input"
+                >
+                  <option value="">Not mapped</option>
+                  {preview.columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            {!mapping.type && (
+              <div>
+                <label htmlFor="default-type" className="block text-sm font-medium text-gray-700 mb-1">
+                  Metric Type for All Rows *
+                </label>
+                <select
+                  id="default-type"
+                  value={defaultType}
+                  onChange={(e) => handleDefaultTypeChange(e.target.value as string)}
+                  disabled={isLoading}
+                  className="metric-input"
+                >
+                  <option value="">Choose a type</option>
+                  {definitions.map(definition => (
+                    <option key={definition.key} value={definition.key}>{definition.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {preview.mappingErrors.length > 0 && (
+            <ul className="mt-4 text-sm text-red-600 list-disc list-inside">
+              {preview.mappingErrors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {preview && preview.mappingErrors.length === 0 && (
+        <div className="health-card">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-800">Preview</h3>
+            <span className="text-sm text-gray-600">
+              {preview.summary.total} rows · {preview.summary.valid} valid · {preview.summary.invalid} with errors
+            </span>
+          </div>
+
+          {rowsToShow.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Line</th>
+                    <th className="text-left p-2">Metric</th>
+                    <th className="text-left p-2">Value</th>
+                    <th className="text-left p-2">Date</th>
+                    <th className="text-left p-2">Notes</th>
+                    <th className="text-left p-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rowsToShow.map(row => (
+                    <tr key={row.line} className={`border-b ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="p-2 text-gray-600">{row.line}</td>
+                      <td className="p-2 capitalize">{row.metric.type.replace(/_/g, ' ')}</td>
+                      <td className="p-2">{formatMetricValue(row.metric.value, row.metric.unit)}</td>
+                      <td className="p-2 text-gray-600">
+                        {row.metric.timestamp ? new Date(row.metric.timestamp).toLocaleString() : '-'}
+                      </td>
+                      <td className="p-2 text-gray-600">{row.metric.notes || '-'}</td>
+                      <td className="p-2">
+                        {row.errors.length > 0
+                          ? <span className="text-red-600">{row.errors.join('; ')}</span>
+                          : <span className="text-health-600">OK</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(invalidRows.length || preview.rows.length) > rowsToShow.length && (
+            <p className="text-xs text-gray-500 mt-2">
+              Showing the first {rowsToShow.length} {invalidRows.length > 0 ? 'rows with errors' : 'rows'}.
+            </p>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={!canImport || isLoading}
+            className="btn-primary mt-4 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Working...' : `Import ${preview.summary.valid} Records`}
+          </button>
+          {preview.summary.invalid > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Nothing is imported until every row is valid. Fix the rows above and choose the file again.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImport;
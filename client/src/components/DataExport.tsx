@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import { format as formatDate } from 'date-fns';
+import { healthAPI } from '../services/api';
+import { ExportFormat, HealthExportQuery, MetricDefinition } from '../types';
+import { saveFile } from '../utils/helpers';
+import { BUILT_IN_METRIC_DEFINITIONS } from '../utils/metricDefinitions';
+
+interface DataExportProps {
+  // Metrics the export can be limited to, including the user's own
+  definitions?: MetricDefinition[];
+}
+
+const DataExport: React.FC<DataExportProps> = ({ definitions = BUILT_IN_METRIC_DEFINITIONS }) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [type, setType] = useState<string>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Date inputs are whole local days, so "to" runs until the end of that day
+  const getQuery = (): HealthExportQuery => ({
+    type: type || undefined,
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+  });
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await healthAPI.exportHealthData(exportFormat, getQuery());
+      saveFile(blob, `health-data-${formatDate(new Date(), 'yyyy-MM-dd')}.${exportFormat}`);
+    } catch (err) {
+      console.error('Failed to export health data:', err);
+      setError('Failed to export your health data. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpenReport = async () => {
+    // Open the window before the request so the browser does not treat it as a popup
+    const reportWindow = window.open('', '_blank');
+    setIsExporting(true);
+    setError(null);
+    try {
+      const html = await healthAPI.getHealthReport(getQuery());
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+      if (reportWindow) {
+        reportWindow.location.href = url;
+      } else {
+        window.location.assign(url);
+      }
+    } catch (err) {
+      console.error('Failed to load health report:', err);
+      reportWindow?.close();
+      setError('Failed to create your health report. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">Export Data</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="export-format" className="block text-sm font-medium text-gray-700 mb-1">
+            Format
+          </label>
+          <select
+            id="export-format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="metric-input"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-type" className="block text-sm font-medium text-gray-700 mb-1">
+            Metric
+          </label>
+          <select
+            id="export-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as string)}
+            className="metric-input"
+          >
+            <option value="">All metrics</option>
+            {definitions.map(definition => (
+              <option key={definition.key} value={definition.key}>{definition.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="export-from" className="block text-sm font-medium text-gray-700 mb-1">
+            From
+          </label>
+          <input
+            id="export-from"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="metric-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="export-to" className="block text-sm font-medium text-gray-700 mb-1">
+            To
+          </label>
+          <input
+            id="export-to"
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="metric-input"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mt-3" role="alert">{error}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        <button
+          onClick={handleDownload}
+          disabled={isExporting}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          <span>Download</span>
+        </button>
+        <button
+          onClick={handleOpenReport}
+          disabled={isExporting}
+          className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+        >
+          <Printer className="h-4 w-4" />
+          <span>Printable Report</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DataExport;
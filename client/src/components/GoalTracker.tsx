@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Target, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { goalsAPI, getApiErrorMessage } from '../services/api';
+import { DisplayUnits, Goal, GoalInput, GoalPeriod, MetricDefinition } from '../types';
+import { BUILT_IN_METRIC_DEFINITIONS, getChartColor, getMetricDefinition } from '../utils/metricDefinitions';
+import { getDisplayUnit, getUnitOptions } from '../utils/units';
+import { GOAL_PERIOD_OPTIONS, getGoalStatus } from '../utils/goals';
+import ProgressRing from './ProgressRing';
+
+interface GoalTrackerProps {
+  goals: Goal[];
+  displayUnits?: DisplayUnits;
+  definitions?: MetricDefinition[];
+  onGoalsChanged: () => void;
+}
+
+const EMPTY_FORM = {
+  type: '',
+  period: 'daily' as GoalPeriod,
+  target: '',
+  unit: '',
+  targetDate: '',
+};
+
+const ACHIEVED_COLOR = '#22c55e';
+
+const GoalTracker: React.FC<GoalTrackerProps> = ({
+  goals,
+  displayUnits = {},
+  definitions = BUILT_IN_METRIC_DEFINITIONS,
+  onGoalsChanged,
+}) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Progress is counted from single numbers
+  const metricOptions = definitions.filter(d => d.valueKind === 'number');
+  const unitOptions = getUnitOptions(form.type);
+  const canSubmit = Boolean(form.type) && form.target !== '' && (form.period !== 'by_date' || Boolean(form.targetDate));
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleTypeChange = (type: string) => {
+    setForm(prev => ({
+      ...prev,
+      type,
+      unit: getDisplayUnit(type, displayUnits) || getMetricDefinition(type, definitions)?.unit || '',
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    // Days and weeks are counted in the browser's time zone
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const goal: GoalInput = { type: form.type, period: form.period, target: Number(form.target), timeZone };
+    if (form.unit) goal.unit = form.unit;
+    if (form.period === 'by_date') goal.targetDate = new Date(form.targetDate).toISOString();
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await goalsAPI.createGoal(goal);
+      setForm(EMPTY_FORM);
+      onGoalsChanged();
+    } catch (err: unknown) {
+      console.error('Failed to create goal:', err);
+      setError(getApiErrorMessage(err) || 'Failed to create the goal. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    if (!window.confirm(`Delete the goal "${goal.description}"?`)) return;
+
+    setError(null);
+    try {
+      await goalsAPI.deleteGoal(goal.id);
+      onGoalsChanged();
+    } catch (err: unknown) {
+      console.error('Failed to delete goal:', err);
+      setError(getApiErrorMessage(err) || 'Failed to delete the goal. Please try again.');
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <div className="flex items-center space-x-2 mb-4">
+        <Target className="h-5 w-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-800">Goals</h3>
+      </div>
+
+      {goals.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+          {goals.map(goal => {
+            const definition = getMetricDefinition(goal.type, definitions);
+            const color = goal.progress.achieved ? ACHIEVED_COLOR : getChartColor(definition?.color || 'gray');
+            return (
+              <div key={goal.id} className="flex items-center space-x-4 border rounded-lg p-3">
+                <ProgressRing percent={goal.progress.percent} label={goal.description} color={color} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-800">{goal.description}</div>
+                  <div className="text-xs text-gray-500">{getGoalStatus(goal)}</div>
+                </div>
+                <button
+                  onClick={() => handleDelete(goal)}
+                  title={`Delete ${goal.description}`}
+                  className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">
+          Set a goal, such as 10,000 steps a day or a target weight by a date, to see your progress here.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="goal-type" className="block text-sm font-medium text-gray-700 mb-1">Metric</label>
+            <select
+              id="goal-type"
+              value={form.type}
+              onChange={(e) => handleTypeChange(e.target.value)}
+              className="metric-input"
+              required
+            >
+              <option value="">Choose a metric</option>
+              {metricOptions.map(option => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="goal-period" className="block text-sm font-medium text-gray-700 mb-1">Goal</label>
+            <select
+              id="goal-period"
+              value={form.period}
+              onChange={(e) => updateForm('period', e.target.value)}
+              className="metric-input"
+            >
+              {GOAL_PERIOD_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="goal-target" className="block text-sm font-medium text-gray-700 mb-1">Target</label>
+            <div className="flex items-center space-x-2">
+              <input
+                id="goal-target"
+                type="number"
+                value={form.target}
+                onChange={(e) => updateForm('target', e.target.value)}
+                step="any"
+                className="metric-input"
+                required
+              />
+              {unitOptions.length > 1 ? (
+                <select
+                  value={form.unit}
+                  onChange={(e) => updateForm('unit', e.target.value)}
+                  aria-label="Unit"
+                  className="metric-input w-auto"
+                >
+                  {unitOptions.map(unit => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              ) : form.unit && (
+                <span className="text-sm text-gray-500">{form.unit}</span>
+              )}
+            </div>
+          </div>
+          {form.period === 'by_date' && (
+            <div>
+              <label htmlFor="goal-date" className="block text-sm font-medium text-gray-700 mb-1">Target Date</label>
+              <input
+                id="goal-date"
+                type="date"
+                value={form.targetDate}
+                onChange={(e) => updateForm('targetDate', e.target.value)}
+                className="metric-input"
+                required
+              />
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600" role="alert">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!canSubmit || isSaving}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{isSaving ? 'Saving...' : 'Add Goal'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default GoalTracker;
@@ -1,30 +1,162 @@
 import React, { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, Cell, ReferenceLine, DotProps } from 'recharts';
 import { Calendar, TrendingUp, TrendingDown, Minus, Activity } from 'lucide-react';
 import { healthAPI } from '../services/api';
-import { HealthMetric, HealthInsights } from '../types';
+import {
+  HealthMetric,
+  HealthInsights,
+  HealthAggregates,
+  AggregateGranularity,
+  DisplayUnits,
+  MetricDefinition,
+  DerivedMetricSeries,
+  ReadingSeverity,
+  Goal,
+} from '../types';
 import { format } from 'date-fns';
+import { getMetricDisplayName, parseBloodPressure } from '../utils/helpers';
+import { getDisplayUnit, getUnitOptions, getValueInUnit, roundForUnit } from '../utils/units';
+import { BUILT_IN_METRIC_DEFINITIONS, getChartColor, getMetricDefinition, isChartable } from '../utils/metricDefinitions';
+import { SEVERITIES, getSeverityColor, getSeverityLabel } from '../utils/referenceRanges';
+import { getGoalLineValue, getGoalStatus } from '../utils/goals';
+import ProgressRing from './ProgressRing';
+import MetricComparison from './MetricComparison';
+
+interface ChartSeries {
+  dataKey: string;
+  name: string;
+  color: string;
+}
+
+// Pairs such as blood pressure are drawn as two lines; every other metric is a single series
+const getChartSeries = (definition: MetricDefinition | undefined, unit: string): ChartSeries[] => {
+  if (definition?.key === 'blood_pressure') {
+    return [
+      { dataKey: 'systolic', name: 'Systolic', color: '#ef4444' },
+      { dataKey: 'diastolic', name: 'Diastolic', color: '#0ea5e9' },
+    ];
+  }
+  if (definition?.valueKind === 'pair' && definition.parts) {
+    const [first, second] = definition.parts;
+    return [
+      { dataKey: first.key, name: first.label, color: getChartColor(definition.color) },
+      { dataKey: second.key, name: second.label, color: '#0ea5e9' },
+    ];
+  }
+  const color = definition ? getChartColor(definition.color) : '#0ea5e9';
+  return [{ dataKey: 'value', name: unit ? `Value (${unit})` : 'Value', color }];
+};
+
+// Drawn on each trend card from the trend's moving averages, one point per reading
+const MOVING_AVERAGE_SERIES: ChartSeries[] = [
+  { dataKey: 'average7Day', name: '7-day average', color: '#0ea5e9' },
+  { dataKey: 'average30Day', name: '30-day average', color: '#a855f7' },
+];
+
+// Trend keys are metric types, or a metric type and a part such as "blood_pressure_systolic"
+const getTrendName = (trendKey: string, definitions: MetricDefinition[]): string => {
+  for (const definition of definitions) {
+    const part = definition.parts?.find(p => trendKey === `${definition.key}_${p.key}`);
+    if (part) return `${definition.label} ${part.label}`;
+  }
+  return getMetricDisplayName(trendKey, definitions);
+};
+
+// Only readings of metrics with reference ranges carry a severity
+const getPointSeverity = (point: object): ReadingSeverity | undefined =>
+  (point as { severity?: ReadingSeverity }).severity;
+
+// Recharts passes a line's dot renderer the dot's position with its index and data point
+type ChartDotProps = DotProps & { index?: number; payload?: object };
+
+// Classified readings are drawn in the colour of their severity, others in the series colour
+const renderDot = (color: string) => ({ cx, cy, index, payload }: ChartDotProps) => {
+  const severity = payload ? getPointSeverity(payload) : undefined;
+  const fill = severity ? getSeverityColor(severity) : color;
+  return <circle key={`dot-${index}`} cx={cx} cy={cy} r={4} fill={fill} stroke={fill} strokeWidth={2} />;
+};
+
+// Derived metrics are charted and named like any other single-number metric
+const toDerivedDefinition = (key: string, series: DerivedMetricSeries): MetricDefinition => ({
+  key,
+  label: series.label,
+  unit: series.unit,
+  valueKind: 'number',
+  aggregation: 'average',
+  icon: 'Gauge',
+  color: 'indigo',
+  builtIn: true,
+});
+
+// Every reading as a point, or the readings of each day, week or month combined by the
+// metric's aggregation, e.g. a day's water entries added up
+type ChartGranularity = 'reading' | AggregateGranularity;
+
+const GRANULARITY_OPTIONS: { value: ChartGranularity; label: string }[] = [
+  { value: 'reading', label: 'Readings' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+// Metrics whose readings add up are charted per day until another granularity is chosen
+const getDefaultGranularity = (definition: MetricDefinition | undefined): ChartGranularity =>
+  definition?.aggregation === 'sum' ? 'day' : 'reading';
+
+const formatBucketDate = (bucketStart: string, granularity: AggregateGranularity) =>
+  format(new Date(bucketStart), granularity === 'month' ? 'MMM yyyy' : 'MMM dd');
 
 interface HealthDashboardProps {
-  userId: string;
   healthData: HealthMetric[];
+  displayUnits?: DisplayUnits;
+  // Labels, colours and chart shapes of every metric, including the user's own
+  definitions?: MetricDefinition[];
+  // Goals of the charted metric are drawn on the chart and shown with their progress
+  goals?: Goal[];
 }
 
-const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData }) => {
+// Stable default so the insights effect does not re-run on every render
+const DEFAULT_DISPLAY_UNITS: DisplayUnits = {};
+
+const GOAL_LINE_COLOR = '#22c55e';
+
+// Goal lines sit outside the readings' range until they are reached, so they widen the axis
+const renderGoalLines = (goalLines: { id: string; value: number; label: string }[]) =>
+  goalLines.map(line => (
+    <ReferenceLine
+      key={line.id}
+      y={line.value}
+      stroke={GOAL_LINE_COLOR}
+      strokeDasharray="6 4"
+      ifOverflow="extendDomain"
+      label={{ value: line.label, position: 'insideTopRight', fill: GOAL_LINE_COLOR, fontSize: 12 }}
+    />
+  ));
+
+const HealthDashboard: React.FC<HealthDashboardProps> = ({
+  healthData,
+  displayUnits = DEFAULT_DISPLAY_UNITS,
+  definitions = BUILT_IN_METRIC_DEFINITIONS,
+  goals = [],
+}) => {
   const [insights, setInsights] = useState<HealthInsights | null>(null);
   const [selectedMetric, setSelectedMetric] = useState<string>('');
+  // Null until the user picks one, so each metric starts at its default
+  const [chosenGranularity, setChosenGranularity] = useState<ChartGranularity | null>(null);
+  const [aggregates, setAggregates] = useState<HealthAggregates | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const loadInsights = async () => {
       try {
         setLoading(true);
-        const data = await healthAPI.getHealthInsights(userId);
+        const data = await healthAPI.getHealthInsights();
         setInsights(data);
         
-        // Set first available metric as selected
-        if (data.metricsTracked.length > 0 && !selectedMetric) {
-          setSelectedMetric(data.metricsTracked[0]);
+        // Set first metric that can be charted as selected
+        const chartable = data.metricsTracked.filter(metric => isChartable(getMetricDefinition(metric, definitions)));
+        if (chartable.length > 0 && !selectedMetric) {
+          setSelectedMetric(chartable[0]);
         }
       } catch (error) {
         console.error('Failed to load insights:', error);
@@ -38,17 +170,110 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
     } else {
       setLoading(false);
     }
-  }, [userId, healthData, selectedMetric]);
+  }, [healthData, selectedMetric, displayUnits, definitions]);
+
+  // Derived metrics are not logged, so they are only charted point by point
+  const loggedDefinition = getMetricDefinition(selectedMetric, definitions);
+  const granularity: ChartGranularity = loggedDefinition
+    ? chosenGranularity || getDefaultGranularity(loggedDefinition)
+    : 'reading';
+
+  useEffect(() => {
+    if (!selectedMetric || granularity === 'reading' || healthData.length === 0) {
+      setAggregates(null);
+      return;
+    }
+
+    const loadAggregates = async () => {
+      try {
+        // Days start at midnight where the user is
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        setAggregates(await healthAPI.getHealthAggregates({ type: selectedMetric, granularity, timeZone }));
+      } catch (error) {
+        console.error('Failed to load aggregates:', error);
+        setAggregates(null);
+      }
+    };
+
+    loadAggregates();
+  }, [healthData, selectedMetric, granularity, displayUnits]);
+
+  const derivedMetrics = insights?.derivedMetrics || {};
+  const chartDefinitions = [
+    ...definitions,
+    ...Object.entries(derivedMetrics).map(([key, series]) => toDerivedDefinition(key, series)),
+  ];
 
   const getMetricData = (metricType: string) => {
-    return healthData
+    if (granularity !== 'reading') {
+      const current = aggregates?.type === metricType && aggregates.granularity === granularity ? aggregates : null;
+      return (current?.buckets || []).map(bucket => ({
+        date: formatBucketDate(bucket.start, granularity),
+        ...(typeof bucket.value === 'object' ? bucket.value : { value: Number(bucket.value) }),
+        timestamp: bucket.start
+      }));
+    }
+
+    // Recomputed by the server from the current records whenever insights reload
+    const derived = derivedMetrics[metricType];
+    if (derived) {
+      return derived.points.map(point => ({
+        date: format(new Date(point.timestamp), 'MMM dd'),
+        value: point.value,
+        timestamp: point.timestamp
+      }));
+    }
+
+    const records = healthData
       .filter(d => d.type === metricType)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-      .map(d => ({
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    if (metricType === 'blood_pressure') {
+      return records.flatMap(d => {
+        const reading = parseBloodPressure(d.value);
+        return reading ? [{
+          date: format(new Date(d.timestamp), 'MMM dd'),
+          systolic: reading.systolic,
+          diastolic: reading.diastolic,
+          severity: d.classification?.severity,
+          timestamp: d.timestamp
+        }] : [];
+      });
+    }
+
+    const definition = getMetricDefinition(metricType, definitions);
+    if (definition?.valueKind === 'pair' && definition.parts) {
+      const parts = definition.parts;
+      return records.flatMap(d => {
+        const value = d.value as { [part: string]: unknown };
+        return parts.every(part => typeof value?.[part.key] === 'number') ? [{
+          date: format(new Date(d.timestamp), 'MMM dd'),
+          ...Object.fromEntries(parts.map(part => [part.key, value[part.key] as number])),
+          timestamp: d.timestamp
+        }] : [];
+      });
+    }
+
+    // Metrics of the user's own have a single unit
+    if (getUnitOptions(metricType).length === 0) {
+      return records.map(d => ({
         date: format(new Date(d.timestamp), 'MMM dd'),
-        value: typeof d.value === 'number' ? d.value : parseFloat(d.value as string) || 0,
+        value: typeof d.value === 'number' ? d.value : 0,
         timestamp: d.timestamp
       }));
+    }
+
+    // Records may have been entered in different units, so chart them all in the display unit
+    const unit = getDisplayUnit(metricType, displayUnits);
+    return records.map(d => {
+      const value = getValueInUnit(d, unit);
+      return {
+        date: format(new Date(d.timestamp), 'MMM dd'),
+        value: value === null ? 0 : roundForUnit(value, unit),
+        severity: d.classification?.severity,
+        timestamp: d.timestamp
+      };
+    });
   };
 
   const getMetricIcon = (direction: string) => {
@@ -73,10 +298,6 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
     }
   };
 
-  const formatMetricName = (metric: string) => {
-    return metric.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-  };
-
   if (loading) {
     return (
       <div className="health-card">
@@ -104,7 +325,27 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
     );
   }
 
+  const selectedDefinition = getMetricDefinition(selectedMetric, chartDefinitions);
   const chartData = selectedMetric ? getMetricData(selectedMetric) : [];
+  const chartUnit = (granularity !== 'reading' && aggregates?.unit) ||
+    getDisplayUnit(selectedMetric, displayUnits) || selectedDefinition?.unit || '';
+  const chartSeries = getChartSeries(selectedDefinition, chartUnit);
+  const chartGoals = goals.filter(goal => goal.type === selectedMetric);
+  const goalLines = chartGoals.flatMap(goal => {
+    const value = getGoalLineValue(goal, chartUnit);
+    return value === null ? [] : [{ id: goal.id, value, label: `Goal ${value}` }];
+  });
+  const chartSeverities = SEVERITIES.filter(severity =>
+    chartData.some(point => getPointSeverity(point) === severity)
+  );
+  const chartableMetrics = [
+    ...(insights?.metricsTracked || []).filter(metric => isChartable(getMetricDefinition(metric, definitions))),
+    ...Object.keys(derivedMetrics),
+  ];
+  const latestMeasurement = healthData.reduce<Date | null>((latest, d) => {
+    const measuredAt = new Date(d.timestamp);
+    return !latest || measuredAt > latest ? measuredAt : latest;
+  }, null);
 
   return (
     <div className="space-y-6">
@@ -139,10 +380,7 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
             <div>
               <p className="text-sm font-medium text-gray-600">Latest Entry</p>
               <p className="text-lg font-semibold text-gray-900">
-                {healthData.length > 0 
-                  ? format(new Date(healthData[healthData.length - 1].timestamp), 'MMM dd')
-                  : 'None'
-                }
+                {latestMeasurement ? format(latestMeasurement, 'MMM dd') : 'None'}
               </p>
             </div>
             <div className="bg-purple-100 p-3 rounded-full">
@@ -160,18 +398,62 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
             {Object.entries(insights.trends).map(([metric, trend]) => (
               <div key={metric} className="border rounded-lg p-4 bg-gray-50">
                 <div className="flex items-center justify-between mb-2">
-                  <h4 className="font-medium text-gray-700">{formatMetricName(metric)}</h4>
+                  <h4 className="font-medium text-gray-700">{getTrendName(metric, chartDefinitions)}</h4>
                   {getMetricIcon(trend.direction)}
                 </div>
                 <div className="flex items-center space-x-2">
                   <span className={`text-sm font-semibold ${getMetricColor(trend.direction)}`}>
                     {trend.direction === 'increase' ? '+' : trend.direction === 'decrease' ? '' : ''}
-                    {Math.abs(trend.change).toFixed(1)}
+                    {Math.abs(trend.change).toFixed(1)}{trend.unit ? ` ${trend.unit}` : ''}
                   </span>
                   <span className="text-xs text-gray-500">
-                    ({trend.percentChange}% over {trend.recordCount} records)
+                    ({trend.percentChange === null ? '' : `${trend.percentChange}% `}over {trend.recordCount} records)
                   </span>
                 </div>
+                <div className="flex items-center justify-between mt-2 text-xs">
+                  <span className="text-gray-600">
+                    {trend.slopePerWeek > 0 ? '+' : ''}{trend.slopePerWeek}{trend.unit ? ` ${trend.unit}` : ''} per week
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded-full ${trend.significant ? 'bg-blue-100 text-blue-700' : 'bg-gray-200 text-gray-600'}`}
+                    title="Whether the trend line is unlikely to be chance, at the 5% level"
+                  >
+                    {trend.significant ? 'Significant' : 'Not significant'}
+                  </span>
+                </div>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-xs text-gray-600">
+                  <dt>Mean</dt>
+                  <dd className="text-right">{trend.mean} ± {trend.standardDeviation}</dd>
+                  <dt>Median</dt>
+                  <dd className="text-right">{trend.median}</dd>
+                  <dt>Range</dt>
+                  <dd className="text-right">{trend.min} – {trend.max}</dd>
+                  <dt>7-day average</dt>
+                  <dd className="text-right">{trend.movingAverage7Day}</dd>
+                  <dt>30-day average</dt>
+                  <dd className="text-right">{trend.movingAverage30Day}</dd>
+                </dl>
+                {trend.movingAverages.length > 1 && (
+                  <div className="h-16 mt-3" aria-label="7 and 30-day moving averages">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={trend.movingAverages}>
+                        <YAxis hide domain={['auto', 'auto']} />
+                        <Tooltip labelFormatter={(timestamp) => format(new Date(timestamp), 'MMM dd')} />
+                        {MOVING_AVERAGE_SERIES.map(series => (
+                          <Line
+                            key={series.dataKey}
+                            type="monotone"
+                            dataKey={series.dataKey}
+                            name={series.name}
+                            stroke={series.color}
+                            strokeWidth={2}
+                            dot={false}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -179,21 +461,42 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
       )}
 
       {/* Chart Section */}
-      {insights && insights.metricsTracked.length > 0 && (
+      {chartableMetrics.length > 0 && (
         <div className="health-card">
-          <div className="flex items-center justify-between mb-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
             <h3 className="text-lg font-semibold text-gray-800">Metric Trends</h3>
-            <select
-              value={selectedMetric}
-              onChange={(e) => setSelectedMetric(e.target.value)}
-              className="metric-input w-auto"
-            >
-              {insights.metricsTracked.map(metric => (
-                <option key={metric} value={metric}>
-                  {formatMetricName(metric)}
-                </option>
-              ))}
-            </select>
+            <div className="flex flex-wrap items-center gap-3">
+              {loggedDefinition && (
+                <div className="inline-flex rounded-md border overflow-hidden" role="group" aria-label="Chart granularity">
+                  {GRANULARITY_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setChosenGranularity(option.value)}
+                      aria-pressed={granularity === option.value}
+                      className={`px-3 py-1.5 text-sm ${
+                        granularity === option.value
+                          ? 'bg-primary-100 text-primary-700 font-medium'
+                          : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <select
+                value={selectedMetric}
+                onChange={(e) => setSelectedMetric(e.target.value)}
+                aria-label="Metric"
+                className="metric-input w-auto"
+              >
+                {chartableMetrics.map(metric => (
+                  <option key={metric} value={metric}>
+                    {getMetricDisplayName(metric, chartDefinitions)}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {chartData.length > 0 && (
@@ -219,14 +522,20 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
                         boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
                       }}
                     />
-                    <Line 
-                      type="monotone" 
-                      dataKey="value" 
-                      stroke="#0ea5e9" 
-                      strokeWidth={2}
-                      dot={{ fill: '#0ea5e9', strokeWidth: 2, r: 4 }}
-                      activeDot={{ r: 6, stroke: '#0ea5e9', strokeWidth: 2 }}
-                    />
+                    {chartSeries.length > 1 && <Legend />}
+                    {chartSeries.map(series => (
+                      <Line 
+                        key={series.dataKey}
+                        type="monotone" 
+                        dataKey={series.dataKey} 
+                        name={series.name}
+                        stroke={series.color} 
+                        strokeWidth={2}
+                        dot={renderDot(series.color)}
+                        activeDot={{ r: 6, stroke: series.color, strokeWidth: 2 }}
+                      />
+                    ))}
+                    {renderGoalLines(goalLines)}
                   </LineChart>
                 ) : (
                   <BarChart data={chartData}>
@@ -248,19 +557,63 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({ userId, healthData })
                         boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
                       }}
                     />
-                    <Bar 
-                      dataKey="value" 
-                      fill="#0ea5e9"
-                      radius={[4, 4, 0, 0]}
-                    />
+                    {chartSeries.length > 1 && <Legend />}
+                    {chartSeries.map(series => (
+                      <Bar 
+                        key={series.dataKey}
+                        dataKey={series.dataKey} 
+                        name={series.name}
+                        fill={series.color}
+                        radius={[4, 4, 0, 0]}
+                      >
+                        {chartSeries.length === 1 && chartData.map((point, index) => {
+                          const severity = getPointSeverity(point);
+                          return <Cell key={`bar-${index}`} fill={severity ? getSeverityColor(severity) : series.color} />;
+                        })}
+                      </Bar>
+                    ))}
+                    {renderGoalLines(goalLines)}
                   </BarChart>
                 )}
               </ResponsiveContainer>
             </div>
           )}
+
+          {chartSeverities.length > 0 && (
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600" aria-label="Reading ranges">
+              {chartSeverities.map(severity => (
+                <span key={severity} className="flex items-center space-x-1">
+                  <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: getSeverityColor(severity) }} />
+                  <span>{getSeverityLabel(severity)}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {chartGoals.length > 0 && (
+            <div className="flex flex-wrap gap-4 mt-4 pt-4 border-t" aria-label="Goal progress">
+              {chartGoals.map(goal => (
+                <div key={goal.id} className="flex items-center space-x-3">
+                  <ProgressRing
+                    percent={goal.progress.percent}
+                    label={goal.description}
+                    size={56}
+                    strokeWidth={6}
+                    color={GOAL_LINE_COLOR}
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-gray-800">{goal.description}</div>
+                    <div className="text-xs text-gray-500">{getGoalStatus(goal)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
+      <MetricComparison healthData={healthData} />
+
       {/* Recommendations */}
       {insights && insights.recommendations.length > 0 && (
         <div className="health-card">
@@ -1,80 +1,131 @@
 import React, { useState } from 'react';
-import { Plus, Scale, Heart, Thermometer, Moon, Footprints, Droplets, Dumbbell, Activity } from 'lucide-react';
+import { Plus } from 'lucide-react';
 import { healthAPI } from '../services/api';
-import { MetricFormData } from '../types';
+import { MetricFormData, DisplayUnits, HealthMetric, MetricDefinition } from '../types';
+import { saveConfirmingAnomalies, toDateTimeInputValue, validateHealthData } from '../utils/helpers';
+import { convertUnit, getDisplayUnit, getUnitOptions, roundForUnit } from '../utils/units';
+import { BUILT_IN_METRIC_DEFINITIONS, getMetricDefinition } from '../utils/metricDefinitions';
+import { MEAL_CONTEXT_OPTIONS } from '../utils/referenceRanges';
+import MetricIcon from './MetricIcon';
 
 interface HealthMetricsFormProps {
-  userId: string;
   onMetricAdded: () => void;
+  // Units new values are entered in by default
+  displayUnits?: DisplayUnits;
+  // Metrics that can be recorded, including the user's own
+  definitions?: MetricDefinition[];
+  // Opens the form with this metric chosen, e.g. from a reminder's "Log now"
+  initialType?: string;
 }
 
-const METRIC_TYPES = [
-  { value: 'weight', label: 'Weight', icon: Scale, unit: 'kg', placeholder: '70' },
-  { value: 'height', label: 'Height', icon: Activity, unit: 'cm', placeholder: '175' },
-  { value: 'blood_pressure', label: 'Blood Pressure', icon: Heart, unit: 'mmHg', placeholder: '120/80' },
-  { value: 'heart_rate', label: 'Heart Rate', icon: Heart, unit: 'bpm', placeholder: '75' },
-  { value: 'blood_sugar', label: 'Blood Sugar', icon: Droplets, unit: 'mg/dL', placeholder: '100' },
-  { value: 'temperature', label: 'Temperature', icon: Thermometer, unit: '°C', placeholder: '36.5' },
-  { value: 'sleep_hours', label: 'Sleep Hours', icon: Moon, unit: 'hours', placeholder: '8' },
-  { value: 'steps', label: 'Steps', icon: Footprints, unit: 'steps', placeholder: '10000' },
-  { value: 'water_intake', label: 'Water Intake', icon: Droplets, unit: 'L', placeholder: '2.5' },
-  { value: 'exercise_minutes', label: 'Exercise', icon: Dumbbell, unit: 'minutes', placeholder: '30' },
-];
-
-const HealthMetricsForm: React.FC<HealthMetricsFormProps> = ({ userId, onMetricAdded }) => {
-  const [isOpen, setIsOpen] = useState(false);
+const HealthMetricsForm: React.FC<HealthMetricsFormProps> = ({
+  onMetricAdded,
+  displayUnits = {},
+  definitions = BUILT_IN_METRIC_DEFINITIONS,
+  initialType = '',
+}) => {
+  const [isOpen, setIsOpen] = useState(Boolean(initialType));
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [formData, setFormData] = useState<MetricFormData>({
-    type: '',
+  const [formData, setFormData] = useState<MetricFormData>(() => ({
+    type: initialType,
     value: '',
-    unit: '',
-    notes: ''
-  });
+    unit: initialType ? getDisplayUnit(initialType, displayUnits) || getMetricDefinition(initialType, definitions)?.unit || '' : '',
+    notes: '',
+    diastolic: '',
+    pulse: '',
+    mealContext: '',
+    timestamp: toDateTimeInputValue(new Date())
+  }));
 
-  const selectedMetric = METRIC_TYPES.find(m => m.value === formData.type);
+  const selectedMetric = getMetricDefinition(formData.type, definitions);
 
   const handleTypeChange = (type: string) => {
-    const metric = METRIC_TYPES.find(m => m.value === type);
-    setFormData({
+    const metric = getMetricDefinition(type, definitions);
+    setFormData(prev => ({
       type,
       value: '',
-      unit: metric?.unit || '',
-      notes: ''
-    });
+      unit: getDisplayUnit(type, displayUnits) || metric?.unit || '',
+      notes: '',
+      diastolic: '',
+      pulse: '',
+      mealContext: '',
+      timestamp: prev.timestamp
+    }));
   };
 
+  const isBloodPressure = formData.type === 'blood_pressure';
+  const isPair = selectedMetric?.valueKind === 'pair';
+  const unitOptions = getUnitOptions(formData.type);
+  // Limits are in the definition's unit, so they only apply while that unit is chosen
+  const inDefinitionUnit = selectedMetric?.unit === formData.unit;
+
+  // Example values are written in the default unit, so convert them to the chosen one
+  const getPlaceholder = () => {
+    if (selectedMetric?.placeholder === undefined) return undefined;
+    if (inDefinitionUnit) return String(selectedMetric.placeholder);
+    const converted = convertUnit(selectedMetric.placeholder, selectedMetric.unit, formData.unit);
+    return String(converted === null ? selectedMetric.placeholder : roundForUnit(converted, formData.unit));
+  };
+  const hasValue = isPair ? Boolean(formData.value && formData.diastolic) : Boolean(formData.value.trim());
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.type || !formData.value) return;
+    if (!formData.type || !hasValue) return;
+
+    const measuredAt = new Date(formData.timestamp);
+    if (isNaN(measuredAt.getTime()) || measuredAt > new Date()) {
+      alert('Please choose a measurement time that is not in the future.');
+      return;
+    }
+
+    let processedValue: HealthMetric['value'] = formData.value.trim();
+    if (isBloodPressure) {
+      // Blood pressure is stored as a structured reading
+      processedValue = {
+        systolic: Number(formData.value),
+        diastolic: Number(formData.diastolic),
+        ...(formData.pulse ? { pulse: Number(formData.pulse) } : {})
+      };
+    } else if (isPair && selectedMetric?.parts) {
+      // Other pairs are stored by the keys of their parts
+      const [first, second] = selectedMetric.parts;
+      processedValue = { [first.key]: Number(formData.value), [second.key]: Number(formData.diastolic) };
+    } else if (selectedMetric?.valueKind === 'number' && !isNaN(Number(formData.value))) {
+      processedValue = Number(formData.value);
+    }
+
+    const { isValid, errors } = validateHealthData({ type: formData.type, value: processedValue, unit: formData.unit }, definitions);
+    if (!isValid) {
+      alert(errors.join('\n'));
+      return;
+    }
 
     setIsSubmitting(true);
     try {
-      let processedValue: number | string = formData.value;
-      
-      // Process special cases
-      if (formData.type === 'blood_pressure') {
-        // Keep as string for blood pressure
-        processedValue = formData.value;
-      } else if (!isNaN(Number(formData.value))) {
-        // Convert to number if possible
-        processedValue = Number(formData.value);
-      }
-
-      const result = await healthAPI.addHealthMetric({
-        type: formData.type as any,
+      // An unusual reading is only saved once the user confirms it; otherwise they can correct it
+      const saved = await saveConfirmingAnomalies(confirmed => healthAPI.addHealthMetric({
+        type: formData.type,
         value: processedValue,
         unit: formData.unit,
-        notes: formData.notes || undefined
-      }, userId);
+        notes: formData.notes || undefined,
+        mealContext: formData.mealContext || undefined,
+        timestamp: measuredAt,
+        ...(confirmed ? { confirmed } : {})
+      }));
+      if (!saved) return;
 
-      console.log('Health metric added successfully:', result);
+      console.log('Health metric added successfully');
 
       // Reset form
       setFormData({
         type: '',
         value: '',
         unit: '',
-        notes: ''
+        notes: '',
+        diastolic: '',
+        pulse: '',
+        mealContext: '',
+        timestamp: toDateTimeInputValue(new Date())
       });
       setIsOpen(false);
       
@@ -88,21 +139,16 @@ const HealthMetricsForm: React.FC<HealthMetricsFormProps> = ({ userId, onMetricA
     }
   };
 
-  const getInputType = (metricType: string) => {
-    if (metricType === 'blood_pressure') return 'text';
-    return 'number';
-  };
-
-  const getInputStep = (metricType: string) => {
-    if (['weight', 'temperature', 'water_intake'].includes(metricType)) return '0.1';
-    if (['sleep_hours'].includes(metricType)) return '0.5';
-    return '1';
+  const openForm = () => {
+    // Default the measurement time to when the form is opened
+    setFormData(prev => ({ ...prev, timestamp: toDateTimeInputValue(new Date()) }));
+    setIsOpen(true);
   };
 
   if (!isOpen) {
     return (
       <button
-        onClick={() => setIsOpen(true)}
+        onClick={openForm}
         className="btn-primary flex items-center space-x-2 w-full"
       >
         <Plus className="h-4 w-4" />
@@ -130,57 +176,215 @@ const HealthMetricsForm: React.FC<HealthMetricsFormProps> = ({ userId, onMetricA
             Metric Type
           </label>
           <div className="grid grid-cols-2 gap-2">
-            {METRIC_TYPES.map((metric) => {
-              const IconComponent = metric.icon;
-              return (
-                <button
-                  key={metric.value}
-                  type="button"
-                  onClick={() => handleTypeChange(metric.value)}
-                  className={`p-3 rounded-lg border text-left transition-all duration-200 ${
-                    formData.type === metric.value
-                      ? 'border-primary-500 bg-primary-50 text-primary-700'
-                      : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                  }`}
-                >
-                  <div className="flex items-center space-x-2">
-                    <IconComponent className="h-4 w-4" />
-                    <div>
-                      <div className="font-medium text-sm">{metric.label}</div>
-                      <div className="text-xs text-gray-500">{metric.unit}</div>
-                    </div>
+            {definitions.map((metric) => (
+              <button
+                key={metric.key}
+                type="button"
+                onClick={() => handleTypeChange(metric.key)}
+                className={`p-3 rounded-lg border text-left transition-all duration-200 ${
+                  formData.type === metric.key
+                    ? 'border-primary-500 bg-primary-50 text-primary-700'
+                    : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <MetricIcon name={metric.icon} className="h-4 w-4" />
+                  <div>
+                    <div className="font-medium text-sm">{metric.label}</div>
+                    <div className="text-xs text-gray-500">{metric.unit}</div>
                   </div>
-                </button>
-              );
-            })}
+                </div>
+              </button>
+            ))}
           </div>
         </div>
 
+        {/* Blood Pressure Inputs */}
+        {isBloodPressure && (
+          <div className="animate-slide-up">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label htmlFor="bp-systolic" className="block text-sm font-medium text-gray-700 mb-2">
+                  Systolic
+                </label>
+                <input
+                  id="bp-systolic"
+                  type="number"
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  placeholder="120"
+                  step="1"
+                  className="metric-input"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="bp-diastolic" className="block text-sm font-medium text-gray-700 mb-2">
+                  Diastolic
+                </label>
+                <input
+                  id="bp-diastolic"
+                  type="number"
+                  value={formData.diastolic}
+                  onChange={(e) => setFormData(prev => ({ ...prev, diastolic: e.target.value }))}
+                  placeholder="80"
+                  step="1"
+                  className="metric-input"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="bp-pulse" className="block text-sm font-medium text-gray-700 mb-2">
+                  Pulse (Optional)
+                </label>
+                <input
+                  id="bp-pulse"
+                  type="number"
+                  value={formData.pulse}
+                  onChange={(e) => setFormData(prev => ({ ...prev, pulse: e.target.value }))}
+                  placeholder="72"
+                  step="1"
+                  className="metric-input"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Pressure in mmHg, pulse in bpm
+            </p>
+          </div>
+        )}
+
+        {/* Inputs for other pairs, one per part */}
+        {isPair && !isBloodPressure && selectedMetric?.parts && (
+          <div className="animate-slide-up">
+            <div className="grid grid-cols-2 gap-2">
+              {selectedMetric.parts.map((part, index) => (
+                <div key={part.key}>
+                  <label htmlFor={`metric-part-${part.key}`} className="block text-sm font-medium text-gray-700 mb-2">
+                    {part.label}
+                  </label>
+                  <input
+                    id={`metric-part-${part.key}`}
+                    type="number"
+                    value={index === 0 ? formData.value : formData.diastolic}
+                    onChange={(e) => {
+                      const field = index === 0 ? 'value' : 'diastolic';
+                      setFormData(prev => ({ ...prev, [field]: e.target.value }));
+                    }}
+                    min={selectedMetric.min}
+                    max={selectedMetric.max}
+                    step={selectedMetric.step ?? 'any'}
+                    className="metric-input"
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+            {selectedMetric.unit && (
+              <p className="text-xs text-gray-500 mt-1">Both in {selectedMetric.unit}</p>
+            )}
+          </div>
+        )}
+
         {/* Value Input */}
-        {formData.type && (
+        {selectedMetric && !isPair && (
           <div className="animate-slide-up">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              {selectedMetric?.label} Value
+            <label htmlFor="metric-value" className="block text-sm font-medium text-gray-700 mb-2">
+              {selectedMetric.label} Value
             </label>
             <div className="flex space-x-2">
-              <input
-                type={getInputType(formData.type)}
-                value={formData.value}
-                onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
-                placeholder={selectedMetric?.placeholder}
-                step={getInputStep(formData.type)}
-                className="metric-input flex-1"
-                required
-              />
-              <div className="flex items-center px-3 bg-gray-100 border border-gray-300 rounded-md text-gray-600">
-                {formData.unit}
-              </div>
+              {selectedMetric.valueKind === 'enum' ? (
+                <select
+                  id="metric-value"
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  className="metric-input flex-1"
+                  required
+                >
+                  <option value="">Choose...</option>
+                  {selectedMetric.options?.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : selectedMetric.valueKind === 'text' ? (
+                <input
+                  id="metric-value"
+                  type="text"
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  maxLength={500}
+                  className="metric-input flex-1"
+                  required
+                />
+              ) : (
+                <input
+                  id="metric-value"
+                  type="number"
+                  value={formData.value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  placeholder={getPlaceholder()}
+                  min={inDefinitionUnit ? selectedMetric.min : undefined}
+                  max={inDefinitionUnit ? selectedMetric.max : undefined}
+                  step={selectedMetric.step ?? 'any'}
+                  className="metric-input flex-1"
+                  required
+                />
+              )}
+              {unitOptions.length > 1 ? (
+                <select
+                  value={formData.unit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, unit: e.target.value }))}
+                  aria-label="Unit"
+                  className="metric-input w-auto"
+                >
+                  {unitOptions.map(unit => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              ) : formData.unit && (
+                <div className="flex items-center px-3 bg-gray-100 border border-gray-300 rounded-md text-gray-600">
+                  {formData.unit}
+                </div>
+              )}
             </div>
-            {formData.type === 'blood_pressure' && (
-              <p className="text-xs text-gray-500 mt-1">
-                Format: systolic/diastolic (e.g., 120/80)
-              </p>
-            )}
+          </div>
+        )}
+
+        {/* Blood sugar ranges depend on whether the reading was taken fasting */}
+        {formData.type === 'blood_sugar' && (
+          <div className="animate-slide-up">
+            <label htmlFor="metric-meal-context" className="block text-sm font-medium text-gray-700 mb-2">
+              Meal Timing
+            </label>
+            <select
+              id="metric-meal-context"
+              value={formData.mealContext}
+              onChange={(e) => setFormData(prev => ({ ...prev, mealContext: e.target.value as MetricFormData['mealContext'] }))}
+              className="metric-input"
+            >
+              <option value="">Not specified</option>
+              {MEAL_CONTEXT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Measurement Time */}
+        {formData.type && (
+          <div className="animate-slide-up">
+            <label htmlFor="metric-timestamp" className="block text-sm font-medium text-gray-700 mb-2">
+              Measured At
+            </label>
+            <input
+              id="metric-timestamp"
+              type="datetime-local"
+              value={formData.timestamp}
+              onChange={(e) => setFormData(prev => ({ ...prev, timestamp: e.target.value }))}
+              max={toDateTimeInputValue(new Date())}
+              className="metric-input"
+              required
+            />
           </div>
         )}
 
@@ -204,7 +408,7 @@ const HealthMetricsForm: React.FC<HealthMetricsFormProps> = ({ userId, onMetricA
         <div className="flex space-x-2 pt-2">
           <button
             type="submit"
-            disabled={!formData.type || !formData.value || isSubmitting}
+            disabled={!formData.type || !hasValue || isSubmitting}
             className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isSubmitting ? 'Adding...' : 'Add Metric'}
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertCircle } from 'lucide-react';
+import { healthAPI, getApiErrorMessage } from '../services/api';
+import { HealthMetric, HealthCorrelations, CorrelationScatter, CorrelationSeries } from '../types';
+
+interface MetricComparisonProps {
+  // Correlations are reloaded whenever the readings change
+  healthData: HealthMetric[];
+}
+
+const POINT_COLOR = '#6366f1';
+
+const LAG_OPTIONS = [
+  { value: 0, label: 'Same day' },
+  { value: 1, label: 'The day after' },
+  { value: 2, label: 'Two days after' },
+];
+
+interface ComparedPair {
+  x: string;
+  y: string;
+  lag: number;
+}
+
+const getAxisLabel = (series: CorrelationSeries) => series.unit ? `${series.label} (${series.unit})` : series.label;
+
+// Scatter plot of any two metrics a day at a time, with how closely they move together
+const MetricComparison: React.FC<MetricComparisonProps> = ({ healthData }) => {
+  const [correlations, setCorrelations] = useState<HealthCorrelations | null>(null);
+  // Null until the correlations load and pick the pair to start on
+  const [pair, setPair] = useState<ComparedPair | null>(null);
+  const [scatter, setScatter] = useState<CorrelationScatter | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Days start at midnight where the user is
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    const loadCorrelations = async () => {
+      try {
+        const data = await healthAPI.getCorrelations(timeZone);
+        setCorrelations(data);
+
+        // Start on the strongest pair, or the first two metrics when none has enough days in common
+        const [strongest] = data.correlations;
+        setPair(current => current || (strongest
+          ? { x: strongest.first, y: strongest.second, lag: strongest.lag }
+          : { x: data.series[0]?.key || '', y: data.series[1]?.key || '', lag: 0 }));
+      } catch (err) {
+        console.error('Failed to load correlations:', err);
+      }
+    };
+
+    loadCorrelations();
+  }, [healthData, timeZone]);
+
+  useEffect(() => {
+    if (!pair || !pair.x || !pair.y || pair.x === pair.y) {
+      setScatter(null);
+      return;
+    }
+
+    const loadScatter = async () => {
+      setError(null);
+      try {
+        setScatter(await healthAPI.getCorrelationScatter({ ...pair, timeZone }));
+      } catch (err: unknown) {
+        console.error('Failed to load scatter plot:', err);
+        setError(getApiErrorMessage(err) || 'Failed to compare these metrics. Please try again.');
+        setScatter(null);
+      }
+    };
+
+    loadScatter();
+  }, [pair, timeZone, correlations]);
+
+  if (!correlations || !pair || correlations.series.length < 2) {
+    return null;
+  }
+
+  const updatePair = (changes: Partial<ComparedPair>) => {
+    setPair(prev => prev && { ...prev, ...changes });
+  };
+
+  const describeCorrelation = () => {
+    if (!scatter) return null;
+    if (scatter.r === null) {
+      return `Not enough days to compare yet: ${scatter.sampleSize} of the ${correlations.minSamples} needed.`;
+    }
+    const strength = Math.abs(scatter.r) >= 0.7 ? 'Strong' : Math.abs(scatter.r) >= 0.3 ? 'Moderate' : 'Weak';
+    const direction = scatter.r > 0 ? 'positive' : scatter.r < 0 ? 'negative' : '';
+    return `${strength} ${direction} correlation (r = ${scatter.r} over ${scatter.sampleSize} days), ` +
+      (scatter.significant ? 'unlikely to be chance.' : 'which could be chance.');
+  };
+
+  return (
+    <div className="health-card">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">Compare Metrics</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label htmlFor="comparison-x" className="block text-sm font-medium text-gray-700 mb-1">
+            Compare
+          </label>
+          <select id="comparison-x" value={pair.x} onChange={(e) => updatePair({ x: e.target.value })} className="metric-input">
+            {correlations.series.map(series => (
+              <option key={series.key} value={series.key}>{series.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="comparison-y" className="block text-sm font-medium text-gray-700 mb-1">
+            With
+          </label>
+          <select id="comparison-y" value={pair.y} onChange={(e) => updatePair({ y: e.target.value })} className="metric-input">
+            {correlations.series.map(series => (
+              <option key={series.key} value={series.key}>{series.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="comparison-lag" className="block text-sm font-medium text-gray-700 mb-1">
+            Measured
+          </label>
+          <select id="comparison-lag" value={pair.lag} onChange={(e) => updatePair({ lag: Number(e.target.value) })} className="metric-input">
+            {LAG_OPTIONS.filter(option => option.value <= correlations.maxLag).map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {pair.x === pair.y && (
+        <p className="text-sm text-gray-500">Choose two different metrics to compare.</p>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 mb-4 bg-red-50 text-red-700 rounded-lg text-sm" role="alert">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {scatter && (
+        <>
+          <p className="text-sm text-gray-600 mb-3">{describeCorrelation()}</p>
+          {scatter.points.length > 0 && (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis type="number" dataKey="x" name={getAxisLabel(scatter.x)} tick={{ fontSize: 12 }} stroke="#666" />
+                  <YAxis type="number" dataKey="y" name={getAxisLabel(scatter.y)} tick={{ fontSize: 12 }} stroke="#666" />
+                  <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                  <Scatter data={scatter.points} fill={POINT_COLOR} />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MetricComparison;
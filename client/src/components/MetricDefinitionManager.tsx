@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { metricDefinitionsAPI, getApiErrorMessage } from '../services/api';
+import { MetricAggregation, MetricDefinition, MetricDefinitionInput, MetricValueKind } from '../types';
+import { METRIC_COLORS, METRIC_ICONS, getColorClass } from '../utils/metricDefinitions';
+import MetricIcon from './MetricIcon';
+
+interface MetricDefinitionManagerProps {
+  definitions: MetricDefinition[];
+  onDefinitionsChanged: () => void;
+}
+
+const VALUE_KIND_OPTIONS: { value: MetricValueKind; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'pair', label: 'Two numbers' },
+  { value: 'enum', label: 'One of a list' },
+  { value: 'text', label: 'Text' },
+];
+
+// How a day's, week's or month's readings are charted; enum and text metrics keep the latest
+const AGGREGATION_OPTIONS: { value: MetricAggregation; label: string }[] = [
+  { value: 'average', label: 'Average them' },
+  { value: 'sum', label: 'Add them up' },
+  { value: 'last', label: 'Keep the latest' },
+];
+
+const EMPTY_FORM = {
+  label: '',
+  unit: '',
+  valueKind: 'number' as MetricValueKind,
+  min: '',
+  max: '',
+  aggregation: 'average' as MetricAggregation,
+  firstPart: '',
+  secondPart: '',
+  options: '',
+  icon: 'Activity',
+  color: 'gray',
+};
+
+// Only the fields of the chosen value kind are sent; the server rejects the others
+const toDefinitionInput = (form: typeof EMPTY_FORM): MetricDefinitionInput => {
+  const input: MetricDefinitionInput = {
+    label: form.label.trim(),
+    unit: form.unit.trim(),
+    valueKind: form.valueKind,
+    icon: form.icon,
+    color: form.color,
+  };
+
+  if (form.valueKind === 'number' || form.valueKind === 'pair') {
+    if (form.min !== '') input.min = Number(form.min);
+    if (form.max !== '') input.max = Number(form.max);
+    input.aggregation = form.aggregation;
+  }
+  if (form.valueKind === 'pair') {
+    input.parts = [form.firstPart.trim(), form.secondPart.trim()];
+  }
+  if (form.valueKind === 'enum') {
+    input.options = form.options.split(',').map(option => option.trim()).filter(Boolean);
+  }
+  return input;
+};
+
+const MetricDefinitionManager: React.FC<MetricDefinitionManagerProps> = ({ definitions, onDefinitionsChanged }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const customDefinitions = definitions.filter(definition => !definition.builtIn);
+  const hasNumbers = form.valueKind === 'number' || form.valueKind === 'pair';
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.label.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await metricDefinitionsAPI.createMetricDefinition(toDefinitionInput(form));
+      setForm(EMPTY_FORM);
+      onDefinitionsChanged();
+    } catch (err: unknown) {
+      console.error('Failed to create metric definition:', err);
+      setError(getApiErrorMessage(err) || 'Failed to create the metric. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (definition: MetricDefinition) => {
+    if (!window.confirm(`Delete the metric "${definition.label}"?`)) return;
+
+    setError(null);
+    try {
+      await metricDefinitionsAPI.deleteMetricDefinition(definition.key);
+      onDefinitionsChanged();
+    } catch (err: unknown) {
+      console.error('Failed to delete metric definition:', err);
+      setError(getApiErrorMessage(err) || 'Failed to delete the metric. Please try again.');
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Your Metrics</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Track anything the built-in metrics do not cover, such as pain level, grip strength or mood.
+      </p>
+
+      {customDefinitions.length > 0 ? (
+        <ul className="divide-y border rounded-lg mb-4">
+          {customDefinitions.map(definition => (
+            <li key={definition.key} className="flex items-center justify-between p-3">
+              <div className="flex items-center space-x-3">
+                <MetricIcon name={definition.icon} className={`h-4 w-4 ${getColorClass(definition.color)}`} />
+                <div>
+                  <div className="font-medium text-sm text-gray-800">{definition.label}</div>
+                  <div className="text-xs text-gray-500">
+                    {VALUE_KIND_OPTIONS.find(option => option.value === definition.valueKind)?.label}
+                    {definition.unit && ` · ${definition.unit}`}
+                    {definition.options && ` · ${definition.options.join(', ')}`}
+                    {definition.parts && ` · ${definition.parts.map(part => part.label).join(' / ')}`}
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(definition)}
+                title={`Delete ${definition.label}`}
+                className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">You have not defined any metrics yet.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="definition-label" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              id="definition-label"
+              type="text"
+              value={form.label}
+              onChange={(e) => updateForm('label', e.target.value)}
+              maxLength={40}
+              placeholder="Pain level"
+              className="metric-input"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="definition-kind" className="block text-sm font-medium text-gray-700 mb-1">Value</label>
+            <select
+              id="definition-kind"
+              value={form.valueKind}
+              onChange={(e) => updateForm('valueKind', e.target.value)}
+              className="metric-input"
+            >
+              {VALUE_KIND_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="definition-unit" className="block text-sm font-medium text-gray-700 mb-1">Unit (Optional)</label>
+            <input
+              id="definition-unit"
+              type="text"
+              value={form.unit}
+              onChange={(e) => updateForm('unit', e.target.value)}
+              maxLength={20}
+              placeholder="%"
+              className="metric-input"
+            />
+          </div>
+        </div>
+
+        {form.valueKind === 'pair' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="definition-first-part" className="block text-sm font-medium text-gray-700 mb-1">First Number</label>
+              <input
+                id="definition-first-part"
+                type="text"
+                value={form.firstPart}
+                onChange={(e) => updateForm('firstPart', e.target.value)}
+                maxLength={20}
+                placeholder="Left"
+                className="metric-input"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="definition-second-part" className="block text-sm font-medium text-gray-700 mb-1">Second Number</label>
+              <input
+                id="definition-second-part"
+                type="text"
+                value={form.secondPart}
+                onChange={(e) => updateForm('secondPart', e.target.value)}
+                maxLength={20}
+                placeholder="Right"
+                className="metric-input"
+                required
+              />
+            </div>
+          </div>
+        )}
+
+        {form.valueKind === 'enum' && (
+          <div>
+            <label htmlFor="definition-options" className="block text-sm font-medium text-gray-700 mb-1">Options</label>
+            <input
+              id="definition-options"
+              type="text"
+              value={form.options}
+              onChange={(e) => updateForm('options', e.target.value)}
+              placeholder="none, mild, moderate, severe"
+              className="metric-input"
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">Separate options with commas</p>
+          </div>
+        )}
+
+        {hasNumbers && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="definition-min" className="block text-sm font-medium text-gray-700 mb-1">Minimum (Optional)</label>
+              <input
+                id="definition-min"
+                type="number"
+                value={form.min}
+                onChange={(e) => updateForm('min', e.target.value)}
+                step="any"
+                className="metric-input"
+              />
+            </div>
+            <div>
+              <label htmlFor="definition-max" className="block text-sm font-medium text-gray-700 mb-1">Maximum (Optional)</label>
+              <input
+                id="definition-max"
+                type="number"
+                value={form.max}
+                onChange={(e) => updateForm('max', e.target.value)}
+                step="any"
+                className="metric-input"
+              />
+            </div>
+            <div>
+              <label htmlFor="definition-aggregation" className="block text-sm font-medium text-gray-700 mb-1">Readings in a Day</label>
+              <select
+                id="definition-aggregation"
+                value={form.aggregation}
+                onChange={(e) => updateForm('aggregation', e.target.value)}
+                className="metric-input"
+              >
+                {AGGREGATION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="definition-icon" className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+            <select
+              id="definition-icon"
+              value={form.icon}
+              onChange={(e) => updateForm('icon', e.target.value)}
+              className="metric-input"
+            >
+              {METRIC_ICONS.map(icon => (
+                <option key={icon} value={icon}>{icon}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="definition-color" className="block text-sm font-medium text-gray-700 mb-1">Colour</label>
+            <select
+              id="definition-color"
+              value={form.color}
+              onChange={(e) => updateForm('color', e.target.value)}
+              className="metric-input"
+            >
+              {METRIC_COLORS.map(color => (
+                <option key={color} value={color}>{color}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600" role="alert">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!form.label.trim() || isSaving}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{isSaving ? 'Saving...' : 'Create Metric'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default MetricDefinitionManager;
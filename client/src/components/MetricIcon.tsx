@@ -0,0 +1,24 @@
+import React from 'react';
+import {
+  Activity, Apple, Bike, Brain, Coffee, Droplets, Dumbbell, Eye, Flame, Footprints, Gauge, Heart,
+  HeartPulse, Moon, Pill, Ruler, Scale, Smile, Stethoscope, Thermometer, Timer, Wind, Zap, LucideIcon,
+} from 'lucide-react';
+
+// One entry per name in METRIC_ICONS
+const ICONS: { [name: string]: LucideIcon } = {
+  Activity, Apple, Bike, Brain, Coffee, Droplets, Dumbbell, Eye, Flame, Footprints, Gauge, Heart,
+  HeartPulse, Moon, Pill, Ruler, Scale, Smile, Stethoscope, Thermometer, Timer, Wind, Zap,
+};
+
+interface MetricIconProps {
+  // Icon name from a metric definition
+  name: string;
+  className?: string;
+}
+
+const MetricIcon: React.FC<MetricIconProps> = ({ name, className }) => {
+  const Icon = ICONS[name] || Activity;
+  return <Icon className={className} />;
+};
+
+export default MetricIcon;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { BellRing, Clock, Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Reminder } from '../types';
+
+interface NotificationCenterProps {
+  reminders: Reminder[];
+  onSnooze: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+// Where "Log now" takes the user: the Add Metric page with the reminder's metric chosen
+export const getLogNowPath = (reminder: Reminder) => `/add-metric?type=${encodeURIComponent(reminder.type)}`;
+
+const canNotify = () => typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'granted';
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ reminders, onSnooze, onDismiss }) => {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  // Reminders already shown as browser notifications, so each is shown once
+  const notified = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!canNotify()) return;
+
+    reminders
+      .filter(reminder => !notified.current.has(reminder.id))
+      .forEach(reminder => {
+        notified.current.add(reminder.id);
+        const notification = new Notification('HealthBot reminder', { body: reminder.message, tag: reminder.id });
+        notification.onclick = () => {
+          window.focus();
+          navigate(getLogNowPath(reminder));
+          notification.close();
+        };
+      });
+  }, [reminders, navigate]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Reminders"
+        aria-expanded={isOpen}
+        className="relative p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+      >
+        <BellRing className="h-5 w-5" />
+        {reminders.length > 0 && (
+          <span
+            aria-label={`${reminders.length} reminders`}
+            className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] px-1 rounded-full bg-primary-500 text-white text-xs font-semibold text-center"
+          >
+            {reminders.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          role="region"
+          aria-label="Notifications"
+          className="absolute right-0 mt-2 w-80 bg-white border rounded-lg shadow-lg z-20"
+        >
+          <div className="px-4 py-3 border-b text-sm font-semibold text-gray-800">Reminders</div>
+          {reminders.length > 0 ? (
+            <ul className="divide-y max-h-96 overflow-y-auto">
+              {reminders.map(reminder => (
+                <li key={reminder.id} className="p-3">
+                  <div className="text-sm font-medium text-gray-900">{reminder.message}</div>
+                  <div className="text-xs text-gray-500 mb-2">{format(new Date(reminder.dueAt), 'MMM d, h:mm a')}</div>
+                  <div className="flex items-center space-x-2">
+                    <Link
+                      to={getLogNowPath(reminder)}
+                      onClick={() => setIsOpen(false)}
+                      className="flex items-center space-x-1 px-2 py-1 rounded-md text-sm text-primary-700 bg-primary-50 hover:bg-primary-100"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Log now</span>
+                    </Link>
+                    <button
+                      onClick={() => onSnooze(reminder.id)}
+                      title="Snooze for 30 minutes"
+                      className="flex items-center space-x-1 px-2 py-1 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <Clock className="h-4 w-4" />
+                      <span>Snooze</span>
+                    </button>
+                    <button
+                      onClick={() => onDismiss(reminder.id)}
+                      title="Dismiss"
+                      className="p-1 rounded-md text-gray-500 hover:text-gray-900 hover:bg-gray-100"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="p-4 text-sm text-gray-500">You're all caught up.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
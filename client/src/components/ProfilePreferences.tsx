@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { UserCircle } from 'lucide-react';
+import { authAPI, getApiErrorMessage } from '../services/api';
+import { User } from '../types';
+
+interface ProfilePreferencesProps {
+  user: User;
+  onUserUpdated: (user: User) => void;
+}
+
+const ProfilePreferences: React.FC<ProfilePreferencesProps> = ({ user, onUserUpdated }) => {
+  const savedBirthYear = user.preferences.profile?.birthYear;
+  const [birthYear, setBirthYear] = useState(savedBirthYear ? String(savedBirthYear) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isUnchanged = birthYear === (savedBirthYear ? String(savedBirthYear) : '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updatedUser = await authAPI.updatePreferences({
+        ...user.preferences,
+        profile: birthYear ? { birthYear: Number(birthYear) } : {},
+      });
+      onUserUpdated(updatedUser);
+    } catch (err: unknown) {
+      console.error('Failed to update profile:', err);
+      setError(getApiErrorMessage(err) || 'Failed to save your profile. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <div className="flex items-center space-x-2 mb-1">
+        <UserCircle className="h-5 w-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-800">Profile</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Your birth year lets heart rate, temperature and blood pressure readings be classified against the ranges for your age.
+      </p>
+      <form onSubmit={handleSubmit} className="flex items-end space-x-3">
+        <div>
+          <label htmlFor="profile-birth-year" className="block text-sm font-medium text-gray-700 mb-1">
+            Birth Year (Optional)
+          </label>
+          <input
+            id="profile-birth-year"
+            type="number"
+            value={birthYear}
+            onChange={(e) => setBirthYear(e.target.value)}
+            min={1900}
+            max={new Date().getFullYear()}
+            step={1}
+            className="metric-input w-32"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isUnchanged || isSaving}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600 mt-2" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfilePreferences;
@@ -0,0 +1,56 @@
+import React from 'react';
+
+interface ProgressRingProps {
+  // 0-100; anything above draws a full ring
+  percent: number;
+  label: string;
+  size?: number;
+  strokeWidth?: number;
+  color?: string;
+}
+
+// Circular progress indicator with the percentage in the middle
+const ProgressRing: React.FC<ProgressRingProps> = ({
+  percent,
+  label,
+  size = 72,
+  strokeWidth = 8,
+  color = '#0ea5e9',
+}) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const filled = Math.min(Math.max(percent, 0), 100);
+
+  return (
+    <div
+      className="relative flex-shrink-0"
+      style={{ width: size, height: size }}
+      role="progressbar"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={filled}
+    >
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="#e5e7eb" strokeWidth={strokeWidth} />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - filled / 100)}
+          className="transition-all duration-500"
+        />
+      </svg>
+      <span className="absolute inset-0 flex items-center justify-center text-sm font-semibold text-gray-800">
+        {percent}%
+      </span>
+    </div>
+  );
+};
+
+export default ProgressRing;
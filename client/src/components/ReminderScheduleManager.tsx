@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, AlertCircle, BellRing } from 'lucide-react';
+import { remindersAPI, getApiErrorMessage } from '../services/api';
+import { MetricDefinition, ReminderSchedule, ReminderScheduleInput } from '../types';
+import { BUILT_IN_METRIC_DEFINITIONS } from '../utils/metricDefinitions';
+
+interface ReminderScheduleManagerProps {
+  definitions?: MetricDefinition[];
+}
+
+const DAY_OPTIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const EMPTY_FORM = {
+  type: '',
+  times: '',
+  days: EVERY_DAY,
+};
+
+// "8:00, 20:00" becomes ["08:00", "20:00"]; null when any time is not a time of day
+const parseTimes = (text: string): string[] | null => {
+  const times = text.split(',').map(time => time.trim()).filter(Boolean);
+  if (times.length === 0) return null;
+
+  const parsed = times.map(time => {
+    const match = time.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+    return `${match[1].padStart(2, '0')}:${match[2]}`;
+  });
+  return parsed.every(Boolean) ? Array.from(new Set(parsed as string[])) : null;
+};
+
+const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+const ReminderScheduleManager: React.FC<ReminderScheduleManagerProps> = ({
+  definitions = BUILT_IN_METRIC_DEFINITIONS,
+}) => {
+  const [schedules, setSchedules] = useState<ReminderSchedule[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [permission, setPermission] = useState(getNotificationPermission);
+  // Reminder times are the times of day where the user is
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const loadSchedules = async () => {
+    try {
+      setSchedules(await remindersAPI.getReminderSchedules());
+    } catch (err) {
+      console.error('Failed to load reminder schedules:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const times = parseTimes(form.times);
+  const canSubmit = Boolean(form.type) && times !== null && form.days.length > 0;
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter(d => d !== day) : [...prev.days, day].sort(),
+    }));
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || !times) return;
+
+    const schedule: ReminderScheduleInput = { type: form.type, times, timeZone };
+    if (form.days.length < EVERY_DAY.length) schedule.days = form.days;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await remindersAPI.createReminderSchedule(schedule);
+      setForm(EMPTY_FORM);
+      await loadSchedules();
+    } catch (err: unknown) {
+      console.error('Failed to create reminder schedule:', err);
+      setError(getApiErrorMessage(err) || 'Failed to create the reminder. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: ReminderSchedule) => {
+    if (!window.confirm(`Delete the reminder "${schedule.description}"?`)) return;
+
+    setError(null);
+    try {
+      await remindersAPI.deleteReminderSchedule(schedule.id);
+      await loadSchedules();
+    } catch (err: unknown) {
+      console.error('Failed to delete reminder schedule:', err);
+      setError(getApiErrorMessage(err) || 'Failed to delete the reminder. Please try again.');
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Reminders</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Get reminded to log a metric at set times of day. Times are in your time zone ({timeZone}).
+      </p>
+
+      {permission === 'default' && (
+        <button
+          onClick={requestPermission}
+          className="flex items-center space-x-2 mb-4 px-3 py-2 rounded-md text-sm text-primary-700 bg-primary-50 hover:bg-primary-100"
+        >
+          <BellRing className="h-4 w-4" />
+          <span>Enable browser notifications</span>
+        </button>
+      )}
+      {permission === 'denied' && (
+        <p className="text-sm text-gray-500 mb-4">
+          Browser notifications are blocked, so reminders only appear in the notification centre.
+        </p>
+      )}
+
+      {schedules.length > 0 ? (
+        <ul className="divide-y border rounded-lg mb-4">
+          {schedules.map(schedule => (
+            <li key={schedule.id} className="flex items-center justify-between p-3">
+              <div>
+                <div className="text-sm text-gray-800">{schedule.description}</div>
+                {schedule.timeZone !== timeZone && (
+                  <div className="text-xs text-gray-500">{schedule.timeZone}</div>
+                )}
+              </div>
+              <button
+                onClick={() => handleDelete(schedule)}
+                title={`Delete ${schedule.description}`}
+                className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">You have no reminders yet.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="reminder-type" className="block text-sm font-medium text-gray-700 mb-1">Metric</label>
+            <select
+              id="reminder-type"
+              value={form.type}
+              onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value }))}
+              className="metric-input"
+              required
+            >
+              <option value="">Choose a metric</option>
+              {definitions.map(option => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="reminder-times" className="block text-sm font-medium text-gray-700 mb-1">Times</label>
+            <input
+              id="reminder-times"
+              type="text"
+              value={form.times}
+              onChange={(e) => setForm(prev => ({ ...prev, times: e.target.value }))}
+              placeholder="08:00, 20:00"
+              className="metric-input"
+              required
+            />
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">Days</legend>
+          <div className="flex flex-wrap gap-3">
+            {DAY_OPTIONS.map((label, day) => (
+              <label key={label} className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.days.includes(day)}
+                  onChange={() => toggleDay(day)}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-600" role="alert">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!canSubmit || isSaving}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{isSaving ? 'Saving...' : 'Add Reminder'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ReminderScheduleManager;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { User } from '../types';
+import { getConvertibleMetricTypes, getDisplayUnit, getUnitOptions } from '../utils/units';
+
+interface UnitPreferencesProps {
+  user: User;
+  onUserUpdated: (user: User) => void;
+}
+
+const formatMetricName = (metric: string) =>
+  metric.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const UnitPreferences: React.FC<UnitPreferencesProps> = ({ user, onUserUpdated }) => {
+  const [savingType, setSavingType] = useState<string | null>(null);
+  const displayUnits = user.preferences.displayUnits;
+
+  const handleUnitChange = async (metricType: string, unit: string) => {
+    setSavingType(metricType);
+    try {
+      const updatedUser = await authAPI.updatePreferences({
+        ...user.preferences,
+        displayUnits: { ...displayUnits, [metricType]: unit },
+      });
+      onUserUpdated(updatedUser);
+    } catch (error) {
+      console.error('Failed to update unit preferences:', error);
+      alert('Failed to save your unit preference. Please try again.');
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <div className="health-card">
+      <div className="flex items-center space-x-2 mb-4">
+        <Ruler className="h-5 w-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-800">Display Units</h3>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {getConvertibleMetricTypes().map(metricType => (
+          <div key={metricType}>
+            <label htmlFor={`unit-${metricType}`} className="block text-sm font-medium text-gray-700 mb-1">
+              {formatMetricName(metricType)}
+            </label>
+            <select
+              id={`unit-${metricType}`}
+              value={getDisplayUnit(metricType, displayUnits)}
+              onChange={(e) => handleUnitChange(metricType, e.target.value)}
+              disabled={savingType !== null}
+              className="metric-input"
+            >
+              {getUnitOptions(metricType).map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UnitPreferences;
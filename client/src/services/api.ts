@@ -1,7 +1,41 @@
-import axios from 'axios';
-import { HealthMetric, ChatResponse, HealthInsights } from '../types';
+import axios, { AxiosResponse } from 'axios';
+import {
+  HealthMetric,
+  HealthMetricInput,
+  ChatResponse,
+  ChatPendingState,
+  HealthInsights,
+  HealthAggregateQuery,
+  HealthAggregates,
+  HealthCorrelations,
+  CorrelationScatter,
+  CorrelationScatterQuery,
+  HealthDataQuery,
+  PaginatedResponse,
+  AuthResponse,
+  User,
+  UserPreferences,
+  CsvImportOptions,
+  CsvImportPreview,
+  CsvImportResult,
+  AppleHealthImportJob,
+  ExportFormat,
+  HealthExportQuery,
+  MetricDefinition,
+  MetricDefinitionInput,
+  AlertRule,
+  AlertRuleInput,
+  AlertsResponse,
+  HealthAlert,
+  Goal,
+  GoalInput,
+  Reminder,
+  ReminderSchedule,
+  ReminderScheduleInput,
+} from '../types';
 
 const API_BASE_URL = 'http://localhost:5000/api';
+const TOKEN_STORAGE_KEY = 'healthbot_token';
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -10,43 +44,325 @@ const api = axios.create({
   },
 });
 
+// The server's response to a failed request, with its status and body; undefined for
+// anything else, like a network failure
+export const getApiErrorResponse = <T = { error?: string }>(error: unknown): AxiosResponse<T> | undefined =>
+  axios.isAxiosError<T>(error) ? error.response : undefined;
+
+// The message the server gave for a failed request, such as a validation error
+export const getApiErrorMessage = (error: unknown): string | undefined =>
+  getApiErrorResponse(error)?.data?.error;
+
+// Auth token persistence
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const setAuthToken = (token: string) => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+};
+
+export const clearAuthToken = () => {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+};
+
+// Called when the server rejects the stored token so the app can return to the login screen
+let unauthorizedHandler: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401 && getAuthToken()) {
+      clearAuthToken();
+      unauthorizedHandler?.();
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Auth API
+export const authAPI = {
+  // Create an account and store its token
+  register: async (name: string, email: string, password: string): Promise<AuthResponse> => {
+    const response = await api.post('/auth/register', { name, email, password });
+    setAuthToken(response.data.token);
+    return response.data;
+  },
+
+  // Log in and store the token
+  login: async (email: string, password: string): Promise<AuthResponse> => {
+    const response = await api.post('/auth/login', { email, password });
+    setAuthToken(response.data.token);
+    return response.data;
+  },
+
+  // Get the user the stored token belongs to
+  getCurrentUser: async (): Promise<User> => {
+    const response = await api.get('/auth/me');
+    return response.data.user;
+  },
+
+  // Save display preferences such as preferred units; returns the updated user
+  updatePreferences: async (preferences: UserPreferences): Promise<User> => {
+    const response = await api.put('/auth/me/preferences', preferences);
+    return response.data.user;
+  },
+
+  logout: () => {
+    clearAuthToken();
+  },
+};
+
 // Health data API
 export const healthAPI = {
-  // Get all health data for a user
-  getHealthData: async (userId: string = 'default'): Promise<HealthMetric[]> => {
-    const response = await api.get(`/health/data/${userId}`);
+  // Get a page of health data, optionally filtered by type and time range
+  getHealthData: async (query: HealthDataQuery = {}): Promise<PaginatedResponse<HealthMetric>> => {
+    const response = await api.get('/health/data', {
+      params: {
+        ...query,
+        from: query.from?.toISOString(),
+        to: query.to?.toISOString(),
+      },
+    });
     return response.data;
   },
 
   // Add a new health metric
-  addHealthMetric: async (metric: Omit<HealthMetric, 'id' | 'timestamp'>, userId: string = 'default') => {
-    const response = await api.post('/health/data', {
-      ...metric,
-      userId,
-    });
+  addHealthMetric: async (metric: HealthMetricInput) => {
+    const response = await api.post('/health/data', metric);
+    return response.data;
+  },
+
+  // Update an existing health metric
+  updateHealthMetric: async (id: string, metric: HealthMetricInput) => {
+    const response = await api.put(`/health/data/${id}`, metric);
+    return response.data;
+  },
+
+  // Mark a health metric as a mistake, leaving it out of insights, or as correct
+  reviewHealthMetric: async (id: string, erroneous: boolean): Promise<HealthMetric> => {
+    const response = await api.post(`/health/data/${id}/review`, { erroneous });
+    return response.data.data;
+  },
+
+  // Delete a health metric
+  deleteHealthMetric: async (id: string) => {
+    const response = await api.delete(`/health/data/${id}`);
     return response.data;
   },
 
   // Get health insights
-  getHealthInsights: async (userId: string = 'default'): Promise<HealthInsights> => {
-    const response = await api.get(`/health/insights/${userId}`);
+  getHealthInsights: async (): Promise<HealthInsights> => {
+    const response = await api.get('/health/insights');
+    return response.data;
+  },
+
+  // One metric's readings combined into day, week or month buckets
+  getHealthAggregates: async (query: HealthAggregateQuery): Promise<HealthAggregates> => {
+    const response = await api.get('/health/aggregates', {
+      params: {
+        ...query,
+        from: query.from?.toISOString(),
+        to: query.to?.toISOString(),
+      },
+    });
+    return response.data;
+  },
+
+  // Correlations between every two metrics logged on enough of the same days
+  getCorrelations: async (timeZone?: string): Promise<HealthCorrelations> => {
+    const response = await api.get('/health/correlations', { params: { timeZone } });
+    return response.data;
+  },
+
+  // Paired days of two metrics for a scatter plot
+  getCorrelationScatter: async (query: CorrelationScatterQuery): Promise<CorrelationScatter> => {
+    const response = await api.get('/health/correlations/scatter', { params: query });
+    return response.data;
+  },
+
+  // Download the user's records as a CSV or JSON file
+  exportHealthData: async (format: ExportFormat, query: HealthExportQuery = {}): Promise<Blob> => {
+    const response = await api.get('/health/export', {
+      params: {
+        format,
+        ...query,
+        from: query.from?.toISOString(),
+        to: query.to?.toISOString(),
+      },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Get the print-friendly HTML report
+  getHealthReport: async (query: HealthExportQuery = {}): Promise<string> => {
+    const response = await api.get('/health/export/report', {
+      params: {
+        ...query,
+        from: query.from?.toISOString(),
+        to: query.to?.toISOString(),
+      },
+      responseType: 'text',
+    });
+    return response.data;
+  },
+
+  // Parse and validate a CSV file without saving anything
+  previewCsvImport: async (csv: string, options: CsvImportOptions = {}): Promise<CsvImportPreview> => {
+    const response = await api.post('/health/import/csv/preview', { csv, ...options });
+    return response.data;
+  },
+
+  // Save every row of a CSV file; rejected if any row is invalid
+  importCsv: async (csv: string, options: CsvImportOptions = {}): Promise<CsvImportResult> => {
+    const response = await api.post('/health/import/csv', { csv, ...options });
+    return response.data;
+  },
+
+  // Start an Apple Health import; the export is uploaded to the returned job
+  createAppleHealthImport: async (): Promise<AppleHealthImportJob> => {
+    const response = await api.post('/health/import/apple-health');
+    return response.data;
+  },
+
+  // Stream an export.xml file to an import job; resolves with the finished job
+  uploadAppleHealthExport: async (jobId: string, file: File): Promise<AppleHealthImportJob> => {
+    const response = await api.put(`/health/import/apple-health/${jobId}`, file, {
+      headers: { 'Content-Type': 'application/xml' },
+    });
+    return response.data;
+  },
+
+  // Get an import job's progress while its file is being processed
+  getAppleHealthImport: async (jobId: string): Promise<AppleHealthImportJob> => {
+    const response = await api.get(`/health/import/apple-health/${jobId}`);
+    return response.data;
+  },
+};
+
+// Metric definitions API
+export const metricDefinitionsAPI = {
+  // Get the built-in metrics followed by the user's own
+  getMetricDefinitions: async (): Promise<MetricDefinition[]> => {
+    const response = await api.get('/metric-definitions');
+    return response.data.definitions;
+  },
+
+  // Define a metric of the user's own
+  createMetricDefinition: async (definition: MetricDefinitionInput): Promise<MetricDefinition> => {
+    const response = await api.post('/metric-definitions', definition);
+    return response.data.definition;
+  },
+
+  // Remove one of the user's metrics; refused while readings of it exist
+  deleteMetricDefinition: async (key: string) => {
+    const response = await api.delete(`/metric-definitions/${key}`);
+    return response.data;
+  },
+};
+
+// Alerts API
+export const alertsAPI = {
+  // Triggered alerts, newest first, with the number not yet acknowledged
+  getAlerts: async (): Promise<AlertsResponse> => {
+    const response = await api.get('/alerts');
+    return response.data;
+  },
+
+  acknowledgeAlert: async (id: string): Promise<HealthAlert> => {
+    const response = await api.post(`/alerts/${id}/acknowledge`);
+    return response.data.alert;
+  },
+
+  getAlertRules: async (): Promise<AlertRule[]> => {
+    const response = await api.get('/alerts/rules');
+    return response.data.rules;
+  },
+
+  // Add a rule; it is checked straight away against the readings already logged
+  createAlertRule: async (rule: AlertRuleInput): Promise<AlertRule> => {
+    const response = await api.post('/alerts/rules', rule);
+    return response.data.rule;
+  },
+
+  deleteAlertRule: async (id: string) => {
+    const response = await api.delete(`/alerts/rules/${id}`);
+    return response.data;
+  },
+};
+
+// Goals API
+export const goalsAPI = {
+  // Every goal with its progress from the readings logged so far
+  getGoals: async (): Promise<Goal[]> => {
+    const response = await api.get('/goals');
+    return response.data.goals;
+  },
+
+  createGoal: async (goal: GoalInput): Promise<Goal> => {
+    const response = await api.post('/goals', goal);
+    return response.data.goal;
+  },
+
+  deleteGoal: async (id: string) => {
+    const response = await api.delete(`/goals/${id}`);
+    return response.data;
+  },
+};
+
+// Reminders API
+export const remindersAPI = {
+  // Reminders that are due and not snoozed or dismissed, newest first
+  getReminders: async (): Promise<Reminder[]> => {
+    const response = await api.get('/reminders');
+    return response.data.reminders;
+  },
+
+  snoozeReminder: async (id: string, minutes: number = 30): Promise<Reminder> => {
+    const response = await api.post(`/reminders/${id}/snooze`, { minutes });
+    return response.data.reminder;
+  },
+
+  dismissReminder: async (id: string): Promise<Reminder> => {
+    const response = await api.post(`/reminders/${id}/dismiss`);
+    return response.data.reminder;
+  },
+
+  getReminderSchedules: async (): Promise<ReminderSchedule[]> => {
+    const response = await api.get('/reminders/schedules');
+    return response.data.schedules;
+  },
+
+  createReminderSchedule: async (schedule: ReminderScheduleInput): Promise<ReminderSchedule> => {
+    const response = await api.post('/reminders/schedules', schedule);
+    return response.data.schedule;
+  },
+
+  deleteReminderSchedule: async (id: string) => {
+    const response = await api.delete(`/reminders/schedules/${id}`);
     return response.data;
   },
 };
 
 // Chat API
-debugger;
 export const chatAPI = {
-  // Send a message to the chatbot
-  sendMessage: async (
-    message: string, 
-    sessionId: string = 'default', 
-    userId: string = 'default'
-  ): Promise<ChatResponse> => {
+  // Send a message to the chatbot; readings it logs ("slept 7h last night") are placed in the local time zone
+  sendMessage: async (message: string, sessionId: string = 'default'): Promise<ChatResponse> => {
     const response = await api.post('/chat', {
       message,
       sessionId,
-      userId,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     });
     return response.data;
   },
@@ -56,6 +372,12 @@ export const chatAPI = {
     const response = await api.get(`/chat/history/${sessionId}`);
     return response.data;
   },
+
+  // What the chatbot is waiting for the user to answer in a conversation, if anything
+  getConversationState: async (sessionId: string = 'default'): Promise<ChatPendingState | null> => {
+    const response = await api.get(`/chat/state/${sessionId}`);
+    return response.data.pending;
+  },
 };
 
 // Health check
@@ -66,4 +388,4 @@ export const checkServerHealth = async () => {
   } catch (error) {
     throw new Error('Server is not responding');
   }
-};
\ No newline at end of file
+};
@@ -1,11 +1,229 @@
+// Preferred unit per metric type, e.g. { weight: 'lb', temperature: '°F' }
+export type DisplayUnits = { [metricType: string]: string };
+
+// Details used for age-aware reference ranges
+export interface HealthProfile {
+  birthYear?: number;
+}
+
+export interface UserPreferences {
+  displayUnits: DisplayUnits;
+  profile?: HealthProfile;
+}
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  preferences: UserPreferences;
+  createdAt: Date;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export interface BloodPressureValue {
+  systolic: number;
+  diastolic: number;
+  pulse?: number;
+}
+
+// How a metric's value is entered: a number, two named numbers, one of a list of options or free text
+export type MetricValueKind = 'number' | 'pair' | 'enum' | 'text';
+
+// How the readings of a day, week or month combine into one value: added up (steps),
+// averaged (heart rate) or the latest one (weight)
+export type MetricAggregation = 'sum' | 'average' | 'last';
+
+export interface MetricDefinition {
+  // Metric type stored on records, e.g. "weight"
+  key: string;
+  label: string;
+  unit: string;
+  valueKind: MetricValueKind;
+  aggregation: MetricAggregation;
+  // Limits in the definition's unit, for number and pair metrics
+  min?: number;
+  max?: number;
+  step?: number;
+  placeholder?: number;
+  // The two numbers of a pair, e.g. systolic and diastolic
+  parts?: { key: string; label: string }[];
+  // Choices of an enum metric
+  options?: string[];
+  // Name of a lucide icon and a Tailwind colour name
+  icon: string;
+  color: string;
+  builtIn: boolean;
+}
+
+// Payload for creating a metric of the user's own; the key is derived from the label when omitted
+export interface MetricDefinitionInput {
+  key?: string;
+  label: string;
+  unit?: string;
+  valueKind: MetricValueKind;
+  min?: number;
+  max?: number;
+  step?: number;
+  // Labels of the two numbers of a pair
+  parts?: string[];
+  options?: string[];
+  // Only "last" for enum and text metrics; "average" when omitted for numbers
+  aggregation?: MetricAggregation;
+  icon?: string;
+  color?: string;
+}
+
+// Whether a blood sugar reading was taken fasting
+export type MealContext = 'fasting' | 'non_fasting';
+
+export type ReadingSeverity = 'normal' | 'borderline' | 'low' | 'high' | 'critical';
+
+// Where a reading falls in its clinical reference range, e.g. "Stage 2 hypertension"
+export interface ReadingClassification {
+  category: string;
+  label: string;
+  severity: ReadingSeverity;
+}
+
 export interface HealthMetric {
   id: string;
-  type: 'weight' | 'height' | 'blood_pressure' | 'heart_rate' | 'blood_sugar' | 
-        'temperature' | 'sleep_hours' | 'steps' | 'water_intake' | 'exercise_minutes';
-  value: number | string | object;
+  // Key of the metric's definition
+  type: string;
+  // Stored in the canonical unit for the metric type
+  value: number | string | BloodPressureValue | object;
   unit: string;
+  // The value and unit as they were entered
+  enteredValue?: number | string | BloodPressureValue | object;
+  enteredUnit?: string;
   timestamp: Date;
   notes?: string;
+  mealContext?: MealContext;
+  // Set by the server for metrics with reference ranges; null for the others
+  classification?: ReadingClassification | null;
+  // Set on records that came from an import rather than being entered by hand
+  source?: 'csv' | 'fhir' | 'apple_health';
+  importId?: string;
+  // Set by the server when the reading looked unusual and was saved after confirming it
+  anomaly?: ReadingAnomaly | null;
+  // Marked by the user as a mistake; left out of insights
+  erroneous?: boolean;
+}
+
+// Why a reading looks wrong: outside physiological limits or far from the user's own history
+export interface ReadingAnomaly {
+  reasons: string[];
+  // Largest robust z-score of the reading's numbers against earlier ones; null without enough history
+  robustZScore: number | null;
+}
+
+// Payload for creating or updating a metric; timestamp is when the measurement was taken.
+// `confirmed` saves a reading the server found unusual.
+export type HealthMetricInput = Omit<HealthMetric, 'id' | 'timestamp' | 'enteredValue' | 'enteredUnit' | 'classification' | 'source' | 'importId' | 'anomaly' | 'erroneous'> & {
+  timestamp?: Date;
+  confirmed?: boolean;
+};
+
+export interface HealthDataQuery {
+  type?: HealthMetric['type'];
+  from?: Date;
+  to?: Date;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+export type HealthExportQuery = Pick<HealthDataQuery, 'type' | 'from' | 'to'>;
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    total: number;
+    hasMore: boolean;
+    nextCursor: string | null;
+  };
+}
+
+export type ImportField = 'type' | 'value' | 'unit' | 'timestamp' | 'notes';
+
+// Maps each metric field to the CSV column header it is read from
+export type CsvColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface CsvImportOptions {
+  mapping?: CsvColumnMapping;
+  // Used when no column is mapped for the field
+  defaults?: {
+    type?: HealthMetric['type'];
+    unit?: string;
+  };
+}
+
+export interface CsvImportRow {
+  // Line of the file the row starts on; the header is line 1
+  line: number;
+  metric: {
+    type: string;
+    value: HealthMetric['value'];
+    unit: string;
+    timestamp?: string;
+    notes?: string;
+  };
+  errors: string[];
+}
+
+export interface CsvImportPreview {
+  columns: string[];
+  mapping: CsvColumnMapping;
+  defaults: CsvImportOptions['defaults'];
+  mappingErrors: string[];
+  rows: CsvImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+  };
+}
+
+// An imported row that looks unusual; it was saved, flagged with its anomaly
+export interface CsvImportFlaggedRow {
+  line: number;
+  id: string;
+  reasons: string[];
+}
+
+export interface CsvImportResult {
+  message: string;
+  importId: string;
+  count: number;
+  flagged: CsvImportFlaggedRow[];
+}
+
+export type AppleHealthImportStatus = 'waiting' | 'reading' | 'saving' | 'completed' | 'failed';
+
+// Progress of an Apple Health export.xml import; totalBytes is null when the size is unknown
+export interface AppleHealthImportJob {
+  id: string;
+  status: AppleHealthImportStatus;
+  bytesRead: number;
+  totalBytes: number | null;
+  records: number;
+  imported: number;
+  // Daily readings from an earlier import of a day that was not over yet
+  updated: number;
+  duplicates: number;
+  unsupported: number;
+  invalid: number;
+  // Readings saved but flagged as unusual
+  flagged: number;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
 }
 
 export interface ChatMessage {
@@ -14,22 +232,281 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+export type ChatIntent =
+  | 'log_metric'
+  | 'greeting'
+  | 'goal_progress'
+  | 'health_summary'
+  | 'metric_trend'
+  | 'metric_statistic'
+  | 'last_logged'
+  | 'metric_query'
+  | 'help'
+  | 'unknown';
+
+// What the assistant found in a message: the metric it mentions, any reading it reports, the
+// stretch of time it asks about ("last week", with `end` excluded) and the statistic it asks for
+export interface ChatEntities {
+  metric?: string;
+  reading?: Pick<HealthMetric, 'type' | 'value' | 'unit' | 'mealContext'> & { timestamp: string };
+  period?: { label: string; start: string; end: string };
+  statistic?: 'mean' | 'median' | 'max' | 'min';
+}
+
+// A question the assistant asked and is waiting on the next message to answer, such as the
+// reading after "log my blood pressure". Forgotten at `expiresAt` or when the user cancels.
+export interface ChatPendingState {
+  intent: ChatIntent;
+  slots: { metric?: string };
+  awaiting: 'metric' | 'reading';
+  prompt: string;
+  expiresAt: string;
+}
+
 export interface ChatResponse {
   response: string;
   sessionId: string;
+  // What the message was understood as, for debugging and tests
+  intent: ChatIntent;
+  confidence: number;
+  entities: ChatEntities;
+  // The reading a message such as "weight 72.4 kg" logged, if it logged one
+  recordedMetric: HealthMetric | null;
+  pending: ChatPendingState | null;
   conversation: ChatMessage[];
 }
 
+// threshold: `count` readings beyond `value` within `windowHours`; missing: no reading for `hours`
+export type AlertRuleKind = 'threshold' | 'missing';
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+export interface AlertRuleInput {
+  name?: string;
+  kind: AlertRuleKind;
+  type: string;
+  // Which number of a pair to watch, e.g. "systolic"
+  part?: string;
+  operator?: AlertOperator;
+  value?: number;
+  unit?: string;
+  count?: number;
+  windowHours?: number;
+  hours?: number;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  // e.g. "Heart Rate above 120 bpm 2 times within 24 hours"
+  description: string;
+  createdAt: string;
+}
+
+export interface HealthAlert {
+  id: string;
+  ruleId: string;
+  message: string;
+  // Readings that triggered the alert
+  recordIds: string[];
+  triggeredAt: string;
+  acknowledgedAt: string | null;
+}
+
+export interface AlertsResponse {
+  alerts: HealthAlert[];
+  unacknowledged: number;
+}
+
+// daily and weekly goals count the readings of the current day or week in the goal's time zone;
+// by_date goals count the latest reading
+export type GoalPeriod = 'daily' | 'weekly' | 'by_date';
+
+export interface GoalInput {
+  type: string;
+  period: GoalPeriod;
+  target: number;
+  unit?: string;
+  // by_date goals only
+  targetDate?: string;
+  // IANA time zone whose days and weeks daily and weekly goals count, e.g. "Europe/London"
+  timeZone?: string;
+}
+
+export interface GoalProgress {
+  // What `current` is: the period's total or average, or the latest reading
+  measure: 'total' | 'average' | 'latest';
+  current: number | null;
+  // by_date goals only: the reading the goal started from
+  startValue?: number | null;
+  percent: number;
+  achieved: boolean;
+  remaining: number | null;
+  readings: number;
+  periodStart?: string;
+  periodEnd: string;
+}
+
+export interface Goal extends GoalInput {
+  id: string;
+  unit: string;
+  // e.g. "Steps: 10000 steps a day"
+  description: string;
+  createdAt: string;
+  progress: GoalProgress;
+}
+
+// Local times of day to be reminded to log a metric, e.g. blood pressure at 08:00 and 20:00
+export interface ReminderScheduleInput {
+  type: string;
+  // "HH:MM" in the schedule's time zone
+  times: string[];
+  // Days of the week, 0 is Sunday; every day when omitted
+  days?: number[];
+  // IANA time zone, e.g. "Europe/London"
+  timeZone?: string;
+}
+
+export interface ReminderSchedule extends ReminderScheduleInput {
+  id: string;
+  timeZone: string;
+  // e.g. "Blood Pressure at 08:00 and 20:00 every day"
+  description: string;
+  createdAt: string;
+}
+
+// A reminder a schedule created when it fell due
+export interface Reminder {
+  id: string;
+  scheduleId: string;
+  type: string;
+  message: string;
+  dueAt: string;
+  snoozedUntil: string | null;
+  dismissedAt: string | null;
+}
+
+// A metric the server computes from logged readings, such as BMI from weight and height
+export interface DerivedMetricSeries {
+  label: string;
+  unit: string;
+  points: { timestamp: string; value: number }[];
+}
+
+export type AggregateGranularity = 'day' | 'week' | 'month';
+
+export interface HealthAggregateQuery {
+  type: string;
+  granularity: AggregateGranularity;
+  // IANA time zone the days start in, e.g. "Europe/London"
+  timeZone?: string;
+  unit?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// A day, week or month of readings of one metric combined by its aggregation
+export interface HealthAggregateBucket {
+  // Local date the bucket starts on, e.g. "2024-03-11" for the week from Monday 11 March
+  period: string;
+  start: string;
+  end: string;
+  value: number | { [part: string]: number } | string;
+  count: number;
+}
+
+export interface HealthAggregates {
+  type: string;
+  granularity: AggregateGranularity;
+  timeZone: string;
+  aggregation: MetricAggregation;
+  unit: string;
+  buckets: HealthAggregateBucket[];
+}
+
+// One number a user logs, compared day by day with the others, e.g. "blood_pressure_systolic"
+export interface CorrelationSeries {
+  key: string;
+  label: string;
+  unit: string;
+}
+
+// How closely two series move together. With a lag of 1, `first` on a day is compared
+// with `second` the day after.
+export interface MetricCorrelation {
+  first: string;
+  second: string;
+  lag: number;
+  r: number;
+  // Days both were logged on
+  sampleSize: number;
+  significant: boolean;
+}
+
+export interface HealthCorrelations {
+  timeZone: string;
+  // Days in common needed before a correlation is reported
+  minSamples: number;
+  maxLag: number;
+  series: CorrelationSeries[];
+  // Strongest first
+  correlations: MetricCorrelation[];
+}
+
+export interface CorrelationScatterQuery {
+  x: string;
+  y: string;
+  lag?: number;
+  timeZone?: string;
+}
+
+// The paired days of two series, for a scatter plot; r is null without enough of them
+export interface CorrelationScatter {
+  x: CorrelationSeries;
+  y: CorrelationSeries;
+  lag: number;
+  timeZone: string;
+  r: number | null;
+  sampleSize: number;
+  significant: boolean;
+  points: { date: string; x: number; y: number }[];
+}
+
+export interface MovingAveragePoint {
+  timestamp: string;
+  average7Day: number;
+  average30Day: number;
+}
+
+// Statistics of one series of readings. The change and slope come from the least-squares
+// line through the readings, and `significant` says whether that fit is unlikely to be chance.
+export interface HealthTrend {
+  change: number;
+  // Null when the fitted line starts at zero
+  percentChange: string | null;
+  unit?: string;
+  direction: 'increase' | 'decrease' | 'stable';
+  recordCount: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  slopePerWeek: number;
+  movingAverage7Day: number;
+  movingAverage30Day: number;
+  // One entry per reading, averaging the readings of the 7 and 30 days up to it
+  movingAverages: MovingAveragePoint[];
+  significant: boolean;
+}
+
 export interface HealthInsights {
   totalRecords: number;
   metricsTracked: string[];
   trends: {
-    [key: string]: {
-      change: number;
-      percentChange: string;
-      direction: 'increase' | 'decrease' | 'stable';
-      recordCount: number;
-    };
+    [key: string]: HealthTrend;
+  };
+  derivedMetrics?: {
+    [key: string]: DerivedMetricSeries;
   };
   recommendations: string[];
 }
@@ -39,4 +516,10 @@ export interface MetricFormData {
   value: string;
   unit: string;
   notes: string;
+  // Only used for pairs such as blood pressure, where value holds the first number
+  diastolic: string;
+  pulse: string;
+  // Only used for blood sugar; empty when not specified
+  mealContext: MealContext | '';
+  timestamp: string;
 }
\ No newline at end of file
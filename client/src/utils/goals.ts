@@ -0,0 +1,36 @@
+import { Goal, GoalPeriod } from '../types';
+import { convertUnit, roundForUnit } from './units';
+
+export const GOAL_PERIOD_OPTIONS: { value: GoalPeriod; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'by_date', label: 'By a date' },
+];
+
+const formatAmount = (value: number, unit: string): string => `${value.toLocaleString()} ${unit}`.trim();
+
+// Where the goal stands, e.g. "7,500 steps today, 2,500 steps to go"
+export const getGoalStatus = (goal: Goal): string => {
+  const { progress } = goal;
+  if (progress.current === null) return 'No readings yet';
+
+  const current = formatAmount(progress.current, goal.unit);
+  const remaining = formatAmount(progress.remaining || 0, goal.unit);
+  if (goal.period === 'by_date') {
+    return progress.achieved ? `Now ${current}, goal reached` : `Now ${current}, ${remaining} to go`;
+  }
+
+  const when = goal.period === 'daily' ? 'today' : 'this week';
+  const amount = progress.measure === 'average' ? `${current} on average ${when}` : `${current} ${when}`;
+  return progress.achieved ? `${amount}, goal reached` : `${amount}, ${remaining} to go`;
+};
+
+// The goal as a line on a chart of single readings in `unit`. Null when a single reading
+// cannot be compared with it, as with a weekly total, or its unit does not convert.
+export const getGoalLineValue = (goal: Goal, unit: string): number | null => {
+  if (goal.period === 'weekly' && goal.progress.measure === 'total') return null;
+  if (!unit || goal.unit === unit) return goal.target;
+
+  const converted = convertUnit(goal.target, goal.unit, unit);
+  return converted === null ? null : roundForUnit(converted, unit);
+};
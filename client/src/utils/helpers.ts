@@ -1,44 +1,78 @@
-import { HealthMetric } from '../types';
+import { HealthMetric, BloodPressureValue, DisplayUnits, MetricDefinition, ReadingAnomaly } from '../types';
+import { convertUnit, getDisplayUnit, getValueInUnit, roundForUnit } from './units';
+import { BUILT_IN_METRIC_DEFINITIONS, getColorClass, getMetricDefinition } from './metricDefinitions';
+import { getApiErrorResponse } from '../services/api';
+
+// Accepts a structured reading or a "120/80" / "120/80/72" string
+export const parseBloodPressure = (value: unknown): BloodPressureValue | null => {
+  if (typeof value === 'string') {
+    const match = value.match(/^\s*(\d{2,3})\s*\/\s*(\d{2,3})(?:\s*\/\s*(\d{2,3}))?\s*$/);
+    if (!match) return null;
+    return {
+      systolic: Number(match[1]),
+      diastolic: Number(match[2]),
+      ...(match[3] ? { pulse: Number(match[3]) } : {})
+    };
+  }
 
-export const formatMetricValue = (value: any, unit: string): string => {
+  if (value && typeof value === 'object') {
+    const { systolic, diastolic, pulse } = value as Partial<BloodPressureValue>;
+    if (typeof systolic === 'number' && typeof diastolic === 'number') {
+      return typeof pulse === 'number' ? { systolic, diastolic, pulse } : { systolic, diastolic };
+    }
+  }
+
+  return null;
+};
+
+// Numeric values are converted to displayUnit when given and compatible with unit
+export const formatMetricValue = (value: any, unit: string, displayUnit?: string): string => {
   if (value === undefined || value === null) {
     return `${value} ${unit}`;
   }
+
+  const bloodPressure = typeof value === 'object' ? parseBloodPressure(value) : null;
+  if (bloodPressure) {
+    const pressure = `${bloodPressure.systolic}/${bloodPressure.diastolic} ${unit}`;
+    return bloodPressure.pulse !== undefined ? `${pressure}, pulse ${bloodPressure.pulse} bpm` : pressure;
+  }
+
+  // Metrics of the user's own: pairs read "30/28", and enum or text values may have no unit
+  if (typeof value === 'object') {
+    const pair = Object.values(value).join('/');
+    return unit ? `${pair} ${unit}` : pair;
+  }
+  if (!unit) {
+    return String(value);
+  }
+
+  if (displayUnit && displayUnit !== unit && typeof value === 'number') {
+    const converted = convertUnit(value, unit, displayUnit);
+    if (converted !== null) {
+      return `${roundForUnit(converted, displayUnit)} ${displayUnit}`;
+    }
+  }
+
   return `${value} ${unit}`;
 };
 
-export const getMetricColor = (metricType: string): string => {
-  const colorMap: { [key: string]: string } = {
-    weight: 'text-blue-600',
-    height: 'text-green-600',
-    blood_pressure: 'text-purple-600',
-    heart_rate: 'text-red-600',
-    blood_sugar: 'text-green-600',
-    temperature: 'text-orange-600',
-    sleep_hours: 'text-indigo-600',
-    steps: 'text-teal-600',
-    water_intake: 'text-cyan-600',
-    exercise_minutes: 'text-emerald-600',
-  };
-  
-  return colorMap[metricType] || 'text-gray-600';
+// Formats a stored record in the user's preferred unit for its metric type
+export const formatMetric = (metric: Pick<HealthMetric, 'type' | 'value' | 'unit' | 'enteredValue' | 'enteredUnit'>, displayUnits: DisplayUnits = {}): string => {
+  const displayUnit = getDisplayUnit(metric.type, displayUnits);
+  const value = displayUnit ? getValueInUnit(metric, displayUnit) : null;
+  if (value === null) {
+    return formatMetricValue(metric.value, metric.unit);
+  }
+  return formatMetricValue(roundForUnit(value, displayUnit), displayUnit);
 };
 
-export const getMetricIcon = (metricType: string): string => {
-  const iconMap: { [key: string]: string } = {
-    weight: 'Scale',
-    height: 'Ruler',
-    blood_pressure: 'Activity',
-    heart_rate: 'Heart',
-    blood_sugar: 'Droplets',
-    temperature: 'Thermometer',
-    sleep_hours: 'Moon',
-    steps: 'Footprints',
-    water_intake: 'Droplets',
-    exercise_minutes: 'Dumbbell',
-  };
-  
-  return iconMap[metricType] || 'Activity';
+export const getMetricColor = (metricType: string, definitions: MetricDefinition[] = BUILT_IN_METRIC_DEFINITIONS): string => {
+  const definition = getMetricDefinition(metricType, definitions);
+  return getColorClass(definition ? definition.color : 'gray');
+};
+
+export const getMetricIcon = (metricType: string, definitions: MetricDefinition[] = BUILT_IN_METRIC_DEFINITIONS): string => {
+  return getMetricDefinition(metricType, definitions)?.icon || 'Activity';
 };
 
 export interface ValidationResult {
@@ -46,8 +80,12 @@ export interface ValidationResult {
   errors: string[];
 }
 
-export const validateHealthData = (data: Partial<HealthMetric>): ValidationResult => {
+export const validateHealthData = (
+  data: Partial<HealthMetric>,
+  definitions: MetricDefinition[] = BUILT_IN_METRIC_DEFINITIONS
+): ValidationResult => {
   const errors: string[] = [];
+  const definition = data.type ? getMetricDefinition(data.type, definitions) : undefined;
 
   // Check required fields
   if (!data.type) {
@@ -58,29 +96,29 @@ export const validateHealthData = (data: Partial<HealthMetric>): ValidationResul
     errors.push('Value is required');
   }
 
-  if (!data.unit) {
+  // Metrics of the user's own may be defined without a unit
+  if (!data.unit && (!definition || definition.unit)) {
     errors.push('Unit is required');
   }
 
   // Validate metric type
-  const validTypes = [
-    'weight', 'height', 'blood_pressure', 'heart_rate', 'blood_sugar',
-    'temperature', 'sleep_hours', 'steps', 'water_intake', 'exercise_minutes'
-  ];
-
-  if (data.type && !validTypes.includes(data.type)) {
+  if (data.type && !definition) {
     errors.push('Invalid metric type');
   }
 
   // Validate numeric values for numeric metrics
-  const numericMetrics = ['weight', 'height', 'heart_rate', 'blood_sugar', 'temperature', 'sleep_hours', 'steps', 'water_intake', 'exercise_minutes'];
-  
-  if (data.type && numericMetrics.includes(data.type) && data.value !== undefined) {
+  if (definition?.valueKind === 'number' && data.value !== undefined) {
     if (typeof data.value === 'string' && isNaN(Number(data.value))) {
       errors.push('Value must be a number for this metric type');
     }
   }
 
+  if (definition?.valueKind === 'enum' && typeof data.value === 'string' && data.value !== '') {
+    if (!definition.options?.includes(data.value)) {
+      errors.push(`Value must be one of ${definition.options?.join(', ')}`);
+    }
+  }
+
   // Validate blood pressure format
   if (data.type === 'blood_pressure' && typeof data.value === 'string') {
     const bpRegex = /^\d+\/\d+$/;
@@ -89,6 +127,15 @@ export const validateHealthData = (data: Partial<HealthMetric>): ValidationResul
     }
   }
 
+  if (data.type === 'blood_pressure' && data.value && typeof data.value === 'object') {
+    const reading = parseBloodPressure(data.value);
+    if (!reading) {
+      errors.push('Blood pressure must include systolic and diastolic values');
+    } else if (reading.diastolic >= reading.systolic) {
+      errors.push('Diastolic pressure must be lower than systolic pressure');
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -105,32 +152,31 @@ export const formatDate = (date: Date): string => {
   }).format(date);
 };
 
-export const getMetricDisplayName = (metricType: string): string => {
-  const displayNames: { [key: string]: string } = {
-    weight: 'Weight',
-    height: 'Height',
-    blood_pressure: 'Blood Pressure',
-    heart_rate: 'Heart Rate',
-    blood_sugar: 'Blood Sugar',
-    temperature: 'Temperature',
-    sleep_hours: 'Sleep Hours',
-    steps: 'Steps',
-    water_intake: 'Water Intake',
-    exercise_minutes: 'Exercise Minutes',
-  };
-  
-  return displayNames[metricType] || metricType.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+// Formats a date for the value of an <input type="datetime-local">, in local time
+export const toDateTimeInputValue = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const getMetricDisplayName = (metricType: string, definitions: MetricDefinition[] = BUILT_IN_METRIC_DEFINITIONS): string => {
+  const definition = getMetricDefinition(metricType, definitions);
+  return definition ? definition.label : metricType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 };
 
-export const calculateTrend = (values: number[]): { direction: 'increase' | 'decrease' | 'stable'; change: number; percentChange: number } => {
+// Change along the least-squares line through evenly spaced values, so one outlier cannot
+// reverse the trend. There is no percentage of a line that starts at zero.
+export const calculateTrend = (values: number[]): { direction: 'increase' | 'decrease' | 'stable'; change: number; percentChange: number | null } => {
   if (values.length < 2) {
     return { direction: 'stable', change: 0, percentChange: 0 };
   }
 
-  const first = values[0];
-  const last = values[values.length - 1];
-  const change = last - first;
-  const percentChange = first !== 0 ? (change / first) * 100 : 0;
+  const meanX = (values.length - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const sxx = values.reduce((sum, _, index) => sum + (index - meanX) ** 2, 0);
+  const sxy = values.reduce((sum, value, index) => sum + (index - meanX) * (value - meanY), 0);
+  const slope = sxy / sxx;
+  const start = meanY - slope * meanX;
+  const change = Math.round(slope * (values.length - 1) * 100) / 100;
 
   let direction: 'increase' | 'decrease' | 'stable' = 'stable';
   if (change > 0) direction = 'increase';
@@ -138,7 +184,38 @@ export const calculateTrend = (values: number[]): { direction: 'increase' | 'dec
 
   return {
     direction,
-    change: Math.round(change * 100) / 100,
-    percentChange: Math.round(percentChange * 100) / 100
+    change,
+    percentChange: Math.round(start * 100) === 0 ? null : Math.round((change / start) * 100 * 100) / 100
   };
-}; 
\ No newline at end of file
+};
+
+// Saves a reading, asking the user first when the server finds it unusual, e.g. 700 kg
+// entered for 70. `save` sends the reading, confirmed or not. Resolves false when the
+// user would rather correct the reading.
+export const saveConfirmingAnomalies = async (save: (confirmed: boolean) => Promise<unknown>): Promise<boolean> => {
+  try {
+    await save(false);
+    return true;
+  } catch (err: unknown) {
+    const response = getApiErrorResponse<{ anomaly?: ReadingAnomaly }>(err);
+    const anomaly = response?.status === 409 ? response.data?.anomaly : undefined;
+    if (!anomaly) throw err;
+
+    const reasons = anomaly.reasons.map(reason => `• ${reason}`).join('\n');
+    if (!window.confirm(`This reading looks unusual:\n${reasons}\n\nSave it anyway?`)) return false;
+    await save(true);
+    return true;
+  }
+};
+
+// Saves a downloaded file through a temporary link
+export const saveFile = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,69 @@
+import { MetricDefinition } from '../types';
+
+// Mirrors the built-in definitions in server/metricDefinitions.js; keep the two in sync.
+// The server also returns these from GET /api/metric-definitions along with the user's own,
+// so this copy is only used until that list has loaded.
+export const BUILT_IN_METRIC_DEFINITIONS: MetricDefinition[] = [
+  { key: 'weight', label: 'Weight', unit: 'kg', valueKind: 'number', min: 0, step: 0.1, placeholder: 70, aggregation: 'last', icon: 'Scale', color: 'blue', builtIn: true },
+  { key: 'height', label: 'Height', unit: 'cm', valueKind: 'number', min: 0, step: 1, placeholder: 175, aggregation: 'last', icon: 'Ruler', color: 'green', builtIn: true },
+  {
+    key: 'blood_pressure',
+    label: 'Blood Pressure',
+    unit: 'mmHg',
+    valueKind: 'pair',
+    parts: [{ key: 'systolic', label: 'Systolic' }, { key: 'diastolic', label: 'Diastolic' }],
+    min: 20,
+    max: 300,
+    step: 1,
+    placeholder: 120,
+    aggregation: 'average',
+    icon: 'Activity',
+    color: 'purple',
+    builtIn: true,
+  },
+  { key: 'heart_rate', label: 'Heart Rate', unit: 'bpm', valueKind: 'number', min: 0, step: 1, placeholder: 75, aggregation: 'average', icon: 'Heart', color: 'red', builtIn: true },
+  { key: 'blood_sugar', label: 'Blood Sugar', unit: 'mg/dL', valueKind: 'number', min: 0, step: 1, placeholder: 100, aggregation: 'average', icon: 'Droplets', color: 'green', builtIn: true },
+  { key: 'temperature', label: 'Temperature', unit: '°C', valueKind: 'number', step: 0.1, placeholder: 36.5, aggregation: 'average', icon: 'Thermometer', color: 'orange', builtIn: true },
+  { key: 'sleep_hours', label: 'Sleep Hours', unit: 'hours', valueKind: 'number', min: 0, max: 24, step: 0.5, placeholder: 8, aggregation: 'average', icon: 'Moon', color: 'indigo', builtIn: true },
+  { key: 'steps', label: 'Steps', unit: 'steps', valueKind: 'number', min: 0, step: 1, placeholder: 10000, aggregation: 'sum', icon: 'Footprints', color: 'teal', builtIn: true },
+  { key: 'water_intake', label: 'Water Intake', unit: 'L', valueKind: 'number', min: 0, step: 0.1, placeholder: 2.5, aggregation: 'sum', icon: 'Droplets', color: 'cyan', builtIn: true },
+  { key: 'exercise_minutes', label: 'Exercise', unit: 'minutes', valueKind: 'number', min: 0, max: 1440, step: 1, placeholder: 30, aggregation: 'sum', icon: 'Dumbbell', color: 'emerald', builtIn: true },
+];
+
+// Icons and colours a definition may use; the server accepts the same lists
+export const METRIC_ICONS = [
+  'Activity', 'Apple', 'Bike', 'Brain', 'Coffee', 'Droplets', 'Dumbbell', 'Eye', 'Flame',
+  'Footprints', 'Gauge', 'Heart', 'HeartPulse', 'Moon', 'Pill', 'Ruler', 'Scale', 'Smile',
+  'Stethoscope', 'Thermometer', 'Timer', 'Wind', 'Zap',
+];
+
+// Tailwind only generates classes it finds written out in full, so each colour is spelled out
+const COLOR_STYLES: { [color: string]: { text: string; chart: string } } = {
+  blue: { text: 'text-blue-600', chart: '#2563eb' },
+  green: { text: 'text-green-600', chart: '#16a34a' },
+  purple: { text: 'text-purple-600', chart: '#9333ea' },
+  red: { text: 'text-red-600', chart: '#dc2626' },
+  orange: { text: 'text-orange-600', chart: '#ea580c' },
+  indigo: { text: 'text-indigo-600', chart: '#4f46e5' },
+  teal: { text: 'text-teal-600', chart: '#0d9488' },
+  cyan: { text: 'text-cyan-600', chart: '#0891b2' },
+  emerald: { text: 'text-emerald-600', chart: '#059669' },
+  pink: { text: 'text-pink-600', chart: '#db2777' },
+  amber: { text: 'text-amber-600', chart: '#d97706' },
+  gray: { text: 'text-gray-600', chart: '#4b5563' },
+};
+
+export const METRIC_COLORS = Object.keys(COLOR_STYLES);
+
+export const getMetricDefinition = (
+  metricType: string,
+  definitions: MetricDefinition[] = BUILT_IN_METRIC_DEFINITIONS
+): MetricDefinition | undefined => definitions.find(definition => definition.key === metricType);
+
+export const getColorClass = (color: string): string => (COLOR_STYLES[color] || COLOR_STYLES.gray).text;
+
+export const getChartColor = (color: string): string => (COLOR_STYLES[color] || COLOR_STYLES.gray).chart;
+
+// Enum and text metrics have nothing to plot
+export const isChartable = (definition: MetricDefinition | undefined): boolean =>
+  !definition || definition.valueKind === 'number' || definition.valueKind === 'pair';
@@ -0,0 +1,27 @@
+import { MealContext, ReadingSeverity } from '../types';
+
+// Readings are classified by the server (server/referenceRanges.js); the client only colour-codes them.
+// Tailwind only generates classes it finds written out in full, so each style is spelled out
+const SEVERITY_STYLES: { [severity in ReadingSeverity]: { badge: string; chart: string; label: string } } = {
+  normal: { badge: 'bg-green-100 text-green-700', chart: '#16a34a', label: 'Normal' },
+  borderline: { badge: 'bg-amber-100 text-amber-700', chart: '#d97706', label: 'Borderline' },
+  low: { badge: 'bg-sky-100 text-sky-700', chart: '#0284c7', label: 'Low' },
+  high: { badge: 'bg-orange-100 text-orange-700', chart: '#ea580c', label: 'High' },
+  critical: { badge: 'bg-red-100 text-red-700', chart: '#dc2626', label: 'Critical' },
+};
+
+export const SEVERITIES = Object.keys(SEVERITY_STYLES) as ReadingSeverity[];
+
+export const MEAL_CONTEXT_OPTIONS: { value: MealContext; label: string }[] = [
+  { value: 'fasting', label: 'Fasting' },
+  { value: 'non_fasting', label: 'Not fasting' },
+];
+
+export const getSeverityBadgeClass = (severity: ReadingSeverity): string =>
+  SEVERITY_STYLES[severity]?.badge || 'bg-gray-100 text-gray-600';
+
+export const getSeverityColor = (severity: ReadingSeverity): string =>
+  SEVERITY_STYLES[severity]?.chart || '#4b5563';
+
+export const getSeverityLabel = (severity: ReadingSeverity): string =>
+  SEVERITY_STYLES[severity]?.label || severity;
@@ -0,0 +1,119 @@
+import { HealthMetric, DisplayUnits } from '../types';
+
+// The table of server/units.js, which converts readings on the way in. Values are stored in
+// the canonical unit and a unit converts to canonical as (value - offset) * factor.
+// units.test.ts compares the two tables, so a change to one fails the tests until both match.
+interface UnitSpec {
+  factor: number;
+  offset?: number;
+  decimals: number;
+  // Other names the unit is written as, such as "lbs"
+  aliases?: string[];
+}
+
+interface UnitDefinition {
+  canonical: string;
+  units: { [unit: string]: UnitSpec };
+}
+
+export const UNIT_DEFINITIONS: { [type: string]: UnitDefinition } = {
+  weight: {
+    canonical: 'kg',
+    units: {
+      kg: { factor: 1, decimals: 1 },
+      lb: { factor: 0.45359237, decimals: 1, aliases: ['lbs', 'pound', 'pounds'] },
+    },
+  },
+  height: {
+    canonical: 'cm',
+    units: {
+      cm: { factor: 1, decimals: 1 },
+      in: { factor: 2.54, decimals: 1, aliases: ['inch', 'inches'] },
+    },
+  },
+  blood_pressure: { canonical: 'mmHg', units: { mmHg: { factor: 1, decimals: 0 } } },
+  heart_rate: { canonical: 'bpm', units: { bpm: { factor: 1, decimals: 0 } } },
+  blood_sugar: {
+    canonical: 'mg/dL',
+    units: {
+      'mg/dL': { factor: 1, decimals: 0 },
+      'mmol/L': { factor: 18, decimals: 1 },
+    },
+  },
+  temperature: {
+    canonical: '°C',
+    units: {
+      '°C': { factor: 1, decimals: 1, aliases: ['C', 'celsius'] },
+      '°F': { factor: 5 / 9, offset: 32, decimals: 1, aliases: ['F', 'fahrenheit'] },
+    },
+  },
+  sleep_hours: { canonical: 'hours', units: { hours: { factor: 1, decimals: 1, aliases: ['h', 'hrs'] } } },
+  steps: { canonical: 'steps', units: { steps: { factor: 1, decimals: 0 } } },
+  water_intake: {
+    canonical: 'L',
+    units: {
+      L: { factor: 1, decimals: 2, aliases: ['liters', 'litres'] },
+      mL: { factor: 0.001, decimals: 0 },
+      'fl oz': { factor: 0.0295735, decimals: 1, aliases: ['oz'] },
+    },
+  },
+  exercise_minutes: { canonical: 'minutes', units: { minutes: { factor: 1, decimals: 0, aliases: ['min', 'mins'] } } },
+};
+
+export const getUnitOptions = (metricType: string): string[] =>
+  Object.keys(UNIT_DEFINITIONS[metricType]?.units || {});
+
+// Metric types that can be shown in more than one unit
+export const getConvertibleMetricTypes = (): string[] =>
+  Object.keys(UNIT_DEFINITIONS).filter(type => getUnitOptions(type).length > 1);
+
+export const getDisplayUnit = (metricType: string, displayUnits: DisplayUnits = {}): string => {
+  const preferred = displayUnits[metricType];
+  if (preferred && getUnitOptions(metricType).includes(preferred)) return preferred;
+  return UNIT_DEFINITIONS[metricType]?.canonical || '';
+};
+
+// Finds the metric family a unit or one of its aliases belongs to, and the unit's defined name,
+// so values can be converted from the unit alone. Aliases match regardless of case, as on the server.
+const findUnit = (unit: string): { metricType: string; name: string } | undefined => {
+  const wanted = unit.trim().toLowerCase();
+  for (const metricType of Object.keys(UNIT_DEFINITIONS)) {
+    const name = Object.keys(UNIT_DEFINITIONS[metricType].units).find(candidate =>
+      [candidate, ...(UNIT_DEFINITIONS[metricType].units[candidate].aliases || [])]
+        .some(alias => alias.toLowerCase() === wanted)
+    );
+    if (name) return { metricType, name };
+  }
+  return undefined;
+};
+
+// Returns null when the units are unknown or belong to different metrics
+export const convertUnit = (value: number, fromUnit: string, toUnit: string): number | null => {
+  const from = findUnit(fromUnit);
+  const to = findUnit(toUnit);
+  if (!from || !to || from.metricType !== to.metricType) return null;
+
+  const { units } = UNIT_DEFINITIONS[from.metricType];
+  const fromSpec = units[from.name];
+  const toSpec = units[to.name];
+  const canonical = (value - (fromSpec.offset || 0)) * fromSpec.factor;
+  return canonical / toSpec.factor + (toSpec.offset || 0);
+};
+
+export const roundForUnit = (value: number, unit: string): number => {
+  const found = findUnit(unit);
+  const decimals = found ? UNIT_DEFINITIONS[found.metricType].units[found.name].decimals : 2;
+  return Number(value.toFixed(decimals));
+};
+
+// Numeric value of a metric in the requested unit. Uses the value as entered when
+// it was logged in that unit, so "150 lb" stays 150 rather than a rounded conversion.
+export const getValueInUnit = (metric: Pick<HealthMetric, 'value' | 'unit' | 'enteredValue' | 'enteredUnit'>, unit: string): number | null => {
+  if (metric.enteredUnit === unit && typeof metric.enteredValue === 'number') {
+    return metric.enteredValue;
+  }
+
+  const value = typeof metric.value === 'number' ? metric.value : parseFloat(metric.value as string);
+  if (isNaN(value)) return null;
+  return metric.unit === unit ? value : convertUnit(value, metric.unit, unit);
+};
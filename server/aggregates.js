@@ -0,0 +1,155 @@
+const express = require('express');
+const Joi = require('joi');
+const { getNumberInUnit, getDisplayUnit, resolveMetricUnit, roundForUnit } = require('./units');
+const { getMetricDefinitions, findMetricDefinition } = require('./metricDefinitions');
+const { isErroneous, sortByMeasurementTime } = require('./insights');
+const { isTimeZone, getLocalParts, fromLocalTime } = require('./timeZones');
+
+// Buckets run from midnight in the requested time zone: a day, a week from Monday,
+// or a calendar month
+const GRANULARITIES = ['day', 'week', 'month'];
+
+const aggregateQuerySchema = Joi.object({
+  type: Joi.string().required(),
+  granularity: Joi.string().valid(...GRANULARITIES).default('day'),
+  timeZone: Joi.string().custom(isTimeZone).default('UTC'),
+  unit: Joi.string(),
+  from: Joi.date(),
+  to: Joi.date().min(Joi.ref('from'))
+});
+
+const pad = (number) => String(number).padStart(2, '0');
+
+// Local calendar date of the first day of the bucket a time falls in
+function getBucketDate(time, granularity, timeZone) {
+  const { year, month, day } = getLocalParts(time, timeZone);
+  if (granularity === 'month') {
+    return { year, month, day: 1 };
+  }
+  if (granularity === 'week') {
+    const date = new Date(Date.UTC(year, month, day));
+    const monday = new Date(Date.UTC(year, month, day - (date.getUTCDay() + 6) % 7));
+    return { year: monday.getUTCFullYear(), month: monday.getUTCMonth(), day: monday.getUTCDate() };
+  }
+  return { year, month, day };
+}
+
+function getNextBucketDate({ year, month, day }, granularity) {
+  const next = granularity === 'month'
+    ? new Date(Date.UTC(year, month + 1, 1))
+    : new Date(Date.UTC(year, month, day + (granularity === 'week' ? 7 : 1)));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth(), day: next.getUTCDate() };
+}
+
+// The number, pair of numbers or text of a record, with numbers in `unit`; null when it has none
+function getReadingValue(record, definition, unit) {
+  if (definition.valueKind === 'number') {
+    return getNumberInUnit(record, unit);
+  }
+  if (definition.valueKind === 'pair') {
+    const value = record.value || {};
+    const parts = definition.parts.map(part => part.key);
+    return parts.every(part => typeof value[part] === 'number')
+      ? Object.fromEntries(parts.map(part => [part, value[part]]))
+      : null;
+  }
+  return record.value === undefined || record.value === null ? null : record.value;
+}
+
+// Combines the values of a bucket, oldest first, by the metric's aggregation
+function combine(values, definition, unit) {
+  const aggregation = definition.aggregation || 'average';
+  if (aggregation === 'last' || definition.valueKind === 'enum' || definition.valueKind === 'text') {
+    return values[values.length - 1];
+  }
+
+  const round = (value) => roundForUnit(definition.key, value, unit);
+  const reduce = (numbers) => {
+    const total = numbers.reduce((sum, number) => sum + number, 0);
+    return round(aggregation === 'sum' ? total : total / numbers.length);
+  };
+
+  if (definition.valueKind === 'pair') {
+    return Object.fromEntries(definition.parts.map(part => [part.key, reduce(values.map(value => value[part.key]))]));
+  }
+  return reduce(values);
+}
+
+// Readings of one metric combined into day, week or month buckets in `timeZone`, oldest first.
+// Only buckets with readings are returned, and readings marked erroneous are left out.
+function aggregateReadings(records, definition, { granularity = 'day', timeZone = 'UTC', unit = definition.unit } = {}) {
+  const buckets = new Map();
+  sortByMeasurementTime(records.filter(record => !isErroneous(record))).forEach(record => {
+    const value = getReadingValue(record, definition, unit);
+    if (value === null) return;
+
+    const date = getBucketDate(record.timestamp, granularity, timeZone);
+    const period = `${date.year}-${pad(date.month + 1)}-${pad(date.day)}`;
+    if (!buckets.has(period)) {
+      buckets.set(period, { period, date, values: [] });
+    }
+    buckets.get(period).values.push(value);
+  });
+
+  return [...buckets.values()].map(({ period, date, values }) => ({
+    period,
+    start: fromLocalTime(date, '00:00', timeZone),
+    end: fromLocalTime(getNextBucketDate(date, granularity), '00:00', timeZone),
+    value: combine(values, definition, unit),
+    count: values.length
+  }));
+}
+
+function createAggregateRouter(storage) {
+  const router = express.Router();
+
+  // Readings of one metric in day, week or month buckets, in the user's display unit
+  // unless another is asked for
+  router.get('/', async (req, res) => {
+    const { error, value } = aggregateQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const definition = findMetricDefinition(definitions, value.type);
+      if (!definition) {
+        return res.status(400).json({ error: `"type" must be one of [${definitions.map(d => d.key).join(', ')}]` });
+      }
+
+      const requestedUnit = value.unit || getDisplayUnit(definition.key, req.user.preferences.displayUnits) || undefined;
+      const resolved = resolveMetricUnit(definition, requestedUnit);
+      if (resolved.error) {
+        return res.status(400).json({ error: resolved.error });
+      }
+
+      const records = (await storage.listMetrics(req.user.id)).filter(record => {
+        const time = new Date(record.timestamp);
+        return record.type === definition.key &&
+          (!value.from || time >= value.from) &&
+          (!value.to || time <= value.to);
+      });
+
+      res.json({
+        type: definition.key,
+        granularity: value.granularity,
+        timeZone: value.timeZone,
+        aggregation: definition.aggregation,
+        unit: resolved.unit,
+        buckets: aggregateReadings(records, definition, { ...value, unit: resolved.unit })
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  GRANULARITIES,
+  aggregateReadings,
+  createAggregateRouter
+};
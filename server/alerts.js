@@ -0,0 +1,297 @@
+const express = require('express');
+const Joi = require('joi');
+const { v4: uuidv4 } = require('uuid');
+const { parseBloodPressure } = require('./bloodPressure');
+const { getNumberInUnit, resolveMetricUnit } = require('./units');
+const { getMetricDefinitions, findMetricDefinition } = require('./metricDefinitions');
+const { isErroneous, groupByType } = require('./insights');
+
+// Rules a user watches their readings with:
+// threshold - `count` readings beyond `value` within the last `windowHours`,
+//             e.g. heart_rate > 120 twice in a day
+// missing   - no reading of `type` for `hours`, e.g. no blood_sugar logged in 48h
+const RULE_KINDS = ['threshold', 'missing'];
+
+const OPERATORS = {
+  '>': { test: (a, b) => a > b, text: 'above' },
+  '>=': { test: (a, b) => a >= b, text: 'at or above' },
+  '<': { test: (a, b) => a < b, text: 'below' },
+  '<=': { test: (a, b) => a <= b, text: 'at or below' }
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ALERT_RULES = 50;
+const DEFAULT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+const thresholdOnly = (schema) => Joi.when('kind', { is: 'threshold', then: schema, otherwise: Joi.forbidden() });
+
+const alertRuleSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(60),
+  kind: Joi.string().valid(...RULE_KINDS).required(),
+  type: Joi.string().required(),
+  // Which number of a pair to watch, e.g. "systolic"
+  part: thresholdOnly(Joi.string()),
+  operator: thresholdOnly(Joi.string().valid(...Object.keys(OPERATORS)).required()),
+  value: thresholdOnly(Joi.number().required()),
+  unit: thresholdOnly(Joi.string()),
+  count: thresholdOnly(Joi.number().integer().min(1).max(50).default(1)),
+  windowHours: thresholdOnly(Joi.number().integer().min(1).max(720).default(24)),
+  hours: Joi.when('kind', {
+    is: 'missing',
+    then: Joi.number().integer().min(1).max(720).required(),
+    otherwise: Joi.forbidden()
+  })
+});
+
+// Checks a validated rule against the metric it watches and fills in its unit.
+// Returns the rule to store, or an error message.
+function resolveAlertRule(rule, definitions) {
+  const definition = findMetricDefinition(definitions, rule.type);
+  if (!definition) {
+    return { error: `"type" must be one of [${definitions.map(d => d.key).join(', ')}]` };
+  }
+  if (rule.kind === 'missing') {
+    return { rule };
+  }
+
+  if (definition.valueKind === 'pair') {
+    const parts = definition.parts.map(part => part.key);
+    if (!parts.includes(rule.part)) {
+      return { error: `"part" must be one of [${parts.join(', ')}]` };
+    }
+    return { rule: { ...rule, unit: definition.unit } };
+  }
+  if (definition.valueKind !== 'number') {
+    return { error: `Threshold rules need a metric with numbers; ${definition.label} has none` };
+  }
+  if (rule.part !== undefined) {
+    return { error: '"part" is only allowed for metrics with two numbers' };
+  }
+
+  const { unit, error } = resolveMetricUnit(definition, rule.unit);
+  return error ? { error } : { rule: { ...rule, unit } };
+}
+
+// The number a threshold rule compares, in the rule's unit; null when the record has none
+function getWatchedValue(rule, record) {
+  if (rule.part) {
+    const value = record.type === 'blood_pressure' ? parseBloodPressure(record.value) : record.value;
+    return value && typeof value[rule.part] === 'number' ? value[rule.part] : null;
+  }
+  return getNumberInUnit(record, rule.unit);
+}
+
+function describeAlertRule(rule, definitions) {
+  const definition = findMetricDefinition(definitions, rule.type);
+  const label = definition ? definition.label : rule.type.replace(/_/g, ' ');
+
+  if (rule.kind === 'missing') {
+    return `No ${label.toLowerCase()} logged in ${rule.hours} hours`;
+  }
+
+  const part = rule.part && definition && definition.parts
+    ? ` ${definition.parts.find(p => p.key === rule.part).label.toLowerCase()}`
+    : '';
+  const times = rule.count === 1 ? '' : ` ${rule.count} times`;
+  return `${label}${part} ${OPERATORS[rule.operator].text} ${rule.value} ${rule.unit}`.trim() +
+    `${times} within ${rule.windowHours} hours`;
+}
+
+// Readings that breach a threshold rule within its window, or null when there are too few
+function findThresholdBreach(rule, records, now) {
+  const windowStart = now.getTime() - rule.windowHours * HOUR_MS;
+  const breaches = records.filter(record => {
+    const time = new Date(record.timestamp).getTime();
+    if (time < windowStart || time > now.getTime()) return false;
+    const value = getWatchedValue(rule, record);
+    return value !== null && OPERATORS[rule.operator].test(value, rule.value);
+  });
+  return breaches.length >= rule.count ? breaches : null;
+}
+
+// The latest reading when it is older than the rule allows; a rule for a metric that was
+// never logged counts from when the rule was created
+function findMissingReading(rule, records, now) {
+  const latest = records[records.length - 1];
+  const since = new Date(latest ? latest.timestamp : rule.createdAt).getTime();
+  if (now.getTime() - since < rule.hours * HOUR_MS) return null;
+  return latest ? [latest] : [];
+}
+
+// Alerts the rules raise for the given records. An alert is not raised again for the same
+// episode: a rule whose earlier alert shares a reading with this one (or, for a metric never
+// logged, any earlier alert) stays quiet until a new episode begins. Readings marked
+// erroneous neither breach a threshold nor count as the latest reading.
+function evaluateAlertRules(rules, records, existingAlerts, { definitions, now = new Date() } = {}) {
+  const typeGroups = groupByType(records.filter(record => !isErroneous(record)));
+
+  return rules.flatMap(rule => {
+    const typeRecords = Object.hasOwn(typeGroups, rule.type) ? typeGroups[rule.type] : [];
+    const triggering = rule.kind === 'missing'
+      ? findMissingReading(rule, typeRecords, now)
+      : findThresholdBreach(rule, typeRecords, now);
+    if (!triggering) return [];
+
+    const recordIds = triggering.map(record => record.id);
+    const repeated = existingAlerts.some(alert => alert.ruleId === rule.id && (
+      recordIds.length === 0
+        ? alert.recordIds.length === 0
+        : alert.recordIds.some(id => recordIds.includes(id))
+    ));
+    if (repeated) return [];
+
+    return [{
+      id: uuidv4(),
+      ruleId: rule.id,
+      message: rule.name ? `${rule.name}: ${describeAlertRule(rule, definitions)}` : describeAlertRule(rule, definitions),
+      recordIds,
+      triggeredAt: now,
+      acknowledgedAt: null
+    }];
+  });
+}
+
+// Evaluates the user's rules against their records and stores any new alerts
+async function checkAlerts(storage, userId, now = new Date()) {
+  const rules = await storage.listAlertRules(userId);
+  if (rules.length === 0) return [];
+
+  const alerts = evaluateAlertRules(
+    rules,
+    await storage.listMetrics(userId),
+    await storage.listAlerts(userId),
+    { definitions: await getMetricDefinitions(storage, userId), now }
+  );
+  if (alerts.length > 0) {
+    await storage.addAlerts(userId, alerts);
+  }
+  return alerts;
+}
+
+// Missing-reading rules only trigger with the passing of time, so every user's rules are
+// also checked on an interval. The timer does not keep the process alive.
+function startAlertScheduler(storage, intervalMs = DEFAULT_CHECK_INTERVAL_MS) {
+  const timer = setInterval(async () => {
+    try {
+      const users = await storage.listUsers();
+      for (const user of users) {
+        await checkAlerts(storage, user.id);
+      }
+    } catch (error) {
+      console.error('Scheduled alert check failed:', error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+function createAlertRouter(storage) {
+  const router = express.Router();
+
+  // Triggered alerts, newest first
+  router.get('/', async (req, res) => {
+    try {
+      const alerts = [...await storage.listAlerts(req.user.id)]
+        .sort((a, b) => new Date(b.triggeredAt) - new Date(a.triggeredAt));
+      res.json({
+        alerts,
+        unacknowledged: alerts.filter(alert => !alert.acknowledgedAt).length
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/:id/acknowledge', async (req, res) => {
+    try {
+      const existing = (await storage.listAlerts(req.user.id)).find(alert => alert.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+
+      const alert = existing.acknowledgedAt
+        ? existing
+        : await storage.updateAlert(req.user.id, existing.id, { acknowledgedAt: new Date() });
+      res.json({
+        message: 'Alert acknowledged',
+        alert
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/rules', async (req, res) => {
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const rules = await storage.listAlertRules(req.user.id);
+      res.json({
+        rules: rules.map(rule => ({ ...rule, description: describeAlertRule(rule, definitions) }))
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Add a rule; it is checked straight away against the readings already logged
+  router.post('/rules', async (req, res) => {
+    const { error, value } = alertRuleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const resolved = resolveAlertRule(value, definitions);
+      if (resolved.error) {
+        return res.status(400).json({ error: resolved.error });
+      }
+      if ((await storage.listAlertRules(req.user.id)).length >= MAX_ALERT_RULES) {
+        return res.status(400).json({ error: `You can have up to ${MAX_ALERT_RULES} alert rules` });
+      }
+
+      const rule = { id: uuidv4(), ...resolved.rule, createdAt: new Date() };
+      await storage.addAlertRule(req.user.id, rule);
+      const alerts = await checkAlerts(storage, req.user.id);
+
+      res.status(201).json({
+        message: 'Alert rule created successfully',
+        rule: { ...rule, description: describeAlertRule(rule, definitions) },
+        alerts
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Alerts the rule already raised are kept
+  router.delete('/rules/:id', async (req, res) => {
+    try {
+      const removed = await storage.deleteAlertRule(req.user.id, req.params.id);
+      if (!removed) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+
+      res.json({
+        message: 'Alert rule deleted successfully',
+        rule: removed
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  evaluateAlertRules,
+  checkAlerts,
+  startAlertScheduler,
+  createAlertRouter
+};
@@ -0,0 +1,140 @@
+const { median, quantile } = require('./statistics');
+const { getUnitOptions, getCanonicalUnit, convertValue, roundForUnit } = require('./units');
+const { findMetricDefinition } = require('./metricDefinitions');
+const { isErroneous } = require('./insights');
+
+// Readings outside these limits cannot be right for an adult, whatever their history.
+// Limits are in the canonical unit and keyed like trend series, one per number of a pair.
+const PLAUSIBILITY_LIMITS = {
+  weight: { min: 25, max: 300 },
+  height: { min: 50, max: 250 },
+  blood_pressure_systolic: { min: 70, max: 250 },
+  blood_pressure_diastolic: { min: 40, max: 150 },
+  heart_rate: { min: 25, max: 220 },
+  blood_sugar: { min: 20, max: 600 },
+  temperature: { min: 34, max: 43 },
+  sleep_hours: { min: 0, max: 16 },
+  steps: { min: 0, max: 80000 },
+  water_intake: { min: 0, max: 10 },
+  exercise_minutes: { min: 0, max: 600 }
+};
+
+// Readings of the same metric needed before a new one is judged against them
+const MIN_HISTORY = 5;
+
+// A modified z-score (0.6745 × distance from the median ÷ median absolute deviation)
+// beyond this is an outlier by the usual rule of thumb
+const ROBUST_Z_LIMIT = 3.5;
+
+// Readings beyond this many interquartile ranges outside the quartiles are extreme outliers
+const IQR_FENCE = 3;
+
+// Numbers of a reading by series key and label: the value of a number metric, or each
+// number of a pair. Pulse is not part of a blood pressure reading's pressure.
+function getSeriesNumbers(record, definition) {
+  if (definition.valueKind === 'number') {
+    return typeof record.value === 'number' ? [{ key: definition.key, label: definition.label, value: record.value }] : [];
+  }
+  if (definition.valueKind === 'pair') {
+    const value = record.value || {};
+    return definition.parts
+      .filter(part => typeof value[part.key] === 'number')
+      .map(part => ({ key: `${definition.key}_${part.key}`, label: `${definition.label} (${part.label.toLowerCase()})`, value: value[part.key] }));
+  }
+  return [];
+}
+
+// A stored number as the user entered it, so "700 lb" is not reported as "317.5 kg"
+function formatNumber(reading, number) {
+  if (getUnitOptions(reading.type).length > 0 && reading.enteredUnit) {
+    const converted = convertValue(reading.type, number, getCanonicalUnit(reading.type), reading.enteredUnit);
+    return `${roundForUnit(reading.type, converted, reading.enteredUnit)} ${reading.enteredUnit}`;
+  }
+  return `${Number(number.toFixed(2))}${reading.unit ? ` ${reading.unit}` : ''}`;
+}
+
+// Median, spread and quartiles of the earlier values of one series, to judge a new value
+// against; null when there are too few of them
+function getBaseline(values) {
+  if (values.length < MIN_HISTORY) return null;
+  const middle = median(values);
+  return {
+    middle,
+    deviation: median(values.map(number => Math.abs(number - middle))),
+    lower: quantile(values, 0.25),
+    upper: quantile(values, 0.75)
+  };
+}
+
+// Values of one series in readings of its metric that are not marked erroneous
+const getHistoryValues = (records, definition, key) => records
+  .filter(record => record.type === definition.key && !isErroneous(record))
+  .flatMap(record => getSeriesNumbers(record, definition))
+  .filter(number => number.key === key)
+  .map(number => number.value);
+
+// Judges each number of a reading, with `baselineFor` giving the baseline of a series key
+function judgeReading(reading, definition, baselineFor) {
+  const reasons = [];
+  let robustZScore = null;
+
+  getSeriesNumbers(reading, definition).forEach(({ key, label, value }) => {
+    const limits = Object.hasOwn(PLAUSIBILITY_LIMITS, key) ? PLAUSIBILITY_LIMITS[key] : null;
+    if (limits && (value < limits.min || value > limits.max)) {
+      reasons.push(`${label} of ${formatNumber(reading, value)} is outside the plausible range of ${formatNumber(reading, limits.min)} to ${formatNumber(reading, limits.max)}`);
+      return;
+    }
+
+    const baseline = baselineFor(key);
+    if (!baseline) return;
+
+    const { middle, deviation, lower, upper } = baseline;
+    const z = deviation === 0 ? null : 0.6745 * (value - middle) / deviation;
+    const spread = upper - lower;
+    const beyondFences = spread > 0 && (value < lower - IQR_FENCE * spread || value > upper + IQR_FENCE * spread);
+
+    if (z !== null && (robustZScore === null || Math.abs(z) > Math.abs(robustZScore))) {
+      robustZScore = Number(z.toFixed(1));
+    }
+    if ((z !== null && Math.abs(z) > ROBUST_Z_LIMIT) || beyondFences) {
+      reasons.push(`${label} of ${formatNumber(reading, value)} is far from your usual ${formatNumber(reading, middle)}`);
+    }
+  });
+
+  return reasons.length > 0 ? { reasons, robustZScore } : null;
+}
+
+// Why a new reading looks wrong, judged against physiological limits and the user's own
+// history of the metric (the robust z-score and interquartile fences, which one earlier
+// outlier cannot skew). History excludes the reading itself and readings marked erroneous.
+// Returns null for a reading that looks fine.
+function detectAnomaly(reading, history, definition) {
+  if (!definition) return null;
+
+  const earlier = history.filter(record => record.id !== reading.id);
+  return judgeReading(reading, definition, key => getBaseline(getHistoryValues(earlier, definition, key)));
+}
+
+// Judges the readings of an import like detectAnomaly, each against the history stored
+// before the import rather than against one another. Baselines are computed once per
+// series, so large imports are not judged in quadratic time.
+function createAnomalyDetector(history, definitions) {
+  const baselines = new Map();
+  return (reading) => {
+    const definition = findMetricDefinition(definitions, reading.type);
+    if (!definition) return null;
+
+    return judgeReading(reading, definition, key => {
+      if (!baselines.has(key)) {
+        baselines.set(key, getBaseline(getHistoryValues(history, definition, key)));
+      }
+      return baselines.get(key);
+    });
+  };
+}
+
+module.exports = {
+  PLAUSIBILITY_LIMITS,
+  detectAnomaly,
+  createAnomalyDetector
+};
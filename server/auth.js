@@ -0,0 +1,187 @@
+const express = require('express');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
+const Joi = require('joi');
+const { v4: uuidv4 } = require('uuid');
+const { UNIT_DEFINITIONS } = require('./units');
+const { classifyReading } = require('./referenceRanges');
+
+const DEV_JWT_SECRET = 'health-chatbot-dev-secret';
+const DEFAULT_TOKEN_EXPIRES_IN = '7d';
+const PASSWORD_SALT_ROUNDS = 10;
+
+const registerSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  email: Joi.string().trim().lowercase().email().required(),
+  password: Joi.string().min(8).max(128).required()
+});
+
+const loginSchema = Joi.object({
+  email: Joi.string().trim().lowercase().email().required(),
+  password: Joi.string().required()
+});
+
+// Display units may only be set for metric types that have them, to one of their units
+const preferencesSchema = Joi.object({
+  displayUnits: Joi.object(Object.fromEntries(
+    Object.entries(UNIT_DEFINITIONS).map(([type, definition]) => [
+      type,
+      Joi.string().valid(...Object.keys(definition.units))
+    ])
+  )).default({}),
+  // Used for age-aware reference ranges
+  profile: Joi.object({
+    birthYear: Joi.number().integer().min(1900).max(new Date().getFullYear())
+  }).optional()
+});
+
+const DEFAULT_PREFERENCES = { displayUnits: {} };
+
+function getJwtSecret() {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  return DEV_JWT_SECRET;
+}
+
+function signToken(user) {
+  return jwt.sign({ sub: user.id }, getJwtSecret(), { expiresIn: process.env.JWT_EXPIRES_IN || DEFAULT_TOKEN_EXPIRES_IN });
+}
+
+// Never send password hashes to the client
+function toPublicUser(user) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    preferences: user.preferences || DEFAULT_PREFERENCES,
+    createdAt: user.createdAt
+  };
+}
+
+// Resolves the user from the bearer token and exposes it as req.user
+function createAuthMiddleware(storage) {
+  return async (req, res, next) => {
+    const header = req.headers.authorization || '';
+    const [scheme, token] = header.split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      const payload = jwt.verify(token, getJwtSecret());
+      const user = await storage.getUser(payload.sub);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid or expired token' });
+      }
+
+      req.user = toPublicUser(user);
+      next();
+    } catch (error) {
+      if (error instanceof jwt.JsonWebTokenError) {
+        return res.status(401).json({ error: 'Invalid or expired token' });
+      }
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+function createAuthRouter(storage, requireAuth) {
+  const router = express.Router();
+
+  router.post('/register', async (req, res) => {
+    try {
+      const { error, value } = registerSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ error: error.details[0].message });
+      }
+
+      if (await storage.findUserByEmail(value.email)) {
+        return res.status(409).json({ error: 'An account with this email already exists' });
+      }
+
+      const user = {
+        id: uuidv4(),
+        name: value.name,
+        email: value.email,
+        passwordHash: await bcrypt.hash(value.password, PASSWORD_SALT_ROUNDS),
+        createdAt: new Date()
+      };
+
+      await storage.createUser(user);
+
+      res.status(201).json({
+        token: signToken(user),
+        user: toPublicUser(user)
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/login', async (req, res) => {
+    try {
+      const { error, value } = loginSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ error: error.details[0].message });
+      }
+
+      const user = await storage.findUserByEmail(value.email);
+      const passwordMatches = user && await bcrypt.compare(value.password, user.passwordHash);
+
+      if (!passwordMatches) {
+        return res.status(401).json({ error: 'Invalid email or password' });
+      }
+
+      res.json({
+        token: signToken(user),
+        user: toPublicUser(user)
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/me', requireAuth, (req, res) => {
+    res.json({ user: req.user });
+  });
+
+  router.put('/me/preferences', requireAuth, async (req, res) => {
+    try {
+      const { error, value } = preferencesSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ error: error.details[0].message });
+      }
+
+      const user = await storage.updateUser(req.user.id, { preferences: value });
+
+      // Stored classifications depend on the profile, so readings are reclassified when it changes
+      if (JSON.stringify(value.profile || {}) !== JSON.stringify(req.user.preferences.profile || {})) {
+        const records = await storage.listMetrics(req.user.id);
+        await storage.updateMetrics(req.user.id, records.map(record => ({
+          ...record,
+          classification: classifyReading(record, value.profile)
+        })));
+      }
+
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  createAuthMiddleware,
+  createAuthRouter
+};
@@ -0,0 +1,43 @@
+const Joi = require('joi');
+
+// Blood pressure readings are stored as { systolic, diastolic, pulse? } in mmHg (pulse in bpm)
+const bloodPressureSchema = Joi.object({
+  systolic: Joi.number().integer().min(50).max(300).required(),
+  diastolic: Joi.number().integer().min(20).max(200).less(Joi.ref('systolic')).required().messages({
+    'number.less': '{{#label}} must be lower than systolic'
+  }),
+  pulse: Joi.number().integer().min(20).max(250).optional()
+});
+
+const LEGACY_FORMAT = /^\s*(\d{2,3})\s*\/\s*(\d{2,3})(?:\s*\/\s*(\d{2,3}))?\s*$/;
+
+// Accepts a structured reading or a legacy "120/80" (or "120/80/72") string.
+// Returns null when the value cannot be understood as a blood pressure reading.
+function parseBloodPressure(value) {
+  let candidate = value;
+
+  if (typeof value === 'string') {
+    const match = value.match(LEGACY_FORMAT);
+    if (!match) return null;
+
+    candidate = { systolic: Number(match[1]), diastolic: Number(match[2]) };
+    if (match[3]) candidate.pulse = Number(match[3]);
+  }
+
+  const { error, value: reading } = bloodPressureSchema.validate(candidate);
+  return error ? null : reading;
+}
+
+function formatBloodPressure(value) {
+  const reading = parseBloodPressure(value);
+  if (!reading) return String(value);
+
+  const pressure = `${reading.systolic}/${reading.diastolic} mmHg`;
+  return reading.pulse ? `${pressure}, pulse ${reading.pulse} bpm` : pressure;
+}
+
+module.exports = {
+  bloodPressureSchema,
+  parseBloodPressure,
+  formatBloodPressure
+};
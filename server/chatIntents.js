@@ -0,0 +1,241 @@
+const { BUILT_IN_METRIC_DEFINITIONS } = require('./metricDefinitions');
+const { getMetricAliases, parseMetricLog } = require('./chatLogging');
+const { parsePeriod } = require('./chatPeriods');
+
+// Intents below this confidence are not trusted and the message is answered as not understood
+const MIN_CONFIDENCE = 0.5;
+
+// How much a misspelt word ("wieght", "presure") counts for next to the word spelt right
+const FUZZY_CONFIDENCE = 0.8;
+
+// Lower-case words and numbers of a message; "what's" gives "what" and "s", "72.4" stays whole
+function tokenize(message) {
+  return message.toLowerCase().match(/[a-z]+|\d+(?:\.\d+)?/g) || [];
+}
+
+// Edits (insertions, deletions, substitutions and swaps of neighbouring letters) between two words
+function editDistance(a, b) {
+  const distances = Array.from({ length: a.length + 1 }, (row, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j += 1) distances[0][j] = j;
+
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+}
+
+// How well a token matches a word: 1 spelt right or as its plural or singular ("step" for "steps"),
+// FUZZY_CONFIDENCE for a typo, and 0 otherwise. Short words must be exact ("his" is not "hi"),
+// longer ones may be one edit away (two from eight letters), and the first letter must agree so
+// "later" is not "water".
+function matchWord(token, word) {
+  if (token === word) return 1;
+  if (Math.min(token.length, word.length) >= 4 && (token === `${word}s` || `${token}s` === word)) return 1;
+  if (word.length < 5 || token[0] !== word[0]) return 0;
+  return editDistance(token, word) <= (word.length >= 8 ? 2 : 1) ? FUZZY_CONFIDENCE : 0;
+}
+
+// The metric a message mentions by label, key or everyday name ("bp", "slept"), allowing typos.
+// The best-spelt mention wins, then the one of more words, so "blood sugar" is not just "sugar".
+const metricEntity = {
+  name: 'metric',
+  extract(message, tokens, { definitions = BUILT_IN_METRIC_DEFINITIONS }) {
+    let best = null;
+    definitions.forEach(definition => {
+      const names = [definition.label, definition.key.replace(/_/g, ' '), ...getMetricAliases(definition.key)];
+      names.map(tokenize).forEach(words => {
+        // A label of no letters or digits, such as an emoji, has no words to match
+        if (!words.length) return;
+        tokens.forEach((token, start) => {
+          const scores = words.map((word, i) => (start + i < tokens.length ? matchWord(tokens[start + i], word) : 0));
+          const confidence = Math.min(1, ...scores);
+          if (confidence > 0 && (!best || confidence > best.confidence || (confidence === best.confidence && words.length > best.words))) {
+            best = { value: definition.key, confidence, words: words.length };
+          }
+        });
+      });
+    });
+    return best && { value: best.value, confidence: best.confidence };
+  }
+};
+
+// A reading reported in the message, such as "weight 72.4 kg this morning"; see chatLogging.js
+const readingEntity = {
+  name: 'reading',
+  extract(message, tokens, { definitions = BUILT_IN_METRIC_DEFINITIONS, displayUnits, timeZone, now }) {
+    const reading = parseMetricLog(message, definitions, { displayUnits, timeZone, now });
+    return reading && { value: reading, confidence: 1 };
+  }
+};
+
+// The stretch of time a message asks about, such as "last week" or "the past 30 days"; see chatPeriods.js
+const periodEntity = {
+  name: 'period',
+  extract(message, tokens, { timeZone, now }) {
+    const period = parsePeriod(message, { timeZone, now });
+    return period && { value: period, confidence: 1 };
+  }
+};
+
+// Words asking for a statistic of readings, by the statistic they ask for
+const STATISTIC_WORDS = {
+  mean: ['average', 'avg', 'mean'],
+  median: ['median', 'typical'],
+  max: ['highest', 'maximum', 'max', 'peak'],
+  min: ['lowest', 'minimum', 'min']
+};
+
+// The statistic a message asks for ("average", "highest"), allowing typos
+const statisticEntity = {
+  name: 'statistic',
+  extract(message, tokens) {
+    let best = null;
+    Object.entries(STATISTIC_WORDS).forEach(([statistic, words]) => {
+      tokens.forEach(token => words.forEach(word => {
+        const confidence = matchWord(token, word);
+        if (confidence > 0 && (!best || confidence > best.confidence)) {
+          best = { value: statistic, confidence };
+        }
+      }));
+    });
+    return best;
+  }
+};
+
+const BUILT_IN_ENTITIES = [metricEntity, readingEntity, periodEntity, statisticEntity];
+
+// Each intent declares matchers with the confidence a match gives it: a `pattern` tested against
+// the lower-case message, `keywords` matched word by word (typos count for less), or an `entity`
+// found in the message (scaled by how sure the entity is). Intents that `require` entities are
+// only considered when the message has them.
+const BUILT_IN_INTENTS = [
+  {
+    // Without a reading ("log my blood pressure") the chatbot asks for what is missing
+    name: 'log_metric',
+    matchers: [
+      { entity: 'reading', confidence: 0.95 },
+      { pattern: /\b(log|record)\b|^\W*(add|enter|save|track)\b/, confidence: 0.85 }
+    ]
+  },
+  {
+    name: 'greeting',
+    matchers: [
+      { pattern: /^\W*(hello|hi|hey|hiya|good (morning|afternoon|evening))\W*$/, confidence: 0.95 },
+      { keywords: ['hello', 'hi', 'hey', 'hiya', 'greetings'], confidence: 0.6 }
+    ]
+  },
+  {
+    name: 'goal_progress',
+    matchers: [{ keywords: ['goal', 'target'], confidence: 0.95 }]
+  },
+  {
+    name: 'health_summary',
+    matchers: [{ keywords: ['summary', 'overview', 'summarize', 'summarise'], confidence: 0.9 }]
+  },
+  {
+    // "how has my weight changed this month?"
+    name: 'metric_trend',
+    requires: ['metric'],
+    matchers: [{ keywords: ['changed', 'trend', 'trended', 'trending', 'improved', 'improving', 'worsened'], confidence: 0.95 }]
+  },
+  {
+    // "what was my average heart rate last week?"
+    name: 'metric_statistic',
+    requires: ['metric', 'statistic'],
+    matchers: [{ entity: 'statistic', confidence: 0.95 }]
+  },
+  {
+    // "when did I last log blood sugar?"
+    name: 'last_logged',
+    requires: ['metric'],
+    matchers: [{ pattern: /\bwhen\b.*\b(last|latest|logged|recorded|measured|checked|took)\b/, confidence: 0.95 }]
+  },
+  {
+    name: 'metric_query',
+    requires: ['metric'],
+    matchers: [
+      { keywords: ['latest', 'last', 'current', 'recent', 'show', 'what'], confidence: 0.9 },
+      { entity: 'metric', confidence: 0.7 }
+    ]
+  },
+  {
+    name: 'help',
+    matchers: [
+      { pattern: /\bwhat can you do\b/, confidence: 0.95 },
+      { keywords: ['help', 'commands'], confidence: 0.6 }
+    ]
+  }
+];
+
+function scoreMatcher(matcher, msg, tokens, found) {
+  if (matcher.pattern) {
+    return matcher.pattern.test(msg) ? matcher.confidence : 0;
+  }
+  if (matcher.keywords) {
+    const best = Math.max(0, ...tokens.flatMap(token => matcher.keywords.map(keyword => matchWord(token, keyword))));
+    return best * matcher.confidence;
+  }
+  if (matcher.entity) {
+    return found[matcher.entity] ? found[matcher.entity].confidence * matcher.confidence : 0;
+  }
+  return 0;
+}
+
+// Classifies chat messages against registered intents and entity extractors. The built-in ones
+// are registered unless others are given; more can be registered later.
+function createIntentRegistry({ intents = BUILT_IN_INTENTS, entities = BUILT_IN_ENTITIES } = {}) {
+  const registeredIntents = [...intents];
+  const registeredEntities = [...entities];
+
+  return {
+    register(intent) {
+      registeredIntents.push(intent);
+    },
+
+    registerEntity(entity) {
+      registeredEntities.push(entity);
+    },
+
+    // The most confident intent for a message with the entities found in it, as
+    // { intent, confidence, entities }. Ties go to the intent registered first, and a message
+    // no intent is confident enough about is "unknown". The context carries the user's
+    // metric definitions, display units and time zone.
+    classify(message, context = {}) {
+      const msg = message.toLowerCase();
+      const tokens = tokenize(message);
+      const found = {};
+      registeredEntities.forEach(entity => {
+        const match = entity.extract(message, tokens, context);
+        if (match) found[entity.name] = match;
+      });
+
+      let best = { intent: 'unknown', confidence: 0 };
+      registeredIntents
+        .filter(intent => (intent.requires || []).every(name => found[name]))
+        .forEach(intent => {
+          const confidence = Math.max(0, ...intent.matchers.map(matcher => scoreMatcher(matcher, msg, tokens, found)));
+          if (confidence >= MIN_CONFIDENCE && confidence > best.confidence) {
+            best = { intent: intent.name, confidence: Number(confidence.toFixed(2)) };
+          }
+        });
+
+      const entities = Object.fromEntries(Object.entries(found).map(([name, match]) => [name, match.value]));
+      return { ...best, entities };
+    }
+  };
+}
+
+module.exports = {
+  MIN_CONFIDENCE,
+  BUILT_IN_INTENTS,
+  BUILT_IN_ENTITIES,
+  tokenize,
+  matchWord,
+  createIntentRegistry
+};
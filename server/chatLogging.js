@@ -0,0 +1,158 @@
+const { getDisplayUnit, normalizeUnit } = require('./units');
+const { getLocalParts, fromLocalTime } = require('./timeZones');
+
+// Words people use for built-in metrics besides their label, including verbs such as "slept 6.5h"
+const METRIC_ALIASES = {
+  weight: ['weigh', 'weighed', 'weighing'],
+  blood_pressure: ['bp'],
+  heart_rate: ['pulse', 'hr', 'resting heart rate'],
+  blood_sugar: ['glucose', 'sugar', 'blood glucose'],
+  temperature: ['temp'],
+  sleep_hours: ['sleep', 'slept'],
+  steps: ['walked'],
+  water_intake: ['water', 'drank'],
+  exercise_minutes: ['exercised', 'worked out', 'workout']
+};
+
+const getMetricAliases = (key) => (Object.hasOwn(METRIC_ALIASES, key) ? METRIC_ALIASES[key] : []);
+
+// Times of day a reading is placed at when the message names part of a day, in the user's time zone
+const PARTS_OF_DAY = {
+  morning: '08:00',
+  afternoon: '14:00',
+  evening: '19:00',
+  night: '22:00'
+};
+
+// Messages that ask about a metric rather than report it, e.g. "what was my weight 2 weeks ago"
+const QUESTION = /\?|^\s*(what|how|when|which|why|show|give|tell|did|do|does|is|was|can|could)\b/;
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+// A word or two after a number that may be its unit: "kg", "6.5h", "mmol/L", "fl oz"
+const UNIT = '([a-z°/]+(?:\\s+oz)?)';
+
+// Words that may sit between a metric and its value: "weight is 72", "bp of 120/80", "sugar: 95"
+const LINK = '(?:\\s*(?:is|was|of|at|:|=))?\\s*';
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names a metric is mentioned by, longest first so "blood sugar" wins over "sugar" where both start
+function getMetricNames(definitions) {
+  return definitions
+    .flatMap(definition => [
+      definition.label.toLowerCase(),
+      definition.key.replace(/_/g, ' '),
+      ...getMetricAliases(definition.key)
+    ].map(name => ({ name, definition })))
+    .sort((a, b) => b.name.length - a.name.length);
+}
+
+// The value and unit given for a metric after its name ("weight 72.4 kg", "slept 6.5h") or before
+// it ("8000 steps", "2 L of water"), and where in the message the reading starts
+function findValue(msg, name, definition) {
+  const alias = `\\b${escapeRegExp(name)}\\b`;
+
+  if (definition.valueKind === 'pair') {
+    // "bp 128/84", "blood pressure 128 over 84", "bp 128/84 pulse 70"
+    const match = msg.match(new RegExp(
+      `${alias}${LINK}${NUMBER}\\s*(?:/|over|and)\\s*${NUMBER}(?:\\s*(?:/|,?\\s*pulse(?:\\s+of)?)\\s*${NUMBER})?`
+    ));
+    if (!match) return null;
+    const [first, second] = definition.parts;
+    const value = { [first.key]: Number(match[1]), [second.key]: Number(match[2]) };
+    if (definition.key === 'blood_pressure' && match[3]) {
+      value.pulse = Number(match[3]);
+    }
+    return { value, index: match.index };
+  }
+
+  if (definition.valueKind === 'enum') {
+    const options = definition.options.map(option => escapeRegExp(option.toLowerCase())).join('|');
+    const match = msg.match(new RegExp(`${alias}${LINK}(${options})\\b`));
+    if (!match) return null;
+    return { value: definition.options.find(option => option.toLowerCase() === match[1]), index: match.index };
+  }
+
+  if (definition.valueKind !== 'number') return null;
+
+  const after = msg.match(new RegExp(`${alias}${LINK}${NUMBER}\\s*${UNIT}?`));
+  if (after) {
+    return { value: Number(after[1]), unit: after[2], index: after.index };
+  }
+  const before = msg.match(new RegExp(`${NUMBER}\\s*(?:${UNIT}\\s+)?(?:of\\s+)?${alias}`));
+  return before ? { value: Number(before[1]), unit: before[2], index: before.index } : null;
+}
+
+// Words after a number that are not one of the metric's units are not read as one, so
+// "slept 7 hours last night" is in hours but "walked 8000 today" falls back to the display unit
+function resolveUnit(definition, unit, displayUnits) {
+  const preferred = getDisplayUnit(definition.key, displayUnits) || definition.unit;
+  if (!unit) return preferred;
+
+  const known = normalizeUnit(definition.key, unit);
+  if (known) return known;
+  return definition.unit && unit === definition.unit.toLowerCase() ? definition.unit : preferred;
+}
+
+// When the reading was taken: "this morning", "last night", "yesterday evening" or "yesterday"
+// (this time yesterday) in the user's time zone, and now otherwise. Never later than now.
+function resolveTimestamp(msg, now, timeZone) {
+  const today = getLocalParts(now, timeZone);
+  const yesterday = getLocalParts(now.getTime() - 24 * 60 * 60 * 1000, timeZone);
+  const pad = (number) => String(number).padStart(2, '0');
+
+  let timestamp = now;
+  const partOfDay = msg.match(/\b(this|yesterday|last)\s+(morning|afternoon|evening|night)\b/);
+  if (partOfDay) {
+    timestamp = fromLocalTime(partOfDay[1] === 'this' ? today : yesterday, PARTS_OF_DAY[partOfDay[2]], timeZone);
+  } else if (/\btonight\b/.test(msg)) {
+    timestamp = fromLocalTime(today, PARTS_OF_DAY.night, timeZone);
+  } else if (/\byesterday\b/.test(msg)) {
+    timestamp = fromLocalTime(yesterday, `${pad(today.hour)}:${pad(today.minute)}`, timeZone);
+  }
+  return new Date(Math.min(timestamp.getTime(), now.getTime()));
+}
+
+// Whether a blood sugar reading was taken fasting, when the message says
+function resolveMealContext(msg) {
+  if (/\bnon[- ]?fasting\b|\bafter (?:a |my )?(?:meal|eating|food|breakfast|lunch|dinner)\b/.test(msg)) {
+    return 'non_fasting';
+  }
+  return /\bfasting\b/.test(msg) ? 'fasting' : undefined;
+}
+
+// A reading the user reports in a chat message, such as "weight 72.4 kg", "bp 128 over 84 this
+// morning" or "slept 6.5h last night", as a metric for the health metric schema. Values without
+// a unit are taken to be in the user's display unit. The reading that starts first is the one
+// logged, so the pulse in "bp 128/84 pulse 70" stays part of the blood pressure. Null when the
+// message does not log a reading.
+function parseMetricLog(message, definitions, { displayUnits = {}, timeZone = 'UTC', now = new Date() } = {}) {
+  const msg = message.toLowerCase();
+  if (QUESTION.test(msg)) return null;
+
+  let first = null;
+  getMetricNames(definitions).forEach(({ name, definition }) => {
+    const found = findValue(msg, name, definition);
+    if (found && (!first || found.index < first.found.index)) {
+      first = { definition, found };
+    }
+  });
+  if (!first) return null;
+
+  const { definition, found } = first;
+  const metric = {
+    type: definition.key,
+    value: found.value,
+    unit: definition.valueKind === 'number' ? resolveUnit(definition, found.unit, displayUnits) : definition.unit,
+    timestamp: resolveTimestamp(msg, now, timeZone)
+  };
+  const mealContext = definition.key === 'blood_sugar' ? resolveMealContext(msg) : undefined;
+  return mealContext ? { ...metric, mealContext } : metric;
+}
+
+module.exports = {
+  METRIC_ALIASES,
+  getMetricAliases,
+  parseMetricLog
+};
@@ -0,0 +1,69 @@
+const { getLocalParts, fromLocalTime } = require('./timeZones');
+
+const pad = (number) => String(number).padStart(2, '0');
+
+// Local calendar date some days or months away, rolling over month and year ends. A day past
+// the end of the month shifted to is kept to its last day: a month before 31 March 2024 is 29 February.
+function shiftDate({ year, month, day }, { days = 0, months = 0 }) {
+  const lastDay = new Date(Date.UTC(year, month + months + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month + months, Math.min(day, lastDay) + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+// First day of the calendar day, week (from Monday), month or year a local date falls in
+function getCalendarStart(date, unit) {
+  if (unit === 'week') {
+    const weekday = (new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay() + 6) % 7;
+    return shiftDate(date, { days: -weekday });
+  }
+  if (unit === 'month') return { year: date.year, month: date.month, day: 1 };
+  if (unit === 'year') return { year: date.year, month: 0, day: 1 };
+  return { year: date.year, month: date.month, day: date.day };
+}
+
+const SHIFTS = {
+  day: (count) => ({ days: -count }),
+  week: (count) => ({ days: -7 * count }),
+  month: (count) => ({ months: -count }),
+  year: (count) => ({ months: -12 * count })
+};
+
+// The stretch of time a chat message asks about, as { label, start, end } with `end` excluded:
+// "today", "yesterday", calendar ones such as "this week" or "last month" in the user's time zone,
+// and rolling ones such as "the past week" or "the last 30 days" up to now. The label reads after
+// a sentence ("... last week", "... in the past 30 days"). Null when the message names none.
+function parsePeriod(message, { timeZone = 'UTC', now = new Date() } = {}) {
+  const msg = message.toLowerCase();
+  const today = getLocalParts(now, timeZone);
+  const startOf = (date) => fromLocalTime(date, '00:00', timeZone);
+
+  const rolling = msg.match(/\b(?:past|last|previous)\s+(\d+)\s+(day|week|month|year)s?\b/) || msg.match(/\bpast\s+()(day|week|month|year)\b/);
+  if (rolling) {
+    const count = Number(rolling[1] || 1);
+    const unit = rolling[2];
+    const start = fromLocalTime(shiftDate(today, SHIFTS[unit](count)), `${pad(today.hour)}:${pad(today.minute)}`, timeZone);
+    return { label: `in the past ${count === 1 ? unit : `${count} ${unit}s`}`, start, end: now };
+  }
+
+  const calendar = msg.match(/\b(this|last|previous)\s+(week|month|year)\b/);
+  if (calendar) {
+    const unit = calendar[2];
+    const current = getCalendarStart(today, unit);
+    if (calendar[1] === 'this') {
+      return { label: `this ${unit}`, start: startOf(current), end: now };
+    }
+    return { label: `last ${unit}`, start: startOf(shiftDate(current, SHIFTS[unit](1))), end: startOf(current) };
+  }
+
+  if (/\btoday\b/.test(msg)) {
+    return { label: 'today', start: startOf(today), end: now };
+  }
+  if (/\byesterday\b/.test(msg)) {
+    return { label: 'yesterday', start: startOf(shiftDate(today, { days: -1 })), end: startOf(today) };
+  }
+  return null;
+}
+
+module.exports = {
+  parsePeriod
+};
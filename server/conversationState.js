@@ -0,0 +1,80 @@
+const { findMetricDefinition } = require('./metricDefinitions');
+
+// How long the chatbot waits for the answer to one of its questions before forgetting it
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+// Replies that drop what the chatbot is waiting for
+const CANCELLATION = /^\W*(cancel|stop|never\s*mind|nevermind|forget it|no)\b/;
+
+const isCancellation = (message) => CANCELLATION.test(message.toLowerCase());
+
+const listExamples = (names) => (names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names.join(''));
+
+// The question that asks for a slot: which metric to log, or the reading of that metric
+function getSlotPrompt(awaiting, metric, definitions) {
+  if (awaiting === 'metric') {
+    return `Which metric would you like to log? For example ${listExamples(definitions.slice(0, 3).map(d => d.label.toLowerCase()))}.`;
+  }
+
+  const definition = findMetricDefinition(definitions, metric);
+  switch (definition.valueKind) {
+    case 'pair': {
+      const [first, second] = definition.parts.map(part => part.label.toLowerCase());
+      return `What was the reading? Give the ${first} and ${second}, such as "120/80".`;
+    }
+    case 'enum':
+      return `What was it? One of ${listExamples(definition.options)}.`;
+    case 'text':
+      return `What would you like to note for your ${definition.label.toLowerCase()}?`;
+    default: {
+      if (definition.placeholder === undefined) return 'What was the reading?';
+      const unit = definition.unit ? ` ${definition.unit}` : '';
+      return `What was the reading? For example "${definition.placeholder}${unit}".`;
+    }
+  }
+}
+
+// State of an exchange waiting for the user to give a slot of an intent:
+// { intent, slots, awaiting, prompt, expiresAt }, with the slots collected so far
+function createPendingState(intent, slots, awaiting, definitions, now = new Date()) {
+  return {
+    intent,
+    slots,
+    awaiting,
+    prompt: getSlotPrompt(awaiting, slots.metric, definitions),
+    expiresAt: new Date(now.getTime() + PENDING_TTL_MS)
+  };
+}
+
+const isExpired = (state, now = new Date()) => new Date(state.expiresAt).getTime() <= now.getTime();
+
+// The slots a reply to a pending log fills. A reply may name the metric ("blood pressure"),
+// give a whole reading ("weight 72 kg") or, once the metric is known, just its value
+// ("128 over 84 this morning"), which is read as if the metric had been named first.
+// Text metrics take the whole reply as their value.
+function fillLogSlots(state, message, { classify, definitions, now = new Date() }) {
+  const { entities } = classify(message);
+  if (entities.reading) {
+    return { metric: entities.reading.type, reading: entities.reading };
+  }
+
+  const metric = state.awaiting === 'metric' && entities.metric ? entities.metric : state.slots.metric;
+  if (state.awaiting !== 'reading' || !metric) {
+    return { metric, reading: null };
+  }
+
+  const definition = findMetricDefinition(definitions, metric);
+  if (definition.valueKind === 'text') {
+    return { metric, reading: { type: metric, value: message.trim(), unit: definition.unit, timestamp: now } };
+  }
+  const answer = classify(`${metric.replace(/_/g, ' ')} ${message}`);
+  return { metric, reading: answer.entities.reading || null };
+}
+
+module.exports = {
+  PENDING_TTL_MS,
+  isCancellation,
+  createPendingState,
+  isExpired,
+  fillLogSlots
+};
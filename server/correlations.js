@@ -0,0 +1,204 @@
+const express = require('express');
+const Joi = require('joi');
+const { aggregateReadings } = require('./aggregates');
+const { getMetricDefinitions } = require('./metricDefinitions');
+const { getDisplayUnit } = require('./units');
+const { linearRegression, isSignificantCorrelation } = require('./statistics');
+const { isTimeZone } = require('./timeZones');
+const { isErroneous } = require('./insights');
+
+// Metrics are compared on the same day and with one leading the other by up to this many days,
+// e.g. a night's sleep against the next day's resting heart rate
+const MAX_LAG = 2;
+
+// Days both metrics must have been logged on before their correlation is worth reporting
+const MIN_SAMPLES = 10;
+
+// Weaker correlations than this are not worth a recommendation even when significant
+const NOTABLE_R = 0.3;
+
+const correlationQuerySchema = Joi.object({
+  timeZone: Joi.string().custom(isTimeZone).default('UTC')
+});
+
+const scatterQuerySchema = Joi.object({
+  x: Joi.string().required(),
+  y: Joi.string().required(),
+  lag: Joi.number().integer().min(0).max(MAX_LAG).default(0),
+  timeZone: Joi.string().custom(isTimeZone).default('UTC')
+});
+
+// The local date `days` after a "YYYY-MM-DD" date
+function addDays(period, days) {
+  const [year, month, day] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// One value a day for every number the user logs, combined the way each metric works
+// (daily step totals, average heart rate, latest weight) and in the user's display units.
+// Pairs give a series per number, keyed like trends, e.g. "blood_pressure_systolic".
+// Readings marked erroneous are left out.
+function getDailySeries(records, definitions, { timeZone = 'UTC', displayUnits = {} } = {}) {
+  const series = [];
+  definitions
+    .filter(definition => definition.valueKind === 'number' || definition.valueKind === 'pair')
+    .forEach(definition => {
+      const readings = records.filter(record => record.type === definition.key && !isErroneous(record));
+      if (readings.length === 0) return;
+
+      const unit = getDisplayUnit(definition.key, displayUnits) || definition.unit;
+      const buckets = aggregateReadings(readings, definition, { granularity: 'day', timeZone, unit });
+      const parts = definition.valueKind === 'pair'
+        ? definition.parts.map(part => ({
+          key: `${definition.key}_${part.key}`,
+          label: `${definition.label} (${part.label.toLowerCase()})`,
+          valueOf: (value) => value[part.key]
+        }))
+        : [{ key: definition.key, label: definition.label, valueOf: (value) => value }];
+
+      parts.forEach(({ key, label, valueOf }) => {
+        series.push({
+          key,
+          type: definition.key,
+          label,
+          unit,
+          days: new Map(buckets.map(bucket => [bucket.period, valueOf(bucket.value)]))
+        });
+      });
+    });
+  return series;
+}
+
+// Days on which `first` was logged paired with `second` `lag` days later
+function pairDays(first, second, lag) {
+  return [...first.days]
+    .map(([date, x]) => ({ date, x, y: second.days.get(addDays(date, lag)) }))
+    .filter(point => typeof point.x === 'number' && typeof point.y === 'number');
+}
+
+// Pearson's r of the paired days, or null with fewer than MIN_SAMPLES of them
+function correlate(points) {
+  if (points.length < MIN_SAMPLES) {
+    return { r: null, sampleSize: points.length, significant: false };
+  }
+  const { r } = linearRegression(points);
+  return { r: Number(r.toFixed(2)), sampleSize: points.length, significant: isSignificantCorrelation(r, points.length) };
+}
+
+// Correlations between every two series of different metrics with enough days in common,
+// strongest first. A lag of 1 compares `first` on a day with `second` the day after.
+function findCorrelations(series) {
+  const correlations = [];
+  series.forEach((first, i) => {
+    series.slice(i + 1)
+      .filter(second => second.type !== first.type)
+      .forEach(second => {
+        const orders = [[first, second, 0]];
+        for (let lag = 1; lag <= MAX_LAG; lag += 1) {
+          orders.push([first, second, lag], [second, first, lag]);
+        }
+        orders.forEach(([leading, following, lag]) => {
+          const result = correlate(pairDays(leading, following, lag));
+          if (result.r !== null) {
+            correlations.push({ first: leading.key, second: following.key, lag, ...result });
+          }
+        });
+      });
+  });
+  return correlations.sort((a, b) => Math.abs(b.r) - Math.abs(a.r));
+}
+
+// Recommendations for the strongest significant correlations, at most `limit` of them,
+// followed by a reminder that they do not show cause and effect
+function getCorrelationRecommendations(correlations, series, limit = 3) {
+  const labels = Object.fromEntries(series.map(({ key, label }) => [key, label.toLowerCase()]));
+  const recommendations = correlations
+    .filter(correlation => correlation.significant && Math.abs(correlation.r) >= NOTABLE_R)
+    .slice(0, limit)
+    .map(({ first, second, lag, r, sampleSize }) => {
+      const when = lag === 0 ? 'on days' : lag === 1 ? 'the day after days' : `${lag} days after days`;
+      return `Your ${labels[second]} tends to be ${r > 0 ? 'higher' : 'lower'} ${when} your ${labels[first]} is higher (r = ${r} over ${sampleSize} days).`;
+    });
+
+  return recommendations.length > 0
+    ? [...recommendations, 'Metrics that move together are worth a closer look, but a correlation does not show that one causes the other.']
+    : [];
+}
+
+const describeSeries = ({ key, label, unit }) => ({ key, label, unit });
+
+function createCorrelationRouter(storage) {
+  const router = express.Router();
+
+  // Every pair of metrics logged on enough of the same days, with each number's day-by-day series
+  router.get('/', async (req, res) => {
+    const { error, value } = correlationQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const series = getDailySeries(await storage.listMetrics(req.user.id), definitions, {
+        timeZone: value.timeZone,
+        displayUnits: req.user.preferences.displayUnits
+      });
+
+      res.json({
+        timeZone: value.timeZone,
+        minSamples: MIN_SAMPLES,
+        maxLag: MAX_LAG,
+        series: series.map(describeSeries),
+        correlations: findCorrelations(series)
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // The paired days of two series for a scatter plot, with their correlation
+  router.get('/scatter', async (req, res) => {
+    const { error, value } = scatterQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const series = getDailySeries(await storage.listMetrics(req.user.id), definitions, {
+        timeZone: value.timeZone,
+        displayUnits: req.user.preferences.displayUnits
+      });
+      const keys = series.map(({ key }) => key);
+      const x = series.find(({ key }) => key === value.x);
+      const y = series.find(({ key }) => key === value.y);
+      if (!x || !y) {
+        return res.status(400).json({ error: `"${x ? 'y' : 'x'}" must be one of [${keys.join(', ')}]` });
+      }
+
+      const points = pairDays(x, y, value.lag);
+      res.json({
+        x: describeSeries(x),
+        y: describeSeries(y),
+        lag: value.lag,
+        timeZone: value.timeZone,
+        ...correlate(points),
+        points
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  MIN_SAMPLES,
+  getDailySeries,
+  findCorrelations,
+  getCorrelationRecommendations,
+  createCorrelationRouter
+};
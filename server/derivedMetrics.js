@@ -0,0 +1,99 @@
+const { parseBloodPressure } = require('./bloodPressure');
+const { getValueInUnit } = require('./units');
+
+// Metrics computed from the user's records rather than logged. They are recomputed
+// from the current records on every request, so editing or deleting a source reading
+// changes them straight away.
+const DERIVED_METRIC_DEFINITIONS = [
+  { key: 'bmi', label: 'BMI', unit: 'kg/m²', sources: ['weight', 'height'] },
+  { key: 'mean_arterial_pressure', label: 'Mean Arterial Pressure', unit: 'mmHg', sources: ['blood_pressure'] },
+  { key: 'weekly_sleep_average', label: 'Weekly Sleep Average', unit: 'hours', sources: ['sleep_hours'] }
+];
+
+const round = (value, decimals) => Number(value.toFixed(decimals));
+
+const byMeasurementTime = (a, b) => new Date(a.timestamp) - new Date(b.timestamp);
+
+const ofType = (records, type) => records.filter(record => record.type === type).sort(byMeasurementTime);
+
+function toDerivedRecord(key, value, timestamp, sourceIds) {
+  const definition = DERIVED_METRIC_DEFINITIONS.find(d => d.key === key);
+  return {
+    type: key,
+    value,
+    unit: definition.unit,
+    timestamp: new Date(timestamp),
+    sourceIds
+  };
+}
+
+// BMI of every weight reading, using the most recently measured height
+function computeBmi(records) {
+  const heights = ofType(records, 'height')
+    .map(record => ({ record, cm: getValueInUnit(record, 'cm') }))
+    .filter(({ cm }) => cm !== null && cm > 0);
+  if (heights.length === 0) return [];
+
+  const height = heights[heights.length - 1];
+  const meters = height.cm / 100;
+
+  return ofType(records, 'weight').flatMap(weight => {
+    const kg = getValueInUnit(weight, 'kg');
+    if (kg === null) return [];
+    return [toDerivedRecord('bmi', round(kg / (meters * meters), 1), weight.timestamp, [weight.id, height.record.id])];
+  });
+}
+
+// Diastolic plus a third of the pulse pressure
+function computeMeanArterialPressure(records) {
+  return ofType(records, 'blood_pressure').flatMap(record => {
+    const reading = parseBloodPressure(record.value);
+    if (!reading) return [];
+    const map = reading.diastolic + (reading.systolic - reading.diastolic) / 3;
+    return [toDerivedRecord('mean_arterial_pressure', round(map, 0), record.timestamp, [record.id])];
+  });
+}
+
+// Monday 00:00 UTC of the week a time falls in
+function startOfWeek(time) {
+  const date = new Date(time);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+}
+
+// Average nightly sleep of each week (Monday to Sunday, UTC) that has readings,
+// dated at the start of the week
+function computeWeeklySleepAverage(records) {
+  const weeks = new Map();
+  ofType(records, 'sleep_hours').forEach(record => {
+    const hours = getValueInUnit(record, 'hours');
+    if (hours === null) return;
+    const week = startOfWeek(record.timestamp);
+    if (!weeks.has(week)) weeks.set(week, []);
+    weeks.get(week).push({ id: record.id, hours });
+  });
+
+  return [...weeks.entries()].map(([week, readings]) => {
+    const average = readings.reduce((sum, reading) => sum + reading.hours, 0) / readings.length;
+    return toDerivedRecord('weekly_sleep_average', round(average, 1), week, readings.map(reading => reading.id));
+  });
+}
+
+const CALCULATORS = {
+  bmi: computeBmi,
+  mean_arterial_pressure: computeMeanArterialPressure,
+  weekly_sleep_average: computeWeeklySleepAverage
+};
+
+// Derived records of every kind that the user's records allow, oldest first
+function computeDerivedMetrics(records) {
+  return DERIVED_METRIC_DEFINITIONS
+    .flatMap(definition => CALCULATORS[definition.key](records))
+    .sort(byMeasurementTime);
+}
+
+module.exports = {
+  DERIVED_METRIC_DEFINITIONS,
+  startOfWeek,
+  computeDerivedMetrics
+};
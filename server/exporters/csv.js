@@ -0,0 +1,52 @@
+const { parseBloodPressure } = require('../bloodPressure');
+const { BUILT_IN_METRIC_DEFINITIONS, findMetricDefinition } = require('../metricDefinitions');
+
+// Header names match what the CSV importer recognises, so an export can be imported again
+const EXPORT_COLUMNS = ['timestamp', 'type', 'value', 'unit', 'entered_value', 'entered_unit', 'notes', 'source'];
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+function escapeCsvField(field) {
+  if (field === undefined || field === null) return '';
+
+  let text = String(field);
+  if (typeof field === 'string' && FORMULA_PREFIX.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Blood pressure is written in the "120/80" or "120/80/72" form the importer reads back, and the
+// pairs of metrics of the user's own as "30/28" in the order of the definition's parts
+function formatCsvValue(type, value, definitions) {
+  const reading = type === 'blood_pressure' ? parseBloodPressure(value) : null;
+  if (reading) {
+    return [reading.systolic, reading.diastolic, reading.pulse].filter(part => part !== undefined).join('/');
+  }
+  const definition = findMetricDefinition(definitions, type);
+  if (definition && definition.valueKind === 'pair' && value && typeof value === 'object') {
+    return definition.parts.map(part => value[part.key]).join('/');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : value;
+}
+
+// Definitions must include the user's own metrics for their pairs to be importable
+function toCsv(records, definitions = BUILT_IN_METRIC_DEFINITIONS) {
+  const lines = records.map(record => [
+    new Date(record.timestamp).toISOString(),
+    record.type,
+    formatCsvValue(record.type, record.value, definitions),
+    record.unit,
+    record.enteredValue === undefined ? '' : formatCsvValue(record.type, record.enteredValue, definitions),
+    record.enteredUnit,
+    record.notes,
+    record.source
+  ].map(escapeCsvField).join(','));
+
+  return [EXPORT_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+module.exports = {
+  toCsv
+};
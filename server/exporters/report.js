@@ -0,0 +1,142 @@
+const { formatBloodPressure } = require('../bloodPressure');
+const { formatMetric } = require('../units');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+const { isErroneous } = require('../insights');
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const formatMetricName = (metric) =>
+  metric.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+// Names a metric, or a trend series of one such as "blood_pressure_systolic", by its definition's
+// label; names are only made from keys for metrics that are no longer defined
+function getSeriesName(series, definitions, derivedMetrics = {}) {
+  if (Object.hasOwn(derivedMetrics, series)) return derivedMetrics[series].label;
+  for (const definition of definitions) {
+    if (definition.key === series) return definition.label;
+    const part = (definition.parts || []).find(({ key }) => series === `${definition.key}_${key}`);
+    if (part) return `${definition.label} ${part.label}`;
+  }
+  return formatMetricName(series);
+}
+
+const formatDate = (date) => new Date(date).toISOString().slice(0, 10);
+
+const formatDateTime = (date) => new Date(date).toISOString().slice(0, 16).replace('T', ' ');
+
+function renderTrendsTable(trends, derivedMetrics, definitions) {
+  const rows = Object.entries(trends).map(([series, trend]) => `
+        <tr>
+          <td>${escapeHtml(getSeriesName(series, definitions, derivedMetrics))}</td>
+          <td>${trend.change > 0 ? '+' : ''}${escapeHtml(trend.change)} ${escapeHtml(trend.unit || '')}</td>
+          <td>${trend.percentChange === null ? '—' : `${escapeHtml(trend.percentChange)}%`}</td>
+          <td>${escapeHtml(trend.recordCount)}</td>
+        </tr>`).join('');
+
+  if (!rows) {
+    return '<p class="muted">Not enough readings to show trends.</p>';
+  }
+
+  return `
+      <table>
+        <thead><tr><th>Metric</th><th>Change</th><th>% Change</th><th>Readings</th></tr></thead>
+        <tbody>${rows}
+        </tbody>
+      </table>`;
+}
+
+function renderMetricSection(type, records, displayUnits, definitions) {
+  const rows = records.map(record => {
+    const value = type === 'blood_pressure' ? formatBloodPressure(record.value) : formatMetric(record, displayUnits);
+    return `
+          <tr>
+            <td>${escapeHtml(formatDateTime(record.timestamp))}</td>
+            <td>${escapeHtml(value)}</td>
+            <td>${escapeHtml(record.notes || '')}</td>
+          </tr>`;
+  }).join('');
+
+  return `
+    <section>
+      <h2>${escapeHtml(getSeriesName(type, definitions))}</h2>
+      <table>
+        <thead><tr><th>Measured (UTC)</th><th>Value</th><th>Notes</th></tr></thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+// Renders a self-contained, print-friendly HTML summary to share with a clinician.
+// Records must be sorted by measurement time; values use the user's display units.
+// Metrics are named by their definitions, which should include the user's own. Readings
+// marked erroneous are left out, as they are of the insights.
+function renderHealthReport({ user, records: allRecords, insights, definitions = BUILT_IN_METRIC_DEFINITIONS, filters = {}, generatedAt = new Date() }) {
+  const records = allRecords.filter(record => !isErroneous(record));
+  const displayUnits = user.preferences.displayUnits;
+  const byType = {};
+  records.forEach(record => {
+    if (!Object.hasOwn(byType, record.type)) byType[record.type] = [];
+    byType[record.type].push(record);
+  });
+
+  const from = filters.from || (records[0] && records[0].timestamp);
+  const to = filters.to || (records.length > 0 && records[records.length - 1].timestamp);
+  const period = from && to ? `${formatDate(from)} to ${formatDate(to)}` : 'No readings';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Health Report - ${escapeHtml(user.name)}</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; margin: 2rem auto; max-width: 52rem; padding: 0 1rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.125rem; margin: 1.5rem 0 0.5rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+    th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    th { background: #f3f4f6; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.875rem; }
+    dt { font-weight: 600; }
+    .muted { color: #6b7280; font-size: 0.875rem; }
+    section { break-inside: avoid-page; }
+    @media print {
+      body { margin: 0; max-width: none; }
+      th { background: none; }
+      thead { display: table-header-group; }
+      tr { break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Health Report</h1>
+    <dl>
+      <dt>Name</dt><dd>${escapeHtml(user.name)}</dd>
+      <dt>Period</dt><dd>${escapeHtml(period)}</dd>
+      <dt>Readings</dt><dd>${records.length}</dd>
+      <dt>Generated</dt><dd>${escapeHtml(formatDateTime(generatedAt))} UTC</dd>
+    </dl>
+  </header>
+
+  <section>
+    <h2>Trends</h2>${renderTrendsTable(insights.trends || {}, insights.derivedMetrics || {}, definitions)}
+  </section>
+${Object.keys(byType).map(type => renderMetricSection(type, byType[type], displayUnits, definitions)).join('\n')}
+
+  <p class="muted">Self-recorded measurements exported from HealthBot. This report is not a medical diagnosis.</p>
+</body>
+</html>
+`;
+}
+
+module.exports = {
+  renderHealthReport
+};
@@ -0,0 +1,95 @@
+const express = require('express');
+const Joi = require('joi');
+const { sortByMeasurementTime, generateHealthInsights } = require('./insights');
+const { getMetricDefinitions } = require('./metricDefinitions');
+const { toCsv } = require('./exporters/csv');
+const { renderHealthReport } = require('./exporters/report');
+
+const exportFilterKeys = {
+  type: Joi.string().optional(),
+  from: Joi.date().optional(),
+  to: Joi.date().min(Joi.ref('from')).optional()
+};
+
+const exportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'json').default('json'),
+  ...exportFilterKeys
+});
+
+const reportQuerySchema = Joi.object(exportFilterKeys);
+
+function filterRecords(records, { type, from, to }) {
+  return sortByMeasurementTime(records.filter(record => {
+    const time = new Date(record.timestamp).getTime();
+    if (type && record.type !== type) return false;
+    if (from && time < from.getTime()) return false;
+    if (to && time > to.getTime()) return false;
+    return true;
+  }));
+}
+
+const exportFileName = (extension) =>
+  `health-data-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+function createExportRouter(storage) {
+  const router = express.Router();
+
+  // Download the user's records, oldest first, as a CSV or JSON file
+  router.get('/', async (req, res) => {
+    const { error, value } = exportQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const records = filterRecords(await storage.listMetrics(req.user.id), value);
+
+      if (value.format === 'csv') {
+        res.attachment(exportFileName('csv'));
+        res.type('text/csv').send(toCsv(records, await getMetricDefinitions(storage, req.user.id)));
+        return;
+      }
+
+      res.attachment(exportFileName('json'));
+      res.json({
+        exportedAt: new Date(),
+        filters: { type: value.type, from: value.from, to: value.to },
+        count: records.length,
+        data: records
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Print-friendly HTML summary with trends and a table per metric
+  router.get('/report', async (req, res) => {
+    const { error, value } = reportQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const records = filterRecords(await storage.listMetrics(req.user.id), value);
+      const insights = generateHealthInsights(records, req.user.preferences.displayUnits);
+
+      res.type('html').send(renderHealthReport({
+        user: req.user,
+        records,
+        insights,
+        definitions: await getMetricDefinitions(storage, req.user.id),
+        filters: value
+      }));
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  createExportRouter
+};
@@ -0,0 +1,129 @@
+const express = require('express');
+const Joi = require('joi');
+const { v4: uuidv4 } = require('uuid');
+const { toStoredMetric } = require('./metrics');
+const { sortByMeasurementTime } = require('./insights');
+const { OBSERVATION_CODES, toSearchBundle, fromBundle, toOperationOutcome, toAnomalyOutcome } = require('./fhirObservations');
+const { getMetricDefinitions } = require('./metricDefinitions');
+const { MAX_IMPORT_ROWS } = require('./imports');
+const { createAnomalyDetector } = require('./anomalies');
+const { runSaveHooks } = require('./metricHooks');
+
+const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+const observationQuerySchema = Joi.object({
+  // Only the signed-in user's own records can be read; defaults to them
+  patient: Joi.string().optional(),
+  // Our metric type, e.g. "weight", or a LOINC code, e.g. "29463-7"
+  code: Joi.string().optional()
+});
+
+function sendOutcome(res, status, diagnostics, code = 'invalid') {
+  res.status(status).type(FHIR_CONTENT_TYPE).json(toOperationOutcome([{ errors: [diagnostics] }], code));
+}
+
+// Metrics of the user's own have no LOINC code and match by type only
+function matchesCode(record, code) {
+  return record.type === code || (Object.hasOwn(OBSERVATION_CODES, record.type) && OBSERVATION_CODES[record.type].loinc === code);
+}
+
+function createFhirRouter(storage) {
+  const router = express.Router();
+
+  // Search the user's Observations, oldest first, as a searchset Bundle
+  router.get('/Observation', async (req, res) => {
+    const { error, value } = observationQuerySchema.validate(req.query);
+    if (error) {
+      return sendOutcome(res, 400, error.details[0].message);
+    }
+
+    const patient = (value.patient || req.user.id).replace(/^Patient\//, '');
+    if (patient !== req.user.id) {
+      return sendOutcome(res, 403, 'Observations can only be read for the signed-in patient', 'forbidden');
+    }
+
+    try {
+      const records = sortByMeasurementTime(await storage.listMetrics(req.user.id))
+        .filter(record => !value.code || matchesCode(record, value.code));
+      const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+
+      res.type(FHIR_CONTENT_TYPE).json(toSearchBundle(records, req.user.id, baseUrl, definitions));
+    } catch (error) {
+      console.error('Server error:', error);
+      sendOutcome(res, 500, 'Internal server error', 'exception');
+    }
+  });
+
+  // Import every Observation in a Bundle, or none if any entry is invalid
+  router.post('/', async (req, res) => {
+    let result;
+    try {
+      result = fromBundle(req.body, req.user.id);
+    } catch (error) {
+      // Anything the shape checks missed is still the Bundle's fault, not the server's
+      return sendOutcome(res, 400, `Bundle could not be read: ${error.message}`);
+    }
+
+    const { metrics, issues } = result;
+
+    if (issues.length > 0) {
+      return res.status(400).type(FHIR_CONTENT_TYPE).json(toOperationOutcome(issues));
+    }
+    if (metrics.length === 0) {
+      return sendOutcome(res, 400, 'Bundle has no Observations to import');
+    }
+    if (metrics.length > MAX_IMPORT_ROWS) {
+      return sendOutcome(res, 400, `Bundle has ${metrics.length} entries; the limit is ${MAX_IMPORT_ROWS} per import`, 'too-costly');
+    }
+
+    try {
+      const importId = uuidv4();
+      const importedAt = new Date();
+      const detectAnomaly = createAnomalyDetector(
+        await storage.listMetrics(req.user.id),
+        await getMetricDefinitions(storage, req.user.id)
+      );
+      const stored = metrics.map(metric => {
+        const record = toStoredMetric(metric, req.user.preferences.profile);
+        return {
+          id: uuidv4(),
+          ...record,
+          anomaly: detectAnomaly(record),
+          source: 'fhir',
+          importId,
+          createdAt: importedAt
+        };
+      });
+
+      await storage.addMetrics(req.user.id, stored);
+      await runSaveHooks(storage, req.user.id, stored.map(record => record.type));
+
+      res.status(201).type(FHIR_CONTENT_TYPE).json({
+        resourceType: 'Bundle',
+        id: importId,
+        type: 'transaction-response',
+        entry: stored.map(record => ({
+          response: {
+            status: '201 Created',
+            location: `Observation/${record.id}`,
+            lastModified: importedAt.toISOString(),
+            // Unusual readings are saved flagged, with a warning saying why
+            ...(record.anomaly ? { outcome: toAnomalyOutcome(record.anomaly) } : {})
+          }
+        }))
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      sendOutcome(res, 500, 'Internal server error', 'exception');
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  FHIR_CONTENT_TYPE,
+  createFhirRouter
+};
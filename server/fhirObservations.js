@@ -0,0 +1,291 @@
+const Joi = require('joi');
+const { importedMetricSchema } = require('./metrics');
+const { parseBloodPressure } = require('./bloodPressure');
+const { normalizeUnit } = require('./units');
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+// Carries our own metric type alongside the LOINC code so exports round-trip exactly
+const METRIC_TYPE_SYSTEM = 'urn:healthbot:metric-type';
+
+// FHIR R4 Observation coding per metric type. Water intake has no LOINC code for
+// self-reported daily totals, so it is identified by the metric type coding alone.
+const OBSERVATION_CODES = {
+  weight: { loinc: '29463-7', display: 'Body weight', category: 'vital-signs' },
+  height: { loinc: '8302-2', display: 'Body height', category: 'vital-signs' },
+  blood_pressure: { loinc: '85354-9', display: 'Blood pressure panel with all children optional', category: 'vital-signs' },
+  heart_rate: { loinc: '8867-4', display: 'Heart rate', category: 'vital-signs' },
+  blood_sugar: { loinc: '2339-0', display: 'Glucose [Mass/volume] in Blood', category: 'laboratory' },
+  temperature: { loinc: '8310-5', display: 'Body temperature', category: 'vital-signs' },
+  sleep_hours: { loinc: '93832-4', display: 'Sleep duration', category: 'activity' },
+  steps: { loinc: '55423-8', display: 'Number of steps in unspecified time Pedometer', category: 'activity' },
+  water_intake: { display: 'Water intake', category: 'activity' },
+  exercise_minutes: { loinc: '55411-3', display: 'Exercise duration', category: 'activity' }
+};
+
+// Other LOINC codes accepted on import
+const ALTERNATE_LOINC_CODES = {
+  '15074-8': 'blood_sugar', // Glucose [Moles/volume] in Blood
+  '2345-7': 'blood_sugar', // Glucose [Mass/volume] in Serum or Plasma
+  '55284-4': 'blood_pressure' // Blood pressure systolic and diastolic
+};
+
+const BLOOD_PRESSURE_COMPONENTS = {
+  systolic: { loinc: '8480-6', display: 'Systolic blood pressure' },
+  diastolic: { loinc: '8462-4', display: 'Diastolic blood pressure' },
+  pulse: { loinc: '8867-4', display: 'Heart rate' }
+};
+
+// Our unit names and their UCUM codes
+const UCUM_CODES = {
+  kg: 'kg',
+  lb: '[lb_av]',
+  cm: 'cm',
+  in: '[in_i]',
+  mmHg: 'mm[Hg]',
+  bpm: '/min',
+  'mg/dL': 'mg/dL',
+  'mmol/L': 'mmol/L',
+  '°C': 'Cel',
+  '°F': '[degF]',
+  hours: 'h',
+  steps: '{steps}',
+  L: 'L',
+  mL: 'mL',
+  'fl oz': '[foz_us]',
+  minutes: 'min'
+};
+
+const IMPORTABLE_STATUSES = ['final', 'amended', 'corrected'];
+
+const patientReference = (patientId) => `Patient/${patientId}`;
+
+function toQuantity(value, unit) {
+  return { value, unit, system: UCUM_SYSTEM, code: UCUM_CODES[unit] || unit };
+}
+
+// FHIR coding of a built-in metric type; null for metrics of the user's own
+const getObservationCode = (type) => (Object.hasOwn(OBSERVATION_CODES, type) ? OBSERVATION_CODES[type] : null);
+
+// Metrics of the user's own have no LOINC code and are identified by the metric type coding
+// alone, with their label as text
+function toCodeableConcept(type, definitions) {
+  const observationCode = getObservationCode(type);
+  if (!observationCode) {
+    const definition = definitions.find(({ key }) => key === type);
+    return { coding: [{ system: METRIC_TYPE_SYSTEM, code: type }], text: definition ? definition.label : type };
+  }
+
+  const { loinc, display } = observationCode;
+  const coding = [];
+  if (loinc) coding.push({ system: LOINC_SYSTEM, code: loinc, display });
+  coding.push({ system: METRIC_TYPE_SYSTEM, code: type });
+  return { coding, text: display };
+}
+
+// Maps a stored metric to a FHIR R4 Observation. Definitions name the user's own metrics.
+function toObservation(record, patientId, definitions = []) {
+  const observationCode = getObservationCode(record.type);
+  const observation = {
+    resourceType: 'Observation',
+    id: record.id,
+    meta: { lastUpdated: new Date(record.updatedAt || record.createdAt || record.timestamp).toISOString() },
+    status: 'final',
+    ...(observationCode ? { category: [{ coding: [{ system: CATEGORY_SYSTEM, code: observationCode.category }] }] } : {}),
+    code: toCodeableConcept(record.type, definitions),
+    subject: { reference: patientReference(patientId) },
+    effectiveDateTime: new Date(record.timestamp).toISOString()
+  };
+
+  const reading = record.type === 'blood_pressure' ? parseBloodPressure(record.value) : null;
+  if (reading) {
+    observation.component = Object.entries(BLOOD_PRESSURE_COMPONENTS)
+      .filter(([key]) => reading[key] !== undefined)
+      .map(([key, { loinc, display }]) => ({
+        code: { coding: [{ system: LOINC_SYSTEM, code: loinc, display }] },
+        valueQuantity: toQuantity(reading[key], key === 'pulse' ? 'bpm' : 'mmHg')
+      }));
+  } else if (typeof record.value === 'number') {
+    observation.valueQuantity = toQuantity(record.value, record.unit);
+  } else if (record.value && typeof record.value === 'object') {
+    // The two numbers of a pair of the user's own, coded by metric type and part
+    observation.component = Object.entries(record.value).map(([part, value]) => ({
+      code: { coding: [{ system: METRIC_TYPE_SYSTEM, code: `${record.type}.${part}` }] },
+      valueQuantity: toQuantity(value, record.unit)
+    }));
+  } else {
+    observation.valueString = String(record.value);
+  }
+
+  if (record.notes) {
+    observation.note = [{ text: record.notes }];
+  }
+
+  return observation;
+}
+
+function toSearchBundle(records, patientId, baseUrl, definitions = []) {
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    total: records.length,
+    entry: records.map(record => ({
+      fullUrl: `${baseUrl}/Observation/${record.id}`,
+      resource: toObservation(record, patientId, definitions),
+      search: { mode: 'match' }
+    }))
+  };
+}
+
+// The parts of a Bundle and its Observations that are read on import must have the right shape,
+// so a malformed one is reported as an issue rather than failing part way through
+const codeableConceptSchema = Joi.object({ coding: Joi.array().items(Joi.object()) }).unknown(true);
+
+const bundleShapeSchema = Joi.object({ entry: Joi.array().items(Joi.object()) }).unknown(true);
+
+const observationShapeSchema = Joi.object({
+  code: codeableConceptSchema,
+  subject: Joi.object(),
+  valueQuantity: Joi.object(),
+  effectivePeriod: Joi.object(),
+  note: Joi.array().items(Joi.object()),
+  component: Joi.array().items(Joi.object({ code: codeableConceptSchema, valueQuantity: Joi.object() }).unknown(true))
+}).unknown(true);
+
+const hasCoding = (concept, system, code) =>
+  Boolean(concept && (concept.coding || []).some(coding => coding.system === system && coding.code === code));
+
+function findMetricType(code) {
+  const codings = (code && code.coding) || [];
+
+  const ownType = codings.find(coding => coding.system === METRIC_TYPE_SYSTEM && getObservationCode(coding.code));
+  if (ownType) return ownType.code;
+
+  for (const coding of codings.filter(entry => entry.system === LOINC_SYSTEM)) {
+    const type = Object.keys(OBSERVATION_CODES).find(key => OBSERVATION_CODES[key].loinc === coding.code)
+      || (Object.hasOwn(ALTERNATE_LOINC_CODES, coding.code) ? ALTERNATE_LOINC_CODES[coding.code] : null);
+    if (type) return type;
+  }
+  return null;
+}
+
+// Resolves a Quantity's unit through its UCUM code first, then its human-readable unit
+function fromQuantityUnit(type, quantity) {
+  const ucumMatch = Object.keys(UCUM_CODES).find(unit =>
+    UCUM_CODES[unit] === quantity.code && normalizeUnit(type, unit) === unit
+  );
+  return ucumMatch || normalizeUnit(type, quantity.unit || '') || quantity.unit || quantity.code;
+}
+
+function getEffectiveTime(observation) {
+  return observation.effectiveDateTime
+    || observation.effectiveInstant
+    || (observation.effectivePeriod && observation.effectivePeriod.start);
+}
+
+// Maps a FHIR Observation to a validated metric, or returns the reasons it cannot be imported
+function fromObservation(observation, patientId) {
+  if (!observation || observation.resourceType !== 'Observation') {
+    return { errors: ['Resource is not an Observation'] };
+  }
+  const shape = observationShapeSchema.validate(observation);
+  if (shape.error) {
+    return { errors: [`Observation ${shape.error.details[0].message}`] };
+  }
+  if (!IMPORTABLE_STATUSES.includes(observation.status)) {
+    return { errors: [`Observation status "${observation.status}" cannot be imported`] };
+  }
+  if (observation.subject && observation.subject.reference !== patientReference(patientId)) {
+    return { errors: [`Observation belongs to ${observation.subject.reference}, not ${patientReference(patientId)}`] };
+  }
+
+  const type = findMetricType(observation.code);
+  if (!type) {
+    return { errors: ['Observation code is not a supported LOINC code'] };
+  }
+
+  const metric = { type, timestamp: getEffectiveTime(observation) };
+
+  if (type === 'blood_pressure') {
+    const components = observation.component || [];
+    const componentValue = (loinc) => {
+      const component = components.find(entry => hasCoding(entry.code, LOINC_SYSTEM, loinc));
+      return component && component.valueQuantity ? component.valueQuantity.value : undefined;
+    };
+    metric.value = { systolic: componentValue('8480-6'), diastolic: componentValue('8462-4') };
+    const pulse = componentValue('8867-4');
+    if (pulse !== undefined) metric.value.pulse = pulse;
+    metric.unit = 'mmHg';
+  } else if (observation.valueQuantity) {
+    metric.value = observation.valueQuantity.value;
+    metric.unit = fromQuantityUnit(type, observation.valueQuantity);
+  } else {
+    return { errors: ['Observation has no valueQuantity'] };
+  }
+
+  const notes = (observation.note || []).map(note => note.text).filter(Boolean).join('\n');
+  if (notes) metric.notes = notes;
+
+  const { error, value } = importedMetricSchema.validate(metric, { abortEarly: false });
+  if (error) {
+    return { errors: error.details.map(detail => detail.message) };
+  }
+  return { metric: value };
+}
+
+// Maps every Observation in a Bundle. Entries are numbered as in the Bundle so problems
+// can be reported against them; non-Observation resources are reported as errors.
+function fromBundle(bundle, patientId) {
+  if (!bundle || bundle.resourceType !== 'Bundle') {
+    return { metrics: [], issues: [{ entry: null, errors: ['Request body must be a FHIR Bundle'] }] };
+  }
+  const shape = bundleShapeSchema.validate(bundle);
+  if (shape.error) {
+    return { metrics: [], issues: [{ entry: null, errors: [`Bundle ${shape.error.details[0].message}`] }] };
+  }
+
+  const metrics = [];
+  const issues = [];
+  (bundle.entry || []).forEach((entry, index) => {
+    const { metric, errors } = fromObservation(entry.resource, patientId);
+    if (errors) {
+      issues.push({ entry: index, errors });
+    } else {
+      metrics.push(metric);
+    }
+  });
+
+  return { metrics, issues };
+}
+
+function toOperationOutcome(issues, code = 'invalid') {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: issues.flatMap(({ entry, errors }) => errors.map(diagnostics => ({
+      severity: 'error',
+      code,
+      diagnostics,
+      ...(entry === null || entry === undefined ? {} : { expression: [`Bundle.entry[${entry}].resource`] })
+    })))
+  };
+}
+
+// Warnings about a reading that was saved but looks unusual, one per reason
+function toAnomalyOutcome(anomaly) {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: anomaly.reasons.map(diagnostics => ({ severity: 'warning', code: 'business-rule', diagnostics }))
+  };
+}
+
+module.exports = {
+  OBSERVATION_CODES,
+  UCUM_CODES,
+  toObservation,
+  toSearchBundle,
+  fromObservation,
+  fromBundle,
+  toOperationOutcome,
+  toAnomalyOutcome
+};
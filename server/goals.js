@@ -0,0 +1,245 @@
+const express = require('express');
+const Joi = require('joi');
+const { v4: uuidv4 } = require('uuid');
+const { getNumberInUnit, resolveMetricUnit, roundForUnit } = require('./units');
+const { BUILT_IN_METRIC_DEFINITIONS, getMetricDefinitions, findMetricDefinition } = require('./metricDefinitions');
+const { isErroneous, groupByType } = require('./insights');
+const { isTimeZone, getLocalParts, fromLocalTime } = require('./timeZones');
+
+// How a goal is measured:
+// daily   - the readings of each day should reach `target`, e.g. 10000 steps a day
+// weekly  - the readings of each week (Monday to Sunday) should reach `target`
+// by_date - the latest reading should reach `target` by `targetDate`, e.g. 70 kg by June
+// Days and weeks are those of the goal's `timeZone`, so a day's steps start at local midnight.
+const GOAL_PERIODS = ['daily', 'weekly', 'by_date'];
+
+const MAX_GOALS = 50;
+
+const goalSchema = Joi.object({
+  type: Joi.string().required(),
+  period: Joi.string().valid(...GOAL_PERIODS).required(),
+  target: Joi.when('period', {
+    is: 'by_date',
+    then: Joi.number().required(),
+    otherwise: Joi.number().positive().required()
+  }),
+  unit: Joi.string(),
+  targetDate: Joi.when('period', {
+    is: 'by_date',
+    then: Joi.date().greater('now').required(),
+    otherwise: Joi.forbidden()
+  }),
+  timeZone: Joi.string().custom(isTimeZone).default('UTC')
+});
+
+// Checks a validated goal against the metric it measures and fills in its unit.
+// Returns the goal to store, or an error message.
+function resolveGoal(goal, definitions) {
+  const definition = findMetricDefinition(definitions, goal.type);
+  if (!definition) {
+    return { error: `"type" must be one of [${definitions.map(d => d.key).join(', ')}]` };
+  }
+  if (definition.valueKind !== 'number') {
+    return { error: `Goals need a metric with a single number; ${definition.label} has none` };
+  }
+
+  const { unit, error } = resolveMetricUnit(definition, goal.unit);
+  return error ? { error } : { goal: { ...goal, unit } };
+}
+
+const round = (goal, value) => roundForUnit(goal.type, value, goal.unit);
+
+// Daily and weekly goals of metrics whose readings add up, such as steps, count the total of
+// the period's readings; other metrics, such as sleep hours, count their average
+const isTotalled = (goal, definitions) => {
+  const definition = findMetricDefinition(definitions, goal.type);
+  return Boolean(definition) && definition.aggregation === 'sum';
+};
+
+function describeGoal(goal, definitions) {
+  const definition = findMetricDefinition(definitions, goal.type);
+  const label = definition ? definition.label : goal.type.replace(/_/g, ' ');
+  const target = `${goal.target} ${goal.unit}`.trim();
+
+  if (goal.period === 'by_date') {
+    return `${label}: ${target} by ${new Date(goal.targetDate).toISOString().slice(0, 10)}`;
+  }
+  const per = goal.period === 'daily' ? 'a day' : 'a week';
+  return isTotalled(goal, definitions) ? `${label}: ${target} ${per}` : `${label}: ${target} on average ${per}`;
+}
+
+// The day or week `now` falls in, from local midnight to local midnight in `timeZone`
+function getCurrentPeriod(period, now, timeZone) {
+  const { year, month, day } = getLocalParts(now, timeZone);
+  // Weeks start on Monday
+  const first = period === 'daily' ? day : day - (new Date(Date.UTC(year, month, day)).getUTCDay() + 6) % 7;
+  const days = period === 'daily' ? 1 : 7;
+  return {
+    start: fromLocalTime({ year, month, day: first }, '00:00', timeZone).getTime(),
+    end: fromLocalTime({ year, month, day: first + days }, '00:00', timeZone).getTime()
+  };
+}
+
+// Goals set before they had a time zone keep counting UTC days
+function computePeriodProgress(goal, readings, now, definitions) {
+  const { start, end } = getCurrentPeriod(goal.period, now, goal.timeZone || 'UTC');
+  const values = readings
+    .filter(reading => reading.time >= start && reading.time < end)
+    .map(reading => reading.value);
+
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const totalled = isTotalled(goal, definitions);
+  const current = values.length === 0 ? 0 : round(goal, totalled ? total : total / values.length);
+  return {
+    measure: totalled ? 'total' : 'average',
+    current,
+    percent: Math.round((current / goal.target) * 100),
+    achieved: current >= goal.target,
+    remaining: Math.max(0, round(goal, goal.target - current)),
+    readings: values.length,
+    periodStart: new Date(start),
+    periodEnd: new Date(end)
+  };
+}
+
+// Progress runs from where the metric stood when the goal was set (the latest reading
+// before it, or the first one after) to the target, in whichever direction that is
+function computeTargetProgress(goal, readings) {
+  const createdAt = new Date(goal.createdAt).getTime();
+  const before = readings.filter(reading => reading.time <= createdAt);
+  const startReading = before.length > 0 ? before[before.length - 1] : readings[0];
+  const latest = readings[readings.length - 1];
+
+  if (!latest) {
+    return {
+      measure: 'latest',
+      current: null,
+      startValue: null,
+      percent: 0,
+      achieved: false,
+      remaining: null,
+      readings: 0,
+      periodEnd: new Date(goal.targetDate)
+    };
+  }
+
+  const startValue = round(goal, startReading.value);
+  const current = round(goal, latest.value);
+  const decreasing = goal.target < startValue;
+  const achieved = decreasing ? current <= goal.target : current >= goal.target;
+  const distance = Math.abs(goal.target - startValue);
+  const covered = decreasing ? startValue - current : current - startValue;
+  const percent = achieved ? 100 : Math.max(0, Math.round((covered / distance) * 100));
+
+  return {
+    measure: 'latest',
+    current,
+    startValue,
+    percent,
+    achieved,
+    remaining: achieved ? 0 : round(goal, Math.abs(goal.target - current)),
+    readings: readings.length,
+    periodEnd: new Date(goal.targetDate)
+  };
+}
+
+// Progress towards a goal from the records of its metric, oldest first. `measure` says what
+// `current` is: the period's total or average reading, or the latest reading for by-date goals.
+// Readings marked erroneous do not count towards it.
+function computeGoalProgress(goal, records, now = new Date(), definitions = BUILT_IN_METRIC_DEFINITIONS) {
+  const readings = records
+    .filter(record => !isErroneous(record))
+    .map(record => ({ time: new Date(record.timestamp).getTime(), value: getNumberInUnit(record, goal.unit) }))
+    .filter(reading => reading.value !== null && reading.time <= now.getTime());
+
+  return goal.period === 'by_date'
+    ? computeTargetProgress(goal, readings)
+    : computePeriodProgress(goal, readings, now, definitions);
+}
+
+// Every goal with its description and progress from the given records
+function withGoalProgress(goals, records, definitions, now = new Date()) {
+  const typeGroups = groupByType(records);
+  return goals.map(goal => ({
+    ...goal,
+    description: describeGoal(goal, definitions),
+    progress: computeGoalProgress(goal, Object.hasOwn(typeGroups, goal.type) ? typeGroups[goal.type] : [], now, definitions)
+  }));
+}
+
+function createGoalRouter(storage) {
+  const router = express.Router();
+
+  router.get('/', async (req, res) => {
+    try {
+      const goals = await storage.listGoals(req.user.id);
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const records = await storage.listMetrics(req.user.id);
+      res.json({ goals: withGoalProgress(goals, records, definitions) });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // A metric has at most one goal per period
+  router.post('/', async (req, res) => {
+    const { error, value } = goalSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const resolved = resolveGoal(value, definitions);
+      if (resolved.error) {
+        return res.status(400).json({ error: resolved.error });
+      }
+
+      const existing = await storage.listGoals(req.user.id);
+      if (existing.some(goal => goal.type === value.type && goal.period === value.period)) {
+        return res.status(409).json({ error: `There is already a ${value.period.replace('_', ' ')} goal for ${value.type}` });
+      }
+      if (existing.length >= MAX_GOALS) {
+        return res.status(400).json({ error: `You can have up to ${MAX_GOALS} goals` });
+      }
+
+      const goal = { id: uuidv4(), ...resolved.goal, createdAt: new Date() };
+      await storage.addGoal(req.user.id, goal);
+      const [created] = withGoalProgress([goal], await storage.listMetrics(req.user.id), definitions);
+
+      res.status(201).json({
+        message: 'Goal created successfully',
+        goal: created
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    try {
+      const removed = await storage.deleteGoal(req.user.id, req.params.id);
+      if (!removed) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+
+      res.json({
+        message: 'Goal deleted successfully',
+        goal: removed
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  computeGoalProgress,
+  withGoalProgress,
+  createGoalRouter
+};
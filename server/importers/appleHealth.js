@@ -0,0 +1,388 @@
+const { StringDecoder } = require('string_decoder');
+const { importedMetricSchema } = require('../metrics');
+const { convertValue } = require('../units');
+
+// Apple Health quantity types we import. Units map from HealthKit's unit strings to
+// ours as [unit, factor]; samples in other units are skipped. Types that are sampled
+// many times a day are reduced to one reading per day: "sum" adds the samples up and
+// "average" averages them, both in the unit named by `unit`.
+const QUANTITY_TYPES = {
+  HKQuantityTypeIdentifierBodyMass: {
+    type: 'weight',
+    units: { kg: ['kg'], lb: ['lb'], g: ['kg', 0.001] }
+  },
+  HKQuantityTypeIdentifierHeight: {
+    type: 'height',
+    units: { cm: ['cm'], in: ['in'], m: ['cm', 100], ft: ['in', 12] }
+  },
+  HKQuantityTypeIdentifierHeartRate: {
+    type: 'heart_rate',
+    units: { 'count/min': ['bpm'] },
+    aggregate: 'average',
+    unit: 'bpm'
+  },
+  HKQuantityTypeIdentifierBloodGlucose: {
+    type: 'blood_sugar',
+    // HealthKit writes mmol/L with the molar mass of glucose, e.g. "mmol<180.15588000005408>/L"
+    units: { 'mg/dL': ['mg/dL'], 'mmol/L': ['mmol/L'] }
+  },
+  HKQuantityTypeIdentifierBodyTemperature: {
+    type: 'temperature',
+    units: { degC: ['°C'], degF: ['°F'] }
+  },
+  HKQuantityTypeIdentifierStepCount: {
+    type: 'steps',
+    units: { count: ['steps'] },
+    aggregate: 'sum',
+    unit: 'steps'
+  },
+  HKQuantityTypeIdentifierDietaryWater: {
+    type: 'water_intake',
+    units: { mL: ['mL'], L: ['L'], fl_oz_us: ['fl oz'], cup_us: ['fl oz', 8] },
+    aggregate: 'sum',
+    unit: 'mL'
+  },
+  HKQuantityTypeIdentifierAppleExerciseTime: {
+    type: 'exercise_minutes',
+    units: { min: ['minutes'], hr: ['minutes', 60] },
+    aggregate: 'sum',
+    unit: 'minutes'
+  }
+};
+
+// Blood pressure arrives as separate systolic and diastolic samples taken at the same time
+const BLOOD_PRESSURE_TYPES = {
+  HKQuantityTypeIdentifierBloodPressureSystolic: 'systolic',
+  HKQuantityTypeIdentifierBloodPressureDiastolic: 'diastolic'
+};
+
+const SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+// Older iPhones only record time in bed; it is used for nights with no asleep samples
+const IN_BED_VALUE = 'HKCategoryValueSleepAnalysisInBed';
+const ASLEEP_VALUES = [
+  'HKCategoryValueSleepAnalysisAsleep',
+  'HKCategoryValueSleepAnalysisAsleepUnspecified',
+  'HKCategoryValueSleepAnalysisAsleepCore',
+  'HKCategoryValueSleepAnalysisAsleepDeep',
+  'HKCategoryValueSleepAnalysisAsleepREM'
+];
+
+const XML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    return XML_ENTITIES[entity] || match;
+  });
+}
+
+function parseAttributes(tag) {
+  const attributes = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] !== undefined ? match[2] : match[3]);
+  }
+  return attributes;
+}
+
+// Index of the ">" closing the markup that starts at `start`, or -1 if more text is needed.
+// Quoted attribute values may contain ">", and the DOCTYPE's internal subset is skipped whole.
+function findMarkupEnd(text, start) {
+  if (text.length - start < 9) return -1;
+
+  if (text.startsWith('<!--', start)) {
+    const end = text.indexOf('-->', start + 4);
+    return end === -1 ? -1 : end + 2;
+  }
+  if (text.startsWith('<![CDATA[', start)) {
+    const end = text.indexOf(']]>', start + 9);
+    return end === -1 ? -1 : end + 2;
+  }
+
+  let quote = null;
+  let inSubset = false;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (inSubset && text.startsWith('<!--', i)) {
+      const end = text.indexOf('-->', i + 4);
+      if (end === -1) return -1;
+      i = end + 2;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      inSubset = true;
+    } else if (char === ']') {
+      inSubset = false;
+    } else if (char === '>' && !inSubset) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Finds start tags in XML that arrives in chunks, without building a document.
+// Calls onTag(name, attributes) for each start tag whose name is in `names`.
+function createTagScanner(names, onTag) {
+  let buffer = '';
+
+  return {
+    write(text) {
+      buffer += text;
+      let position = 0;
+      for (;;) {
+        const start = buffer.indexOf('<', position);
+        if (start === -1) {
+          position = buffer.length;
+          break;
+        }
+        const end = findMarkupEnd(buffer, start);
+        if (end === -1) {
+          position = start;
+          break;
+        }
+        const name = /^<([A-Za-z_][\w:.-]*)/.exec(buffer.slice(start, start + 64));
+        if (name && names.includes(name[1])) {
+          onTag(name[1], parseAttributes(buffer.slice(start, end + 1)));
+        }
+        position = end + 1;
+      }
+      buffer = buffer.slice(position);
+    }
+  };
+}
+
+// Apple Health dates look like "2024-03-01 07:30:00 -0800"
+const APPLE_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/;
+
+function parseAppleDate(text) {
+  const match = APPLE_DATE_PATTERN.exec(text || '');
+  if (!match) return null;
+  const [, day, time, offsetHours, offsetMinutes] = match;
+  return {
+    day,
+    offset: `${offsetHours}:${offsetMinutes}`,
+    date: new Date(`${day}T${time}${offsetHours}:${offsetMinutes}`)
+  };
+}
+
+// Daily readings are placed at local noon so they stay on the same date in nearby time zones
+const localNoon = ({ day, offset }) => new Date(`${day}T12:00:00${offset}`);
+
+function toImportUnit(definition, appleUnit) {
+  const key = /^mmol<[\d.]+>\/L$/.test(appleUnit) ? 'mmol/L' : appleUnit;
+  return Object.hasOwn(definition.units, key) ? definition.units[key] : null;
+}
+
+// Identifies readings that are already stored, whatever unit they were entered in
+const metricKey = (metric) => `${metric.type}|${new Date(metric.timestamp).getTime()}`;
+
+// Metrics read as one reading a day, from all of the day's samples. An export taken during
+// the day holds a partial day, so a later export can change that day's reading.
+const DAILY_TYPES = [
+  ...Object.values(QUANTITY_TYPES).filter(definition => definition.aggregate).map(definition => definition.type),
+  'sleep_hours'
+];
+
+function createAppleHealthCollector() {
+  const metrics = [];
+  // Daily totals are kept per source and the largest wins, so an iPhone and a Watch
+  // counting the same steps are not added together
+  const dailyTotals = new Map();
+  const dailyAverages = new Map();
+  const bloodPressure = new Map();
+  const nights = new Map();
+  const stats = { records: 0, unsupported: 0, invalid: 0 };
+
+  const addTotal = (map, key, source, amount, fields) => {
+    const entry = map.get(key) || { ...fields, bySource: new Map() };
+    entry.bySource.set(source, (entry.bySource.get(source) || 0) + amount);
+    map.set(key, entry);
+  };
+
+  function addQuantity(definition, attributes) {
+    const start = parseAppleDate(attributes.startDate);
+    const unit = toImportUnit(definition, attributes.unit);
+    const value = Number(attributes.value);
+    if (!start || !unit || attributes.value === undefined || !Number.isFinite(value)) {
+      stats.invalid++;
+      return;
+    }
+    const [importUnit, factor = 1] = unit;
+    const amount = Number((value * factor).toFixed(4));
+
+    if (!definition.aggregate) {
+      metrics.push({ type: definition.type, value: amount, unit: importUnit, timestamp: start.date });
+      return;
+    }
+
+    const converted = convertValue(definition.type, amount, importUnit, definition.unit);
+    const key = `${definition.type}|${start.day}`;
+    if (definition.aggregate === 'sum') {
+      addTotal(dailyTotals, key, attributes.sourceName, converted, { definition, start });
+    } else {
+      const entry = dailyAverages.get(key) || { definition, start, total: 0, count: 0 };
+      entry.total += converted;
+      entry.count++;
+      dailyAverages.set(key, entry);
+    }
+  }
+
+  function addBloodPressure(part, attributes) {
+    const start = parseAppleDate(attributes.startDate);
+    const value = Number(attributes.value);
+    if (!start || !Number.isFinite(value)) {
+      stats.invalid++;
+      return;
+    }
+    // Samples also appear inside their Correlation element; pairing by time and source
+    // makes the repeats overwrite each other
+    const key = `${attributes.startDate}|${attributes.sourceName}`;
+    const reading = bloodPressure.get(key) || { start };
+    reading[part] = Math.round(value);
+    bloodPressure.set(key, reading);
+  }
+
+  function addSleep(attributes) {
+    const start = parseAppleDate(attributes.startDate);
+    const end = parseAppleDate(attributes.endDate);
+    const asleep = ASLEEP_VALUES.includes(attributes.value);
+    if (!start || !end || end.date < start.date) {
+      stats.invalid++;
+      return;
+    }
+    if (!asleep && attributes.value !== IN_BED_VALUE) {
+      return;
+    }
+    // A night belongs to the day it ends on
+    const hours = (end.date - start.date) / 3600000;
+    const night = nights.get(end.day) || { end, asleep: new Map(), inBed: new Map() };
+    const bySource = asleep ? night.asleep : night.inBed;
+    bySource.set(attributes.sourceName, (bySource.get(attributes.sourceName) || 0) + hours);
+    nights.set(end.day, night);
+  }
+
+  const largest = (bySource) => Math.max(0, ...bySource.values());
+
+  return {
+    stats,
+
+    addRecord(attributes) {
+      stats.records++;
+      const definition = QUANTITY_TYPES[attributes.type];
+      if (definition) {
+        addQuantity(definition, attributes);
+      } else if (BLOOD_PRESSURE_TYPES[attributes.type]) {
+        addBloodPressure(BLOOD_PRESSURE_TYPES[attributes.type], attributes);
+      } else if (attributes.type === SLEEP_TYPE) {
+        addSleep(attributes);
+      } else {
+        stats.unsupported++;
+      }
+    },
+
+    // Validated metrics in entered form, each reading once
+    finish() {
+      const collected = [...metrics];
+
+      dailyTotals.forEach(({ definition, start, bySource }) => {
+        collected.push({
+          type: definition.type,
+          value: Math.round(largest(bySource) * 100) / 100,
+          unit: definition.unit,
+          timestamp: localNoon(start),
+          notes: 'Daily total from Apple Health'
+        });
+      });
+
+      dailyAverages.forEach(({ definition, start, total, count }) => {
+        collected.push({
+          type: definition.type,
+          value: Math.round(total / count),
+          unit: definition.unit,
+          timestamp: localNoon(start),
+          notes: `Daily average of ${count} readings from Apple Health`
+        });
+      });
+
+      bloodPressure.forEach(({ start, systolic, diastolic }) => {
+        if (systolic === undefined || diastolic === undefined) {
+          stats.invalid++;
+          return;
+        }
+        collected.push({ type: 'blood_pressure', value: { systolic, diastolic }, unit: 'mmHg', timestamp: start.date });
+      });
+
+      nights.forEach(({ end, asleep, inBed }) => {
+        const hours = largest(asleep) || largest(inBed);
+        collected.push({
+          type: 'sleep_hours',
+          value: Math.round(hours * 100) / 100,
+          unit: 'hours',
+          timestamp: localNoon(end),
+          notes: asleep.size > 0 ? 'Time asleep from Apple Health' : 'Time in bed from Apple Health'
+        });
+      });
+
+      const seen = new Set();
+      return collected.reduce((valid, metric) => {
+        const { error, value } = importedMetricSchema.validate(metric);
+        if (error) {
+          stats.invalid++;
+        } else if (!seen.has(metricKey(value))) {
+          seen.add(metricKey(value));
+          valid.push(value);
+        }
+        return valid;
+      }, []);
+    }
+  };
+}
+
+// Reads an Apple Health export.xml stream chunk by chunk and returns the metrics it holds.
+// The file is never held whole, but the readings are: memory grows with one reading a day
+// for DAILY_TYPES and with every sample of the rest, such as weight and blood pressure.
+// onProgress is called after each chunk with the bytes and records read so far.
+async function readAppleHealthExport(stream, { onProgress = () => {}, maxBytes = Infinity } = {}) {
+  const collector = createAppleHealthCollector();
+  let sawHealthData = false;
+  const scanner = createTagScanner(['HealthData', 'Record'], (name, attributes) => {
+    if (name === 'HealthData') {
+      sawHealthData = true;
+    } else {
+      collector.addRecord(attributes);
+    }
+  });
+  const decoder = new StringDecoder('utf8');
+  let bytesRead = 0;
+
+  for await (const chunk of stream) {
+    bytesRead += chunk.length;
+    if (bytesRead > maxBytes) {
+      throw new Error('Export is larger than the import size limit');
+    }
+    scanner.write(decoder.write(chunk));
+    onProgress({ bytesRead, records: collector.stats.records });
+  }
+  scanner.write(decoder.end());
+
+  if (!sawHealthData) {
+    throw new Error('This does not look like an Apple Health export.xml file');
+  }
+
+  const metrics = collector.finish();
+  return { metrics, stats: { ...collector.stats, bytesRead } };
+}
+
+module.exports = {
+  QUANTITY_TYPES,
+  DAILY_TYPES,
+  metricKey,
+  createTagScanner,
+  readAppleHealthExport
+};
@@ -0,0 +1,192 @@
+const { createHealthMetricSchema } = require('../metrics');
+const { BUILT_IN_METRIC_DEFINITIONS, findMetricDefinition } = require('../metricDefinitions');
+const { getCanonicalUnit } = require('../units');
+
+const MAPPABLE_FIELDS = ['type', 'value', 'unit', 'timestamp', 'notes'];
+
+// Header names recognised when suggesting a column mapping
+const HEADER_SYNONYMS = {
+  type: ['type', 'metric', 'measurement', 'metric type'],
+  value: ['value', 'reading', 'amount', 'result'],
+  unit: ['unit', 'units'],
+  timestamp: ['timestamp', 'date', 'time', 'datetime', 'date time', 'measured at', 'measured_at'],
+  notes: ['notes', 'note', 'comment', 'comments']
+};
+
+// Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+// Returns { line, cells } per row, where line is the 1-based line the row starts on.
+// Rows with only empty cells are skipped.
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push({ line: rowLine, cells: row });
+    }
+    row = [];
+    field = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function suggestMapping(columns) {
+  const mapping = {};
+  MAPPABLE_FIELDS.forEach(field => {
+    const column = columns.find(name => HEADER_SYNONYMS[field].includes(name.trim().toLowerCase()));
+    if (column !== undefined) mapping[field] = column;
+  });
+  return mapping;
+}
+
+// "Blood Pressure" and "blood-pressure" both mean blood_pressure
+function normalizeType(type, definitions) {
+  const normalized = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return findMetricDefinition(definitions, normalized) ? normalized : type.trim();
+}
+
+function toMetricValue(definition, raw) {
+  const trimmed = raw.trim();
+  // Unknown types are left for the schema to reject
+  if (!definition || definition.valueKind === 'enum' || definition.valueKind === 'text') {
+    return trimmed;
+  }
+  if (definition.valueKind === 'pair' && definition.key !== 'blood_pressure') {
+    // "30/28" in the order of the definition's parts
+    const numbers = trimmed.split('/').map(part => Number(part.trim()));
+    if (numbers.length === 2 && numbers.every(number => !isNaN(number))) {
+      return Object.fromEntries(definition.parts.map((part, index) => [part.key, numbers[index]]));
+    }
+    return trimmed;
+  }
+  if (definition.key === 'blood_pressure') {
+    // "120/80" or "120/80/72"; anything else is left for the schema to reject
+    const parts = trimmed.split('/').map(part => Number(part.trim()));
+    if ((parts.length === 2 || parts.length === 3) && parts.every(part => !isNaN(part))) {
+      const [systolic, diastolic, pulse] = parts;
+      return pulse === undefined ? { systolic, diastolic } : { systolic, diastolic, pulse };
+    }
+    return trimmed;
+  }
+  return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+}
+
+// Builds the metric for one CSV row from the column mapping and per-field defaults
+function mapRow(columns, cells, mapping, defaults, definitions) {
+  const cell = (field) => {
+    const index = mapping[field] === undefined ? -1 : columns.indexOf(mapping[field]);
+    return index === -1 ? '' : (cells[index] || '').trim();
+  };
+
+  const type = normalizeType(cell('type') || defaults.type || '', definitions);
+  const definition = findMetricDefinition(definitions, type);
+  const metric = {
+    type,
+    value: toMetricValue(definition, cell('value')),
+    unit: cell('unit') || defaults.unit || getCanonicalUnit(type) || (definition ? definition.unit : '')
+  };
+
+  if (cell('timestamp')) metric.timestamp = cell('timestamp');
+  if (cell('notes')) metric.notes = cell('notes');
+
+  return metric;
+}
+
+// Validates every data row against the health metric schema. Rows report the line
+// they start on (the header is line 1) so errors can be found in the sheet.
+function previewCsvImport(text, { mapping, defaults = {}, definitions = BUILT_IN_METRIC_DEFINITIONS } = {}) {
+  const [header, ...dataRows] = parseCsv(text);
+  const columns = header ? header.cells.map(column => column.trim()) : [];
+  const resolvedMapping = mapping || suggestMapping(columns);
+  const mappingErrors = [];
+
+  Object.entries(resolvedMapping).forEach(([field, column]) => {
+    if (!columns.includes(column)) {
+      mappingErrors.push(`Column "${column}" mapped to ${field} was not found`);
+    }
+  });
+  if (resolvedMapping.type === undefined && !defaults.type) {
+    mappingErrors.push('Map a column to type or choose a default type');
+  }
+  if (resolvedMapping.value === undefined) {
+    mappingErrors.push('Map a column to value');
+  }
+  if (resolvedMapping.timestamp === undefined) {
+    mappingErrors.push('Map a column to timestamp');
+  }
+
+  const schema = createHealthMetricSchema(definitions, { imported: true });
+  const rows = mappingErrors.length > 0 ? [] : dataRows.map(({ line, cells }) => {
+    const metric = mapRow(columns, cells, resolvedMapping, defaults, definitions);
+    const { error, value } = schema.validate(metric, { abortEarly: false });
+    return {
+      line,
+      metric: error ? metric : value,
+      errors: error ? error.details.map(detail => detail.message) : []
+    };
+  });
+
+  const invalid = rows.filter(row => row.errors.length > 0).length;
+
+  return {
+    columns,
+    mapping: resolvedMapping,
+    defaults,
+    mappingErrors,
+    rows,
+    summary: {
+      total: rows.length,
+      valid: rows.length - invalid,
+      invalid
+    }
+  };
+}
+
+module.exports = {
+  MAPPABLE_FIELDS,
+  parseCsv,
+  suggestMapping,
+  previewCsvImport
+};
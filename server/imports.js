@@ -0,0 +1,299 @@
+const express = require('express');
+const Joi = require('joi');
+const { v4: uuidv4 } = require('uuid');
+const { toStoredMetric } = require('./metrics');
+const { getMetricDefinitions } = require('./metricDefinitions');
+const { createAnomalyDetector } = require('./anomalies');
+const { runSaveHooks } = require('./metricHooks');
+const { MAPPABLE_FIELDS, previewCsvImport } = require('./importers/csv');
+const { DAILY_TYPES, metricKey, readAppleHealthExport } = require('./importers/appleHealth');
+
+// Spreadsheets hold years of readings, so imports get a larger body limit than other routes
+const IMPORT_BODY_LIMIT = '5mb';
+const MAX_IMPORT_ROWS = 10000;
+// Apple Health exports are streamed rather than buffered, so they may be far larger
+const MAX_APPLE_HEALTH_BYTES = 2 * 1024 * 1024 * 1024;
+// Apple Health import jobs are forgotten this long after they finish, or after they
+// were created if nothing was ever uploaded
+const IMPORT_JOB_TTL_MS = 60 * 60 * 1000;
+
+const csvImportSchema = Joi.object({
+  csv: Joi.string().required(),
+  // Maps metric fields to CSV column headers; suggested from the headers when omitted
+  mapping: Joi.object(Object.fromEntries(
+    MAPPABLE_FIELDS.map(field => [field, Joi.string()])
+  )).optional(),
+  // Used when no column is mapped for the field, e.g. a sheet of weights only
+  defaults: Joi.object({
+    type: Joi.string(),
+    unit: Joi.string()
+  }).default({})
+});
+
+// Rows may be of any metric the user has defined
+function buildPreview(value, definitions) {
+  const preview = previewCsvImport(value.csv, { ...value, definitions });
+  if (preview.summary.total > MAX_IMPORT_ROWS) {
+    throw new Error(`CSV has ${preview.summary.total} rows; the limit is ${MAX_IMPORT_ROWS} per import`);
+  }
+  return preview;
+}
+
+function createImportJob(userId) {
+  return {
+    id: uuidv4(),
+    userId,
+    status: 'waiting',
+    bytesRead: 0,
+    totalBytes: null,
+    records: 0,
+    imported: 0,
+    updated: 0,
+    duplicates: 0,
+    unsupported: 0,
+    invalid: 0,
+    flagged: 0,
+    error: null,
+    createdAt: new Date(),
+    finishedAt: null
+  };
+}
+
+const toPublicJob = ({ userId, ...job }) => job;
+
+function createImportRouter(storage) {
+  const router = express.Router();
+  // Apple Health import progress by job id; kept in memory while clients poll it
+  const importJobs = new Map();
+
+  const findJob = (req) => {
+    const job = importJobs.get(req.params.id);
+    return job && job.userId === req.user.id ? job : null;
+  };
+
+  const forgetFinishedJobs = () => {
+    const cutoff = Date.now() - IMPORT_JOB_TTL_MS;
+    importJobs.forEach((job, id) => {
+      const lastChange = job.finishedAt || (job.status === 'waiting' ? job.createdAt : null);
+      if (lastChange && lastChange.getTime() < cutoff) importJobs.delete(id);
+    });
+  };
+
+  const loadDefinitions = async (req, res) => {
+    try {
+      return await getMetricDefinitions(storage, req.user.id);
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+      return null;
+    }
+  };
+
+  // Parse and validate without saving anything
+  router.post('/csv/preview', async (req, res) => {
+    const { error, value } = csvImportSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const definitions = await loadDefinitions(req, res);
+    if (!definitions) return;
+
+    try {
+      res.json(buildPreview(value, definitions));
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Save every row, or none if any row is invalid
+  router.post('/csv', async (req, res) => {
+    const { error, value } = csvImportSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const definitions = await loadDefinitions(req, res);
+    if (!definitions) return;
+
+    let preview;
+    try {
+      preview = buildPreview(value, definitions);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (preview.mappingErrors.length > 0 || preview.summary.invalid > 0 || preview.summary.total === 0) {
+      return res.status(400).json({
+        error: preview.summary.total === 0 && preview.mappingErrors.length === 0
+          ? 'CSV has no rows to import'
+          : 'Fix the errors in the preview before importing',
+        preview
+      });
+    }
+
+    try {
+      const importId = uuidv4();
+      const importedAt = new Date();
+      const detectAnomaly = createAnomalyDetector(await storage.listMetrics(req.user.id), definitions);
+      const metrics = preview.rows.map(row => {
+        const stored = toStoredMetric(row.metric, req.user.preferences.profile);
+        return {
+          id: uuidv4(),
+          ...stored,
+          anomaly: detectAnomaly(stored),
+          source: 'csv',
+          importId,
+          createdAt: importedAt
+        };
+      });
+
+      await storage.addMetrics(req.user.id, metrics);
+      await runSaveHooks(storage, req.user.id, metrics.map(metric => metric.type));
+
+      // Unusual readings are saved, flagged with their anomaly as a confirmed one is, and
+      // listed by line so they can be reviewed
+      const flagged = metrics.flatMap((metric, index) => metric.anomaly
+        ? [{ line: preview.rows[index].line, id: metric.id, reasons: metric.anomaly.reasons }]
+        : []);
+      res.status(201).json({
+        message: `Imported ${metrics.length} health metrics${flagged.length > 0 ? `; ${flagged.length} look unusual and are flagged for review` : ''}`,
+        importId,
+        count: metrics.length,
+        flagged
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Start an Apple Health import; the export is then uploaded to the job and its
+  // progress can be polled while the upload is processed
+  router.post('/apple-health', (req, res) => {
+    forgetFinishedJobs();
+    const job = createImportJob(req.user.id);
+    importJobs.set(job.id, job);
+    res.status(201).json(toPublicJob(job));
+  });
+
+  router.get('/apple-health/:id', (req, res) => {
+    const job = findJob(req);
+    if (!job) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    res.json(toPublicJob(job));
+  });
+
+  // Stream an export.xml as the raw request body. Readings already stored are skipped,
+  // except daily readings from an earlier import whose day has since changed, which are
+  // updated. The rest are saved in one write once the whole file has been read, unusual
+  // ones flagged with their anomaly and counted in `flagged`.
+  router.put('/apple-health/:id', async (req, res) => {
+    const job = findJob(req);
+    if (!job) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    if (job.status !== 'waiting') {
+      return res.status(409).json({ error: 'This import has already been started' });
+    }
+    if (!req.is(['*/xml', 'application/octet-stream'])) {
+      return res.status(415).json({ error: 'Upload the export.xml file as an XML request body' });
+    }
+
+    const totalBytes = Number(req.get('content-length')) || null;
+    if (totalBytes > MAX_APPLE_HEALTH_BYTES) {
+      return res.status(413).json({ error: 'Export is larger than the 2 GB import limit' });
+    }
+
+    job.status = 'reading';
+    job.totalBytes = totalBytes;
+
+    let result;
+    try {
+      result = await readAppleHealthExport(req, {
+        maxBytes: MAX_APPLE_HEALTH_BYTES,
+        onProgress: ({ bytesRead, records }) => {
+          job.bytesRead = bytesRead;
+          job.records = records;
+        }
+      });
+    } catch (error) {
+      Object.assign(job, { status: 'failed', error: error.message, finishedAt: new Date() });
+      // Nobody is listening when the upload was cancelled
+      if (!req.aborted) {
+        res.status(400).json(toPublicJob(job));
+      }
+      return;
+    }
+
+    const { metrics, stats } = result;
+    Object.assign(job, {
+      status: 'saving',
+      bytesRead: stats.bytesRead,
+      records: stats.records,
+      unsupported: stats.unsupported,
+      invalid: stats.invalid
+    });
+
+    try {
+      const history = await storage.listMetrics(req.user.id);
+      const existing = new Map(history.map(record => [metricKey(record), record]));
+      const detectAnomaly = createAnomalyDetector(history, await getMetricDefinitions(storage, req.user.id));
+      const importedAt = new Date();
+      const newMetrics = [];
+      const updatedMetrics = [];
+      metrics.forEach(metric => {
+        const stored = toStoredMetric(metric, req.user.preferences.profile);
+        const previous = existing.get(metricKey(metric));
+        if (!previous) {
+          newMetrics.push({
+            id: uuidv4(),
+            ...stored,
+            anomaly: detectAnomaly(stored),
+            source: 'apple_health',
+            importId: job.id,
+            createdAt: importedAt
+          });
+        } else if (previous.source === 'apple_health' && DAILY_TYPES.includes(metric.type) && previous.value !== stored.value) {
+          // The day was still going when it was last imported; its reading is replaced,
+          // not added to, so the day is not counted twice
+          updatedMetrics.push({ ...previous, ...stored, anomaly: detectAnomaly(stored), importId: job.id, updatedAt: importedAt });
+        }
+      });
+
+      if (newMetrics.length > 0) {
+        await storage.addMetrics(req.user.id, newMetrics);
+      }
+      if (updatedMetrics.length > 0) {
+        await storage.updateMetrics(req.user.id, updatedMetrics);
+      }
+      const saved = [...newMetrics, ...updatedMetrics];
+      if (saved.length > 0) {
+        await runSaveHooks(storage, req.user.id, saved.map(metric => metric.type));
+      }
+
+      Object.assign(job, {
+        status: 'completed',
+        imported: newMetrics.length,
+        updated: updatedMetrics.length,
+        flagged: saved.filter(metric => metric.anomaly).length,
+        duplicates: metrics.length - saved.length,
+        finishedAt: new Date()
+      });
+      res.json(toPublicJob(job));
+    } catch (error) {
+      console.error('Server error:', error);
+      Object.assign(job, { status: 'failed', error: 'Internal server error', finishedAt: new Date() });
+      res.status(500).json(toPublicJob(job));
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  IMPORT_BODY_LIMIT,
+  MAX_IMPORT_ROWS,
+  createImportRouter
+};
@@ -3,11 +3,33 @@ const cors = require('cors');
 const helmet = require('helmet');
 const morgan = require('morgan');
 const dotenv = require('dotenv');
-const { v4: uuidv4 } = require('uuid');
-const Joi = require('joi');
 
+// Before the modules below, so settings they read from .env are there
 dotenv.config();
 
+const { v4: uuidv4 } = require('uuid');
+const Joi = require('joi');
+const { createStorage } = require('./storage');
+const { createAuthMiddleware, createAuthRouter } = require('./auth');
+const { formatBloodPressure } = require('./bloodPressure');
+const { formatMetric } = require('./units');
+const { createHealthMetricSchema, toStoredMetric } = require('./metrics');
+const { BUILT_IN_METRIC_DEFINITIONS, getMetricDefinitions, findMetricDefinition, createMetricDefinitionRouter } = require('./metricDefinitions');
+const { IMPORT_BODY_LIMIT, createImportRouter } = require('./imports');
+const { isErroneous, sortByMeasurementTime, summarizeSeries, generateHealthInsights } = require('./insights');
+const { createExportRouter } = require('./exports');
+const { createAggregateRouter } = require('./aggregates');
+const { getDailySeries, findCorrelations, getCorrelationRecommendations, createCorrelationRouter } = require('./correlations');
+const { FHIR_CONTENT_TYPE, createFhirRouter } = require('./fhir');
+const { startAlertScheduler, createAlertRouter } = require('./alerts');
+const { withGoalProgress, createGoalRouter } = require('./goals');
+const { startReminderScheduler, createReminderRouter } = require('./reminders');
+const { runSaveHooks } = require('./metricHooks');
+const { detectAnomaly } = require('./anomalies');
+const { createIntentRegistry } = require('./chatIntents');
+const { isCancellation, createPendingState, isExpired, fillLogSlots } = require('./conversationState');
+const { isTimeZone } = require('./timeZones');
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
@@ -18,36 +40,48 @@ origin: 'http://localhost:3000', // Your React app URL
   methods: ['GET', 'POST', 'PUT', 'DELETE'],
   credentials: true // if you send cookies or auth headers
 }));
+// Imports carry whole spreadsheets or FHIR Bundles; their parsers must run before the default one
+app.use('/api/health/import', express.json({ limit: IMPORT_BODY_LIMIT }));
+app.use('/api/fhir', express.json({ limit: IMPORT_BODY_LIMIT, type: ['application/json', FHIR_CONTENT_TYPE] }));
 app.use(express.json());
 app.use(morgan('combined'));
 
-// In-memory storage for demo (in production, use a database)
-let healthData = new Map();
-let conversations = new Map();
-
-// Health data validation schema
-const healthMetricSchema = Joi.object({
-  type: Joi.string().valid(
-    'weight', 'height', 'blood_pressure', 'heart_rate', 'blood_sugar',
-    'temperature', 'sleep_hours', 'steps', 'water_intake', 'exercise_minutes'
-  ).required(),
-  value: Joi.alternatives().try(
-    Joi.number(),
-    Joi.string(),
-    Joi.object()
-  ).required(),
-  unit: Joi.string().required(),
-  timestamp: Joi.date().default(Date.now),
-  notes: Joi.string().optional(),
-  userId: Joi.string().optional()
+// Storage driver is chosen through configuration ("file" by default, "memory" for throwaway data)
+const storage = createStorage({
+  driver: process.env.STORAGE_DRIVER,
+  filePath: process.env.STORAGE_FILE
+});
+
+const requireAuth = createAuthMiddleware(storage);
+
+// Query parameters accepted when listing health data
+const healthDataQuerySchema = Joi.object({
+  type: Joi.string().optional(),
+  from: Joi.date().optional(),
+  to: Joi.date().min(Joi.ref('from')).optional(),
+  order: Joi.string().valid('asc', 'desc').default('asc'),
+  limit: Joi.number().integer().min(1).max(500).default(100),
+  cursor: Joi.string().optional()
+});
+
+// Marks a reading as a mistake, such as 700 entered for 70, or as correct after all
+const metricReviewSchema = Joi.object({
+  erroneous: Joi.boolean().required()
 });
 
 const chatMessageSchema = Joi.object({
   message: Joi.string().required(),
   sessionId: Joi.string().optional(),
-  userId: Joi.string().optional()
+  // Where "this morning" or "last night" in a logged reading and "last week" in a question are
+  timeZone: Joi.string().custom(isTimeZone).default('UTC')
 });
 
+// How replies name the statistics a message can ask for
+const STATISTIC_LABELS = { mean: 'average', median: 'median', max: 'highest', min: 'lowest' };
+
+// A statistic in its unit, such as "72.45 kg"; metrics of the user's own may have no unit
+const formatAmount = (value, unit) => (unit ? `${Number(value.toFixed(2))} ${unit}` : String(Number(value.toFixed(2))));
+
 // Health chatbot logic
 class HealthChatbot {
   constructor() {
@@ -79,72 +113,179 @@ class HealthChatbot {
         "Regular monitoring helps you understand your body better and make informed decisions."
       ]
     };
+
+    this.intents = createIntentRegistry();
+    // Replies by intent. Readings ("log_metric") are saved and confirmed by the chat endpoint.
+    this.handlers = {
+      greeting: () => this.getRandomResponse(this.responses.greeting),
+      goal_progress: ({ metric }, { goals, definitions }) => this.generateGoalResponse(metric, goals, definitions),
+      metric_query: ({ metric }, context) => this.generateMetricResponse(metric, context),
+      metric_trend: ({ metric, period }, context) => this.generateTrendResponse(metric, period, context),
+      metric_statistic: ({ metric, statistic, period }, context) => this.generateStatisticResponse(metric, statistic, period, context),
+      last_logged: ({ metric }, context) => this.generateLastLoggedResponse(metric, context),
+      health_summary: (entities, { healthData, displayUnits, definitions }) => {
+        if (healthData.length === 0) {
+          return "You haven't recorded any health data yet. Start by logging some metrics like weight, blood pressure, or heart rate!";
+        }
+        return this.generateHealthSummary(healthData, displayUnits, definitions);
+      },
+      help: (entities, { definitions }) => `I can help you:
+• Track health metrics (${definitions.map(d => d.label.toLowerCase()).join(', ')})
+• Provide health tips and advice
+• Give you summaries of your health data
+• Answer questions about your health trends
+
+Try saying things like "weight 72.4 kg", "bp 128 over 84 this morning", "show my blood pressure", "how has my weight changed this month?" or "give me a health summary"`,
+      unknown: (entities, { message }) => `I understand you're asking about "${message}". I can help you track health metrics, provide health advice, and analyze your data. Try "weight 72.4 kg", "show blood pressure", or "give health summary". What specific health information would you like to discuss?`
+    };
   }
 
-  generateResponse(message, healthData = []) {
-    const msg = message.toLowerCase();
-    
-    // Greeting detection
-    if (msg.includes('hello') || msg.includes('hi') || msg.includes('hey')) {
-      return this.getRandomResponse(this.responses.greeting);
-    }
+  // Teaches the chatbot another intent (see chatIntents.js for how intents match) and its reply,
+  // which is given the entities found and the same context as the built-in replies
+  registerIntent(intent, handler) {
+    this.intents.register(intent);
+    this.handlers[intent.name] = handler;
+  }
 
-    // Health metric queries
-    if (msg.includes('weight')) {
-      const weightData = healthData.filter(d => d.type === 'weight');
-      if (weightData.length > 0) {
-        const latest = weightData[weightData.length - 1];
-        return `Your latest weight is ${latest.value} ${latest.unit}. ${this.responses.weight.advice}`;
-      }
-      return "I don't have any weight data recorded yet. Would you like to log your weight?";
-    }
+  // The intent of a message and the entities in it; the context holds the user's metric
+  // definitions, display units and time zone
+  classify(message, context) {
+    return this.intents.classify(message, context);
+  }
 
-    if (msg.includes('blood pressure')) {
-      const bpData = healthData.filter(d => d.type === 'blood_pressure');
-      if (bpData.length > 0) {
-        const latest = bpData[bpData.length - 1];
-        return `Your latest blood pressure is ${latest.value}. ${this.responses.blood_pressure.advice}`;
-      }
-      return "No blood pressure data found. Would you like to record your blood pressure?";
+  // Replies to a classified message. Values are rendered in the user's preferred display units and
+  // dates in their time zone; the metrics it knows about come from the user's metric definitions.
+  // Goals come with their progress.
+  generateResponse(message, { intent, entities }, healthData = [], displayUnits = {}, definitions = BUILT_IN_METRIC_DEFINITIONS, goals = [], timeZone = 'UTC') {
+    const handler = this.handlers[intent] || this.handlers.unknown;
+    return handler(entities, { message, healthData, displayUnits, definitions, goals, timeZone });
+  }
+
+  // The latest reading of a metric, with advice for the metrics there is some for
+  generateMetricResponse(metric, { healthData, displayUnits, definitions }) {
+    const definition = findMetricDefinition(definitions, metric);
+    const name = definition.label.toLowerCase();
+    const records = healthData.filter(d => d.type === definition.key && !isErroneous(d));
+    if (records.length > 0) {
+      const latest = records[records.length - 1];
+      const advice = Object.hasOwn(this.responses, definition.key) ? ` ${this.responses[definition.key].advice}` : '';
+      return `Your latest ${name} is ${this.formatLatest(latest, displayUnits)}.${advice}`;
     }
+    return this.generateNoDataResponse(name);
+  }
 
-    if (msg.includes('heart rate')) {
-      const hrData = healthData.filter(d => d.type === 'heart_rate');
-      if (hrData.length > 0) {
-        const latest = hrData[hrData.length - 1];
-        return `Your latest heart rate is ${latest.value} ${latest.unit}. ${this.responses.heart_rate.advice}`;
-      }
-      return "No heart rate data recorded. Would you like to log your heart rate?";
+  generateNoDataResponse(name) {
+    return `I don't have any ${name} data recorded yet. Would you like to log your ${name}?`;
+  }
+
+  // Readings of a metric taken in a period, or all of them without one, and the statistics of
+  // each of their numbers as the dashboard insights compute them. `part` names the number of a
+  // pair, such as "systolic".
+  summarizePeriod(definition, period, { healthData, displayUnits }) {
+    const records = healthData.filter(record => record.type === definition.key && !isErroneous(record) && (!period || (
+      new Date(record.timestamp) >= new Date(period.start) && new Date(record.timestamp) < new Date(period.end)
+    )));
+    const series = Object.entries(summarizeSeries(definition.key, records, displayUnits)).map(([seriesKey, summary]) => {
+      const part = (definition.parts || []).find(({ key }) => seriesKey === `${definition.key}_${key}`);
+      return { part: part ? part.label.toLowerCase() : null, summary };
+    });
+    return { records, series };
+  }
+
+  // How a metric changed over a period ("this month"), from the slope of its readings
+  generateTrendResponse(metric, period, context) {
+    const definition = findMetricDefinition(context.definitions, metric);
+    const name = definition.label.toLowerCase();
+    const when = period ? ` ${period.label}` : ' so far';
+    const { records, series } = this.summarizePeriod(definition, period, context);
+
+    if (records.length === 0) {
+      return period ? `I don't have any ${name} readings${when}.` : this.generateNoDataResponse(name);
+    }
+    if (series.length === 0) {
+      return `Your ${name} readings aren't numbers, so they have no trend to describe.`;
+    }
+    if (records.length === 1) {
+      return `I only have one ${name} reading${when} (${this.formatLatest(records[0], context.displayUnits)}), so there's no trend yet.`;
     }
 
-    if (msg.includes('summary') || msg.includes('overview')) {
-      if (healthData.length === 0) {
-        return "You haven't recorded any health data yet. Start by logging some metrics like weight, blood pressure, or heart rate!";
+    return series.map(({ part, summary }) => {
+      const amount = (value) => formatAmount(value, summary.unit);
+      const subject = part ? `${part} ${name}` : name;
+      const spread = `across ${summary.recordCount} readings averaging ${amount(summary.mean)} (${amount(summary.min)} to ${amount(summary.max)})`;
+      if (summary.direction === 'stable') {
+        return `Your ${subject} held steady${when}, ${spread}.`;
       }
-      
-      const summary = this.generateHealthSummary(healthData);
-      return summary;
+
+      const percent = summary.percentChange === null ? '' : ` (${Math.abs(summary.percentChange)}%)`;
+      const significance = summary.significant ? "That's a significant trend." : 'It is not significant yet, so it could be chance.';
+      return `Your ${subject} went ${summary.direction === 'increase' ? 'up' : 'down'} by ${amount(Math.abs(summary.change))}${percent}${when}, `
+        + `about ${amount(Math.abs(summary.slopePerWeek))} a week, ${spread}. ${significance}`;
+    }).join('\n');
+  }
+
+  // The average, median, highest or lowest reading of a metric over a period
+  generateStatisticResponse(metric, statistic, period, context) {
+    const definition = findMetricDefinition(context.definitions, metric);
+    const name = definition.label.toLowerCase();
+    const { records, series } = this.summarizePeriod(definition, period, context);
+
+    if (records.length === 0) {
+      return period ? `I don't have any ${name} readings ${period.label}.` : this.generateNoDataResponse(name);
+    }
+    if (series.length === 0) {
+      return `Your ${name} readings aren't numbers, so they have no ${STATISTIC_LABELS[statistic]}.`;
     }
 
-    // Help and instructions
-    if (msg.includes('help') || msg.includes('what can you do')) {
-      return `I can help you:
-• Track health metrics (weight, blood pressure, heart rate, blood sugar, etc.)
-• Provide health tips and advice
-• Give you summaries of your health data
-• Answer questions about your health trends
+    const values = series
+      .map(({ part, summary }) => `${formatAmount(summary[statistic], summary.unit)}${part ? ` ${part}` : ''}`)
+      .join(' and ');
+    const count = `${records.length} reading${records.length === 1 ? '' : 's'}`;
+    return period
+      ? `Your ${STATISTIC_LABELS[statistic]} ${name} ${period.label} was ${values}, from ${count}.`
+      : `Your ${STATISTIC_LABELS[statistic]} ${name} is ${values}, from ${count}.`;
+  }
 
-Try saying things like "log my weight" or "show my blood pressure" or "give me a health summary"`;
+  // When the latest reading of a metric was taken, where the user is
+  generateLastLoggedResponse(metric, { healthData, displayUnits, definitions, timeZone }) {
+    const definition = findMetricDefinition(definitions, metric);
+    const name = definition.label.toLowerCase();
+    const records = healthData.filter(record => record.type === definition.key && !isErroneous(record));
+    if (records.length === 0) {
+      return this.generateNoDataResponse(name);
     }
 
-    // Default response
-    return `I understand you're asking about "${message}". I can help you track health metrics, provide health advice, and analyze your data. Try asking me to "log weight", "show blood pressure", or "give health summary". What specific health information would you like to discuss?`;
+    const latest = records[records.length - 1];
+    return `You last logged your ${name} on ${this.formatTakenAt(latest.timestamp, timeZone)}: ${this.formatLatest(latest, displayUnits)}.`;
+  }
+
+  // Confirms a reading logged from chat, with when it was taken where the user is
+  generateLogResponse(healthMetric, definitions, displayUnits = {}, timeZone = 'UTC') {
+    const definition = findMetricDefinition(definitions, healthMetric.type);
+    const takenAt = this.formatTakenAt(healthMetric.timestamp, timeZone);
+    return `✅ Logged your ${definition.label.toLowerCase()}: ${this.formatLatest(healthMetric, displayUnits)}, taken ${takenAt}.`;
+  }
+
+  // Acknowledges that the question the chatbot was waiting on an answer to is dropped
+  generateCancelResponse({ slots }, definitions) {
+    const definition = slots.metric ? findMetricDefinition(definitions, slots.metric) : null;
+    return definition ? `OK, I won't log your ${definition.label.toLowerCase()}.` : "OK, never mind.";
+  }
+
+  // Explains why a reading reported in chat was not saved
+  generateLogErrorResponse(metric, definitions, { error, anomaly }) {
+    const definition = findMetricDefinition(definitions, metric.type);
+    const name = definition.label.toLowerCase();
+    if (anomaly) {
+      return `That ${name} reading looks unusual: ${anomaly.reasons.join('; ')}. I haven't saved it. If it's right, add it on the Add Metric page, where you can confirm it.`;
+    }
+    return `I couldn't log that ${name} reading: ${error}.`;
   }
 
-  generateHealthSummary(healthData) {
+  generateHealthSummary(healthData, displayUnits = {}, definitions = BUILT_IN_METRIC_DEFINITIONS) {
     const typeGroups = {};
-    healthData.forEach(data => {
-      if (!typeGroups[data.type]) {
+    healthData.filter(data => !isErroneous(data)).forEach(data => {
+      if (!Object.hasOwn(typeGroups, data.type)) {
         typeGroups[data.type] = [];
       }
       typeGroups[data.type].push(data);
@@ -157,7 +298,10 @@ Try saying things like "log my weight" or "show my blood pressure" or "give me a
       const latest = data[data.length - 1];
       const count = data.length;
       
-      summary += `• **${type.replace('_', ' ').toUpperCase()}**: ${latest.value} ${latest.unit} (${count} recordings)\n`;
+      const definition = findMetricDefinition(definitions, type);
+      const label = definition ? definition.label : type.replace('_', ' ');
+      
+      summary += `• **${label.toUpperCase()}**: ${this.formatLatest(latest, displayUnits)} (${count} recordings)\n`;
     });
 
     summary += `\n💡 Keep up the great work tracking your health! Regular monitoring helps you stay on top of your wellness goals.`;
@@ -165,6 +309,60 @@ Try saying things like "log my weight" or "show my blood pressure" or "give me a
     return summary;
   }
 
+  // Progress of the goals of the metric mentioned, or of every goal when none is
+  generateGoalResponse(metric, goals, definitions) {
+    if (goals.length === 0) {
+      return "You haven't set any goals yet. Set a daily, weekly or by-date goal on the Home page and I'll tell you how you're doing.";
+    }
+    if (!metric) {
+      return goals.map(goal => this.formatGoalProgress(goal)).join('\n');
+    }
+
+    const mentioned = goals.filter(goal => goal.type === metric);
+    if (mentioned.length === 0) {
+      return `You don't have a ${findMetricDefinition(definitions, metric).label.toLowerCase()} goal yet. You can set one on the Home page.`;
+    }
+    return mentioned.map(goal => this.formatGoalProgress(goal)).join('\n');
+  }
+
+  formatGoalProgress(goal) {
+    const { progress } = goal;
+    const amount = (value) => `${value} ${goal.unit}`.trim();
+
+    if (goal.period === 'by_date') {
+      if (progress.current === null) {
+        return `${goal.description}. Log a reading to start tracking your progress.`;
+      }
+      const status = progress.achieved
+        ? 'goal reached! 🎉'
+        : `${progress.percent}% of the way from ${amount(progress.startValue)}, ${amount(progress.remaining)} to go.`;
+      return `${goal.description}. You're at ${amount(progress.current)}: ${status}`;
+    }
+
+    const when = goal.period === 'daily' ? 'Today' : 'This week';
+    const status = progress.achieved ? 'goal reached! 🎉' : `${amount(progress.remaining)} to go.`;
+    return `${goal.description}. ${when} you're at ${amount(progress.current)} (${progress.percent}%): ${status}`;
+  }
+
+  // Readings with a reference range also name the range they fall in, e.g. "165/105 mmHg (Stage 2 hypertension)"
+  formatLatest(record, displayUnits) {
+    const formatted = record.type === 'blood_pressure'
+      ? formatBloodPressure(record.value)
+      : formatMetric(record, displayUnits);
+    return record.classification ? `${formatted} (${record.classification.label})` : formatted;
+  }
+
+  // When a reading was taken in a time zone, e.g. "19 Oct, 16:53"
+  formatTakenAt(timestamp, timeZone = 'UTC') {
+    return new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(timestamp));
+  }
+
   getRandomResponse(responses) {
     return responses[Math.floor(Math.random() * responses.length)];
   }
@@ -177,39 +375,113 @@ app.get('/api/health', (req, res) => {
   res.json({ message: 'Health Measures Chatbot API is running!' });
 });
 
-// Get all health data for a user
-app.get('/api/health/data/:userId?', (req, res) => {
-  const userId = req.params.userId || 'default';
-  const userData = healthData.get(userId) || [];
-  res.json(userData);
+app.use('/api/auth', createAuthRouter(storage, requireAuth));
+
+app.use('/api/health/import', requireAuth, createImportRouter(storage));
+
+app.use('/api/health/export', requireAuth, createExportRouter(storage));
+
+app.use('/api/health/aggregates', requireAuth, createAggregateRouter(storage));
+
+app.use('/api/health/correlations', requireAuth, createCorrelationRouter(storage));
+
+app.use('/api/fhir', requireAuth, createFhirRouter(storage));
+
+app.use('/api/metric-definitions', requireAuth, createMetricDefinitionRouter(storage));
+
+app.use('/api/alerts', requireAuth, createAlertRouter(storage));
+
+app.use('/api/goals', requireAuth, createGoalRouter(storage));
+
+app.use('/api/reminders', requireAuth, createReminderRouter(storage));
+
+// Conversations are scoped to their owner so session ids cannot be shared across users
+const conversationKey = (userId, sessionId) => `${userId}:${sessionId}`;
+
+// Saves a validated health metric for the user, then checks alerts and clears the reminders to
+// log it. A reading that looks unusual is only saved once confirmed; until then { anomaly } is
+// returned instead of { healthMetric }.
+async function recordHealthMetric(user, value, definitions) {
+  const { confirmed, ...metric } = value;
+  const stored = toStoredMetric(metric, user.preferences.profile);
+  const anomaly = detectAnomaly(stored, await storage.listMetrics(user.id), findMetricDefinition(definitions, stored.type));
+  if (anomaly && !confirmed) {
+    return { anomaly };
+  }
+
+  const healthMetric = {
+    id: uuidv4(),
+    ...stored,
+    anomaly,
+    createdAt: new Date()
+  };
+
+  await storage.addMetric(user.id, healthMetric);
+  console.log('Health metric added successfully:', healthMetric);
+
+  await runSaveHooks(storage, user.id, [healthMetric.type]);
+
+  return { healthMetric };
+}
+
+// Validates and saves a reading given in chat, replying with what was recorded or why it was not.
+// A reading that fails validation is asked for again through the returned pending state.
+async function logChatReading(user, reading, definitions, timeZone) {
+  const { error, value } = createHealthMetricSchema(definitions).validate(reading);
+  const recorded = error ? { error: error.details[0].message } : await recordHealthMetric(user, value, definitions);
+  if (recorded.healthMetric) {
+    return {
+      response: chatbot.generateLogResponse(recorded.healthMetric, definitions, user.preferences.displayUnits, timeZone),
+      recordedMetric: recorded.healthMetric,
+      pending: null
+    };
+  }
+
+  const response = chatbot.generateLogErrorResponse(reading, definitions, recorded);
+  if (recorded.anomaly) {
+    return { response, recordedMetric: null, pending: null };
+  }
+  const pending = createPendingState('log_metric', { metric: reading.type }, 'reading', definitions);
+  return { response: `${response} ${pending.prompt}`, recordedMetric: null, pending };
+}
+
+// Get the authenticated user's health data, filtered and paginated
+app.get('/api/health/data', requireAuth, async (req, res) => {
+  const { error, value } = healthDataQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ error: error.details[0].message });
+  }
+
+  try {
+    const userData = await storage.listMetrics(req.user.id);
+    res.json(queryHealthData(userData, value));
+  } catch (error) {
+    if (error.message === 'Invalid cursor') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 // Add health metric
-app.post('/api/health/data', (req, res) => {
+app.post('/api/health/data', requireAuth, async (req, res) => {
   try {
     console.log('Received health metric request:', req.body);
-    const { error, value } = healthMetricSchema.validate(req.body);
+    const definitions = await getMetricDefinitions(storage, req.user.id);
+    const { error, value } = createHealthMetricSchema(definitions).validate(req.body);
     if (error) {
       console.log('Validation error:', error.details[0].message);
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const { userId = 'default' } = value;
-    console.log('Processing for userId:', userId);
-    
-    const healthMetric = {
-      id: uuidv4(),
-      ...value,
-      timestamp: new Date()
-    };
+    console.log('Processing for userId:', req.user.id);
 
-    if (!healthData.has(userId)) {
-      healthData.set(userId, []);
+    const { anomaly, healthMetric } = await recordHealthMetric(req.user, value, definitions);
+    if (!healthMetric) {
+      return res.status(409).json({ error: 'This reading looks unusual. Send it again with "confirmed": true to save it.', anomaly });
     }
     
-    healthData.get(userId).push(healthMetric);
-    console.log('Health metric added successfully:', healthMetric);
-    
     res.status(201).json({
       message: 'Health metric recorded successfully',
       data: healthMetric
@@ -220,9 +492,104 @@ app.post('/api/health/data', (req, res) => {
   }
 });
 
+// Update health metric
+app.put('/api/health/data/:id', requireAuth, async (req, res) => {
+  try {
+    const definitions = await getMetricDefinitions(storage, req.user.id);
+    const { error, value } = createHealthMetricSchema(definitions).validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { id } = req.params;
+    const userId = req.user.id;
+    const existing = await storage.getMetric(userId, id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Health metric not found' });
+    }
+
+    // Keep the original measurement time unless the client supplied a new one
+    const { confirmed, ...metric } = value;
+    const timestamp = req.body.timestamp !== undefined ? metric.timestamp : existing.timestamp;
+    const stored = { id, ...toStoredMetric({ ...metric, timestamp }, req.user.preferences.profile) };
+    const anomaly = detectAnomaly(stored, await storage.listMetrics(userId), findMetricDefinition(definitions, stored.type));
+    if (anomaly && !confirmed) {
+      return res.status(409).json({ error: 'This reading looks unusual. Send it again with "confirmed": true to save it.', anomaly });
+    }
+
+    // An edited reading is judged afresh, so an earlier "erroneous" mark does not carry over.
+    // An imported one stays linked to its import.
+    const healthMetric = {
+      ...stored,
+      anomaly,
+      ...(existing.source ? { source: existing.source, importId: existing.importId } : {}),
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    await storage.updateMetric(userId, id, healthMetric);
+    await runSaveHooks(storage, userId, [healthMetric.type]);
+
+    res.json({
+      message: 'Health metric updated successfully',
+      data: healthMetric
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a health metric as erroneous, which leaves it out of insights, or as correct
+app.post('/api/health/data/:id/review', requireAuth, async (req, res) => {
+  const { error, value } = metricReviewSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ error: error.details[0].message });
+  }
+
+  try {
+    const existing = await storage.getMetric(req.user.id, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Health metric not found' });
+    }
+
+    const healthMetric = { ...existing, erroneous: value.erroneous, updatedAt: new Date() };
+    await storage.updateMetric(req.user.id, req.params.id, healthMetric);
+
+    res.json({
+      message: value.erroneous ? 'Health metric marked as erroneous' : 'Health metric marked as correct',
+      data: healthMetric
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete health metric
+app.delete('/api/health/data/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const removed = await storage.deleteMetric(req.user.id, id);
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Health metric not found' });
+    }
+
+    res.json({
+      message: 'Health metric deleted successfully',
+      data: removed
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Chat endpoint
 
-app.post('/api/chat', (req, res) => {
+app.post('/api/chat', requireAuth, async (req, res) => {
   try {
     
     const { error, value } = chatMessageSchema.validate(req.body);
@@ -230,28 +597,91 @@ app.post('/api/chat', (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const { message, sessionId = 'default', userId = 'default' } = value;
-    
-    // Get user's health data for context
-    const userData = healthData.get(userId) || [];
-    
-    // Generate response
-    const response = chatbot.generateResponse(message, userData);
-    
-    // Store conversation
-    if (!conversations.has(sessionId)) {
-      conversations.set(sessionId, []);
+    const { message, sessionId = 'default', timeZone } = value;
+    const { displayUnits } = req.user.preferences;
+    const key = conversationKey(req.user.id, sessionId);
+    const definitions = await getMetricDefinitions(storage, req.user.id);
+    const classify = (text) => chatbot.classify(text, { definitions, displayUnits, timeZone });
+
+    let understood = classify(message);
+    let response = null;
+    let recordedMetric = null;
+
+    // A question the chatbot asked in its last reply, such as which reading to log, unless it was too long ago
+    let pending = await storage.getConversationState(key);
+    if (pending && isExpired(pending)) {
+      pending = null;
+    }
+
+    if (pending && isCancellation(message)) {
+      response = chatbot.generateCancelResponse(pending, definitions);
+      pending = null;
+    } else if (pending) {
+      const slots = fillLogSlots(pending, message, { classify, definitions });
+      if (slots.reading || slots.metric !== pending.slots.metric) {
+        // The message answers the question
+        understood = {
+          intent: pending.intent,
+          confidence: 1,
+          entities: Object.fromEntries(Object.entries(slots).filter(([, slot]) => slot))
+        };
+      }
+
+      if (slots.reading) {
+        ({ response, recordedMetric, pending } = await logChatReading(req.user, slots.reading, definitions, timeZone));
+      } else if (slots.metric !== pending.slots.metric) {
+        pending = createPendingState(pending.intent, { metric: slots.metric }, 'reading', definitions);
+        response = pending.prompt;
+      } else if (understood.intent === 'unknown') {
+        pending = createPendingState(pending.intent, pending.slots, pending.awaiting, definitions);
+        response = `Sorry, I didn't catch that. ${pending.prompt} Say "cancel" to stop.`;
+      } else {
+        // Something else entirely: the question is dropped and the message answered as usual
+        pending = null;
+      }
+    }
+
+    const { intent, confidence, entities } = understood;
+    if (response !== null) {
+      // Answered above
+    } else if (intent === 'log_metric' && entities.reading) {
+      // A message reporting a reading, such as "weight 72.4 kg" or "slept 6.5h last night", logs it
+      ({ response, recordedMetric, pending } = await logChatReading(req.user, entities.reading, definitions, timeZone));
+    } else if (intent === 'log_metric') {
+      // "log my blood pressure" asks for the reading, and "log something" for the metric first
+      pending = entities.metric
+        ? createPendingState(intent, { metric: entities.metric }, 'reading', definitions)
+        : createPendingState(intent, {}, 'metric', definitions);
+      response = pending.prompt;
+    } else {
+      // Get user's health data for context, oldest measurement first so "latest" means most recently measured
+      const userData = sortByMeasurementTime(await storage.listMetrics(req.user.id));
+      const goals = withGoalProgress(await storage.listGoals(req.user.id), userData, definitions);
+      response = chatbot.generateResponse(message, { intent, entities }, userData, displayUnits, definitions, goals, timeZone);
+    }
+
+    if (pending) {
+      await storage.setConversationState(key, pending);
+    } else {
+      await storage.clearConversationState(key);
     }
     
-    const conversation = conversations.get(sessionId);
-    conversation.push(
+    // Store conversation
+    const conversation = await storage.appendMessages(key, [
       { type: 'user', message, timestamp: new Date() },
       { type: 'bot', message: response, timestamp: new Date() }
-    );
+    ]);
 
     res.json({
       response,
       sessionId,
+      // What the message was understood as, for debugging and tests
+      intent,
+      confidence,
+      entities,
+      recordedMetric,
+      // What the chatbot is waiting for the next message to give, if anything
+      pending,
       conversation: conversation.slice(-10) // Return last 10 messages
     });
   } catch (error) {
@@ -260,79 +690,126 @@ app.post('/api/chat', (req, res) => {
 });
 
 // Get conversation history
-app.get('/api/chat/history/:sessionId', (req, res) => {
-  const { sessionId } = req.params;
-  const conversation = conversations.get(sessionId) || [];
-  res.json(conversation);
+app.get('/api/chat/history/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const conversation = await storage.getConversation(conversationKey(req.user.id, sessionId));
+    res.json(conversation);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// What a conversation is waiting for the user to answer, if anything
+app.get('/api/chat/state/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const pending = await storage.getConversationState(conversationKey(req.user.id, req.params.sessionId));
+    res.json({ pending: pending && !isExpired(pending) ? pending : null });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 // Health insights endpoint
-app.get('/api/health/insights/:userId?', (req, res) => {
-  const userId = req.params.userId || 'default';
-  const userData = healthData.get(userId) || [];
-  
-  if (userData.length === 0) {
-    return res.json({
-      message: "No health data available for insights. Start tracking your health metrics!"
+app.get('/api/health/insights', requireAuth, async (req, res) => {
+  try {
+    const userData = await storage.listMetrics(req.user.id);
+
+    if (userData.length === 0) {
+      return res.json({
+        message: "No health data available for insights. Start tracking your health metrics!"
+      });
+    }
+
+    const insights = generateHealthInsights(userData, req.user.preferences.displayUnits);
+
+    // Metrics that move together come first, e.g. a higher heart rate after short nights
+    const series = getDailySeries(userData, await getMetricDefinitions(storage, req.user.id), {
+      displayUnits: req.user.preferences.displayUnits
     });
-  }
+    insights.recommendations.unshift(...getCorrelationRecommendations(findCorrelations(series), series));
 
-  const insights = generateHealthInsights(userData);
-  res.json(insights);
+    res.json(insights);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-function generateHealthInsights(data) {
-  const insights = {
-    totalRecords: data.length,
-    metricsTracked: [...new Set(data.map(d => d.type))],
-    trends: {},
-    recommendations: []
-  };
+// Cursors are opaque to clients: they encode the sort key of the last record returned
+function encodeCursor(record) {
+  const payload = JSON.stringify({ t: new Date(record.timestamp).getTime(), id: record.id });
+  return Buffer.from(payload).toString('base64url');
+}
 
-  // Analyze trends for each metric type
-  const typeGroups = {};
-  data.forEach(record => {
-    if (!typeGroups[record.type]) {
-      typeGroups[record.type] = [];
-    }
-    typeGroups[record.type].push(record);
-  });
-
-  Object.keys(typeGroups).forEach(type => {
-    const records = typeGroups[type].sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
-    if (records.length >= 2) {
-      const first = parseFloat(records[0].value);
-      const last = parseFloat(records[records.length - 1].value);
-      
-      if (!isNaN(first) && !isNaN(last)) {
-        const change = last - first;
-        const percentChange = ((change / first) * 100).toFixed(1);
-        
-        insights.trends[type] = {
-          change,
-          percentChange,
-          direction: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'stable',
-          recordCount: records.length
-        };
-      }
+function decodeCursor(cursor) {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof t !== 'number' || typeof id !== 'string') {
+      throw new Error();
     }
-  });
-
-  // Generate recommendations
-  if (insights.metricsTracked.length < 3) {
-    insights.recommendations.push("Consider tracking more health metrics like blood pressure, heart rate, or sleep hours for a complete picture.");
+    return { t, id };
+  } catch (error) {
+    throw new Error('Invalid cursor');
   }
-  
-  if (data.length < 7) {
-    insights.recommendations.push("Try to log health data more frequently for better trend analysis.");
+}
+
+function queryHealthData(records, { type, from, to, order, limit, cursor }) {
+  const direction = order === 'desc' ? -1 : 1;
+  const compare = (aTime, aId, bTime, bId) => {
+    if (aTime !== bTime) return (aTime - bTime) * direction;
+    return aId.localeCompare(bId) * direction;
+  };
+
+  const filtered = records
+    .filter(record => {
+      const time = new Date(record.timestamp).getTime();
+      if (type && record.type !== type) return false;
+      if (from && time < from.getTime()) return false;
+      if (to && time > to.getTime()) return false;
+      return true;
+    })
+    .sort((a, b) => compare(
+      new Date(a.timestamp).getTime(), a.id,
+      new Date(b.timestamp).getTime(), b.id
+    ));
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    start = filtered.findIndex(record =>
+      compare(new Date(record.timestamp).getTime(), record.id, after.t, after.id) > 0
+    );
+    if (start === -1) start = filtered.length;
   }
 
-  insights.recommendations.push("Great job tracking your health! Consistency is key to achieving your wellness goals.");
+  const page = filtered.slice(start, start + limit);
+  const hasMore = start + limit < filtered.length;
 
-  return insights;
+  return {
+    data: page,
+    pagination: {
+      limit,
+      total: filtered.length,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null
+    }
+  };
 }
 
-app.listen(PORT, () => {
-  console.log(`🏥 Health Measures Chatbot Server running on port ${PORT}`);
-  console.log(`🚀 API available at http://localhost:${PORT}/api`);
-});
\ No newline at end of file
+// Migrations run before the server accepts requests
+storage.init()
+  .then(() => {
+    startAlertScheduler(storage, Number(process.env.ALERT_CHECK_INTERVAL_MS) || undefined);
+    startReminderScheduler(storage, Number(process.env.REMINDER_CHECK_INTERVAL_MS) || undefined);
+    app.listen(PORT, () => {
+      console.log(`🏥 Health Measures Chatbot Server running on port ${PORT}`);
+      console.log(`🚀 API available at http://localhost:${PORT}/api`);
+    });
+  })
+  .catch(error => {
+    console.error('Failed to initialize storage:', error);
+    process.exit(1);
+  });
\ No newline at end of file
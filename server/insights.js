@@ -0,0 +1,176 @@
+const { parseBloodPressure } = require('./bloodPressure');
+const { getUnitOptions, getDisplayUnit, getValueInUnit } = require('./units');
+const { DERIVED_METRIC_DEFINITIONS, computeDerivedMetrics } = require('./derivedMetrics');
+const { DAY_MS, mean, median, standardDeviation, linearRegression, isSignificantCorrelation, movingAverage } = require('./statistics');
+
+const WEEK_MS = 7 * DAY_MS;
+
+// Readings the user has marked as a mistake, which every summary of their readings leaves out
+const isErroneous = (record) => Boolean(record.erroneous);
+
+// Records can be backdated, so storage order is not measurement order
+function sortByMeasurementTime(records) {
+  return [...records].sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+}
+
+// Numeric series to compute trends on, as points of { time, value } oldest first.
+// Blood pressure yields one series per number so a falling diastolic is not hidden
+// behind a rising systolic. Other metrics are converted to the display unit, so records
+// entered in different units compare correctly.
+// Metrics of the user's own have a single unit; their pairs also yield a series per number,
+// and enum or text values have no trend.
+function getTrendSeries(type, records, displayUnits) {
+  const point = (record, value) => ({ time: new Date(record.timestamp).getTime(), value });
+
+  if (type === 'blood_pressure') {
+    const readings = records
+      .map(record => ({ record, reading: parseBloodPressure(record.value) }))
+      .filter(({ reading }) => reading);
+    return {
+      blood_pressure_systolic: { unit: 'mmHg', points: readings.map(({ record, reading }) => point(record, reading.systolic)) },
+      blood_pressure_diastolic: { unit: 'mmHg', points: readings.map(({ record, reading }) => point(record, reading.diastolic)) }
+    };
+  }
+
+  if (getUnitOptions(type).length === 0) {
+    const series = {};
+    records.forEach(record => {
+      const numbers = record.value && typeof record.value === 'object'
+        ? Object.entries(record.value).map(([part, value]) => [`${type}_${part}`, value])
+        : [[type, record.value]];
+      numbers
+        .filter(([, value]) => typeof value === 'number')
+        .forEach(([seriesKey, value]) => {
+          if (!Object.hasOwn(series, seriesKey)) {
+            series[seriesKey] = { unit: record.unit, points: [] };
+          }
+          series[seriesKey].points.push(point(record, value));
+        });
+    });
+    return series;
+  }
+
+  const unit = getDisplayUnit(type, displayUnits);
+  return {
+    [type]: {
+      unit,
+      points: records
+        .map(record => point(record, getValueInUnit(record, unit)))
+        .filter(({ value }) => value !== null)
+    }
+  };
+}
+
+const round = (value) => Number(value.toFixed(2));
+
+// Statistics of a series of two or more points. The change is read off the least-squares
+// line rather than the first and last readings, so a single outlier cannot reverse it,
+// and it is significant when the fit is unlikely to be chance at the 5% level.
+// The 7 and 30-day moving averages come as a series with an entry per reading, and
+// their latest values on their own.
+function summarizeTrend(points, unit) {
+  const values = points.map(({ value }) => value);
+  const averages7Day = movingAverage(points, 7);
+  const averages30Day = movingAverage(points, 30);
+  const fit = linearRegression(points.map(({ time, value }) => ({ x: (time - points[0].time) / WEEK_MS, y: value })));
+  const weeks = (points[points.length - 1].time - points[0].time) / WEEK_MS;
+  const change = round(fit.slope * weeks);
+
+  return {
+    change,
+    // Relative to where the fitted line starts; there is no percentage of a start at 0
+    percentChange: round(fit.intercept) === 0 ? null : ((change / fit.intercept) * 100).toFixed(1),
+    unit,
+    direction: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'stable',
+    recordCount: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: round(mean(values)),
+    median: round(median(values)),
+    standardDeviation: round(standardDeviation(values)),
+    slopePerWeek: round(fit.slope),
+    movingAverage7Day: round(averages7Day[averages7Day.length - 1]),
+    movingAverage30Day: round(averages30Day[averages30Day.length - 1]),
+    movingAverages: points.map(({ time }, index) => ({
+      timestamp: new Date(time).toISOString(),
+      average7Day: round(averages7Day[index]),
+      average30Day: round(averages30Day[index])
+    })),
+    significant: isSignificantCorrelation(fit.r, values.length)
+  };
+}
+
+// Records of each metric type, keyed by type and oldest measurement first
+function groupByType(records) {
+  const typeGroups = {};
+  sortByMeasurementTime(records).forEach(record => {
+    if (!Object.hasOwn(typeGroups, record.type)) {
+      typeGroups[record.type] = [];
+    }
+    typeGroups[record.type].push(record);
+  });
+  return typeGroups;
+}
+
+// Statistics of each series of one metric's records, as the insights trends compute them but
+// for a single reading too, keyed like the trends. Readings marked as erroneous are left out.
+function summarizeSeries(type, records, displayUnits = {}) {
+  const data = sortByMeasurementTime(records.filter(record => record.type === type && !isErroneous(record)));
+  return Object.fromEntries(Object.entries(getTrendSeries(type, data, displayUnits))
+    .filter(([, { points }]) => points.length > 0)
+    .map(([seriesKey, { unit, points }]) => [seriesKey, summarizeTrend(points, unit)]));
+}
+
+// Readings the user has marked as erroneous are left out entirely
+function generateHealthInsights(records, displayUnits = {}) {
+  const data = records.filter(record => !isErroneous(record));
+  const insights = {
+    totalRecords: data.length,
+    metricsTracked: [...new Set(data.map(d => d.type))],
+    trends: {},
+    derivedMetrics: {},
+    recommendations: []
+  };
+
+  // Derived metrics are charted from their points and trended like logged metrics
+  const derived = computeDerivedMetrics(data);
+  DERIVED_METRIC_DEFINITIONS.forEach(({ key, label, unit }) => {
+    const points = derived
+      .filter(record => record.type === key)
+      .map(record => ({ timestamp: record.timestamp, value: record.value }));
+    if (points.length > 0) {
+      insights.derivedMetrics[key] = { label, unit, points };
+    }
+  });
+
+  // Analyze trends for each metric type
+  const typeGroups = groupByType([...data, ...derived]);
+  Object.entries(typeGroups).forEach(([type, records]) => {
+    Object.entries(getTrendSeries(type, records, displayUnits)).forEach(([seriesKey, { unit, points }]) => {
+      if (points.length >= 2) {
+        insights.trends[seriesKey] = summarizeTrend(points, unit);
+      }
+    });
+  });
+
+  // Generate recommendations
+  if (insights.metricsTracked.length < 3) {
+    insights.recommendations.push("Consider tracking more health metrics like blood pressure, heart rate, or sleep hours for a complete picture.");
+  }
+  
+  if (data.length < 7) {
+    insights.recommendations.push("Try to log health data more frequently for better trend analysis.");
+  }
+
+  insights.recommendations.push("Great job tracking your health! Consistency is key to achieving your wellness goals.");
+
+  return insights;
+}
+
+module.exports = {
+  isErroneous,
+  sortByMeasurementTime,
+  groupByType,
+  summarizeSeries,
+  generateHealthInsights
+};
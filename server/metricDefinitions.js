@@ -0,0 +1,215 @@
+const express = require('express');
+const Joi = require('joi');
+const { DERIVED_METRIC_DEFINITIONS } = require('./derivedMetrics');
+
+// How a metric's value is entered and stored:
+// number - a single number, e.g. 70
+// pair   - two numbers named by `parts`, e.g. { systolic: 120, diastolic: 80 }
+// enum   - one of `options`, e.g. "mild"
+// text   - free text
+const VALUE_KINDS = ['number', 'pair', 'enum', 'text'];
+
+// How the readings of a day, week or month combine into one value:
+// sum     - cumulative metrics, e.g. three glasses of water make the day's intake
+// average - e.g. the day's heart rate
+// last    - the latest reading stands for the period, e.g. weight; the only choice for enum and text
+const AGGREGATIONS = ['sum', 'average', 'last'];
+
+// Icons and colours the client knows how to draw
+const METRIC_ICONS = [
+  'Activity', 'Apple', 'Bike', 'Brain', 'Coffee', 'Droplets', 'Dumbbell', 'Eye', 'Flame',
+  'Footprints', 'Gauge', 'Heart', 'HeartPulse', 'Moon', 'Pill', 'Ruler', 'Scale', 'Smile',
+  'Stethoscope', 'Thermometer', 'Timer', 'Wind', 'Zap'
+];
+const METRIC_COLORS = [
+  'blue', 'green', 'purple', 'red', 'orange', 'indigo', 'teal', 'cyan', 'emerald', 'pink', 'amber', 'gray'
+];
+
+// Units of built-in metrics are their canonical units; see units.js for the others they accept.
+// Ranges are checked in that unit.
+const BUILT_IN_METRIC_DEFINITIONS = [
+  { key: 'weight', label: 'Weight', unit: 'kg', valueKind: 'number', min: 0, step: 0.1, placeholder: 70, aggregation: 'last', icon: 'Scale', color: 'blue' },
+  { key: 'height', label: 'Height', unit: 'cm', valueKind: 'number', min: 0, step: 1, placeholder: 175, aggregation: 'last', icon: 'Ruler', color: 'green' },
+  {
+    key: 'blood_pressure',
+    label: 'Blood Pressure',
+    unit: 'mmHg',
+    valueKind: 'pair',
+    parts: [{ key: 'systolic', label: 'Systolic' }, { key: 'diastolic', label: 'Diastolic' }],
+    min: 20,
+    max: 300,
+    step: 1,
+    placeholder: 120,
+    aggregation: 'average',
+    icon: 'Activity',
+    color: 'purple'
+  },
+  { key: 'heart_rate', label: 'Heart Rate', unit: 'bpm', valueKind: 'number', min: 0, step: 1, placeholder: 75, aggregation: 'average', icon: 'Heart', color: 'red' },
+  { key: 'blood_sugar', label: 'Blood Sugar', unit: 'mg/dL', valueKind: 'number', min: 0, step: 1, placeholder: 100, aggregation: 'average', icon: 'Droplets', color: 'green' },
+  { key: 'temperature', label: 'Temperature', unit: '°C', valueKind: 'number', step: 0.1, placeholder: 36.5, aggregation: 'average', icon: 'Thermometer', color: 'orange' },
+  { key: 'sleep_hours', label: 'Sleep Hours', unit: 'hours', valueKind: 'number', min: 0, max: 24, step: 0.5, placeholder: 8, aggregation: 'average', icon: 'Moon', color: 'indigo' },
+  { key: 'steps', label: 'Steps', unit: 'steps', valueKind: 'number', min: 0, step: 1, placeholder: 10000, aggregation: 'sum', icon: 'Footprints', color: 'teal' },
+  { key: 'water_intake', label: 'Water Intake', unit: 'L', valueKind: 'number', min: 0, step: 0.1, placeholder: 2.5, aggregation: 'sum', icon: 'Droplets', color: 'cyan' },
+  { key: 'exercise_minutes', label: 'Exercise', unit: 'minutes', valueKind: 'number', min: 0, max: 1440, step: 1, placeholder: 30, aggregation: 'sum', icon: 'Dumbbell', color: 'emerald' }
+].map(definition => ({ ...definition, builtIn: true }));
+
+const METRIC_TYPES = BUILT_IN_METRIC_DEFINITIONS.map(definition => definition.key);
+
+const MAX_CUSTOM_DEFINITIONS = 50;
+
+// Keys are derived from the label ("Waist Circumference" -> "waist_circumference") unless given
+const toMetricKey = (label) => label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Keys index plain objects across the server, so names objects already have, such as
+// "constructor", would resolve to something that is not the metric's. Derived metrics are
+// trended alongside readings under their keys, so a metric named "BMI" would be mixed into them.
+const RESERVED_KEYS = [
+  ...Object.getOwnPropertyNames(Object.prototype),
+  ...DERIVED_METRIC_DEFINITIONS.map(definition => definition.key)
+];
+
+const metricDefinitionSchema = Joi.object({
+  key: Joi.string().pattern(/^[a-z][a-z0-9_]{1,39}$/).invalid(...RESERVED_KEYS).messages({
+    'string.pattern.base': '{{#label}} must start with a letter and use only lowercase letters, digits and underscores',
+    'any.invalid': '{{#label}} is a reserved name; choose another key'
+  }),
+  label: Joi.string().trim().min(1).max(40).required(),
+  unit: Joi.string().trim().max(20).allow('').default(''),
+  valueKind: Joi.string().valid(...VALUE_KINDS).required(),
+  min: Joi.when('valueKind', { is: Joi.valid('number', 'pair'), then: Joi.number(), otherwise: Joi.forbidden() }),
+  max: Joi.when('valueKind', {
+    is: Joi.valid('number', 'pair'),
+    then: Joi.number().when('min', { is: Joi.exist(), then: Joi.number().greater(Joi.ref('min')) }),
+    otherwise: Joi.forbidden()
+  }),
+  step: Joi.when('valueKind', { is: Joi.valid('number', 'pair'), then: Joi.number().positive(), otherwise: Joi.forbidden() }),
+  // Names of the two numbers in a pair, e.g. ["Left", "Right"]
+  parts: Joi.when('valueKind', {
+    is: 'pair',
+    then: Joi.array().items(Joi.string().trim().min(1).max(20)).length(2).unique().required(),
+    otherwise: Joi.forbidden()
+  }),
+  options: Joi.when('valueKind', {
+    is: 'enum',
+    then: Joi.array().items(Joi.string().trim().min(1).max(40)).min(2).max(20).unique().required(),
+    otherwise: Joi.forbidden()
+  }),
+  aggregation: Joi.when('valueKind', {
+    is: Joi.valid('number', 'pair'),
+    then: Joi.string().valid(...AGGREGATIONS).default('average'),
+    otherwise: Joi.string().valid('last').default('last')
+  }),
+  icon: Joi.string().valid(...METRIC_ICONS).default('Activity'),
+  color: Joi.string().valid(...METRIC_COLORS).default('gray')
+});
+
+// Built-in definitions followed by the user's own
+async function getMetricDefinitions(storage, userId) {
+  return [...BUILT_IN_METRIC_DEFINITIONS, ...await storage.listMetricDefinitions(userId)];
+}
+
+function findMetricDefinition(definitions, key) {
+  return definitions.find(definition => definition.key === key) || null;
+}
+
+// Turns a validated request into a stored definition
+function toCustomDefinition({ key, parts, ...fields }) {
+  const definition = { key: key || toMetricKey(fields.label), ...fields, builtIn: false };
+  if (parts) {
+    definition.parts = parts.map(label => ({ key: toMetricKey(label), label }));
+  }
+  return definition;
+}
+
+function createMetricDefinitionRouter(storage) {
+  const router = express.Router();
+
+  // Every metric the user can record
+  router.get('/', async (req, res) => {
+    try {
+      res.json({ definitions: await getMetricDefinitions(storage, req.user.id) });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Add a metric of the user's own
+  router.post('/', async (req, res) => {
+    const { error, value } = metricDefinitionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definition = toCustomDefinition(value);
+      if (!/^[a-z][a-z0-9_]{1,39}$/.test(definition.key)) {
+        return res.status(400).json({ error: '"label" must start with a letter; choose a "key" for this metric' });
+      }
+      if (RESERVED_KEYS.includes(definition.key)) {
+        return res.status(400).json({ error: `"${definition.key}" is a reserved name; choose a "key" for this metric` });
+      }
+      if (definition.parts && definition.parts.some(part => !part.key)) {
+        return res.status(400).json({ error: '"parts" must contain letters or digits' });
+      }
+
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      if (findMetricDefinition(definitions, definition.key)) {
+        return res.status(409).json({ error: `A metric with key "${definition.key}" already exists` });
+      }
+      if (definitions.length - BUILT_IN_METRIC_DEFINITIONS.length >= MAX_CUSTOM_DEFINITIONS) {
+        return res.status(400).json({ error: `You can define up to ${MAX_CUSTOM_DEFINITIONS} metrics of your own` });
+      }
+
+      await storage.addMetricDefinition(req.user.id, { ...definition, createdAt: new Date() });
+      res.status(201).json({
+        message: 'Metric definition created successfully',
+        definition
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Remove one of the user's metrics; refused while readings of it exist
+  router.delete('/:key', async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (METRIC_TYPES.includes(key)) {
+        return res.status(400).json({ error: 'Built-in metrics cannot be deleted' });
+      }
+
+      const records = await storage.listMetrics(req.user.id);
+      const count = records.filter(record => record.type === key).length;
+      if (count > 0) {
+        return res.status(409).json({ error: `Delete the ${count} reading(s) of this metric first` });
+      }
+
+      const removed = await storage.deleteMetricDefinition(req.user.id, key);
+      if (!removed) {
+        return res.status(404).json({ error: 'Metric definition not found' });
+      }
+
+      res.json({
+        message: 'Metric definition deleted successfully',
+        definition: removed
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  VALUE_KINDS,
+  AGGREGATIONS,
+  BUILT_IN_METRIC_DEFINITIONS,
+  METRIC_TYPES,
+  getMetricDefinitions,
+  findMetricDefinition,
+  createMetricDefinitionRouter
+};
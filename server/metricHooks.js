@@ -0,0 +1,26 @@
+const { checkAlerts } = require('./alerts');
+const { resolveReminders } = require('./reminders');
+
+// Runs after readings are saved, whichever way they arrived (added, edited or imported):
+// checks the user's alert rules and clears the reminders to log the metrics saved.
+// A failure of either must not lose the readings, which are already stored; the scheduled
+// checks retry them.
+async function runSaveHooks(storage, userId, types) {
+  try {
+    await checkAlerts(storage, userId);
+  } catch (alertError) {
+    console.error('Alert check failed:', alertError);
+  }
+
+  for (const type of new Set(types)) {
+    try {
+      await resolveReminders(storage, userId, type);
+    } catch (reminderError) {
+      console.error('Reminder update failed:', reminderError);
+    }
+  }
+}
+
+module.exports = {
+  runSaveHooks
+};
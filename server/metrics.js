@@ -0,0 +1,118 @@
+const Joi = require('joi');
+const { bloodPressureSchema } = require('./bloodPressure');
+const { normalizeUnit, getUnitOptions, toCanonical } = require('./units');
+const { BUILT_IN_METRIC_DEFINITIONS, METRIC_TYPES, findMetricDefinition } = require('./metricDefinitions');
+const { MEAL_CONTEXTS, classifyReading } = require('./referenceRanges');
+
+function valueSchemaFor(definition) {
+  switch (definition.valueKind) {
+    case 'pair':
+      // Blood pressure has its own limits and an optional pulse
+      if (definition.key === 'blood_pressure') return bloodPressureSchema;
+      return Joi.object(Object.fromEntries(
+        definition.parts.map(part => [part.key, Joi.number().required()])
+      ));
+    case 'enum':
+      return Joi.string().valid(...definition.options);
+    case 'text':
+      return Joi.string().trim().max(500);
+    default:
+      return Joi.number();
+  }
+}
+
+// Ranges are in the definition's unit, so numbers entered in another unit are converted first
+function getRangeError(definition, value, unit) {
+  let numbers = [];
+  if (definition.valueKind === 'number') {
+    numbers = [toCanonical(definition.key, value, unit).value];
+  } else if (definition.valueKind === 'pair' && definition.key !== 'blood_pressure') {
+    numbers = Object.values(value);
+  }
+
+  const { min, max } = definition;
+  if (min !== undefined && numbers.some(number => number < min)) {
+    return `"value" must be at least ${min} ${definition.unit}`.trim();
+  }
+  if (max !== undefined && numbers.some(number => number > max)) {
+    return `"value" must be at most ${max} ${definition.unit}`.trim();
+  }
+  return null;
+}
+
+// Validation schema for health data, driven by the metric definitions the user can record.
+// Imported history must say when each reading was taken rather than defaulting to now.
+function createHealthMetricSchema(definitions = BUILT_IN_METRIC_DEFINITIONS, { imported = false } = {}) {
+  const timestamp = Joi.date().max('now').messages({
+    'date.max': '{{#label}} cannot be in the future'
+  });
+
+  return Joi.object({
+    type: Joi.string().valid(...definitions.map(definition => definition.key)).required(),
+    value: Joi.when('type', {
+      switch: definitions.map(definition => ({ is: definition.key, then: valueSchemaFor(definition).required() }))
+    }),
+    // Built-in metrics accept several units; metrics of the user's own have one and may omit it
+    unit: Joi.when('type', {
+      is: Joi.valid(...METRIC_TYPES),
+      then: Joi.string().required(),
+      otherwise: Joi.string().allow('')
+    }),
+    // When the measurement was taken; defaults to now and may not be in the future
+    timestamp: imported ? timestamp.required() : timestamp.default(Date.now),
+    notes: Joi.string().optional(),
+    // Whether a blood sugar reading was taken fasting, which changes its reference range
+    mealContext: Joi.when('type', {
+      is: 'blood_sugar',
+      then: Joi.string().valid(...MEAL_CONTEXTS).optional(),
+      otherwise: Joi.forbidden()
+    }),
+    // Saves a reading that looks unusual after the user has confirmed it is right; not stored
+    confirmed: Joi.boolean().optional()
+  }).custom((metric, helpers) => {
+    const definition = findMetricDefinition(definitions, metric.type);
+    const unitOptions = getUnitOptions(metric.type);
+    let unit;
+
+    if (unitOptions.length > 0) {
+      unit = normalizeUnit(metric.type, metric.unit);
+      if (!unit) {
+        return helpers.message(`"unit" must be one of [${unitOptions.join(', ')}]`);
+      }
+    } else {
+      unit = metric.unit === undefined ? definition.unit : metric.unit;
+      if (unit !== definition.unit) {
+        return helpers.message(`"unit" must be one of [${definition.unit}]`);
+      }
+    }
+
+    const rangeError = getRangeError(definition, metric.value, unit);
+    if (rangeError) {
+      return helpers.message(rangeError);
+    }
+    return { ...metric, unit };
+  });
+}
+
+const healthMetricSchema = createHealthMetricSchema();
+
+const importedMetricSchema = createHealthMetricSchema(BUILT_IN_METRIC_DEFINITIONS, { imported: true });
+
+// Turns a validated metric into the fields that are stored for it, including its
+// classification against the reference ranges for the user's profile
+function toStoredMetric(metric, profile = {}) {
+  const stored = {
+    ...metric,
+    ...toCanonical(metric.type, metric.value, metric.unit),
+    timestamp: new Date(metric.timestamp)
+  };
+  return { ...stored, classification: classifyReading(stored, profile) };
+}
+
+module.exports = {
+  METRIC_TYPES,
+  createHealthMetricSchema,
+  healthMetricSchema,
+  importedMetricSchema,
+  toStoredMetric
+};
@@ -0,0 +1,101 @@
+const { parseBloodPressure } = require('./bloodPressure');
+
+// Clinical reference ranges used to classify readings. Values are compared in the
+// canonical unit of their metric (mmHg, mg/dL, bpm, °C), so records must be stored first.
+// Each classification has a severity of normal, borderline, low, high or critical.
+
+const MEAL_CONTEXTS = ['fasting', 'non_fasting'];
+
+const classification = (category, label, severity) => ({ category, label, severity });
+
+// Age in whole years at the time of the reading, when the user has given a birth year
+function getAgeAt(profile, timestamp) {
+  if (!profile || !profile.birthYear) return null;
+  return new Date(timestamp).getUTCFullYear() - profile.birthYear;
+}
+
+// American Heart Association categories, which apply to adults only. Readings below
+// 90/60 are classed as low blood pressure.
+function classifyBloodPressure(record, age) {
+  if (age !== null && age < 18) return null;
+  const reading = parseBloodPressure(record.value);
+  if (!reading) return null;
+
+  const { systolic, diastolic } = reading;
+  if (systolic > 180 || diastolic > 120) return classification('hypertensive_crisis', 'Hypertensive crisis', 'critical');
+  if (systolic >= 140 || diastolic >= 90) return classification('hypertension_stage_2', 'Stage 2 hypertension', 'high');
+  if (systolic >= 130 || diastolic >= 80) return classification('hypertension_stage_1', 'Stage 1 hypertension', 'high');
+  if (systolic >= 120) return classification('elevated', 'Elevated', 'borderline');
+  if (systolic < 90 || diastolic < 60) return classification('low', 'Low', 'low');
+  return classification('normal', 'Normal', 'normal');
+}
+
+// Fasting bands follow the ADA diagnostic thresholds; readings without a meal context
+// are treated as taken at any time of day (non-fasting)
+function classifyBloodSugar(record) {
+  const mgdl = record.value;
+  if (typeof mgdl !== 'number') return null;
+
+  if (mgdl < 54) return classification('very_low', 'Very low', 'critical');
+  if (mgdl < 70) return classification('low', 'Low', 'low');
+  if (mgdl >= 250) return classification('very_high', 'Very high', 'critical');
+
+  if (record.mealContext === 'fasting') {
+    if (mgdl >= 126) return classification('diabetes_range', 'Diabetes range (fasting)', 'high');
+    if (mgdl >= 100) return classification('prediabetes_range', 'Prediabetes range (fasting)', 'borderline');
+    return classification('normal', 'Normal (fasting)', 'normal');
+  }
+
+  if (mgdl >= 200) return classification('diabetes_range', 'Diabetes range', 'high');
+  if (mgdl >= 140) return classification('elevated', 'Elevated', 'borderline');
+  return classification('normal', 'Normal', 'normal');
+}
+
+// Resting heart rate. Children from 6 to 15 have a higher normal range than adults;
+// younger children's ranges vary too much by age to classify.
+function classifyHeartRate(record, age) {
+  const bpm = record.value;
+  if (typeof bpm !== 'number') return null;
+  if (age !== null && age < 6) return null;
+
+  const lowerLimit = age !== null && age < 16 ? 70 : 60;
+  if (bpm < 40) return classification('very_low', 'Very low', 'critical');
+  if (bpm < lowerLimit) return classification('low', 'Low', 'low');
+  if (bpm > 130) return classification('very_high', 'Very high', 'critical');
+  if (bpm > 100) return classification('high', 'High', 'high');
+  return classification('normal', 'Normal', 'normal');
+}
+
+// Adults of 65 and over often run cooler, so a lower reading already counts as a fever
+function classifyTemperature(record, age) {
+  const celsius = record.value;
+  if (typeof celsius !== 'number') return null;
+
+  const feverThreshold = age !== null && age >= 65 ? 37.8 : 38;
+  if (celsius < 35) return classification('hypothermia', 'Hypothermia', 'critical');
+  if (celsius < 36) return classification('low', 'Low', 'low');
+  if (celsius >= 40) return classification('high_fever', 'High fever', 'critical');
+  if (celsius >= feverThreshold) return classification('fever', 'Fever', 'high');
+  if (celsius >= 37.5) return classification('raised', 'Slightly raised', 'borderline');
+  return classification('normal', 'Normal', 'normal');
+}
+
+const CLASSIFIERS = {
+  blood_pressure: classifyBloodPressure,
+  blood_sugar: classifyBloodSugar,
+  heart_rate: classifyHeartRate,
+  temperature: classifyTemperature
+};
+
+// Classification of a stored reading, or null for metrics without reference ranges.
+// The profile may hold the user's birthYear for age-aware bands.
+function classifyReading(record, profile = {}) {
+  if (!Object.hasOwn(CLASSIFIERS, record.type)) return null;
+  const classify = CLASSIFIERS[record.type];
+  return classify(record, getAgeAt(profile, record.timestamp));
+}
+
+module.exports = {
+  MEAL_CONTEXTS,
+  classifyReading
+};
@@ -0,0 +1,282 @@
+const express = require('express');
+const Joi = require('joi');
+const { v4: uuidv4 } = require('uuid');
+const { getMetricDefinitions, findMetricDefinition } = require('./metricDefinitions');
+const { isTimeZone, getLocalParts, fromLocalTime } = require('./timeZones');
+
+const MINUTE_MS = 60 * 1000;
+const MAX_REMINDER_SCHEDULES = 50;
+const DEFAULT_CHECK_INTERVAL_MS = MINUTE_MS;
+// A reading logged this long before a reminder is due already counts, so the user is not
+// reminded to log what they just logged
+const LOGGED_GRACE_MS = 60 * MINUTE_MS;
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Times are local to `timeZone`, e.g. blood pressure at 08:00 and 20:00 in Europe/London.
+// `days` are days of the week (0 is Sunday); every day when omitted.
+const reminderScheduleSchema = Joi.object({
+  type: Joi.string().required(),
+  times: Joi.array()
+    .items(Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).messages({
+      'string.pattern.base': '{{#label}} must be a time of day such as "08:00"'
+    }))
+    .min(1)
+    .max(12)
+    .unique()
+    .required(),
+  days: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).max(7).unique(),
+  timeZone: Joi.string().custom(isTimeZone).default('UTC')
+});
+
+const snoozeSchema = Joi.object({
+  minutes: Joi.number().integer().min(5).max(720).default(30)
+});
+
+// The latest time the schedule fell due at or before `now`, looking back over today and
+// yesterday in its time zone; null when it has not yet fallen due since it was created
+function findLatestDueTime(schedule, now) {
+  const today = getLocalParts(now, schedule.timeZone);
+  const createdAt = new Date(schedule.createdAt).getTime();
+
+  const candidates = [0, 1].flatMap(daysAgo => {
+    const date = new Date(Date.UTC(today.year, today.month, today.day - daysAgo));
+    if (schedule.days && !schedule.days.includes(date.getUTCDay())) return [];
+
+    const localDate = { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+    return schedule.times.map(time => fromLocalTime(localDate, time, schedule.timeZone));
+  });
+
+  const due = candidates
+    .filter(time => time.getTime() <= now.getTime() && time.getTime() >= createdAt)
+    .sort((a, b) => b - a);
+  return due[0] || null;
+}
+
+function describeReminderSchedule(schedule, definitions) {
+  const definition = findMetricDefinition(definitions, schedule.type);
+  const label = definition ? definition.label : schedule.type.replace(/_/g, ' ');
+  const times = [...schedule.times].sort();
+  const at = times.length > 1 ? `${times.slice(0, -1).join(', ')} and ${times[times.length - 1]}` : times[0];
+  const on = schedule.days
+    ? `on ${[...schedule.days].sort().map(day => DAY_NAMES[day]).join(', ')}`
+    : 'every day';
+  return `${label} at ${at} ${on}`;
+}
+
+const isDue = (reminder, now) => !reminder.dismissedAt &&
+  (!reminder.snoozedUntil || new Date(reminder.snoozedUntil).getTime() <= now.getTime());
+
+// Reminders the schedules create at `now`. Each schedule reminds once per time it falls due,
+// and not at all when a reading of its metric was logged shortly before or since.
+function createDueReminders(schedules, records, existingReminders, { definitions, now = new Date() } = {}) {
+  return schedules.flatMap(schedule => {
+    const dueAt = findLatestDueTime(schedule, now);
+    if (!dueAt) return [];
+
+    const reminded = existingReminders.some(reminder =>
+      reminder.scheduleId === schedule.id && new Date(reminder.dueAt).getTime() === dueAt.getTime()
+    );
+    const logged = records.some(record => {
+      const time = new Date(record.timestamp).getTime();
+      return record.type === schedule.type && time >= dueAt.getTime() - LOGGED_GRACE_MS && time <= now.getTime();
+    });
+    if (reminded || logged) return [];
+
+    const definition = findMetricDefinition(definitions, schedule.type);
+    const label = definition ? definition.label : schedule.type.replace(/_/g, ' ');
+    return [{
+      id: uuidv4(),
+      scheduleId: schedule.id,
+      type: schedule.type,
+      message: `Time to log your ${label.toLowerCase()}`,
+      dueAt,
+      snoozedUntil: null,
+      dismissedAt: null
+    }];
+  });
+}
+
+// Creates and stores the user's reminders that have fallen due
+async function checkReminders(storage, userId, now = new Date()) {
+  const schedules = await storage.listReminderSchedules(userId);
+  if (schedules.length === 0) return [];
+
+  const reminders = createDueReminders(
+    schedules,
+    await storage.listMetrics(userId),
+    await storage.listReminders(userId),
+    { definitions: await getMetricDefinitions(storage, userId), now }
+  );
+  if (reminders.length > 0) {
+    await storage.addReminders(userId, reminders);
+  }
+  return reminders;
+}
+
+// Logging a reading of a metric clears the reminders to log it, snoozed or not
+async function resolveReminders(storage, userId, type, now = new Date()) {
+  const open = (await storage.listReminders(userId)).filter(reminder =>
+    reminder.type === type && !reminder.dismissedAt && new Date(reminder.dueAt).getTime() <= now.getTime()
+  );
+  for (const reminder of open) {
+    await storage.updateReminder(userId, reminder.id, { dismissedAt: now });
+  }
+  return open;
+}
+
+// Reminders fall due at set times, so every user's schedules are checked each minute.
+// The timer does not keep the process alive.
+function startReminderScheduler(storage, intervalMs = DEFAULT_CHECK_INTERVAL_MS) {
+  const timer = setInterval(async () => {
+    try {
+      const users = await storage.listUsers();
+      for (const user of users) {
+        await checkReminders(storage, user.id);
+      }
+    } catch (error) {
+      console.error('Scheduled reminder check failed:', error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+function createReminderRouter(storage) {
+  const router = express.Router();
+
+  // Reminders that are due and not snoozed or dismissed, newest first
+  router.get('/', async (req, res) => {
+    try {
+      const now = new Date();
+      await checkReminders(storage, req.user.id, now);
+      const reminders = (await storage.listReminders(req.user.id))
+        .filter(reminder => isDue(reminder, now))
+        .sort((a, b) => new Date(b.dueAt) - new Date(a.dueAt));
+      res.json({ reminders });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/:id/snooze', async (req, res) => {
+    const { error, value } = snoozeSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const existing = (await storage.listReminders(req.user.id)).find(reminder => reminder.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Reminder not found' });
+      }
+
+      const reminder = await storage.updateReminder(req.user.id, existing.id, {
+        snoozedUntil: new Date(Date.now() + value.minutes * MINUTE_MS)
+      });
+      res.json({
+        message: 'Reminder snoozed',
+        reminder
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/:id/dismiss', async (req, res) => {
+    try {
+      const existing = (await storage.listReminders(req.user.id)).find(reminder => reminder.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Reminder not found' });
+      }
+
+      const reminder = existing.dismissedAt
+        ? existing
+        : await storage.updateReminder(req.user.id, existing.id, { dismissedAt: new Date() });
+      res.json({
+        message: 'Reminder dismissed',
+        reminder
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.get('/schedules', async (req, res) => {
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      const schedules = await storage.listReminderSchedules(req.user.id);
+      res.json({
+        schedules: schedules.map(schedule => ({ ...schedule, description: describeReminderSchedule(schedule, definitions) }))
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  router.post('/schedules', async (req, res) => {
+    const { error, value } = reminderScheduleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    try {
+      const definitions = await getMetricDefinitions(storage, req.user.id);
+      if (!findMetricDefinition(definitions, value.type)) {
+        return res.status(400).json({ error: `"type" must be one of [${definitions.map(d => d.key).join(', ')}]` });
+      }
+      if ((await storage.listReminderSchedules(req.user.id)).length >= MAX_REMINDER_SCHEDULES) {
+        return res.status(400).json({ error: `You can have up to ${MAX_REMINDER_SCHEDULES} reminder schedules` });
+      }
+
+      const schedule = { id: uuidv4(), ...value, createdAt: new Date() };
+      await storage.addReminderSchedule(req.user.id, schedule);
+
+      res.status(201).json({
+        message: 'Reminder schedule created successfully',
+        schedule: { ...schedule, description: describeReminderSchedule(schedule, definitions) }
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Reminders the schedule created that are still open are dismissed with it
+  router.delete('/schedules/:id', async (req, res) => {
+    try {
+      const removed = await storage.deleteReminderSchedule(req.user.id, req.params.id);
+      if (!removed) {
+        return res.status(404).json({ error: 'Reminder schedule not found' });
+      }
+
+      const open = (await storage.listReminders(req.user.id))
+        .filter(reminder => reminder.scheduleId === removed.id && !reminder.dismissedAt);
+      for (const reminder of open) {
+        await storage.updateReminder(req.user.id, reminder.id, { dismissedAt: new Date() });
+      }
+
+      res.json({
+        message: 'Reminder schedule deleted successfully',
+        schedule: removed
+      });
+    } catch (error) {
+      console.error('Server error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  createDueReminders,
+  checkReminders,
+  resolveReminders,
+  startReminderScheduler,
+  createReminderRouter
+};
@@ -0,0 +1,98 @@
+// Descriptive statistics and least-squares fits for series of readings
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two-tailed 5% critical values of Student's t by degrees of freedom. Degrees of freedom
+// between entries use the entry below, which errs on the side of "not significant".
+const T_CRITICAL_VALUES = [
+  [1, 12.706], [2, 4.303], [3, 3.182], [4, 2.776], [5, 2.571], [6, 2.447], [7, 2.365],
+  [8, 2.306], [9, 2.262], [10, 2.228], [11, 2.201], [12, 2.179], [13, 2.16], [14, 2.145],
+  [15, 2.131], [16, 2.12], [17, 2.11], [18, 2.101], [19, 2.093], [20, 2.086], [21, 2.08],
+  [22, 2.074], [23, 2.069], [24, 2.064], [25, 2.06], [26, 2.056], [27, 2.052], [28, 2.048],
+  [29, 2.045], [30, 2.042], [40, 2.021], [60, 2], [120, 1.98]
+];
+
+const sum = (values) => values.reduce((total, value) => total + value, 0);
+
+function mean(values) {
+  return sum(values) / values.length;
+}
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Value below which a fraction q of the values fall, interpolating between neighbours
+function quantile(values, q) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+// Sample standard deviation; 0 for a single value
+function standardDeviation(values) {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(sum(values.map(value => (value - average) ** 2)) / (values.length - 1));
+}
+
+// Least-squares line through points of { x, y }, with Pearson's r of the fit.
+// Points that all share an x or a y give a flat line and r of 0.
+function linearRegression(points) {
+  const meanX = mean(points.map(point => point.x));
+  const meanY = mean(points.map(point => point.y));
+  const sxx = sum(points.map(point => (point.x - meanX) ** 2));
+  const syy = sum(points.map(point => (point.y - meanY) ** 2));
+  const sxy = sum(points.map(point => (point.x - meanX) * (point.y - meanY)));
+
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r: sxx === 0 || syy === 0 ? 0 : sxy / Math.sqrt(sxx * syy)
+  };
+}
+
+// Whether a correlation of r over n points is unlikely to be chance, at the 5% level
+function isSignificantCorrelation(r, n) {
+  const degreesOfFreedom = n - 2;
+  if (degreesOfFreedom < 1 || r === 0) return false;
+  if (Math.abs(r) >= 1) return true;
+
+  const t = Math.abs(r) * Math.sqrt(degreesOfFreedom / (1 - r * r));
+  const [, critical] = [...T_CRITICAL_VALUES].reverse().find(([df]) => df <= degreesOfFreedom);
+  return t > critical;
+}
+
+// Moving average over a window of days: for each point, the mean of the readings taken in
+// the `days` up to and including it. Points are { time, value } with time in milliseconds,
+// oldest first, and the averages come back in the same order.
+function movingAverage(points, days) {
+  const averages = [];
+  let start = 0;
+  let sum = 0;
+  points.forEach((point, index) => {
+    sum += point.value;
+    while (points[start].time <= point.time - days * DAY_MS) {
+      sum -= points[start].value;
+      start += 1;
+    }
+    averages.push(sum / (index - start + 1));
+  });
+  return averages;
+}
+
+module.exports = {
+  DAY_MS,
+  mean,
+  median,
+  quantile,
+  standardDeviation,
+  linearRegression,
+  isSignificantCorrelation,
+  movingAverage
+};
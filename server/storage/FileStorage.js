@@ -0,0 +1,45 @@
+const fs = require('fs/promises');
+const path = require('path');
+const MemoryStorage = require('./MemoryStorage');
+
+// Persists the whole storage document as a JSON file. Writes go to a temporary
+// file that is renamed over the original, so a crash mid-write never leaves a
+// truncated file behind.
+class FileStorage extends MemoryStorage {
+  constructor(filePath) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.pendingWrite = Promise.resolve();
+  }
+
+  async init() {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      this.state = JSON.parse(contents);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    await super.init();
+    await this.persist();
+  }
+
+  async persist() {
+    // Serialize writes so two requests never race on the temporary file
+    const snapshot = JSON.stringify(this.state, null, 2);
+    this.pendingWrite = this.pendingWrite
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.pendingWrite;
+  }
+}
+
+module.exports = FileStorage;
@@ -0,0 +1,309 @@
+const { createEmptyState, runMigrations } = require('./migrations');
+
+// Keeps everything in process memory. Data is lost on restart, which makes it
+// suitable for development and tests. Other drivers extend this class and
+// override `init` and `persist`.
+class MemoryStorage {
+  constructor() {
+    this.state = createEmptyState();
+  }
+
+  async init() {
+    this.state = runMigrations(this.state);
+  }
+
+  async persist() {}
+
+  // Users
+
+  async createUser(user) {
+    this.state.users[user.id] = user;
+    await this.persist();
+    return user;
+  }
+
+  async getUser(id) {
+    return this.state.users[id] || null;
+  }
+
+  async updateUser(id, changes) {
+    const user = this.state.users[id];
+    if (!user) return null;
+
+    this.state.users[id] = { ...user, ...changes };
+    await this.persist();
+    return this.state.users[id];
+  }
+
+  async findUserByEmail(email) {
+    const normalized = email.toLowerCase();
+    return Object.values(this.state.users).find(user => user.email === normalized) || null;
+  }
+
+  async listUsers() {
+    return Object.values(this.state.users);
+  }
+
+  // Health metrics
+
+  async listMetrics(userId) {
+    return this.state.healthData[userId] || [];
+  }
+
+  async getMetric(userId, id) {
+    const metrics = await this.listMetrics(userId);
+    return metrics.find(metric => metric.id === id) || null;
+  }
+
+  async addMetric(userId, metric) {
+    if (!this.state.healthData[userId]) {
+      this.state.healthData[userId] = [];
+    }
+
+    this.state.healthData[userId].push(metric);
+    await this.persist();
+    return metric;
+  }
+
+  // Adds all metrics or none: if saving fails the in-memory list is restored
+  async addMetrics(userId, metrics) {
+    const previous = this.state.healthData[userId] || [];
+    this.state.healthData[userId] = [...previous, ...metrics];
+
+    try {
+      await this.persist();
+    } catch (error) {
+      this.state.healthData[userId] = previous;
+      throw error;
+    }
+    return metrics;
+  }
+
+  async updateMetric(userId, id, metric) {
+    const metrics = this.state.healthData[userId] || [];
+    const index = metrics.findIndex(record => record.id === id);
+    if (index === -1) return null;
+
+    metrics[index] = metric;
+    await this.persist();
+    return metric;
+  }
+
+  // Replaces the user's metrics that share an id with the given ones, all or none
+  async updateMetrics(userId, metrics) {
+    const previous = this.state.healthData[userId] || [];
+    const updates = new Map(metrics.map(metric => [metric.id, metric]));
+    this.state.healthData[userId] = previous.map(record => updates.get(record.id) || record);
+
+    try {
+      await this.persist();
+    } catch (error) {
+      this.state.healthData[userId] = previous;
+      throw error;
+    }
+    return metrics;
+  }
+
+  async deleteMetric(userId, id) {
+    const metrics = this.state.healthData[userId] || [];
+    const index = metrics.findIndex(record => record.id === id);
+    if (index === -1) return null;
+
+    const [removed] = metrics.splice(index, 1);
+    await this.persist();
+    return removed;
+  }
+
+  // Metric definitions of the user's own; built-in ones are not stored
+
+  async listMetricDefinitions(userId) {
+    return this.state.metricDefinitions[userId] || [];
+  }
+
+  async addMetricDefinition(userId, definition) {
+    if (!this.state.metricDefinitions[userId]) {
+      this.state.metricDefinitions[userId] = [];
+    }
+
+    this.state.metricDefinitions[userId].push(definition);
+    await this.persist();
+    return definition;
+  }
+
+  async deleteMetricDefinition(userId, key) {
+    const definitions = this.state.metricDefinitions[userId] || [];
+    const index = definitions.findIndex(definition => definition.key === key);
+    if (index === -1) return null;
+
+    const [removed] = definitions.splice(index, 1);
+    await this.persist();
+    return removed;
+  }
+
+  // Alert rules and the alerts they raised
+
+  async listAlertRules(userId) {
+    return this.state.alertRules[userId] || [];
+  }
+
+  async addAlertRule(userId, rule) {
+    if (!this.state.alertRules[userId]) {
+      this.state.alertRules[userId] = [];
+    }
+
+    this.state.alertRules[userId].push(rule);
+    await this.persist();
+    return rule;
+  }
+
+  async deleteAlertRule(userId, id) {
+    const rules = this.state.alertRules[userId] || [];
+    const index = rules.findIndex(rule => rule.id === id);
+    if (index === -1) return null;
+
+    const [removed] = rules.splice(index, 1);
+    await this.persist();
+    return removed;
+  }
+
+  async listAlerts(userId) {
+    return this.state.alerts[userId] || [];
+  }
+
+  async addAlerts(userId, alerts) {
+    const previous = this.state.alerts[userId] || [];
+    this.state.alerts[userId] = [...previous, ...alerts];
+
+    try {
+      await this.persist();
+    } catch (error) {
+      this.state.alerts[userId] = previous;
+      throw error;
+    }
+    return alerts;
+  }
+
+  async updateAlert(userId, id, changes) {
+    const alert = (this.state.alerts[userId] || []).find(record => record.id === id);
+    if (!alert) return null;
+
+    Object.assign(alert, changes);
+    await this.persist();
+    return alert;
+  }
+
+  // Goals
+
+  async listGoals(userId) {
+    return this.state.goals[userId] || [];
+  }
+
+  async addGoal(userId, goal) {
+    if (!this.state.goals[userId]) {
+      this.state.goals[userId] = [];
+    }
+
+    this.state.goals[userId].push(goal);
+    await this.persist();
+    return goal;
+  }
+
+  async deleteGoal(userId, id) {
+    const goals = this.state.goals[userId] || [];
+    const index = goals.findIndex(goal => goal.id === id);
+    if (index === -1) return null;
+
+    const [removed] = goals.splice(index, 1);
+    await this.persist();
+    return removed;
+  }
+
+  // Reminder schedules and the reminders they created
+
+  async listReminderSchedules(userId) {
+    return this.state.reminderSchedules[userId] || [];
+  }
+
+  async addReminderSchedule(userId, schedule) {
+    if (!this.state.reminderSchedules[userId]) {
+      this.state.reminderSchedules[userId] = [];
+    }
+
+    this.state.reminderSchedules[userId].push(schedule);
+    await this.persist();
+    return schedule;
+  }
+
+  async deleteReminderSchedule(userId, id) {
+    const schedules = this.state.reminderSchedules[userId] || [];
+    const index = schedules.findIndex(schedule => schedule.id === id);
+    if (index === -1) return null;
+
+    const [removed] = schedules.splice(index, 1);
+    await this.persist();
+    return removed;
+  }
+
+  async listReminders(userId) {
+    return this.state.reminders[userId] || [];
+  }
+
+  async addReminders(userId, reminders) {
+    const previous = this.state.reminders[userId] || [];
+    this.state.reminders[userId] = [...previous, ...reminders];
+
+    try {
+      await this.persist();
+    } catch (error) {
+      this.state.reminders[userId] = previous;
+      throw error;
+    }
+    return reminders;
+  }
+
+  async updateReminder(userId, id, changes) {
+    const reminder = (this.state.reminders[userId] || []).find(record => record.id === id);
+    if (!reminder) return null;
+
+    Object.assign(reminder, changes);
+    await this.persist();
+    return reminder;
+  }
+
+  // Chat conversations
+
+  async getConversation(sessionId) {
+    return this.state.conversations[sessionId] || [];
+  }
+
+  async appendMessages(sessionId, messages) {
+    if (!this.state.conversations[sessionId]) {
+      this.state.conversations[sessionId] = [];
+    }
+
+    const conversation = this.state.conversations[sessionId];
+    conversation.push(...messages);
+    await this.persist();
+    return conversation;
+  }
+
+  // What a conversation is waiting for from the user, or null
+  async getConversationState(sessionId) {
+    return this.state.conversationStates[sessionId] || null;
+  }
+
+  async setConversationState(sessionId, conversationState) {
+    this.state.conversationStates[sessionId] = conversationState;
+    await this.persist();
+    return conversationState;
+  }
+
+  async clearConversationState(sessionId) {
+    if (!this.state.conversationStates[sessionId]) return;
+
+    delete this.state.conversationStates[sessionId];
+    await this.persist();
+  }
+}
+
+module.exports = MemoryStorage;
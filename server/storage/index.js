@@ -0,0 +1,24 @@
+const path = require('path');
+const MemoryStorage = require('./MemoryStorage');
+const FileStorage = require('./FileStorage');
+
+const DEFAULT_FILE_PATH = path.join(__dirname, '..', 'data', 'health-data.json');
+
+// Select a storage driver from configuration. Route handlers only depend on the
+// interface implemented by MemoryStorage, so drivers are interchangeable.
+function createStorage({ driver = 'file', filePath = DEFAULT_FILE_PATH } = {}) {
+  switch (driver) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'file':
+      return new FileStorage(filePath);
+    default:
+      throw new Error(`Unknown storage driver "${driver}". Use "memory" or "file".`);
+  }
+}
+
+module.exports = {
+  createStorage,
+  MemoryStorage,
+  FileStorage
+};
@@ -0,0 +1,171 @@
+const { parseBloodPressure } = require('../bloodPressure');
+const { normalizeUnit, toCanonical } = require('../units');
+const { classifyReading } = require('../referenceRanges');
+
+// Schema migrations for the persisted storage document.
+// Each migration receives the document at the previous version and returns it
+// at its own version. Migrations must be append-only: never edit one that has shipped.
+const migrations = [
+  {
+    version: 1,
+    description: 'Initial schema with health data and conversations keyed by id',
+    up: (state) => ({
+      ...state,
+      healthData: state.healthData || {},
+      conversations: state.conversations || {}
+    })
+  },
+  {
+    version: 2,
+    description: 'Add user accounts',
+    up: (state) => ({
+      ...state,
+      users: state.users || {}
+    })
+  },
+  {
+    version: 3,
+    description: 'Convert "systolic/diastolic" blood pressure strings to structured readings',
+    up: (state) => {
+      const healthData = {};
+      let unparseable = 0;
+
+      Object.entries(state.healthData).forEach(([userId, records]) => {
+        healthData[userId] = records.map(record => {
+          if (record.type !== 'blood_pressure' || typeof record.value !== 'string') {
+            return record;
+          }
+
+          const reading = parseBloodPressure(record.value);
+          if (!reading) {
+            unparseable += 1;
+            return record;
+          }
+          return { ...record, value: reading, unit: 'mmHg' };
+        });
+      });
+
+      if (unparseable > 0) {
+        console.warn(`${unparseable} blood pressure record(s) could not be converted and were left unchanged`);
+      }
+
+      return { ...state, healthData };
+    }
+  },
+  {
+    version: 4,
+    description: 'Store values in canonical units and keep the value and unit as entered',
+    up: (state) => {
+      const healthData = {};
+      let unconvertible = 0;
+
+      Object.entries(state.healthData).forEach(([userId, records]) => {
+        healthData[userId] = records.map(record => {
+          if (!normalizeUnit(record.type, record.unit)) {
+            unconvertible += 1;
+          }
+          return { ...record, ...toCanonical(record.type, record.value, record.unit) };
+        });
+      });
+
+      if (unconvertible > 0) {
+        console.warn(`${unconvertible} record(s) have an unrecognised unit and were left in that unit`);
+      }
+
+      return { ...state, healthData };
+    }
+  },
+  {
+    version: 5,
+    description: 'Add user-defined metric definitions keyed by user id',
+    up: (state) => ({
+      ...state,
+      metricDefinitions: state.metricDefinitions || {}
+    })
+  },
+  {
+    version: 6,
+    description: 'Classify stored readings against the clinical reference ranges',
+    up: (state) => {
+      const healthData = {};
+
+      Object.entries(state.healthData).forEach(([userId, records]) => {
+        healthData[userId] = records.map(record => ({ ...record, classification: classifyReading(record) }));
+      });
+
+      return { ...state, healthData };
+    }
+  },
+  {
+    version: 7,
+    description: 'Add alert rules and triggered alerts keyed by user id',
+    up: (state) => ({
+      ...state,
+      alertRules: state.alertRules || {},
+      alerts: state.alerts || {}
+    })
+  },
+  {
+    version: 8,
+    description: 'Add goals keyed by user id',
+    up: (state) => ({ ...state, goals: state.goals || {} })
+  },
+  {
+    version: 9,
+    description: 'Add reminder schedules and reminders keyed by user id',
+    up: (state) => ({
+      ...state,
+      reminderSchedules: state.reminderSchedules || {},
+      reminders: state.reminders || {}
+    })
+  },
+  {
+    version: 10,
+    description: 'Say how the readings of user-defined metrics combine over a day, week or month',
+    up: (state) => {
+      const metricDefinitions = {};
+
+      Object.entries(state.metricDefinitions).forEach(([userId, definitions]) => {
+        metricDefinitions[userId] = definitions.map(definition => ({
+          ...definition,
+          aggregation: definition.aggregation ||
+            (definition.valueKind === 'number' || definition.valueKind === 'pair' ? 'average' : 'last')
+        }));
+      });
+
+      return { ...state, metricDefinitions };
+    }
+  },
+  {
+    version: 11,
+    description: 'Add the state of unfinished chat exchanges, such as a reading still to be given, keyed by conversation',
+    up: (state) => ({ ...state, conversationStates: state.conversationStates || {} })
+  }
+];
+
+const LATEST_VERSION = migrations[migrations.length - 1].version;
+
+function createEmptyState() {
+  return { schemaVersion: 0 };
+}
+
+function runMigrations(state) {
+  const currentVersion = state.schemaVersion || 0;
+
+  if (currentVersion > LATEST_VERSION) {
+    throw new Error(`Storage schema version ${currentVersion} is newer than this server supports (${LATEST_VERSION})`);
+  }
+
+  return migrations
+    .filter(migration => migration.version > currentVersion)
+    .reduce((migrated, migration) => {
+      console.log(`Applying storage migration ${migration.version}: ${migration.description}`);
+      return { ...migration.up(migrated), schemaVersion: migration.version };
+    }, state);
+}
+
+module.exports = {
+  LATEST_VERSION,
+  createEmptyState,
+  runMigrations
+};
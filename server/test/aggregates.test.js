@@ -0,0 +1,86 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { aggregateReadings } = require('../aggregates');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const definition = (key) => BUILT_IN_METRIC_DEFINITIONS.find(d => d.key === key);
+
+const record = (id, type, value, unit, timestamp, extra = {}) => ({
+  id,
+  type,
+  value,
+  unit,
+  timestamp: new Date(timestamp),
+  ...extra
+});
+
+test('totals cumulative metrics per day in the unit asked for', () => {
+  const buckets = aggregateReadings([
+    record('w1', 'water_intake', 0.5, 'L', '2024-03-13T08:00:00Z'),
+    record('w2', 'water_intake', 0.25, 'L', '2024-03-13T12:00:00Z'),
+    record('w3', 'water_intake', 0.75, 'L', '2024-03-13T19:00:00Z'),
+    record('w4', 'water_intake', 1, 'L', '2024-03-14T09:00:00Z')
+  ], definition('water_intake'), { granularity: 'day', unit: 'mL' });
+
+  assert.deepEqual(buckets.map(bucket => [bucket.period, bucket.value, bucket.count]), [
+    ['2024-03-13', 1500, 3],
+    ['2024-03-14', 1000, 1]
+  ]);
+  assert.equal(buckets[0].start.toISOString(), '2024-03-13T00:00:00.000Z');
+  assert.equal(buckets[0].end.toISOString(), '2024-03-14T00:00:00.000Z');
+});
+
+test('buckets readings by the day in the time zone asked for', () => {
+  // 23:30 on the 13th in UTC is already the 14th in Berlin
+  const steps = [
+    record('s1', 'steps', 4000, 'steps', '2024-03-13T12:00:00Z'),
+    record('s2', 'steps', 3000, 'steps', '2024-03-13T23:30:00Z')
+  ];
+
+  const utc = aggregateReadings(steps, definition('steps'), { granularity: 'day', timeZone: 'UTC' });
+  assert.deepEqual(utc.map(bucket => [bucket.period, bucket.value]), [['2024-03-13', 7000]]);
+
+  const berlin = aggregateReadings(steps, definition('steps'), { granularity: 'day', timeZone: 'Europe/Berlin' });
+  assert.deepEqual(berlin.map(bucket => [bucket.period, bucket.value]), [['2024-03-13', 4000], ['2024-03-14', 3000]]);
+  assert.equal(berlin[1].start.toISOString(), '2024-03-13T23:00:00.000Z');
+});
+
+test('keeps the latest weight and averages blood pressure per week and month', () => {
+  const weights = aggregateReadings([
+    record('k1', 'weight', 71, 'kg', '2024-03-11T07:00:00Z'),
+    record('k2', 'weight', 70.4, 'kg', '2024-03-17T07:00:00Z'),
+    record('k3', 'weight', 70, 'kg', '2024-03-18T07:00:00Z')
+  ], definition('weight'), { granularity: 'week', unit: 'kg' });
+  assert.deepEqual(weights.map(bucket => [bucket.period, bucket.value]), [['2024-03-11', 70.4], ['2024-03-18', 70]]);
+
+  const pressure = aggregateReadings([
+    record('b1', 'blood_pressure', { systolic: 120, diastolic: 80 }, 'mmHg', '2024-03-02T08:00:00Z'),
+    record('b2', 'blood_pressure', { systolic: 131, diastolic: 85, pulse: 70 }, 'mmHg', '2024-03-30T08:00:00Z'),
+    record('b3', 'blood_pressure', { systolic: 118, diastolic: 76 }, 'mmHg', '2024-04-01T08:00:00Z')
+  ], definition('blood_pressure'), { granularity: 'month', unit: 'mmHg' });
+  assert.deepEqual(pressure.map(bucket => [bucket.period, bucket.value]), [
+    ['2024-03-01', { systolic: 126, diastolic: 83 }],
+    ['2024-04-01', { systolic: 118, diastolic: 76 }]
+  ]);
+  assert.equal(pressure[0].end.toISOString(), '2024-04-01T00:00:00.000Z');
+});
+
+test('keeps the latest choice of enum metrics', () => {
+  const mood = { key: 'mood', label: 'Mood', unit: '', valueKind: 'enum', options: ['low', 'ok', 'good'], aggregation: 'last' };
+  const buckets = aggregateReadings([
+    record('m1', 'mood', 'low', '', '2024-03-13T08:00:00Z'),
+    record('m2', 'mood', 'good', '', '2024-03-13T20:00:00Z')
+  ], mood, { granularity: 'day' });
+
+  assert.deepEqual(buckets.map(bucket => bucket.value), ['good']);
+});
+
+test('leaves readings marked erroneous out of the buckets', () => {
+  const buckets = aggregateReadings([
+    record('s1', 'steps', 4000, 'steps', '2024-03-13T09:00:00Z'),
+    record('s2', 'steps', 400000, 'steps', '2024-03-13T12:00:00Z', { erroneous: true }),
+    record('s3', 'steps', 3000, 'steps', '2024-03-13T19:00:00Z')
+  ], definition('steps'));
+
+  assert.deepEqual(buckets.map(bucket => [bucket.value, bucket.count]), [[7000, 2]]);
+});
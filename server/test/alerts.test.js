@@ -0,0 +1,93 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { evaluateAlertRules } = require('../alerts');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const definitions = BUILT_IN_METRIC_DEFINITIONS;
+const now = new Date('2024-03-10T12:00:00Z');
+
+const hoursAgo = (hours) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const record = (id, type, value, unit, hours, extra = {}) => ({ id, type, value, unit, timestamp: hoursAgo(hours), ...extra });
+
+const fastHeart = {
+  id: 'rule-hr',
+  kind: 'threshold',
+  type: 'heart_rate',
+  operator: '>',
+  value: 120,
+  unit: 'bpm',
+  count: 2,
+  windowHours: 24,
+  createdAt: hoursAgo(100)
+};
+
+const evaluate = (rules, records, existingAlerts = []) => evaluateAlertRules(rules, records, existingAlerts, { definitions, now });
+
+test('raises a threshold alert once enough readings breach within the window', () => {
+  const records = [
+    record('hr1', 'heart_rate', 130, 'bpm', 30),
+    record('hr2', 'heart_rate', 125, 'bpm', 10),
+    record('hr3', 'heart_rate', 80, 'bpm', 5)
+  ];
+  assert.deepEqual(evaluate([fastHeart], records), []);
+
+  const [alert] = evaluate([fastHeart], [...records, record('hr4', 'heart_rate', 135, 'bpm', 1)]);
+  assert.equal(alert.ruleId, 'rule-hr');
+  assert.equal(alert.message, 'Heart Rate above 120 bpm 2 times within 24 hours');
+  assert.deepEqual(alert.recordIds, ['hr2', 'hr4']);
+  assert.equal(alert.acknowledgedAt, null);
+});
+
+test('does not raise the same episode twice', () => {
+  const records = [
+    record('hr1', 'heart_rate', 130, 'bpm', 3),
+    record('hr2', 'heart_rate', 125, 'bpm', 2)
+  ];
+  const [first] = evaluate([fastHeart], records);
+
+  assert.deepEqual(evaluate([fastHeart], [...records, record('hr3', 'heart_rate', 140, 'bpm', 1)], [first]), []);
+});
+
+test('compares readings in the unit of the rule and pairs by part', () => {
+  const fever = { id: 'rule-fever', kind: 'threshold', type: 'temperature', operator: '>=', value: 100.4, unit: '°F', count: 1, windowHours: 24 };
+  const systolic = { id: 'rule-bp', kind: 'threshold', type: 'blood_pressure', part: 'systolic', operator: '>', value: 160, unit: 'mmHg', count: 1, windowHours: 24 };
+
+  const alerts = evaluate([fever, systolic], [
+    record('t1', 'temperature', 38.2, '°C', 2),
+    record('bp1', 'blood_pressure', { systolic: 150, diastolic: 110 }, 'mmHg', 2)
+  ]);
+
+  assert.deepEqual(alerts.map(alert => [alert.ruleId, alert.message]), [
+    ['rule-fever', 'Temperature at or above 100.4 °F within 24 hours']
+  ]);
+});
+
+test('raises a missing-reading alert when the latest reading is too old', () => {
+  const noSugar = { id: 'rule-sugar', kind: 'missing', type: 'blood_sugar', hours: 48, name: 'Check glucose', createdAt: hoursAgo(100) };
+
+  assert.deepEqual(evaluate([noSugar], [record('bs1', 'blood_sugar', 95, 'mg/dL', 20)]), []);
+
+  const [alert] = evaluate([noSugar], [record('bs1', 'blood_sugar', 95, 'mg/dL', 50)]);
+  assert.equal(alert.message, 'Check glucose: No blood sugar logged in 48 hours');
+  assert.deepEqual(alert.recordIds, ['bs1']);
+  assert.deepEqual(evaluate([noSugar], [record('bs1', 'blood_sugar', 95, 'mg/dL', 50)], [alert]), []);
+});
+
+test('counts a never-logged metric from when the rule was created', () => {
+  const noSleep = { id: 'rule-sleep', kind: 'missing', type: 'sleep_hours', hours: 48, createdAt: hoursAgo(10) };
+  assert.deepEqual(evaluate([noSleep], []), []);
+
+  const [alert] = evaluate([{ ...noSleep, createdAt: hoursAgo(60) }], []);
+  assert.deepEqual(alert.recordIds, []);
+  assert.deepEqual(evaluate([{ ...noSleep, createdAt: hoursAgo(60) }], [], [alert]), []);
+});
+
+test('ignores readings marked erroneous', () => {
+  const records = [
+    record('hr1', 'heart_rate', 130, 'bpm', 10),
+    record('hr2', 'heart_rate', 180, 'bpm', 1, { erroneous: true })
+  ];
+  assert.deepEqual(evaluate([fastHeart], records), []);
+  assert.equal(evaluate([fastHeart], [...records, record('hr3', 'heart_rate', 135, 'bpm', 0.5)]).length, 1);
+});
@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { detectAnomaly, createAnomalyDetector } = require('../anomalies');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+const { toStoredMetric } = require('../metrics');
+
+const definition = (key) => BUILT_IN_METRIC_DEFINITIONS.find(d => d.key === key);
+
+const reading = (id, type, value, unit, timestamp, extra = {}) => ({
+  id,
+  ...toStoredMetric({ type, value, unit, timestamp }),
+  ...extra
+});
+
+const weights = [70.2, 70.8, 69.9, 70.4, 71, 70.6].map((value, index) =>
+  reading(`w${index}`, 'weight', value, 'kg', Date.UTC(2024, 2, 1 + index, 7)));
+
+test('flags readings outside physiological limits in the unit they were entered in', () => {
+  const anomaly = detectAnomaly(reading('new', 'weight', 700, 'lb', '2024-03-10T07:00:00Z'), [], definition('weight'));
+
+  assert.deepEqual(anomaly.reasons, ['Weight of 700 lb is outside the plausible range of 55.1 lb to 661.4 lb']);
+  assert.equal(anomaly.robustZScore, null);
+});
+
+test('flags readings far from the user\'s own history', () => {
+  const anomaly = detectAnomaly(reading('new', 'weight', 80, 'kg', '2024-03-10T07:00:00Z'), weights, definition('weight'));
+
+  assert.deepEqual(anomaly.reasons, ['Weight of 80 kg is far from your usual 70.5 kg']);
+  assert.ok(anomaly.robustZScore > 3.5);
+  assert.equal(detectAnomaly(reading('new', 'weight', 70.9, 'kg', '2024-03-10T07:00:00Z'), weights, definition('weight')), null);
+});
+
+test('judges each number of a pair and ignores readings marked erroneous', () => {
+  const pressures = [[118, 76], [122, 80], [120, 78], [119, 79], [121, 77]].map(([systolic, diastolic], index) =>
+    reading(`b${index}`, 'blood_pressure', { systolic, diastolic }, 'mmHg', Date.UTC(2024, 2, 1 + index, 8)));
+  const mistake = reading('b9', 'blood_pressure', { systolic: 220, diastolic: 78 }, 'mmHg', '2024-03-09T08:00:00Z', { erroneous: true });
+
+  const anomaly = detectAnomaly(
+    reading('new', 'blood_pressure', { systolic: 180, diastolic: 79 }, 'mmHg', '2024-03-10T08:00:00Z'),
+    [...pressures, mistake],
+    definition('blood_pressure')
+  );
+
+  assert.deepEqual(anomaly.reasons, ['Blood Pressure (systolic) of 180 mmHg is far from your usual 120 mmHg']);
+});
+
+test('needs a few earlier readings before judging against them', () => {
+  assert.equal(detectAnomaly(reading('new', 'weight', 90, 'kg', '2024-03-10T07:00:00Z'), weights.slice(0, 4), definition('weight')), null);
+  assert.equal(detectAnomaly(reading('new', 'weight', 90, 'kg', '2024-03-10T07:00:00Z'), weights, definition('weight')).reasons.length, 1);
+});
+
+test('judges imported readings against the history stored before the import', () => {
+  const detect = createAnomalyDetector(weights, BUILT_IN_METRIC_DEFINITIONS);
+
+  assert.deepEqual(detect(reading('new', 'weight', 80, 'kg', '2024-03-10T07:00:00Z')).reasons, ['Weight of 80 kg is far from your usual 70.5 kg']);
+  assert.equal(detect(reading('new', 'weight', 70.9, 'kg', '2024-03-11T07:00:00Z')), null);
+  // Too little history of steps to judge by, but the limits still apply
+  assert.equal(detect(reading('new', 'steps', 12000, 'steps', '2024-03-10T20:00:00Z')), null);
+  assert.equal(detect(reading('new', 'steps', 120000, 'steps', '2024-03-11T20:00:00Z')).reasons.length, 1);
+  assert.equal(detect(reading('new', 'unknown_metric', 5, 'pts', '2024-03-10T20:00:00Z')), null);
+});
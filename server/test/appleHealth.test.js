@@ -0,0 +1,123 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const { Readable } = require('node:stream');
+const express = require('express');
+const { createTagScanner, readAppleHealthExport } = require('../importers/appleHealth');
+const { createImportRouter } = require('../imports');
+const { MemoryStorage } = require('../storage');
+
+const exportXml = fs.readFileSync(path.join(__dirname, 'fixtures', 'apple-health-export.xml'));
+
+// Feeds the file in small pieces so tags, entities and characters are split across chunks
+function streamInChunks(buffer, size) {
+  const chunks = [];
+  for (let i = 0; i < buffer.length; i += size) {
+    chunks.push(buffer.subarray(i, i + size));
+  }
+  return Readable.from(chunks);
+}
+
+const byType = (metrics, type) => metrics.filter(metric => metric.type === type);
+
+test('maps HealthKit records onto metric types and units', async () => {
+  const { metrics, stats } = await readAppleHealthExport(streamInChunks(exportXml, 7));
+
+  assert.deepEqual(byType(metrics, 'weight').map(metric => [metric.value, metric.unit, metric.timestamp.toISOString()]), [
+    [165.2, 'lb', '2024-03-01T15:30:00.000Z']
+  ]);
+  assert.deepEqual(byType(metrics, 'height').map(metric => [metric.value, metric.unit]), [[168, 'cm']]);
+  assert.deepEqual(byType(metrics, 'blood_sugar').map(metric => [metric.value, metric.unit]), [[5.4, 'mmol/L']]);
+  assert.deepEqual(byType(metrics, 'blood_pressure').map(metric => metric.value), [{ systolic: 122, diastolic: 81 }]);
+  assert.deepEqual(stats, { records: 23, unsupported: 1, invalid: 1, bytesRead: exportXml.length });
+});
+
+test('reduces frequent samples to one reading per day', async () => {
+  const { metrics } = await readAppleHealthExport(streamInChunks(exportXml, 4096));
+
+  // The Watch counted more steps than the iPhone on the 1st; the two are not added together
+  assert.deepEqual(byType(metrics, 'steps').map(metric => [metric.value, metric.timestamp.toISOString()]), [
+    [4350, '2024-03-01T20:00:00.000Z'],
+    [2500, '2024-03-02T20:00:00.000Z']
+  ]);
+  assert.deepEqual(byType(metrics, 'heart_rate').map(metric => [metric.value, metric.notes]), [
+    [76, 'Daily average of 3 readings from Apple Health']
+  ]);
+  assert.deepEqual(byType(metrics, 'water_intake').map(metric => [metric.value, metric.unit]), [[973.18, 'mL']]);
+});
+
+test('counts time asleep for the night, ignoring time awake and in bed', async () => {
+  const { metrics } = await readAppleHealthExport(streamInChunks(exportXml, 4096));
+
+  assert.deepEqual(byType(metrics, 'sleep_hours').map(metric => [metric.value, metric.timestamp.toISOString(), metric.notes]), [
+    [7, '2024-03-02T20:00:00.000Z', 'Time asleep from Apple Health']
+  ]);
+});
+
+test('reports progress while reading', async () => {
+  const progress = [];
+  await readAppleHealthExport(streamInChunks(exportXml, 2048), { onProgress: update => progress.push(update) });
+
+  assert.equal(progress.length, Math.ceil(exportXml.length / 2048));
+  assert.equal(progress[progress.length - 1].bytesRead, exportXml.length);
+  assert.ok(progress.every((update, index) => index === 0 || update.records >= progress[index - 1].records));
+});
+
+test('rejects files that are not Apple Health exports', async () => {
+  await assert.rejects(
+    readAppleHealthExport(Readable.from([Buffer.from('<?xml version="1.0"?><plist></plist>')])),
+    /not look like an Apple Health export/
+  );
+});
+
+test('stops reading past the size limit', async () => {
+  await assert.rejects(
+    readAppleHealthExport(streamInChunks(exportXml, 1024), { maxBytes: 2048 }),
+    /size limit/
+  );
+});
+
+test('finds tags whose quoted attributes contain ">"', () => {
+  const tags = [];
+  const scanner = createTagScanner(['Record'], (name, attributes) => tags.push(attributes));
+
+  scanner.write('<Record note="a > b" value="1"/><Other/><Rec');
+  scanner.write('ord value=\'2\'></Record>');
+
+  assert.deepEqual(tags, [{ note: 'a > b', value: '1' }, { value: '2' }]);
+});
+
+test('updates the daily total of a day that was still going when last imported', async (t) => {
+  const storage = new MemoryStorage();
+  await storage.init();
+  const app = express();
+  app.use((req, res, next) => {
+    req.user = { id: 'user-1', preferences: { displayUnits: {} } };
+    next();
+  });
+  app.use('/import', createImportRouter(storage));
+  const server = app.listen(0);
+  t.after(() => server.close());
+
+  const base = `http://localhost:${server.address().port}/import/apple-health`;
+  const steps = (start, value) =>
+    `<Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="${start}" value="${value}"/>`;
+  const upload = async (records) => {
+    const job = await (await fetch(base, { method: 'POST' })).json();
+    const response = await fetch(`${base}/${job.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/xml' },
+      body: `<?xml version="1.0"?><HealthData locale="en_US">${records.join('')}</HealthData>`
+    });
+    return response.json();
+  };
+
+  const morning = [steps('2024-03-01 08:00:00 -0800', 1200), steps('2024-02-29 08:00:00 -0800', 5000)];
+  assert.equal((await upload(morning)).imported, 2);
+
+  const evening = await upload([...morning, steps('2024-03-01 18:00:00 -0800', 3000)]);
+  assert.deepEqual([evening.imported, evening.updated, evening.duplicates], [0, 1, 1]);
+  const stored = await storage.listMetrics('user-1');
+  assert.deepEqual(stored.map(record => record.value).sort((a, b) => a - b), [4200, 5000]);
+});
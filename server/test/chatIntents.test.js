@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { tokenize, matchWord, createIntentRegistry } = require('../chatIntents');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const registry = createIntentRegistry();
+const classify = (message) => registry.classify(message, { definitions: BUILT_IN_METRIC_DEFINITIONS, timeZone: 'UTC' });
+
+test('splits messages into words and tolerates typos in longer words only', () => {
+  assert.deepEqual(tokenize("What's my BP, 120/80?"), ['what', 's', 'my', 'bp', '120', '80']);
+  assert.equal(matchWord('step', 'steps'), 1);
+  assert.equal(matchWord('wieght', 'weight'), 0.8);
+  assert.equal(matchWord('later', 'water'), 0);
+  assert.equal(matchWord('his', 'hi'), 0);
+});
+
+test('matches whole words, so "this" is not a greeting', () => {
+  assert.equal(classify('Hello').intent, 'greeting');
+  assert.deepEqual(classify('is this thing on'), { intent: 'unknown', confidence: 0, entities: {} });
+});
+
+test('understands every built-in metric, by name, everyday word or misspelling', () => {
+  const mentioned = [
+    'weight', 'height', 'blod presure', 'resting heart rate', 'glucose', 'temp',
+    'sleep', 'steps', 'water', 'exercise'
+  ].map(message => classify(`show my ${message}`));
+
+  assert.deepEqual(mentioned.map(({ entities }) => entities.metric), BUILT_IN_METRIC_DEFINITIONS.map(({ key }) => key));
+  assert.ok(mentioned.every(({ intent }) => intent === 'metric_query'));
+  // A misspelt metric on its own is less certain than one spelt right
+  assert.equal(classify('blood pressure').confidence, 0.7);
+  assert.equal(classify('blod presure').confidence, 0.56);
+});
+
+test('returns the intent with its confidence and entities', () => {
+  assert.deepEqual(classify('how close am I to my step goal?'), { intent: 'goal_progress', confidence: 0.95, entities: { metric: 'steps' } });
+  assert.equal(classify('weight 72.4 kg').intent, 'log_metric');
+  assert.deepEqual(classify('weight 72.4 kg').entities.reading.value, 72.4);
+  assert.equal(classify('what can you do').intent, 'help');
+  assert.equal(classify('give me a health summary').intent, 'health_summary');
+});
+
+test('answers trend, statistic and last-logged questions about a metric', () => {
+  const trend = classify('how has my weight changed this month?');
+  assert.equal(trend.intent, 'metric_trend');
+  assert.equal(trend.entities.period.label, 'this month');
+
+  assert.deepEqual(
+    (({ intent, entities: { metric, statistic, period } }) => ({ intent, metric, statistic, period: period.label }))(classify('what was my average heart rate last week?')),
+    { intent: 'metric_statistic', metric: 'heart_rate', statistic: 'mean', period: 'last week' }
+  );
+  assert.equal(classify('show my highest blood pressure').entities.statistic, 'max');
+  assert.deepEqual(classify('when did I last log blood sugar?'), { intent: 'last_logged', confidence: 0.95, entities: { metric: 'blood_sugar' } });
+});
+
+test('does not find a metric labelled without letters or digits in every message', () => {
+  const definitions = [...BUILT_IN_METRIC_DEFINITIONS, { key: 'nap', label: '😴', unit: 'minutes', valueKind: 'number', builtIn: false }];
+  const classifyWith = (message) => registry.classify(message, { definitions, timeZone: 'UTC' });
+
+  const greeting = classifyWith('hello there');
+  assert.equal(greeting.intent, 'greeting');
+  assert.deepEqual(greeting.entities, {});
+  assert.equal(classifyWith('what is my nap').entities.metric, 'nap');
+});
+
+test('takes more intents and entities', () => {
+  const custom = createIntentRegistry();
+  custom.registerEntity({ name: 'mood', extract: (message, tokens) => (tokens.includes('sad') ? { value: 'sad', confidence: 1 } : null) });
+  custom.register({ name: 'mood_support', requires: ['mood'], matchers: [{ entity: 'mood', confidence: 0.8 }] });
+
+  assert.deepEqual(custom.classify('feeling sad'), { intent: 'mood_support', confidence: 0.8, entities: { mood: 'sad' } });
+});
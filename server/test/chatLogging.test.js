@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseMetricLog } = require('../chatLogging');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+const { healthMetricSchema } = require('../metrics');
+
+// A Sunday afternoon in London, an hour ahead of UTC in summer time
+const now = new Date('2024-06-09T14:30:00Z');
+const parse = (message, options = {}) => parseMetricLog(message, BUILT_IN_METRIC_DEFINITIONS, { timeZone: 'Europe/London', now, ...options });
+
+test('reads values and units from the ways people report readings', () => {
+  assert.deepEqual(parse('weight 72.4 kg'), { type: 'weight', value: 72.4, unit: 'kg', timestamp: now });
+  assert.deepEqual(parse('BP 128 over 84, pulse 70').value, { systolic: 128, diastolic: 84, pulse: 70 });
+  assert.deepEqual(parse('slept 6.5h'), { type: 'sleep_hours', value: 6.5, unit: 'hours', timestamp: now });
+  assert.deepEqual(parse('log 8000 steps'), { type: 'steps', value: 8000, unit: 'steps', timestamp: now });
+  assert.deepEqual(parse('drank 500 ml of water'), { type: 'water_intake', value: 500, unit: 'mL', timestamp: now });
+  assert.equal(parse('blood sugar 5.6 mmol/L fasting').mealContext, 'fasting');
+});
+
+test('takes values without a unit to be in the display unit', () => {
+  assert.equal(parse('weight 160', { displayUnits: { weight: 'lb' } }).unit, 'lb');
+  assert.equal(parse('temp 37.2').unit, '°C');
+});
+
+test('places "this morning" and "last night" in the user\'s time zone', () => {
+  assert.equal(parse('bp 128 over 84 this morning').timestamp.toISOString(), '2024-06-09T07:00:00.000Z');
+  assert.equal(parse('slept 6.5h last night').timestamp.toISOString(), '2024-06-08T21:00:00.000Z');
+  assert.equal(parse('walked 9000 steps yesterday').timestamp.toISOString(), '2024-06-08T14:30:00.000Z');
+  // Never in the future, so the metric schema accepts it
+  assert.deepEqual(parse('temp 37.2 this evening').timestamp, now);
+});
+
+test('leaves questions and messages without a value to the rest of the chatbot', () => {
+  assert.equal(parse('what was my weight 2 weeks ago'), null);
+  assert.equal(parse('how is my blood pressure?'), null);
+  assert.equal(parse('log my weight'), null);
+  assert.equal(parse('hello'), null);
+});
+
+test('produces metrics the health metric schema validates', () => {
+  const { error, value } = healthMetricSchema.validate(parse('bp 128/84 this morning'));
+  assert.equal(error, undefined);
+  assert.deepEqual(value.value, { systolic: 128, diastolic: 84 });
+
+  const tooLong = healthMetricSchema.validate(parse('slept 30 hours'));
+  assert.equal(tooLong.error.details[0].message, '"value" must be at most 24 hours');
+});
@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parsePeriod } = require('../chatPeriods');
+
+// A Sunday afternoon in London, an hour ahead of UTC in summer time
+const now = new Date('2024-06-09T14:30:00Z');
+const parse = (message) => {
+  const period = parsePeriod(message, { timeZone: 'Europe/London', now });
+  return period && { label: period.label, start: period.start.toISOString(), end: period.end.toISOString() };
+};
+
+test('reads calendar periods in the user\'s time zone, weeks starting on Monday', () => {
+  assert.deepEqual(parse('how has my weight changed this month?'), {
+    label: 'this month', start: '2024-05-31T23:00:00.000Z', end: '2024-06-09T14:30:00.000Z'
+  });
+  assert.deepEqual(parse('average heart rate last week'), {
+    label: 'last week', start: '2024-05-26T23:00:00.000Z', end: '2024-06-02T23:00:00.000Z'
+  });
+  assert.deepEqual(parse('steps yesterday'), {
+    label: 'yesterday', start: '2024-06-07T23:00:00.000Z', end: '2024-06-08T23:00:00.000Z'
+  });
+  // Winter time, when London is on UTC
+  assert.equal(parse('last year').start, '2023-01-01T00:00:00.000Z');
+});
+
+test('reads rolling periods up to now', () => {
+  assert.deepEqual(parse('my sleep in the past 30 days'), {
+    label: 'in the past 30 days', start: '2024-05-10T14:30:00.000Z', end: '2024-06-09T14:30:00.000Z'
+  });
+  assert.equal(parse('the last 2 weeks').start, '2024-05-26T14:30:00.000Z');
+  assert.equal(parse('over the past month').label, 'in the past month');
+});
+
+test('keeps rolling months and years within the month they land in', () => {
+  const startOf = (message, at) => parsePeriod(message, { now: new Date(at) }).start.toISOString();
+
+  assert.equal(startOf('the past month', '2024-03-31T12:00:00Z'), '2024-02-29T12:00:00.000Z');
+  assert.equal(startOf('the past 3 months', '2024-05-31T12:00:00Z'), '2024-02-29T12:00:00.000Z');
+  assert.equal(startOf('the past year', '2024-02-29T12:00:00Z'), '2023-02-28T12:00:00.000Z');
+});
+
+test('finds no period in messages without one', () => {
+  assert.equal(parse('what is my weight'), null);
+  assert.equal(parse('slept 7 hours last night'), null);
+});
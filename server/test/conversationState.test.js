@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { PENDING_TTL_MS, isCancellation, createPendingState, isExpired, fillLogSlots } = require('../conversationState');
+const { createIntentRegistry } = require('../chatIntents');
+const { BUILT_IN_METRIC_DEFINITIONS: definitions } = require('../metricDefinitions');
+
+const now = new Date('2024-06-09T14:30:00Z');
+const registry = createIntentRegistry();
+const classify = (message) => registry.classify(message, { definitions, timeZone: 'Europe/London', now });
+const fill = (state, message) => fillLogSlots(state, message, { classify, definitions, now });
+
+test('asks for the reading of a named metric, or for the metric first', () => {
+  const bloodPressure = createPendingState('log_metric', { metric: 'blood_pressure' }, 'reading', definitions, now);
+  assert.equal(bloodPressure.prompt, 'What was the reading? Give the systolic and diastolic, such as "120/80".');
+  assert.equal(createPendingState('log_metric', { metric: 'weight' }, 'reading', definitions, now).prompt, 'What was the reading? For example "70 kg".');
+  assert.equal(
+    createPendingState('log_metric', {}, 'metric', definitions, now).prompt,
+    'Which metric would you like to log? For example weight, height or blood pressure.'
+  );
+});
+
+test('reads a bare answer as the reading of the metric asked about', () => {
+  const state = createPendingState('log_metric', { metric: 'blood_pressure' }, 'reading', definitions, now);
+  const { metric, reading } = fill(state, '128 over 84 this morning');
+
+  assert.equal(metric, 'blood_pressure');
+  assert.deepEqual(reading.value, { systolic: 128, diastolic: 84 });
+  assert.equal(reading.timestamp.toISOString(), '2024-06-09T07:00:00.000Z');
+  assert.equal(fill(state, 'not sure').reading, null);
+});
+
+test('fills the metric first when it was not named', () => {
+  const state = createPendingState('log_metric', {}, 'metric', definitions, now);
+  assert.deepEqual(fill(state, 'my weight'), { metric: 'weight', reading: null });
+  assert.equal(fill(state, 'slept 7 hours').reading.value, 7);
+  assert.deepEqual(fill(state, 'hmm'), { metric: undefined, reading: null });
+});
+
+test('expires and can be cancelled', () => {
+  const state = createPendingState('log_metric', { metric: 'weight' }, 'reading', definitions, now);
+  assert.equal(isExpired(state, now), false);
+  assert.equal(isExpired(state, new Date(now.getTime() + PENDING_TTL_MS)), true);
+
+  assert.ok(['cancel', 'Never mind', 'no thanks', 'stop'].every(isCancellation));
+  assert.equal(isCancellation('72 kg'), false);
+  assert.equal(isCancellation('nothing to add'), false);
+});
@@ -0,0 +1,60 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getDailySeries, findCorrelations, getCorrelationRecommendations } = require('../correlations');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const record = (id, type, value, unit, timestamp, extra = {}) => ({
+  id,
+  type,
+  value,
+  unit,
+  timestamp: new Date(timestamp),
+  ...extra
+});
+
+// Two weeks of nights, each followed the next morning by a heart rate that is higher after short nights
+const SLEEP = [7.5, 6, 8, 5.5, 7, 6.5, 8.5, 5, 7, 6, 8, 7.5, 6.5, 5.5];
+
+const sleepAndHeartRate = () => SLEEP.flatMap((hours, day) => [
+  record(`s${day}`, 'sleep_hours', hours, 'hours', Date.UTC(2024, 2, 1 + day, 22)),
+  record(`h${day}`, 'heart_rate', Math.round(100 - 4 * hours), 'bpm', Date.UTC(2024, 2, 2 + day, 7))
+]);
+
+test('finds a metric that follows another a day later', () => {
+  const series = getDailySeries(sleepAndHeartRate(), BUILT_IN_METRIC_DEFINITIONS);
+  const correlations = findCorrelations(series);
+
+  assert.deepEqual(series.map(({ key }) => key), ['heart_rate', 'sleep_hours']);
+  assert.deepEqual(correlations[0], { first: 'sleep_hours', second: 'heart_rate', lag: 1, r: -1, sampleSize: 14, significant: true });
+  assert.ok(correlations.every(correlation => correlation.sampleSize >= 10));
+
+  assert.deepEqual(getCorrelationRecommendations(correlations, series, 1), [
+    'Your heart rate tends to be lower the day after days your sleep hours is higher (r = -1 over 14 days).',
+    'Metrics that move together are worth a closer look, but a correlation does not show that one causes the other.'
+  ]);
+});
+
+test('combines each day\'s readings before comparing and leaves out readings marked erroneous', () => {
+  const records = [
+    ...sleepAndHeartRate(),
+    record('extra', 'sleep_hours', 1, 'hours', Date.UTC(2024, 2, 1, 14)),
+    record('wrong', 'heart_rate', 240, 'bpm', Date.UTC(2024, 2, 2, 12), { erroneous: true })
+  ];
+  const sleep = getDailySeries(records, BUILT_IN_METRIC_DEFINITIONS).find(({ key }) => key === 'sleep_hours');
+  const heartRate = getDailySeries(records, BUILT_IN_METRIC_DEFINITIONS).find(({ key }) => key === 'heart_rate');
+
+  assert.equal(sleep.days.get('2024-03-01'), 4.3);
+  assert.equal(heartRate.days.get('2024-03-02'), 70);
+});
+
+test('needs enough days in common and does not compare the numbers of one metric', () => {
+  const pressures = SLEEP.map((hours, day) =>
+    record(`b${day}`, 'blood_pressure', { systolic: Math.round(100 + 4 * hours), diastolic: Math.round(60 + 2 * hours) }, 'mmHg', Date.UTC(2024, 2, 1 + day, 8)));
+  const fewNights = SLEEP.slice(0, 9).map((hours, day) => record(`s${day}`, 'sleep_hours', hours, 'hours', Date.UTC(2024, 2, 1 + day, 22)));
+
+  const series = getDailySeries([...pressures, ...fewNights], BUILT_IN_METRIC_DEFINITIONS);
+
+  assert.deepEqual(series.map(({ key }) => key), ['blood_pressure_systolic', 'blood_pressure_diastolic', 'sleep_hours']);
+  assert.deepEqual(findCorrelations(series), []);
+  assert.deepEqual(getCorrelationRecommendations([], series), []);
+});
@@ -0,0 +1,114 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+const { parseCsv, previewCsvImport } = require('../importers/csv');
+const { createImportRouter } = require('../imports');
+const { MemoryStorage } = require('../storage');
+
+test('keeps commas, newlines and doubled quotes inside quoted fields', () => {
+  const rows = parseCsv('type,value,notes\r\nweight,72,"after a run, before ""breakfast"""\nweight,71,"two\nlines"\n\nweight,70,\n');
+
+  assert.deepEqual(rows, [
+    { line: 1, cells: ['type', 'value', 'notes'] },
+    { line: 2, cells: ['weight', '72', 'after a run, before "breakfast"'] },
+    { line: 3, cells: ['weight', '71', 'two\nlines'] },
+    // A quoted newline moves later rows down a line, and blank lines are skipped but counted
+    { line: 6, cells: ['weight', '70', ''] }
+  ]);
+  assert.throws(() => parseCsv('type,value\nweight,"72'), /unterminated quoted field/);
+});
+
+test('reports each invalid row with the line it starts on', () => {
+  const csv = 'Date,Metric,Reading,Unit,Comment\n2024-03-01T07:30:00Z,weight,72,kg,"fine,\nreally"\n2024-03-02T07:30:00Z,weight,heavy,kg,\n2024-03-03T07:30:00Z,mood,5,,';
+  const { mapping, rows, summary } = previewCsvImport(csv);
+
+  assert.deepEqual(mapping, { type: 'Metric', value: 'Reading', unit: 'Unit', timestamp: 'Date', notes: 'Comment' });
+  assert.deepEqual(rows.map(row => [row.line, row.errors.length > 0]), [[2, false], [4, true], [5, true]]);
+  assert.match(rows[1].errors[0], /"value"/);
+  assert.deepEqual(summary, { total: 3, valid: 1, invalid: 2 });
+});
+
+test('imports every row or, when any row is invalid, none of them', async (t) => {
+  const storage = new MemoryStorage();
+  await storage.init();
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { id: 'user-1', preferences: { displayUnits: {} } };
+    next();
+  });
+  app.use('/import', createImportRouter(storage));
+  const server = app.listen(0);
+  t.after(() => server.close());
+
+  const post = (csv) => fetch(`http://localhost:${server.address().port}/import/csv`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ csv })
+  });
+
+  const rejected = await post('type,value,unit,timestamp\nweight,72,kg,2024-03-01T07:30:00Z\nweight,heavy,kg,2024-03-02T07:30:00Z');
+  assert.equal(rejected.status, 400);
+  assert.equal((await rejected.json()).preview.summary.invalid, 1);
+  assert.deepEqual(await storage.listMetrics('user-1'), []);
+
+  const imported = await post('type,value,unit,timestamp\nweight,72,kg,2024-03-01T07:30:00Z\nweight,71.5,kg,2024-03-02T07:30:00Z');
+  assert.equal(imported.status, 201);
+  assert.equal((await storage.listMetrics('user-1')).length, 2);
+});
+
+test('saves unusual rows flagged and lists them by line', async (t) => {
+  const storage = new MemoryStorage();
+  await storage.init();
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { id: 'user-1', preferences: { displayUnits: {} } };
+    next();
+  });
+  app.use('/import', createImportRouter(storage));
+  const server = app.listen(0);
+  t.after(() => server.close());
+
+  const response = await fetch(`http://localhost:${server.address().port}/import/csv`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ csv: 'type,value,unit,timestamp\nweight,72,kg,2024-03-01T07:30:00Z\nweight,720,kg,2024-03-02T07:30:00Z' })
+  });
+  const body = await response.json();
+
+  assert.equal(response.status, 201);
+  assert.match(body.message, /1 look unusual/);
+  assert.deepEqual(body.flagged.map(row => row.line), [3]);
+  const stored = await storage.listMetrics('user-1');
+  assert.equal(stored.length, 2);
+  assert.deepEqual(stored.filter(record => record.anomaly).map(record => record.value), [720]);
+});
+
+test('checks alert rules against the imported rows', async (t) => {
+  const storage = new MemoryStorage();
+  await storage.init();
+  await storage.addAlertRule('user-1', {
+    id: 'rule-hr', kind: 'threshold', type: 'heart_rate', operator: '>', value: 120, unit: 'bpm', count: 1, windowHours: 24
+  });
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { id: 'user-1', preferences: { displayUnits: {} } };
+    next();
+  });
+  app.use('/import', createImportRouter(storage));
+  const server = app.listen(0);
+  t.after(() => server.close());
+
+  const timestamp = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const response = await fetch(`http://localhost:${server.address().port}/import/csv`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ csv: `type,value,unit,timestamp\nheart_rate,130,bpm,${timestamp}` })
+  });
+
+  assert.equal(response.status, 201);
+  const alerts = await storage.listAlerts('user-1');
+  assert.deepEqual(alerts.map(alert => alert.ruleId), ['rule-hr']);
+});
@@ -0,0 +1,79 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { computeDerivedMetrics } = require('../derivedMetrics');
+const { generateHealthInsights } = require('../insights');
+
+const record = (id, type, value, unit, timestamp, extra = {}) => ({
+  id,
+  type,
+  value,
+  unit,
+  timestamp: new Date(timestamp),
+  ...extra
+});
+
+const valuesOf = (derived, type) => derived
+  .filter(metric => metric.type === type)
+  .map(metric => [metric.value, metric.timestamp.toISOString()]);
+
+test('computes BMI of every weight reading from the latest height', () => {
+  const derived = computeDerivedMetrics([
+    record('w2', 'weight', 72, 'kg', '2024-03-08T08:00:00Z', { enteredValue: 158.7, enteredUnit: 'lb' }),
+    record('h1', 'height', 170, 'cm', '2024-01-01T08:00:00Z'),
+    record('w1', 'weight', 75, 'kg', '2024-03-01T08:00:00Z'),
+    record('h2', 'height', 180, 'cm', '2024-02-01T08:00:00Z')
+  ]);
+
+  assert.deepEqual(valuesOf(derived, 'bmi'), [
+    [23.1, '2024-03-01T08:00:00.000Z'],
+    [22.2, '2024-03-08T08:00:00.000Z']
+  ]);
+  assert.deepEqual(derived[0].sourceIds, ['w1', 'h2']);
+  assert.equal(derived[0].unit, 'kg/m²');
+});
+
+test('needs a height to compute BMI', () => {
+  assert.deepEqual(computeDerivedMetrics([record('w1', 'weight', 75, 'kg', '2024-03-01T08:00:00Z')]), []);
+});
+
+test('computes mean arterial pressure of each blood pressure reading', () => {
+  const derived = computeDerivedMetrics([
+    record('bp1', 'blood_pressure', { systolic: 120, diastolic: 80 }, 'mmHg', '2024-03-01T08:00:00Z'),
+    record('bp2', 'blood_pressure', '140/91', 'mmHg', '2024-03-02T08:00:00Z')
+  ]);
+
+  assert.deepEqual(valuesOf(derived, 'mean_arterial_pressure'), [
+    [93, '2024-03-01T08:00:00.000Z'],
+    [107, '2024-03-02T08:00:00.000Z']
+  ]);
+});
+
+test('averages sleep over weeks starting on Monday', () => {
+  const derived = computeDerivedMetrics([
+    record('s1', 'sleep_hours', 7, 'hours', '2024-03-04T06:00:00Z'),
+    record('s2', 'sleep_hours', 8, 'hours', '2024-03-10T06:00:00Z'),
+    record('s3', 'sleep_hours', 6.5, 'hours', '2024-03-09T06:00:00Z'),
+    record('s4', 'sleep_hours', 6, 'hours', '2024-03-11T06:00:00Z')
+  ]);
+
+  assert.deepEqual(valuesOf(derived, 'weekly_sleep_average'), [
+    [7.2, '2024-03-04T00:00:00.000Z'],
+    [6, '2024-03-11T00:00:00.000Z']
+  ]);
+  assert.deepEqual(derived[0].sourceIds, ['s1', 's3', 's2']);
+});
+
+test('returns derived series and their trends with the insights', () => {
+  const insights = generateHealthInsights([
+    record('h1', 'height', 180, 'cm', '2024-01-01T08:00:00Z'),
+    record('w1', 'weight', 81, 'kg', '2024-03-01T08:00:00Z'),
+    record('w2', 'weight', 78, 'kg', '2024-03-08T08:00:00Z')
+  ]);
+
+  assert.deepEqual(Object.keys(insights.derivedMetrics), ['bmi']);
+  assert.equal(insights.derivedMetrics.bmi.label, 'BMI');
+  assert.deepEqual(insights.derivedMetrics.bmi.points.map(point => point.value), [25, 24.1]);
+  assert.equal(insights.trends.bmi.change, -0.9);
+  assert.equal(insights.trends.bmi.unit, 'kg/m²');
+  assert.deepEqual(insights.metricsTracked, ['height', 'weight']);
+});
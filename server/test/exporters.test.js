@@ -0,0 +1,60 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { toCsv } = require('../exporters/csv');
+const { renderHealthReport } = require('../exporters/report');
+const { previewCsvImport } = require('../importers/csv');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const gripStrength = {
+  key: 'grip_strength',
+  label: 'Grip Strength',
+  unit: 'kg',
+  valueKind: 'pair',
+  parts: [{ key: 'left', label: 'Left' }, { key: 'right', label: 'Right' }],
+  aggregation: 'average',
+  builtIn: false
+};
+const definitions = [...BUILT_IN_METRIC_DEFINITIONS, gripStrength];
+
+const records = [
+  { id: 'r1', type: 'blood_pressure', value: { systolic: 122, diastolic: 81 }, unit: 'mmHg', timestamp: new Date('2024-03-01T07:30:00Z') },
+  // Stored in the order it was sent, which need not be the order of the parts
+  { id: 'r2', type: 'grip_strength', value: { right: 28, left: 30 }, unit: 'kg', timestamp: new Date('2024-03-01T08:00:00Z') }
+];
+
+test('exports CSV the importer reads back, pairs of the user\'s own metrics included', () => {
+  const csv = toCsv(records, definitions);
+  const { rows, summary } = previewCsvImport(csv, { definitions });
+
+  assert.match(csv, /grip_strength,30\/28,kg/);
+  assert.equal(summary.invalid, 0);
+  assert.deepEqual(rows.map(row => row.metric.value), [{ systolic: 122, diastolic: 81 }, { left: 30, right: 28 }]);
+});
+
+test('names metrics in the report by their labels', () => {
+  const report = renderHealthReport({
+    user: { name: 'Alex', preferences: { displayUnits: {} } },
+    records,
+    insights: { trends: { grip_strength_left: { change: 1, percentChange: '3.3', unit: 'kg', recordCount: 2 } } },
+    definitions
+  });
+
+  assert.match(report, /<h2>Grip Strength<\/h2>/);
+  assert.match(report, /<td>Grip Strength Left<\/td>/);
+  assert.match(report, /<h2>Blood Pressure<\/h2>/);
+});
+
+test('leaves readings marked erroneous out of the report', () => {
+  const report = renderHealthReport({
+    user: { name: 'Alex', preferences: { displayUnits: {} } },
+    records: [
+      { id: 'w1', type: 'weight', value: 72, unit: 'kg', timestamp: new Date('2024-03-01T07:30:00Z') },
+      { id: 'w2', type: 'weight', value: 720, unit: 'kg', timestamp: new Date('2024-03-02T07:30:00Z'), erroneous: true }
+    ],
+    insights: { trends: {} },
+    definitions
+  });
+
+  assert.match(report, /<dt>Readings<\/dt><dd>1<\/dd>/);
+  assert.doesNotMatch(report, /720/);
+});
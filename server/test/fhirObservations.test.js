@@ -0,0 +1,149 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { toStoredMetric } = require('../metrics');
+const { toObservation, toSearchBundle, fromBundle, toOperationOutcome } = require('../fhirObservations');
+const validBundle = require('./fixtures/observations-bundle.json');
+const invalidBundle = require('./fixtures/invalid-observations-bundle.json');
+
+const PATIENT_ID = 'patient-1';
+
+test('imports observations mapped by LOINC and UCUM codes', () => {
+  const { metrics, issues } = fromBundle(validBundle, PATIENT_ID);
+
+  assert.deepEqual(issues, []);
+  assert.deepEqual(metrics.map(metric => [metric.type, metric.value, metric.unit]), [
+    ['weight', 165, 'lb'],
+    ['blood_pressure', { systolic: 122, diastolic: 81 }, 'mmHg'],
+    ['blood_sugar', 5.4, 'mmol/L'],
+    ['temperature', 99.1, '°F']
+  ]);
+  assert.equal(metrics[0].notes, 'Morning, before breakfast');
+  assert.equal(metrics[2].timestamp.toISOString(), '2024-03-01T08:00:00.000Z');
+  assert.equal(metrics[3].timestamp.toISOString(), '2024-03-02T21:10:00.000Z');
+});
+
+test('reports every entry that cannot be imported', () => {
+  const { metrics, issues } = fromBundle(invalidBundle, PATIENT_ID);
+
+  assert.equal(metrics.length, 1);
+  assert.deepEqual(issues.map(issue => issue.entry), [1, 2, 3, 4, 5]);
+  assert.match(issues[0].errors[0], /status "preliminary"/);
+  assert.match(issues[1].errors[0], /Patient\/someone-else/);
+  assert.match(issues[2].errors[0], /not a supported LOINC code/);
+  assert.match(issues[3].errors[0], /"timestamp" is required/);
+  assert.match(issues[4].errors[0], /not an Observation/);
+});
+
+test('rejects a body that is not a Bundle', () => {
+  const { metrics, issues } = fromBundle({ resourceType: 'Observation' }, PATIENT_ID);
+
+  assert.deepEqual(metrics, []);
+  assert.equal(issues.length, 1);
+});
+
+test('reports malformed Bundles and Observations instead of failing on them', () => {
+  const withObservation = (fields) => ({
+    resourceType: 'Bundle',
+    entry: [{ resource: { ...validBundle.entry[0].resource, ...fields } }]
+  });
+
+  assert.deepEqual(fromBundle({ resourceType: 'Bundle', entry: null }, PATIENT_ID).issues, [
+    { entry: null, errors: ['Bundle "entry" must be an array'] }
+  ]);
+  assert.match(fromBundle({ resourceType: 'Bundle', entry: [null] }, PATIENT_ID).issues[0].errors[0], /"entry\[0\]" must be of type object/);
+  [
+    [{ code: { coding: 'weight' } }, /"code.coding" must be an array/],
+    [{ note: 'Morning' }, /"note" must be an array/],
+    [{ component: { code: {} } }, /"component" must be an array/]
+  ].forEach(([fields, message]) => {
+    const { metrics, issues } = fromBundle(withObservation(fields), PATIENT_ID);
+    assert.deepEqual(metrics, []);
+    assert.equal(issues[0].entry, 0);
+    assert.match(issues[0].errors[0], message);
+  });
+});
+
+test('exports stored metrics as Observations with LOINC codes and UCUM units', () => {
+  const record = {
+    id: 'record-1',
+    ...toStoredMetric({ type: 'weight', value: 165, unit: 'lb', timestamp: '2024-03-01T07:30:00Z', notes: 'Morning' })
+  };
+
+  const observation = toObservation(record, PATIENT_ID);
+
+  assert.equal(observation.resourceType, 'Observation');
+  assert.equal(observation.subject.reference, 'Patient/patient-1');
+  assert.equal(observation.effectiveDateTime, '2024-03-01T07:30:00.000Z');
+  assert.equal(observation.code.coding[0].system, 'http://loinc.org');
+  assert.equal(observation.code.coding[0].code, '29463-7');
+  assert.equal(observation.valueQuantity.code, 'kg');
+  assert.equal(observation.category[0].coding[0].code, 'vital-signs');
+  assert.deepEqual(observation.note, [{ text: 'Morning' }]);
+});
+
+test('exports blood pressure as systolic and diastolic components', () => {
+  const record = {
+    id: 'record-2',
+    type: 'blood_pressure',
+    value: { systolic: 118, diastolic: 76, pulse: 62 },
+    unit: 'mmHg',
+    timestamp: new Date('2024-03-01T07:35:00Z')
+  };
+
+  const observation = toObservation(record, PATIENT_ID);
+
+  assert.equal(observation.valueQuantity, undefined);
+  assert.deepEqual(
+    observation.component.map(component => [component.code.coding[0].code, component.valueQuantity.value, component.valueQuantity.code]),
+    [['8480-6', 118, 'mm[Hg]'], ['8462-4', 76, 'mm[Hg]'], ['8867-4', 62, '/min']]
+  );
+});
+
+test('exports metrics of the user\'s own by their type and label', () => {
+  const definitions = [{ key: 'grip_strength', label: 'Grip Strength', valueKind: 'pair', unit: 'kg' }];
+  const records = [
+    { id: 'record-3', type: 'grip_strength', value: { left: 30, right: 28 }, unit: 'kg', timestamp: new Date('2024-03-01T08:00:00Z') },
+    { id: 'record-4', type: 'mood', value: 'Good', unit: '', timestamp: new Date('2024-03-01T09:00:00Z') }
+  ];
+
+  const [grip, mood] = toSearchBundle(records, PATIENT_ID, 'http://localhost/api/fhir', definitions).entry.map(entry => entry.resource);
+
+  assert.deepEqual(grip.code, { coding: [{ system: 'urn:healthbot:metric-type', code: 'grip_strength' }], text: 'Grip Strength' });
+  assert.equal(grip.category, undefined);
+  assert.deepEqual(grip.component.map(component => [component.code.coding[0].code, component.valueQuantity.value]), [
+    ['grip_strength.left', 30], ['grip_strength.right', 28]
+  ]);
+  assert.equal(mood.code.text, 'mood');
+  assert.equal(mood.valueString, 'Good');
+});
+
+test('exported Bundles import back to the same readings', () => {
+  const { metrics } = fromBundle(validBundle, PATIENT_ID);
+  const records = metrics.map((metric, index) => ({ id: `record-${index}`, ...toStoredMetric(metric) }));
+
+  const bundle = toSearchBundle(records, PATIENT_ID, 'http://localhost/api/fhir');
+  const roundTrip = fromBundle(bundle, PATIENT_ID);
+
+  assert.equal(bundle.type, 'searchset');
+  assert.equal(bundle.total, 4);
+  assert.equal(bundle.entry[0].fullUrl, 'http://localhost/api/fhir/Observation/record-0');
+  assert.deepEqual(roundTrip.issues, []);
+  assert.deepEqual(
+    roundTrip.metrics.map(metric => [metric.type, metric.value, metric.unit]),
+    records.map(record => [record.type, record.value, record.unit])
+  );
+});
+
+test('describes import problems as an OperationOutcome', () => {
+  const outcome = toOperationOutcome([{ entry: 3, errors: ['"value" must be a number'] }]);
+
+  assert.deepEqual(outcome, {
+    resourceType: 'OperationOutcome',
+    issue: [{
+      severity: 'error',
+      code: 'invalid',
+      diagnostics: '"value" must be a number',
+      expression: ['Bundle.entry[3].resource']
+    }]
+  });
+});
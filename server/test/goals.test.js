@@ -0,0 +1,129 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { computeGoalProgress, withGoalProgress } = require('../goals');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+// A Wednesday
+const now = new Date('2024-03-13T18:00:00Z');
+
+const record = (id, type, value, unit, timestamp, extra = {}) => ({
+  id,
+  type,
+  value,
+  unit,
+  timestamp: new Date(timestamp),
+  ...extra
+});
+
+test('totals the readings of the current day for a daily step goal', () => {
+  const goal = { id: 'g1', type: 'steps', period: 'daily', target: 10000, unit: 'steps' };
+  const progress = computeGoalProgress(goal, [
+    record('s1', 'steps', 9000, 'steps', '2024-03-12T20:00:00Z'),
+    record('s2', 'steps', 4000, 'steps', '2024-03-13T09:00:00Z'),
+    record('s3', 'steps', 3500, 'steps', '2024-03-13T17:00:00Z')
+  ], now);
+
+  assert.equal(progress.measure, 'total');
+  assert.equal(progress.current, 7500);
+  assert.equal(progress.percent, 75);
+  assert.equal(progress.remaining, 2500);
+  assert.equal(progress.achieved, false);
+  assert.equal(progress.periodStart.toISOString(), '2024-03-13T00:00:00.000Z');
+});
+
+test('averages sleep over the current week in the unit of the goal', () => {
+  const sleep = { id: 'g2', type: 'sleep_hours', period: 'weekly', target: 8, unit: 'hours' };
+  const water = { id: 'g3', type: 'water_intake', period: 'weekly', target: 2000, unit: 'mL' };
+
+  const sleepProgress = computeGoalProgress(sleep, [
+    record('z0', 'sleep_hours', 4, 'hours', '2024-03-10T07:00:00Z'),
+    record('z1', 'sleep_hours', 7, 'hours', '2024-03-11T07:00:00Z'),
+    record('z2', 'sleep_hours', 9, 'hours', '2024-03-12T07:00:00Z')
+  ], now);
+  assert.equal(sleepProgress.measure, 'average');
+  assert.equal(sleepProgress.current, 8);
+  assert.equal(sleepProgress.achieved, true);
+  assert.equal(sleepProgress.periodStart.toISOString(), '2024-03-11T00:00:00.000Z');
+
+  const waterProgress = computeGoalProgress(water, [
+    record('w1', 'water_intake', 1.5, 'L', '2024-03-11T12:00:00Z'),
+    record('w2', 'water_intake', 0.25, 'L', '2024-03-12T12:00:00Z', { enteredValue: 250, enteredUnit: 'mL' })
+  ], now);
+  assert.equal(waterProgress.current, 1750);
+  assert.equal(waterProgress.percent, 88);
+});
+
+test('counts the days and weeks of the time zone of the goal', () => {
+  // 14:00 on a Wednesday in New York, four hours behind UTC since daylight saving time began
+  const steps = { id: 'g1', type: 'steps', period: 'daily', target: 10000, unit: 'steps', timeZone: 'America/New_York' };
+  const dailyProgress = computeGoalProgress(steps, [
+    record('s1', 'steps', 9000, 'steps', '2024-03-13T03:00:00Z'),
+    record('s2', 'steps', 4000, 'steps', '2024-03-13T05:00:00Z')
+  ], now);
+  assert.equal(dailyProgress.current, 4000);
+  assert.equal(dailyProgress.periodStart.toISOString(), '2024-03-13T04:00:00.000Z');
+  assert.equal(dailyProgress.periodEnd.toISOString(), '2024-03-14T04:00:00.000Z');
+
+  // Already Thursday in Auckland, whose week began at midnight on Monday, 11:00 UTC on Sunday
+  const water = { id: 'g3', type: 'water_intake', period: 'weekly', target: 2000, unit: 'mL', timeZone: 'Pacific/Auckland' };
+  const weeklyProgress = computeGoalProgress(water, [
+    record('w1', 'water_intake', 500, 'mL', '2024-03-10T10:00:00Z'),
+    record('w2', 'water_intake', 750, 'mL', '2024-03-10T12:00:00Z')
+  ], now);
+  assert.equal(weeklyProgress.current, 750);
+  assert.equal(weeklyProgress.periodStart.toISOString(), '2024-03-10T11:00:00.000Z');
+});
+
+test('measures a by-date goal from the reading before it was set', () => {
+  const goal = {
+    id: 'g4',
+    type: 'weight',
+    period: 'by_date',
+    target: 70,
+    unit: 'kg',
+    targetDate: new Date('2024-06-01T00:00:00Z'),
+    createdAt: new Date('2024-02-01T00:00:00Z')
+  };
+  const records = [
+    record('w0', 'weight', 82, 'kg', '2024-01-01T08:00:00Z'),
+    record('w1', 'weight', 80, 'kg', '2024-01-20T08:00:00Z'),
+    record('w2', 'weight', 76, 'kg', '2024-03-10T08:00:00Z')
+  ];
+
+  const progress = computeGoalProgress(goal, records, now);
+  assert.equal(progress.startValue, 80);
+  assert.equal(progress.current, 76);
+  assert.equal(progress.percent, 40);
+  assert.equal(progress.remaining, 6);
+
+  const reached = computeGoalProgress(goal, [...records, record('w3', 'weight', 69.5, 'kg', '2024-03-12T08:00:00Z')], now);
+  assert.equal(reached.achieved, true);
+  assert.equal(reached.percent, 100);
+});
+
+test('describes each goal alongside its progress', () => {
+  const goals = withGoalProgress([
+    { id: 'g1', type: 'steps', period: 'daily', target: 10000, unit: 'steps' },
+    { id: 'g2', type: 'sleep_hours', period: 'weekly', target: 8, unit: 'hours' },
+    { id: 'g3', type: 'weight', period: 'by_date', target: 70, unit: 'kg', targetDate: new Date('2024-06-01T00:00:00Z'), createdAt: now }
+  ], [], BUILT_IN_METRIC_DEFINITIONS, now);
+
+  assert.deepEqual(goals.map(goal => goal.description), [
+    'Steps: 10000 steps a day',
+    'Sleep Hours: 8 hours on average a week',
+    'Weight: 70 kg by 2024-06-01'
+  ]);
+  assert.equal(goals[0].progress.current, 0);
+  assert.equal(goals[2].progress.current, null);
+});
+
+test('does not count readings marked erroneous towards a goal', () => {
+  const goal = { id: 'g1', type: 'steps', period: 'daily', target: 10000, unit: 'steps' };
+  const progress = computeGoalProgress(goal, [
+    record('s1', 'steps', 4000, 'steps', '2024-03-13T09:00:00Z'),
+    record('s2', 'steps', 40000, 'steps', '2024-03-13T12:00:00Z', { erroneous: true })
+  ], now);
+
+  assert.equal(progress.current, 4000);
+  assert.equal(progress.achieved, false);
+});
@@ -0,0 +1,89 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { summarizeSeries, generateHealthInsights } = require('../insights');
+
+const record = (id, type, value, unit, timestamp) => ({
+  id,
+  type,
+  value,
+  unit,
+  timestamp: new Date(timestamp)
+});
+
+const daily = (type, values, unit) => values.map((value, index) =>
+  record(`${type}${index}`, type, value, unit, Date.UTC(2024, 2, 1 + index, 7)));
+
+test('reads the trend off the least-squares line so an outlier cannot reverse it', () => {
+  // Steadily losing half a kilo a day, then one heavy reading at the end
+  const { trends } = generateHealthInsights(daily('weight', [80, 79.5, 79, 78.5, 78, 77.5, 77, 76.5, 81], 'kg'));
+
+  assert.equal(trends.weight.direction, 'decrease');
+  assert.equal(trends.weight.change, -1.33);
+  assert.equal(trends.weight.slopePerWeek, -1.17);
+  assert.equal(trends.weight.significant, false);
+});
+
+test('summarises each series with its spread and moving averages', () => {
+  const { trends } = generateHealthInsights([
+    record('s1', 'steps', 2000, 'steps', '2024-03-01T20:00:00Z'),
+    record('s2', 'steps', 4000, 'steps', '2024-03-11T20:00:00Z'),
+    record('s3', 'steps', 6000, 'steps', '2024-03-21T20:00:00Z'),
+    record('s4', 'steps', 9000, 'steps', '2024-03-31T20:00:00Z')
+  ]);
+
+  assert.deepEqual(
+    [trends.steps.min, trends.steps.max, trends.steps.mean, trends.steps.median, trends.steps.standardDeviation],
+    [2000, 9000, 5250, 5000, 2986.08]
+  );
+  assert.equal(trends.steps.movingAverage7Day, 9000);
+  assert.equal(trends.steps.movingAverage30Day, 6333.33);
+  // Each reading averages those of the window of days ending at it
+  assert.deepEqual(trends.steps.movingAverages, [
+    { timestamp: '2024-03-01T20:00:00.000Z', average7Day: 2000, average30Day: 2000 },
+    { timestamp: '2024-03-11T20:00:00.000Z', average7Day: 4000, average30Day: 3000 },
+    { timestamp: '2024-03-21T20:00:00.000Z', average7Day: 6000, average30Day: 4000 },
+    { timestamp: '2024-03-31T20:00:00.000Z', average7Day: 9000, average30Day: 6333.33 }
+  ]);
+  assert.equal(trends.steps.significant, true);
+});
+
+test('has no percentage change for a trend that starts at zero', () => {
+  const { trends } = generateHealthInsights(daily('exercise_minutes', [0, 10, 20], 'minutes'));
+
+  assert.equal(trends.exercise_minutes.change, 20);
+  assert.equal(trends.exercise_minutes.percentChange, null);
+  assert.equal(trends.exercise_minutes.direction, 'increase');
+});
+
+test('does not call a trend of two readings significant', () => {
+  const { trends } = generateHealthInsights(daily('heart_rate', [60, 70], 'bpm'));
+
+  assert.equal(trends.heart_rate.change, 10);
+  assert.equal(trends.heart_rate.percentChange, '16.7');
+  assert.equal(trends.heart_rate.significant, false);
+});
+
+test('leaves readings marked erroneous out of the insights', () => {
+  const records = daily('weight', [70, 700, 69], 'kg');
+  records[1].erroneous = true;
+
+  const insights = generateHealthInsights(records);
+
+  assert.equal(insights.totalRecords, 2);
+  assert.equal(insights.trends.weight.max, 70);
+  assert.equal(insights.trends.weight.change, -1);
+});
+
+test('summarizes the series of one metric like the trends, from a single reading up', () => {
+  const records = [
+    ...daily('weight', [80, 79.5, 79, 78.5, 78, 77.5, 77, 76.5, 81], 'kg'),
+    { ...record('e', 'weight', 700, 'kg', Date.UTC(2024, 2, 10, 7)), erroneous: true },
+    record('b', 'blood_pressure', { systolic: 128, diastolic: 84 }, 'mmHg', Date.UTC(2024, 2, 1, 7))
+  ];
+
+  assert.deepEqual(summarizeSeries('weight', records), generateHealthInsights(daily('weight', [80, 79.5, 79, 78.5, 78, 77.5, 77, 76.5, 81], 'kg')).trends);
+  const bloodPressure = summarizeSeries('blood_pressure', records);
+  assert.deepEqual(Object.keys(bloodPressure), ['blood_pressure_systolic', 'blood_pressure_diastolic']);
+  assert.equal(bloodPressure.blood_pressure_systolic.recordCount, 1);
+  assert.equal(bloodPressure.blood_pressure_systolic.mean, 128);
+});
@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+const { createMetricDefinitionRouter } = require('../metricDefinitions');
+const { MemoryStorage } = require('../storage');
+const { getDisplayUnit, normalizeUnit, toCanonical } = require('../units');
+const { generateHealthInsights } = require('../insights');
+
+test('refuses keys that plain objects already have', async (t) => {
+  const storage = new MemoryStorage();
+  await storage.init();
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { id: 'user-1' };
+    next();
+  });
+  app.use('/definitions', createMetricDefinitionRouter(storage));
+  const server = app.listen(0);
+  t.after(() => server.close());
+
+  const post = (definition) => fetch(`http://localhost:${server.address().port}/definitions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(definition)
+  });
+
+  const byKey = await post({ key: 'constructor', label: 'Builder', valueKind: 'number' });
+  assert.equal(byKey.status, 400);
+  assert.match((await byKey.json()).error, /reserved name/);
+  assert.equal((await post({ label: 'Constructor', valueKind: 'number' })).status, 400);
+  assert.deepEqual(await storage.listMetricDefinitions('user-1'), []);
+});
+
+test('refuses keys of derived metrics, which are trended under them', async (t) => {
+  const storage = new MemoryStorage();
+  await storage.init();
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { id: 'user-1' };
+    next();
+  });
+  app.use('/definitions', createMetricDefinitionRouter(storage));
+  const server = app.listen(0);
+  t.after(() => server.close());
+
+  const post = (definition) => fetch(`http://localhost:${server.address().port}/definitions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(definition)
+  });
+
+  const byLabel = await post({ label: 'BMI', valueKind: 'number' });
+  assert.equal(byLabel.status, 400);
+  assert.match((await byLabel.json()).error, /"bmi" is a reserved name/);
+  assert.equal((await post({ key: 'mean_arterial_pressure', label: 'MAP', valueKind: 'number' })).status, 400);
+  assert.equal((await post({ key: 'weekly_sleep_average', label: 'Sleep', valueKind: 'number' })).status, 400);
+  assert.deepEqual(await storage.listMetricDefinitions('user-1'), []);
+});
+
+test('does not mistake prototype members for metrics', () => {
+  assert.equal(getDisplayUnit('constructor', {}), null);
+  assert.equal(normalizeUnit('weight', 'constructor'), null);
+  assert.deepEqual(toCanonical('constructor', 5, 'pts'), { value: 5, unit: 'pts', enteredValue: 5, enteredUnit: 'pts' });
+
+  const { trends } = generateHealthInsights([
+    { id: 'r1', type: 'constructor', value: 5, unit: 'pts', timestamp: new Date('2024-03-01T07:30:00Z') },
+    { id: 'r2', type: 'constructor', value: 6, unit: 'pts', timestamp: new Date('2024-03-02T07:30:00Z') }
+  ]);
+  assert.equal(trends.constructor.recordCount, 2);
+});
@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createHealthMetricSchema, healthMetricSchema } = require('../metrics');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const definitions = [
+  ...BUILT_IN_METRIC_DEFINITIONS,
+  { key: 'pain_level', label: 'Pain level', unit: '', valueKind: 'enum', options: ['none', 'mild', 'severe'], builtIn: false },
+  { key: 'spo2', label: 'SpO2', unit: '%', valueKind: 'number', min: 50, max: 100, builtIn: false },
+  {
+    key: 'grip_strength',
+    label: 'Grip strength',
+    unit: 'kg',
+    valueKind: 'pair',
+    parts: [{ key: 'left', label: 'Left' }, { key: 'right', label: 'Right' }],
+    min: 0,
+    builtIn: false
+  },
+  { key: 'mood', label: 'Mood', unit: '', valueKind: 'text', builtIn: false }
+];
+
+const schema = createHealthMetricSchema(definitions);
+
+const errorOf = (metric) => {
+  const { error } = schema.validate(metric);
+  return error && error.details[0].message;
+};
+
+test('only accepts metric types the user has defined', () => {
+  assert.match(healthMetricSchema.validate({ type: 'spo2', value: 97, unit: '%' }).error.message, /"type" must be one of/);
+  assert.equal(errorOf({ type: 'spo2', value: 97, unit: '%' }), undefined);
+});
+
+test('validates values by the kind of metric', () => {
+  assert.equal(schema.validate({ type: 'pain_level', value: 'mild' }).value.value, 'mild');
+  assert.equal(errorOf({ type: 'pain_level', value: 'awful' }), '"value" must be one of [none, mild, severe]');
+  assert.deepEqual(schema.validate({ type: 'grip_strength', value: { left: 30, right: 28 } }).value.value, { left: 30, right: 28 });
+  assert.match(errorOf({ type: 'grip_strength', value: { left: 30 } }), /"value.right" is required/);
+  assert.equal(schema.validate({ type: 'mood', value: ' good day ' }).value.value, 'good day');
+});
+
+test('defaults the unit of user-defined metrics and rejects others', () => {
+  assert.equal(schema.validate({ type: 'spo2', value: 97 }).value.unit, '%');
+  assert.equal(errorOf({ type: 'spo2', value: 97, unit: 'kg' }), '"unit" must be one of [%]');
+  assert.equal(errorOf({ type: 'weight', value: 70 }), '"unit" is required');
+});
+
+test('checks ranges in the unit of the definition', () => {
+  assert.equal(errorOf({ type: 'spo2', value: 101 }), '"value" must be at most 100 %');
+  assert.equal(errorOf({ type: 'grip_strength', value: { left: 30, right: -1 } }), '"value" must be at least 0 kg');
+  assert.equal(errorOf({ type: 'sleep_hours', value: 25, unit: 'hours' }), '"value" must be at most 24 hours');
+  assert.equal(errorOf({ type: 'weight', value: -5, unit: 'lb' }), '"value" must be at least 0 kg');
+});
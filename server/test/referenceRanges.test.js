@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { classifyReading } = require('../referenceRanges');
+const { healthMetricSchema, toStoredMetric } = require('../metrics');
+
+const reading = (type, value, extra = {}) => ({ type, value, timestamp: new Date('2024-03-01T08:00:00Z'), ...extra });
+
+const labelOf = (record, profile) => {
+  const classification = classifyReading(record, profile);
+  return classification && classification.label;
+};
+
+test('classifies blood pressure into the AHA categories', () => {
+  const bp = (systolic, diastolic) => labelOf(reading('blood_pressure', { systolic, diastolic }));
+
+  assert.equal(bp(115, 75), 'Normal');
+  assert.equal(bp(125, 75), 'Elevated');
+  assert.equal(bp(125, 82), 'Stage 1 hypertension');
+  assert.equal(bp(165, 105), 'Stage 2 hypertension');
+  assert.equal(bp(185, 100), 'Hypertensive crisis');
+  assert.equal(bp(85, 55), 'Low');
+});
+
+test('uses the fasting glucose bands only for fasting readings', () => {
+  assert.equal(labelOf(reading('blood_sugar', 110, { mealContext: 'fasting' })), 'Prediabetes range (fasting)');
+  assert.equal(labelOf(reading('blood_sugar', 130, { mealContext: 'fasting' })), 'Diabetes range (fasting)');
+  assert.equal(labelOf(reading('blood_sugar', 130)), 'Normal');
+  assert.equal(labelOf(reading('blood_sugar', 150, { mealContext: 'non_fasting' })), 'Elevated');
+  assert.equal(labelOf(reading('blood_sugar', 50)), 'Very low');
+});
+
+test('applies age-aware bands when the birth year is known', () => {
+  assert.equal(labelOf(reading('heart_rate', 65)), 'Normal');
+  assert.equal(labelOf(reading('heart_rate', 65), { birthYear: 2014 }), 'Low');
+  assert.equal(labelOf(reading('temperature', 37.9)), 'Slightly raised');
+  assert.equal(labelOf(reading('temperature', 37.9), { birthYear: 1950 }), 'Fever');
+  assert.equal(classifyReading(reading('blood_pressure', { systolic: 125, diastolic: 75 }), { birthYear: 2012 }), null);
+});
+
+test('stores the classification with the reading in canonical units', () => {
+  const { value } = healthMetricSchema.validate({ type: 'temperature', value: 102.2, unit: '°F' });
+  const stored = toStoredMetric(value);
+
+  assert.equal(stored.value, 39);
+  assert.deepEqual(stored.classification, { category: 'fever', label: 'Fever', severity: 'high' });
+  assert.equal(toStoredMetric({ type: 'steps', value: 8000, unit: 'steps', timestamp: new Date() }).classification, null);
+});
+
+test('only accepts a meal context for blood sugar', () => {
+  assert.equal(healthMetricSchema.validate({ type: 'blood_sugar', value: 95, unit: 'mg/dL', mealContext: 'fasting' }).error, undefined);
+  assert.match(healthMetricSchema.validate({ type: 'blood_sugar', value: 95, unit: 'mg/dL', mealContext: 'lunch' }).error.message, /must be one of/);
+  assert.match(healthMetricSchema.validate({ type: 'weight', value: 70, unit: 'kg', mealContext: 'fasting' }).error.message, /not allowed/);
+});
@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createDueReminders } = require('../reminders');
+const { BUILT_IN_METRIC_DEFINITIONS } = require('../metricDefinitions');
+
+const options = (now) => ({ definitions: BUILT_IN_METRIC_DEFINITIONS, now: new Date(now) });
+
+const schedule = (extra = {}) => ({
+  id: 'r1',
+  type: 'blood_pressure',
+  times: ['08:00', '20:00'],
+  timeZone: 'UTC',
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+  ...extra
+});
+
+test('reminds once for the latest time the schedule fell due', () => {
+  const [reminder] = createDueReminders([schedule()], [], [], options('2024-03-13T21:15:00Z'));
+
+  assert.equal(reminder.scheduleId, 'r1');
+  assert.equal(reminder.type, 'blood_pressure');
+  assert.equal(reminder.message, 'Time to log your blood pressure');
+  assert.equal(reminder.dueAt.toISOString(), '2024-03-13T20:00:00.000Z');
+
+  const again = createDueReminders([schedule()], [], [reminder], options('2024-03-13T21:30:00Z'));
+  assert.deepEqual(again, []);
+});
+
+test('uses local times of the schedule time zone across daylight saving changes', () => {
+  const london = schedule({ times: ['08:00'], timeZone: 'Europe/London' });
+
+  const winter = createDueReminders([london], [], [], options('2024-03-13T09:00:00Z'));
+  assert.equal(winter[0].dueAt.toISOString(), '2024-03-13T08:00:00.000Z');
+
+  const summer = createDueReminders([london], [], [], options('2024-04-13T09:00:00Z'));
+  assert.equal(summer[0].dueAt.toISOString(), '2024-04-13T07:00:00.000Z');
+
+  // 07:30 in London is still before today's reminder, so yesterday's is the latest
+  const early = createDueReminders([london], [], [], options('2024-04-13T06:30:00Z'));
+  assert.equal(early[0].dueAt.toISOString(), '2024-04-12T07:00:00.000Z');
+});
+
+test('skips days outside the schedule and times before it was created', () => {
+  // 2024-03-13 is a Wednesday and 2024-03-12 a Tuesday
+  const weekends = schedule({ days: [0, 6] });
+  assert.deepEqual(createDueReminders([weekends], [], [], options('2024-03-13T21:00:00Z')), []);
+
+  const createdToday = schedule({ createdAt: new Date('2024-03-13T09:00:00Z') });
+  assert.deepEqual(createDueReminders([createdToday], [], [], options('2024-03-13T10:00:00Z')), []);
+});
+
+test('does not remind when the metric was logged shortly before or since', () => {
+  const reading = (timestamp) => ({
+    id: 'm1',
+    type: 'blood_pressure',
+    value: { systolic: 120, diastolic: 80 },
+    unit: 'mmHg',
+    timestamp: new Date(timestamp)
+  });
+
+  assert.deepEqual(createDueReminders([schedule()], [reading('2024-03-13T19:30:00Z')], [], options('2024-03-13T21:00:00Z')), []);
+  assert.equal(createDueReminders([schedule()], [reading('2024-03-13T12:00:00Z')], [], options('2024-03-13T21:00:00Z')).length, 1);
+});
@@ -0,0 +1,52 @@
+// Calendar arithmetic in IANA time zones, such as the day a reading was taken where the user lives
+
+const LOCAL_FORMATS = new Map();
+
+// Joi custom validator for an IANA time zone name
+const isTimeZone = (value, helpers) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch (error) {
+    return helpers.message('{{#label}} must be an IANA time zone such as "Europe/London"');
+  }
+};
+
+// Calendar date and time of day of an instant in a time zone. `month` counts from 0 like Date.
+function getLocalParts(time, timeZone) {
+  if (!LOCAL_FORMATS.has(timeZone)) {
+    LOCAL_FORMATS.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    }));
+  }
+  const parts = Object.fromEntries(
+    LOCAL_FORMATS.get(timeZone).formatToParts(new Date(time)).map(part => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month - 1, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// The instant a local date and time of day ("HH:MM") happens in a time zone. The zone's offset is
+// taken at a first guess and again at the result, so changes to daylight saving time land right.
+function fromLocalTime({ year, month, day }, time, timeZone) {
+  const [hour, minute] = time.split(':').map(Number);
+  const wanted = Date.UTC(year, month, day, hour, minute);
+  const offsetAt = (instant) => {
+    const local = getLocalParts(instant, timeZone);
+    return Date.UTC(local.year, local.month, local.day, local.hour, local.minute) - instant;
+  };
+
+  const guess = wanted - offsetAt(wanted);
+  return new Date(wanted - offsetAt(guess));
+}
+
+module.exports = {
+  isTimeZone,
+  getLocalParts,
+  fromLocalTime
+};
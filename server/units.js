@@ -0,0 +1,200 @@
+// Unit definitions per metric type. Values are stored in the canonical unit and
+// converted on the way in and out. A unit converts to canonical as
+// (value - offset) * factor. The client converts for display with the same table, in
+// client/src/utils/units.ts; its units.test.ts fails until the two tables match.
+const UNIT_DEFINITIONS = {
+  weight: {
+    canonical: 'kg',
+    units: {
+      kg: { factor: 1, decimals: 1 },
+      lb: { factor: 0.45359237, decimals: 1, aliases: ['lbs', 'pound', 'pounds'] }
+    }
+  },
+  height: {
+    canonical: 'cm',
+    units: {
+      cm: { factor: 1, decimals: 1 },
+      in: { factor: 2.54, decimals: 1, aliases: ['inch', 'inches'] }
+    }
+  },
+  blood_pressure: {
+    canonical: 'mmHg',
+    units: { mmHg: { factor: 1, decimals: 0 } }
+  },
+  heart_rate: {
+    canonical: 'bpm',
+    units: { bpm: { factor: 1, decimals: 0 } }
+  },
+  blood_sugar: {
+    canonical: 'mg/dL',
+    units: {
+      'mg/dL': { factor: 1, decimals: 0 },
+      'mmol/L': { factor: 18, decimals: 1 }
+    }
+  },
+  temperature: {
+    canonical: '°C',
+    units: {
+      '°C': { factor: 1, decimals: 1, aliases: ['C', 'celsius'] },
+      '°F': { factor: 5 / 9, offset: 32, decimals: 1, aliases: ['F', 'fahrenheit'] }
+    }
+  },
+  sleep_hours: {
+    canonical: 'hours',
+    units: { hours: { factor: 1, decimals: 1, aliases: ['h', 'hrs'] } }
+  },
+  steps: {
+    canonical: 'steps',
+    units: { steps: { factor: 1, decimals: 0 } }
+  },
+  water_intake: {
+    canonical: 'L',
+    units: {
+      L: { factor: 1, decimals: 2, aliases: ['liters', 'litres'] },
+      mL: { factor: 0.001, decimals: 0 },
+      'fl oz': { factor: 0.0295735, decimals: 1, aliases: ['oz'] }
+    }
+  },
+  exercise_minutes: {
+    canonical: 'minutes',
+    units: { minutes: { factor: 1, decimals: 0, aliases: ['min', 'mins'] } }
+  }
+};
+
+// Unit definition of a metric type; metrics of the user's own have none. Own properties only,
+// so a type such as "constructor" is not mistaken for one.
+const getUnitDefinition = (type) => (Object.hasOwn(UNIT_DEFINITIONS, type) ? UNIT_DEFINITIONS[type] : null);
+
+const getUnitSpec = (definition, unit) => (definition && Object.hasOwn(definition.units, unit) ? definition.units[unit] : null);
+
+function getUnitOptions(type) {
+  const definition = getUnitDefinition(type);
+  return definition ? Object.keys(definition.units) : [];
+}
+
+function getCanonicalUnit(type) {
+  const definition = getUnitDefinition(type);
+  return definition ? definition.canonical : null;
+}
+
+// Resolves a user-supplied unit ("lbs", "F", "ml") to its defined name, or null if unknown
+function normalizeUnit(type, unit) {
+  const definition = getUnitDefinition(type);
+  if (!definition || typeof unit !== 'string') return null;
+
+  const wanted = unit.trim().toLowerCase();
+  const match = Object.entries(definition.units).find(([name, spec]) =>
+    [name, ...(spec.aliases || [])].some(candidate => candidate.toLowerCase() === wanted)
+  );
+  return match ? match[0] : null;
+}
+
+function convertValue(type, value, fromUnit, toUnit) {
+  const definition = getUnitDefinition(type);
+  const from = getUnitSpec(definition, fromUnit);
+  const to = getUnitSpec(definition, toUnit);
+  if (!from || !to) {
+    throw new Error(`Cannot convert ${type} from ${fromUnit} to ${toUnit}`);
+  }
+
+  const canonical = (value - (from.offset || 0)) * from.factor;
+  return canonical / to.factor + (to.offset || 0);
+}
+
+// Stored form of a measurement: numeric values move to the canonical unit, and the
+// value and unit as entered are kept so the record can be shown back unchanged.
+// Values that are not numeric or use an unknown unit are kept as they are.
+function toCanonical(type, value, unit) {
+  const canonicalUnit = getCanonicalUnit(type);
+  const enteredUnit = normalizeUnit(type, unit);
+  const numeric = typeof value === 'number' ? value : parseFloat(value);
+
+  if (typeof value === 'object' || isNaN(numeric) || !enteredUnit) {
+    return { value, unit: enteredUnit || unit, enteredValue: value, enteredUnit: enteredUnit || unit };
+  }
+
+  return {
+    value: Number(convertValue(type, numeric, enteredUnit, canonicalUnit).toFixed(4)),
+    unit: canonicalUnit,
+    enteredValue: numeric,
+    enteredUnit
+  };
+}
+
+function roundForUnit(type, value, unit) {
+  const spec = getUnitSpec(getUnitDefinition(type), unit);
+  const decimals = spec ? spec.decimals : 2;
+  return Number(value.toFixed(decimals));
+}
+
+// The unit a user wants to see a metric in, falling back to the canonical unit
+function getDisplayUnit(type, displayUnits = {}) {
+  const preferred = Object.hasOwn(displayUnits, type) ? displayUnits[type] : undefined;
+  return getUnitOptions(type).includes(preferred) ? preferred : getCanonicalUnit(type);
+}
+
+// Numeric value of a stored record in the requested unit, or null when the record
+// is not numeric or was stored with a unit that cannot be converted
+function getValueInUnit(record, unit) {
+  if (record.enteredUnit === unit && typeof record.enteredValue === 'number') {
+    return record.enteredValue;
+  }
+
+  const value = typeof record.value === 'number' ? record.value : parseFloat(record.value);
+  const storedUnit = normalizeUnit(record.type, record.unit);
+  if (isNaN(value) || !storedUnit) return null;
+
+  return convertValue(record.type, value, storedUnit, unit);
+}
+
+// Numeric value of a record of any metric: converted to `unit` for built-in metrics,
+// as stored for the user's own. Null when the record holds no single number.
+function getNumberInUnit(record, unit) {
+  if (getUnitOptions(record.type).length > 0) {
+    return getValueInUnit(record, unit);
+  }
+  return typeof record.value === 'number' ? record.value : null;
+}
+
+// The unit a number given for a metric is kept in: any supported unit of a built-in metric
+// (its canonical unit when omitted) or the unit of the user's own metric.
+// Returns { unit } or { error }.
+function resolveMetricUnit(definition, unit) {
+  const unitOptions = getUnitOptions(definition.key);
+  if (unitOptions.length > 0) {
+    const resolved = unit === undefined ? getCanonicalUnit(definition.key) : normalizeUnit(definition.key, unit);
+    return resolved ? { unit: resolved } : { error: `"unit" must be one of [${unitOptions.join(', ')}]` };
+  }
+  if (unit !== undefined && unit !== definition.unit) {
+    return { error: `"unit" must be one of [${definition.unit}]` };
+  }
+  return { unit: definition.unit };
+}
+
+function formatMetric(record, displayUnits = {}) {
+  const unit = getDisplayUnit(record.type, displayUnits);
+  const value = unit ? getValueInUnit(record, unit) : null;
+  if (value === null) {
+    // Metrics of the user's own: pairs read "30/28", and enum or text values may have no unit
+    const raw = record.value && typeof record.value === 'object'
+      ? Object.values(record.value).join('/')
+      : record.value;
+    return record.unit ? `${raw} ${record.unit}` : String(raw);
+  }
+  return `${roundForUnit(record.type, value, unit)} ${unit}`;
+}
+
+module.exports = {
+  UNIT_DEFINITIONS,
+  getUnitOptions,
+  getCanonicalUnit,
+  normalizeUnit,
+  convertValue,
+  toCanonical,
+  roundForUnit,
+  getDisplayUnit,
+  getValueInUnit,
+  getNumberInUnit,
+  resolveMetricUnit,
+  formatMetric
+};